@@ -0,0 +1,60 @@
+/**
+ * Headless simulation runner — advances a seed for N turns without PixiJS
+ * and prints per-turn statistics.
+ *
+ *   npm run simulate -- [seed] [turns] [--preset=<id>] [--json] [--verbose]
+ */
+import { Simulation, TurnStats } from "../src/game/Simulation";
+import { getWorldPreset } from "../src/world/WorldPresets";
+
+declare const process: { argv: string[] };
+
+const args = process.argv.slice(2);
+const positional = args.filter((arg) => !arg.startsWith("--"));
+const seed = positional[0] ?? "unwritten";
+const turns = Number(positional[1] ?? 100);
+const json = args.includes("--json");
+const verbose = args.includes("--verbose");
+const presetId = args.find((arg) => arg.startsWith("--preset="))?.slice("--preset=".length);
+const preset = getWorldPreset(presetId);
+if (presetId && !preset) console.warn(`[Simulate] Unknown preset "${presetId}", using the default world`);
+
+// The simulation logs every settlement every turn — silence it unless asked
+const log = console.log.bind(console);
+if (!verbose) console.log = () => {};
+
+/** Buildings constructed by settlements so far. */
+let constructed = 0;
+
+/** Traders robbed by bandits so far. */
+let robbed = 0;
+
+/** One summary line per turn. */
+function formatTurn(stats: TurnStats): string {
+  const cities = stats.settlements.filter((s) => s.type === "city").length;
+  constructed += stats.settlements.filter((s) => s.constructionCompleted).length;
+  robbed += stats.robberies;
+  const food = stats.settlements.reduce((sum, s) => sum + s.food, 0);
+  return [
+    `turn ${String(stats.turn).padStart(4)}`,
+    `Y${stats.date.year} ${stats.date.season.padEnd(6)} ${String(stats.date.dayOfSeason).padStart(2)}${stats.storm ? "*" : " "}`,
+    `pop ${String(stats.totalPopulation).padStart(5)}`,
+    `gold ${String(Math.round(stats.totalTreasury)).padStart(7)}`,
+    `food ${String(Math.round(food)).padStart(6)}`,
+    `traders ${String(stats.activeTraders).padStart(3)}`,
+    `cities ${cities}`,
+    `built ${constructed}`,
+    `robbed ${robbed}`,
+  ].join("  ");
+}
+
+const simulation = new Simulation({ ...preset?.config, seed });
+simulation.initialize();
+
+if (!json) log(`[Simulate] Seed "${seed}"${preset ? ` (${preset.name})` : ""}, ${simulation.worldMap.settlements.length} settlements, ${simulation.banditSystem.getCamps().length} bandit camps, ${turns} turns`);
+
+const history = simulation.run(turns, (stats) => {
+  if (!json) log(formatTurn(stats));
+});
+
+if (json) log(JSON.stringify({ seed, preset: preset?.id, turns: history }));
@@ -0,0 +1,64 @@
+import { MaterialType, getMaterialWeight } from "../world/ProductionRecipe";
+
+/**
+ * Serializable snapshot of a cargo hold (used by save games).
+ */
+export interface CargoSaveState {
+  materials: Array<[MaterialType, number]>;
+}
+
+/**
+ * Bulk goods and resources carried by the character.
+ * The weight limit is enforced by the carrier (see Character.canCarry).
+ */
+export class Cargo {
+  /** Units carried per material. */
+  private materials: Map<MaterialType, number> = new Map();
+
+  /** Units carried of a material. */
+  getAmount(material: MaterialType): number {
+    return this.materials.get(material) || 0;
+  }
+
+  /** All carried materials with their amounts. */
+  getAll(): Array<{ material: MaterialType; amount: number }> {
+    return Array.from(this.materials.entries()).map(([material, amount]) => ({ material, amount }));
+  }
+
+  /** Total weight currently carried. */
+  getWeight(): number {
+    let weight = 0;
+    for (const [material, amount] of this.materials) {
+      weight += getMaterialWeight(material) * amount;
+    }
+    return weight;
+  }
+
+  /** Add units. */
+  add(material: MaterialType, amount: number): void {
+    this.materials.set(material, this.getAmount(material) + amount);
+  }
+
+  /** Remove units. Returns false (and removes nothing) if not enough are carried. */
+  remove(material: MaterialType, amount: number): boolean {
+    const current = this.getAmount(material);
+    if (current < amount) return false;
+
+    if (current === amount) {
+      this.materials.delete(material);
+    } else {
+      this.materials.set(material, current - amount);
+    }
+    return true;
+  }
+
+  /** Capture carried materials for saving. */
+  serialize(): CargoSaveState {
+    return { materials: Array.from(this.materials.entries()) };
+  }
+
+  /** Replace carried materials with a saved snapshot. */
+  restore(state: CargoSaveState): void {
+    this.materials = new Map(state.materials);
+  }
+}
@@ -1,10 +1,39 @@
 import { HexTile } from "../world/HexTile";
-import { getAPCost, isWater, isPierOrDock } from "../world/Terrain";
+import { getAPCost, getLoadPenalty, isWater, isPierOrDock } from "../world/Terrain";
+import { getBiomeAPCost } from "../world/Biome";
+import { getRiverAPCost } from "../world/River";
 import { WorldMap } from "../world/WorldMap";
 import { hexIsoCenter } from "../rendering/Isometric";
-import { Inventory } from "./Item";
+import { EquipmentSlot, Inventory, InventorySaveState, getEquipmentSlot } from "./Item";
+import { Cargo, CargoSaveState } from "./Cargo";
+import { MaterialType, getMaterialWeight } from "../world/ProductionRecipe";
+import { BASE_STATS, CharacterStats, computeStats } from "./CharacterStats";
 
-export const MAX_AP = 4;
+/** Gold the character starts with. */
+export const STARTING_GOLD = 100;
+
+/** Health of an unhurt character. */
+export const MAX_HEALTH = 20;
+
+/** Health recovered each turn on the road. */
+const HEALTH_REGEN = 1;
+
+/** Health recovered each turn resting in a settlement. */
+const SETTLEMENT_HEALTH_REGEN = 5;
+
+/**
+ * Serializable snapshot of the player character (used by save games).
+ */
+export interface CharacterSaveState {
+  tile: { col: number; row: number };
+  ap: number;
+  turn: number;
+  embarked: boolean;
+  inventory: InventorySaveState;
+  gold: number;
+  cargo: CargoSaveState;
+  health: number;
+}
 
 /**
  * The player character that moves on the hex grid using action points.
@@ -14,7 +43,7 @@ export class Character {
   currentTile: HexTile;
 
   /** Action points remaining this turn. */
-  ap: number = MAX_AP;
+  ap: number = BASE_STATS.maxAP;
 
   /** Total turns elapsed. */
   turn: number = 1;
@@ -25,6 +54,18 @@ export class Character {
   /** Character's inventory and equipment. */
   readonly inventory: Inventory;
 
+  /** Gold purse (for trading). */
+  gold: number = STARTING_GOLD;
+
+  /** Health (0 = defeated). */
+  health: number = MAX_HEALTH;
+
+  /** Bulk goods and resources bought from markets (limited by weight). */
+  readonly cargo: Cargo;
+
+  /** Stats derived from equipment (recomputed when equipment changes). */
+  private stats: CharacterStats = { ...BASE_STATS };
+
   /** Callback fired when a new turn starts. */
   onNewTurn?: (turn: number) => void;
 
@@ -40,9 +81,51 @@ export class Character {
   /** Callback fired when the character disembarks from a boat. */
   onDisembark?: () => void;
 
+  /** Callback fired when equipment changed the derived stats. */
+  onStatsChange?: (stats: CharacterStats) => void;
+
+  /** Callback fired when health changes. */
+  onHealthChange?: (health: number) => void;
+
   constructor(startTile: HexTile) {
     this.currentTile = startTile;
     this.inventory = new Inventory();
+    this.cargo = new Cargo();
+    this.updateStats();
+  }
+
+  /** Current derived stats. */
+  getStats(): CharacterStats {
+    return { ...this.stats };
+  }
+
+  /** Action points restored each turn. */
+  get maxAP(): number {
+    return this.stats.maxAP;
+  }
+
+  /** Fog of war reveal radius in hexes. */
+  get visionRadius(): number {
+    return this.stats.visionRadius;
+  }
+
+  /** Maximum total carried weight. */
+  get carryCapacity(): number {
+    return this.stats.carryCapacity;
+  }
+
+  /** Equip an item from the backpack and update stats. */
+  equip(itemId: string): boolean {
+    if (!this.inventory.equipItem(itemId)) return false;
+    this.updateStats();
+    return true;
+  }
+
+  /** Move an equipped item to the backpack and update stats. */
+  unequip(slot: EquipmentSlot): boolean {
+    if (!this.inventory.unequipItem(slot)) return false;
+    this.updateStats();
+    return true;
   }
 
   /**
@@ -91,6 +174,9 @@ export class Character {
       this.currentTile.terrain,
       target.terrain,
       this.embarked, // Pass embarked state for water movement cost
+      this.getLoadPenalty(),
+      getBiomeAPCost(target.biome, target.hasRoad),
+      getRiverAPCost(target),
     );
     if (cost > this.ap) return false;
 
@@ -119,18 +205,153 @@ export class Character {
     return true;
   }
 
+  /** Spend AP on an action other than moving (e.g. a combat action). */
+  spendAP(amount: number): boolean {
+    if (amount > this.ap) return false;
+    this.ap -= amount;
+    this.onAPChange?.(this.ap);
+    return true;
+  }
+
+  /** Lose health (never below 0). */
+  takeDamage(amount: number): void {
+    this.health = Math.max(0, this.health - amount);
+    this.onHealthChange?.(this.health);
+  }
+
+  /** Recover health (never above the maximum). */
+  heal(amount: number): void {
+    this.health = Math.min(MAX_HEALTH, this.health + amount);
+    this.onHealthChange?.(this.health);
+  }
+
+  /** Place the character on a tile without walking there (e.g. after a defeat). */
+  relocate(tile: HexTile): void {
+    if (this.embarked) {
+      this.embarked = false;
+      this.onDisembark?.();
+    }
+    this.currentTile = tile;
+    this.onMove?.(tile);
+  }
+
   /** Manually end the current turn (e.g. spacebar). */
   endTurn(): void {
     console.log(`[Character] endTurn() called - turn ${this.turn} -> ${this.turn + 1}`);
     this.turn++;
-    this.ap = MAX_AP;
+    this.ap = this.stats.maxAP;
     this.onAPChange?.(this.ap);
+    if (this.health < MAX_HEALTH) {
+      this.heal(this.currentTile.settlementId !== undefined ? SETTLEMENT_HEALTH_REGEN : HEALTH_REGEN);
+    }
     console.log(`[Character] Calling onNewTurn callback (exists: ${!!this.onNewTurn})`);
     this.onNewTurn?.(this.turn);
   }
 
+  /** Total weight of cargo, backpack and equipment. */
+  getCarriedWeight(): number {
+    return this.cargo.getWeight() + this.inventory.getWeight();
+  }
+
+  /** Weight that can still be picked up. */
+  getFreeWeight(): number {
+    return Math.max(0, this.carryCapacity - this.getCarriedWeight());
+  }
+
+  /** Extra AP per land step while the load is heavy. */
+  getLoadPenalty(): number {
+    return getLoadPenalty(this.getCarriedWeight(), this.carryCapacity);
+  }
+
+  /** Units of a material carried (cargo plus backpack items). */
+  getCarriedAmount(material: MaterialType): number {
+    return this.cargo.getAmount(material) + this.inventory.countItems(material);
+  }
+
+  /**
+   * Can the character pick up this many units?
+   * Equippable goods go to the backpack (needs free slots), everything else to cargo.
+   */
+  canCarry(material: MaterialType, amount: number): boolean {
+    if (getMaterialWeight(material) * amount > this.getFreeWeight()) return false;
+    return !getEquipmentSlot(material) || this.inventory.hasFreeSlots(amount);
+  }
+
+  /** Pick up units of a material. Returns false (and adds nothing) if they can't be carried. */
+  addCarried(material: MaterialType, amount: number): boolean {
+    if (!this.canCarry(material, amount)) return false;
+
+    if (getEquipmentSlot(material)) {
+      for (let i = 0; i < amount; i++) this.inventory.addNew(material);
+    } else {
+      this.cargo.add(material, amount);
+    }
+    return true;
+  }
+
+  /** Drop units of a material (cargo first, then backpack). Returns false if too few are carried. */
+  removeCarried(material: MaterialType, amount: number): boolean {
+    if (this.getCarriedAmount(material) < amount) return false;
+
+    const fromCargo = Math.min(amount, this.cargo.getAmount(material));
+    this.cargo.remove(material, fromCargo);
+    return this.inventory.removeByType(material, amount - fromCargo);
+  }
+
+  /** Capture position, turn state, inventory, purse, cargo and health for saving. */
+  serialize(): CharacterSaveState {
+    return {
+      tile: { col: this.currentTile.col, row: this.currentTile.row },
+      ap: this.ap,
+      turn: this.turn,
+      embarked: this.embarked,
+      inventory: this.inventory.serialize(),
+      gold: this.gold,
+      cargo: this.cargo.serialize(),
+      health: this.health,
+    };
+  }
+
+  /**
+   * Replace the character state with a saved snapshot.
+   * Does not fire movement or turn callbacks — the caller refreshes the view.
+   */
+  restore(state: CharacterSaveState, worldMap: WorldMap): void {
+    const tile = worldMap.getTile(state.tile);
+    if (!tile) {
+      throw new Error(`Saved character tile ${state.tile.col},${state.tile.row} is outside the map`);
+    }
+    this.currentTile = tile;
+    this.ap = state.ap;
+    this.turn = state.turn;
+    this.embarked = state.embarked;
+    this.inventory.restore(state.inventory);
+    this.gold = state.gold;
+    this.cargo.restore(state.cargo);
+    this.health = state.health;
+    this.stats = computeStats(this.getEquippedTypes());
+  }
+
   /** Get the isometric pixel position of the character (center of current tile). */
   getWorldPosition(): { x: number; y: number } {
     return hexIsoCenter(this.currentTile);
   }
+
+  /** Material types of all equipped items. */
+  private getEquippedTypes(): MaterialType[] {
+    return Array.from(this.inventory.getAllEquipment().values()).map((item) => item.type);
+  }
+
+  /**
+   * Recompute stats from equipment.
+   * Remaining AP is capped at the new maximum (extra AP arrives next turn).
+   */
+  private updateStats(): void {
+    this.stats = computeStats(this.getEquippedTypes());
+    if (this.ap > this.stats.maxAP) {
+      this.ap = this.stats.maxAP;
+      this.onAPChange?.(this.ap);
+    }
+    this.onStatsChange?.(this.getStats());
+  }
 }
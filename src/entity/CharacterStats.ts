@@ -0,0 +1,104 @@
+import { GoodType } from "../world/Goods";
+import { MaterialType } from "../world/ProductionRecipe";
+
+/**
+ * Character stats derived from base values plus equipped items.
+ */
+export interface CharacterStats {
+  maxAP: number; // Action points restored each turn
+  visionRadius: number; // Fog of war reveal radius (hexes)
+  carryCapacity: number; // Total weight of cargo, backpack and equipment
+  defense: number;
+  attack: number;
+}
+
+/**
+ * Additive changes an equipped item makes to the character's stats.
+ */
+export type StatModifiers = Partial<CharacterStats>;
+
+/**
+ * Stats of an unequipped character.
+ */
+export const BASE_STATS: CharacterStats = {
+  maxAP: 4,
+  visionRadius: 5.33,
+  carryCapacity: 60,
+  defense: 0,
+  attack: 1,
+};
+
+/**
+ * Lowest values equipment can push a stat down to.
+ */
+const MIN_STATS: CharacterStats = {
+  maxAP: 1,
+  visionRadius: 1,
+  carryCapacity: 0,
+  defense: 0,
+  attack: 0,
+};
+
+/**
+ * Stat modifiers per equippable good.
+ */
+export const EQUIPMENT_MODIFIERS: Partial<Record<GoodType, StatModifiers>> = {
+  [GoodType.CopperSword]: { attack: 3 },
+  [GoodType.IronSword]: { attack: 5 },
+  [GoodType.SteelSword]: { attack: 8 },
+  [GoodType.CopperTools]: { carryCapacity: 10 }, // Straps, rope and a pack frame
+  [GoodType.IronTools]: { carryCapacity: 20 },
+  [GoodType.LeatherArmor]: { defense: 2 },
+  [GoodType.IronArmor]: { defense: 5, maxAP: -1, visionRadius: -1 }, // Heavy and cumbersome
+  [GoodType.Jewelry]: { visionRadius: 1 }, // A polished lens set in silver
+};
+
+/**
+ * Display labels for stats (in display order).
+ */
+export const STAT_LABELS: Record<keyof CharacterStats, string> = {
+  maxAP: "Max AP",
+  visionRadius: "Vision",
+  carryCapacity: "Carry",
+  defense: "Defense",
+  attack: "Attack",
+};
+
+/**
+ * Stat modifiers of a material (undefined if it has none).
+ */
+export function getStatModifiers(type: MaterialType): StatModifiers | undefined {
+  return EQUIPMENT_MODIFIERS[type as GoodType];
+}
+
+/**
+ * Compute stats from base values plus the modifiers of equipped materials.
+ */
+export function computeStats(equipped: Iterable<MaterialType>): CharacterStats {
+  const stats = { ...BASE_STATS };
+
+  for (const type of equipped) {
+    const modifiers = getStatModifiers(type);
+    if (!modifiers) continue;
+    for (const stat of Object.keys(modifiers) as Array<keyof CharacterStats>) {
+      stats[stat] += modifiers[stat] ?? 0;
+    }
+  }
+
+  for (const stat of Object.keys(stats) as Array<keyof CharacterStats>) {
+    stats[stat] = Math.max(MIN_STATS[stat], stats[stat]);
+  }
+  return stats;
+}
+
+/**
+ * Short description of modifiers, e.g. "+5 Attack, -1 Max AP".
+ */
+export function formatStatModifiers(modifiers: StatModifiers): string {
+  return (Object.keys(modifiers) as Array<keyof CharacterStats>)
+    .map((stat) => {
+      const value = modifiers[stat] ?? 0;
+      return `${value > 0 ? "+" : ""}${value} ${STAT_LABELS[stat]}`;
+    })
+    .join(", ");
+}
@@ -1,3 +1,7 @@
+import { GoodType } from "../world/Goods";
+import { MaterialType, MaterialInfo, getMaterialInfo, isGood } from "../world/ProductionRecipe";
+import { StatModifiers, getStatModifiers } from "./CharacterStats";
+
 /**
  * Types of equipment slots available on the character.
  */
@@ -11,14 +15,55 @@ export type EquipmentSlot =
   | "shoes";
 
 /**
- * Base item interface.
+ * Where each equippable good category is worn.
  */
-export interface Item {
+const EQUIPMENT_SLOT_BY_CATEGORY: Partial<Record<MaterialInfo["category"], EquipmentSlot>> = {
+  weapon: "rightHand",
+  tool: "leftHand",
+  armor: "chest",
+};
+
+/**
+ * Base item interface — a single unit of a good or resource.
+ * Name, description, category, value and weight come from GOOD_CONFIG / RESOURCE_CONFIG.
+ */
+export interface Item extends MaterialInfo {
   id: string;
-  name: string;
-  description: string;
+  type: MaterialType;
   icon?: string; // Could be used for sprite/texture later
   equipmentSlot?: EquipmentSlot; // If undefined, item cannot be equipped
+  modifiers?: StatModifiers; // Stat changes while equipped
+}
+
+/**
+ * Slot a material is equipped in (undefined if it can't be equipped).
+ */
+export function getEquipmentSlot(type: MaterialType): EquipmentSlot | undefined {
+  if (!isGood(type)) return undefined;
+  if (type === GoodType.Jewelry) return "jewelry";
+  return EQUIPMENT_SLOT_BY_CATEGORY[getMaterialInfo(type).category];
+}
+
+/**
+ * Create an item for one unit of a material.
+ */
+export function createItem(type: MaterialType, id: string): Item {
+  return {
+    id,
+    type,
+    ...getMaterialInfo(type),
+    equipmentSlot: getEquipmentSlot(type),
+    modifiers: getStatModifiers(type),
+  };
+}
+
+/**
+ * Serializable snapshot of an inventory (used by save games).
+ * Only material types are stored — item details are rebuilt from config.
+ */
+export interface InventorySaveState {
+  items: MaterialType[];
+  equipment: Array<[EquipmentSlot, MaterialType]>;
 }
 
 /**
@@ -34,41 +79,17 @@ export class Inventory {
   /** Max number of items in backpack. */
   readonly maxItems: number = 20;
 
+  /** Counter for unique item IDs. */
+  private nextItemId: number = 1;
+
   constructor() {
-    // Initialize with some test items
-    this.items = [
-      {
-        id: "potion1",
-        name: "Health Potion",
-        description: "Restores 50 HP",
-      },
-      {
-        id: "bread1",
-        name: "Bread",
-        description: "A simple loaf of bread",
-      },
-      {
-        id: "sword1",
-        name: "Iron Sword",
-        description: "A well-crafted iron blade",
-        equipmentSlot: "rightHand",
-      },
-    ];
+    // Starting kit
+    this.addNew(GoodType.Bread);
+    this.addNew(GoodType.Bread);
+    this.addNew(GoodType.IronSword);
 
     // Start with some equipped items
-    this.equipment.set("chest", {
-      id: "armor1",
-      name: "Leather Armor",
-      description: "Light but protective",
-      equipmentSlot: "chest",
-    });
-
-    this.equipment.set("shoes", {
-      id: "boots1",
-      name: "Worn Boots",
-      description: "Comfortable walking boots",
-      equipmentSlot: "shoes",
-    });
+    this.equipment.set("chest", this.create(GoodType.LeatherArmor));
   }
 
   /** Get all items in backpack. */
@@ -86,6 +107,24 @@ export class Inventory {
     return new Map(this.equipment);
   }
 
+  /** Is there room in the backpack? */
+  hasFreeSlots(count: number = 1): boolean {
+    return this.items.length + count <= this.maxItems;
+  }
+
+  /** Number of backpack items of a material (equipped items not included). */
+  countItems(type: MaterialType): number {
+    return this.items.filter((item) => item.type === type).length;
+  }
+
+  /** Total weight of backpack and equipped items. */
+  getWeight(): number {
+    let weight = 0;
+    for (const item of this.items) weight += item.weight;
+    for (const item of this.equipment.values()) weight += item.weight;
+    return weight;
+  }
+
   /** Add item to inventory. Returns false if inventory is full. */
   addItem(item: Item): boolean {
     if (this.items.length >= this.maxItems) {
@@ -95,6 +134,12 @@ export class Inventory {
     return true;
   }
 
+  /** Create and add a new unit of a material. Returns false if inventory is full. */
+  addNew(type: MaterialType): boolean {
+    if (!this.hasFreeSlots()) return false;
+    return this.addItem(this.create(type));
+  }
+
   /** Remove item from inventory by ID. */
   removeItem(itemId: string): Item | undefined {
     const index = this.items.findIndex((item) => item.id === itemId);
@@ -104,6 +149,16 @@ export class Inventory {
     return removed;
   }
 
+  /** Remove backpack items of a material. Returns false (and removes nothing) if too few. */
+  removeByType(type: MaterialType, count: number): boolean {
+    if (this.countItems(type) < count) return false;
+    for (let i = 0; i < count; i++) {
+      const item = this.items.find((it) => it.type === type);
+      if (item) this.removeItem(item.id);
+    }
+    return true;
+  }
+
   /** Equip an item from inventory. */
   equipItem(itemId: string): boolean {
     const item = this.items.find((i) => i.id === itemId);
@@ -131,4 +186,28 @@ export class Inventory {
     this.equipment.delete(slot);
     return true;
   }
+
+  /** Capture backpack and equipment for saving. */
+  serialize(): InventorySaveState {
+    return {
+      items: this.items.map((item) => item.type),
+      equipment: Array.from(this.equipment.entries()).map(
+        ([slot, item]) => [slot, item.type] as [EquipmentSlot, MaterialType],
+      ),
+    };
+  }
+
+  /** Replace backpack and equipment with a saved snapshot. */
+  restore(state: InventorySaveState): void {
+    this.nextItemId = 1;
+    this.items = state.items.map((type) => this.create(type));
+    this.equipment = new Map(
+      state.equipment.map(([slot, type]) => [slot, this.create(type)]),
+    );
+  }
+
+  /** Create an item with a fresh ID. */
+  private create(type: MaterialType): Item {
+    return createItem(type, `${type}_${this.nextItemId++}`);
+  }
 }
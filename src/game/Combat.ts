@@ -0,0 +1,288 @@
+import { Character, MAX_HEALTH } from "../entity/Character";
+import { HexTile } from "../world/HexTile";
+import { WorldMap } from "../world/WorldMap";
+import { isWater } from "../world/Terrain";
+import { ResourceType } from "../world/Resource";
+import { GoodType } from "../world/Goods";
+import { MaterialType, getMaterialName } from "../world/ProductionRecipe";
+import { SeededRandom } from "../utils/random";
+
+/**
+ * Hostile encounters the character can run into
+ */
+export enum EnemyType {
+  Wolves = "wolves",
+  Bandits = "bandits",
+}
+
+/**
+ * Loot an enemy may drop
+ */
+export interface LootEntry {
+  material: MaterialType;
+  min: number;
+  max: number;
+  chance: number; // 0-1
+}
+
+/**
+ * Configuration for each enemy type
+ */
+export interface EnemyConfig {
+  name: string;
+  health: number;
+  attack: number;
+  defense: number;
+  /** Chance a flee attempt succeeds */
+  fleeChance: number;
+  /** Gold carried (min-max) */
+  gold: [number, number];
+  loot: LootEntry[];
+}
+
+/**
+ * Enemy configuration database
+ */
+export const ENEMY_CONFIG: Record<EnemyType, EnemyConfig> = {
+  [EnemyType.Wolves]: {
+    name: "Wolf Pack",
+    health: 6,
+    attack: 2,
+    defense: 0,
+    fleeChance: 0.4, // Wolves are fast
+    gold: [0, 0],
+    loot: [
+      { material: ResourceType.WildGame, min: 1, max: 3, chance: 1 },
+    ],
+  },
+  [EnemyType.Bandits]: {
+    name: "Bandits",
+    health: 10,
+    attack: 3,
+    defense: 1,
+    fleeChance: 0.6,
+    gold: [10, 30],
+    loot: [
+      { material: GoodType.CopperSword, min: 1, max: 1, chance: 0.25 },
+      { material: GoodType.LeatherArmor, min: 1, max: 1, chance: 0.15 },
+    ],
+  },
+};
+
+/**
+ * Actions the character can take in a combat round
+ */
+export type CombatAction = "attack" | "defend" | "flee";
+
+/**
+ * AP cost of each combat action
+ */
+export const COMBAT_ACTION_AP: Record<CombatAction, number> = {
+  attack: 1,
+  defend: 1,
+  flee: 2,
+};
+
+/**
+ * State of a fight
+ */
+export type CombatOutcome = "ongoing" | "victory" | "defeat" | "fled";
+
+/** Chance of wolves per dense forest tile entered. */
+const WOLF_CHANCE = 0.1;
+
+/** Tree density at which wolves roam. */
+const WOLF_FOREST_DENSITY = 0.6;
+
+/** Chance of an ambush per road tile entered, times the tile's bandit danger. */
+const AMBUSH_CHANCE = 0.5;
+
+/** Bandits defending their camp are tougher. */
+const CAMP_HEALTH_MULTIPLIER = 1.5;
+const CAMP_ATTACK_BONUS = 2;
+
+/** Defense added while defending (on top of doubling armor). */
+const DEFEND_BONUS = 2;
+
+/** Share of the purse lost on defeat. */
+const DEFEAT_GOLD_LOSS = 0.5;
+
+/**
+ * Roll for a hostile encounter on a tile the character just entered
+ *
+ * @param danger - Bandit danger of the tile (0-1)
+ * @param atCamp - The tile holds a bandit camp (always hostile)
+ */
+export function rollEncounter(
+  tile: HexTile,
+  danger: number,
+  atCamp: boolean,
+  rng: SeededRandom
+): EnemyType | null {
+  if (tile.settlementId !== undefined || isWater(tile.terrain)) return null;
+  if (atCamp) return EnemyType.Bandits;
+  if (tile.hasRoad && rng.chance(danger * AMBUSH_CHANCE)) return EnemyType.Bandits;
+  if (tile.treeDensity >= WOLF_FOREST_DENSITY && rng.chance(WOLF_CHANCE)) return EnemyType.Wolves;
+  return null;
+}
+
+/**
+ * Damage of one blow (at least 1)
+ */
+function rollDamage(attack: number, defense: number, rng: SeededRandom): number {
+  return Math.max(1, attack + rng.int(attack + 1) - defense);
+}
+
+/**
+ * A turn-based fight between the character and an enemy.
+ * Each action costs AP; the enemy strikes back after every action
+ * unless it was beaten or the character escaped.
+ */
+export class Combat {
+  readonly enemy: EnemyType;
+  readonly config: EnemyConfig;
+  readonly atCamp: boolean;
+  readonly enemyMaxHealth: number;
+  enemyHealth: number;
+  outcome: CombatOutcome = "ongoing";
+
+  /** Round-by-round report (newest last). */
+  readonly log: string[] = [];
+
+  private character: Character;
+  private rng: SeededRandom;
+  private enemyAttack: number;
+
+  constructor(character: Character, enemy: EnemyType, atCamp: boolean, rng: SeededRandom) {
+    this.character = character;
+    this.enemy = enemy;
+    this.config = ENEMY_CONFIG[enemy];
+    this.atCamp = atCamp;
+    this.rng = rng;
+
+    this.enemyMaxHealth = Math.round(this.config.health * (atCamp ? CAMP_HEALTH_MULTIPLIER : 1));
+    this.enemyHealth = this.enemyMaxHealth;
+    this.enemyAttack = this.config.attack + (atCamp ? CAMP_ATTACK_BONUS : 0);
+
+    this.log.push(atCamp ? `You storm the bandit camp!` : `${this.config.name} attack!`);
+  }
+
+  /**
+   * Check if an action is possible (fight still on, enough AP)
+   */
+  canAct(action: CombatAction): boolean {
+    return this.outcome === "ongoing" && this.character.ap >= COMBAT_ACTION_AP[action];
+  }
+
+  /**
+   * Check if the character is too exhausted for any action this turn
+   */
+  isExhausted(): boolean {
+    return this.outcome === "ongoing" &&
+      (Object.keys(COMBAT_ACTION_AP) as CombatAction[]).every(action => !this.canAct(action));
+  }
+
+  /**
+   * Take one combat action (spends its AP)
+   */
+  act(action: CombatAction): void {
+    if (!this.canAct(action)) return;
+    this.character.spendAP(COMBAT_ACTION_AP[action]);
+
+    const stats = this.character.getStats();
+    let defense = stats.defense;
+
+    switch (action) {
+      case "attack": {
+        const damage = rollDamage(stats.attack, this.config.defense, this.rng);
+        this.enemyHealth = Math.max(0, this.enemyHealth - damage);
+        this.log.push(`You hit the ${this.config.name.toLowerCase()} for ${damage}.`);
+        if (this.enemyHealth === 0) {
+          this.outcome = "victory";
+          this.log.push(`The ${this.config.name.toLowerCase()} ${this.enemy === EnemyType.Wolves ? "are slain" : "are beaten"}!`);
+          const loot = this.collectLoot();
+          if (loot.length > 0) this.log.push(`Loot: ${loot.join(", ")}`);
+          return;
+        }
+        break;
+      }
+      case "defend":
+        defense = defense * 2 + DEFEND_BONUS;
+        this.log.push(`You raise your guard.`);
+        break;
+      case "flee":
+        if (this.rng.chance(this.config.fleeChance)) {
+          this.outcome = "fled";
+          this.log.push(`You escape!`);
+          return;
+        }
+        this.log.push(`You fail to get away.`);
+        break;
+    }
+
+    // Enemy strikes back
+    const damage = rollDamage(this.enemyAttack, defense, this.rng);
+    this.character.takeDamage(damage);
+    this.log.push(`The ${this.config.name.toLowerCase()} hit you for ${damage}.`);
+    if (this.character.health === 0) {
+      this.outcome = "defeat";
+      this.log.push(`You collapse...`);
+    }
+  }
+
+  /**
+   * Hand the enemy's gold and loot to the character (after a victory)
+   *
+   * @returns Descriptions of what was found
+   */
+  private collectLoot(): string[] {
+    const found: string[] = [];
+
+    const [minGold, maxGold] = this.config.gold;
+    const gold = minGold + this.rng.int(maxGold - minGold + 1);
+    if (gold > 0) {
+      this.character.gold += gold;
+      found.push(`${gold}g`);
+    }
+
+    for (const entry of this.config.loot) {
+      if (!this.rng.chance(entry.chance)) continue;
+      const amount = entry.min + this.rng.int(entry.max - entry.min + 1);
+      const name = getMaterialName(entry.material);
+      if (this.character.addCarried(entry.material, amount)) {
+        found.push(`${amount} ${name}`);
+      } else {
+        found.push(`${amount} ${name} (too heavy, left behind)`);
+      }
+    }
+
+    return found;
+  }
+}
+
+/**
+ * Carry a defeated character to the nearest settlement: they lose half their
+ * purse and wake up there at half health.
+ *
+ * @returns Name of the settlement they woke up in
+ */
+export function applyDefeat(character: Character, worldMap: WorldMap): string | undefined {
+  const lostGold = Math.floor(character.gold * DEFEAT_GOLD_LOSS);
+  character.gold -= lostGold;
+  character.heal(Math.ceil(MAX_HEALTH / 2) - character.health);
+
+  let nearest: { tile: HexTile; name: string; distance: number } | undefined;
+  for (const settlement of worldMap.settlements) {
+    const center = worldMap.getTile(settlement.center);
+    if (!center) continue;
+    const distance = worldMap.hexDistance(character.currentTile, center);
+    if (!nearest || distance < nearest.distance) {
+      nearest = { tile: center, name: settlement.name, distance };
+    }
+  }
+
+  console.log(`[Combat] Defeated - lost ${lostGold}g, recovering in ${nearest?.name ?? "the wilds"}`);
+  if (!nearest) return undefined;
+  character.relocate(nearest.tile);
+  return nearest.name;
+}
@@ -2,6 +2,8 @@ import { Application, Container, Ticker } from "pixi.js";
 import { WorldMap } from "../world/WorldMap";
 import { HexTile } from "../world/HexTile";
 import { getAPCost, isWater, isPierOrDock } from "../world/Terrain";
+import { getBiomeAPCost } from "../world/Biome";
+import { getRiverAPCost, isRiver, isNavigable } from "../world/River";
 import { TileRenderer } from "../rendering/TileRenderer";
 import { CharacterRenderer } from "../rendering/CharacterRenderer";
 import { HighlightOverlay } from "../rendering/HighlightOverlay";
@@ -11,25 +13,44 @@ import { MiniMap } from "../rendering/MiniMap";
 import { PathOverlay } from "../rendering/PathOverlay";
 import { CharacterSheet } from "../rendering/CharacterSheet";
 import { hexIsoCenter, isoToFlat } from "../rendering/Isometric";
-import { Character } from "../entity/Character";
+import { Character, MAX_HEALTH } from "../entity/Character";
 import { Camera } from "./Camera";
 import { InputManager } from "./InputManager";
 import { findPath, isPathValid } from "../pathfinding/Pathfinding";
 import { EconomyManager } from "../world/SettlementEconomy";
-import { extractResources, isExtractionBuilding } from "../world/ResourceExtraction";
-import { getRecipesForBuilding, getRecipeById } from "../world/ProductionRecipe";
 import { BuildingType, Settlement, calculateHousingCapacity } from "../world/Building";
-import { HousingUpgradeSystem } from "../world/HousingUpgrade";
-import { RESOURCE_CONFIG, ResourceType } from "../world/Resource";
-import { GOOD_CONFIG, GoodType } from "../world/Goods";
+import { RESOURCE_CONFIG } from "../world/Resource";
+import { GOOD_CONFIG } from "../world/Goods";
+import { getMaterialName } from "../world/ProductionRecipe";
+import { countToolUsers, getToolStock } from "../world/Tools";
 import { GlobalPopulationManager } from "../world/population/PopulationManager";
-import { WorkerAssignmentSystem, BuildingInfo } from "../world/population/WorkerAssignment";
-import { createPerson } from "../world/population/LifeSimulation";
 import { JobType } from "../world/population/Person";
-import { getJobForBuilding, requiresWorkers } from "../world/population/JobMapping";
 import { TradeManager } from "../world/trade/TradeManager";
 import { TraderRenderer } from "../rendering/TraderRenderer";
+import { BanditCampRenderer } from "../rendering/BanditCampRenderer";
 import { SettlementNameRenderer } from "../rendering/SettlementNameRenderer";
+import { SaveLoadPanel } from "../rendering/SaveLoadPanel";
+import { StatisticsPanel } from "../rendering/StatisticsPanel";
+import { TradePanel } from "../rendering/TradePanel";
+import { CombatPanel } from "../rendering/CombatPanel";
+import { QuestPanel } from "../rendering/QuestPanel";
+import { RelationsPanel } from "../rendering/RelationsPanel";
+import { PropertyPanel } from "../rendering/PropertyPanel";
+import { CaravanPanel } from "../rendering/CaravanPanel";
+import { PriceLedgerPanel } from "../rendering/PriceLedgerPanel";
+import { NewGamePanel } from "../rendering/NewGamePanel";
+import { PlayerTrade } from "./PlayerTrade";
+import { Combat, rollEncounter, applyDefeat } from "./Combat";
+import { QuestSystem } from "./Quests";
+import { ReputationSystem, REPUTATION_CHANGE, STANDING_CONFIG } from "./Reputation";
+import { PlayerProperty } from "./PlayerProperty";
+import { PlayerCaravans } from "./PlayerCaravans";
+import { PriceLedger } from "./PriceLedger";
+import { SaveData, SaveStorage, SAVE_VERSION, serializeTiles, restoreTiles } from "./SaveGame";
+import { Simulation } from "./Simulation";
+import { SeededRandom } from "../utils/random";
+import { getWorldPreset } from "../world/WorldPresets";
+import { WorldSettings, readWorldSettings, writeWorldSettings, resolveWorldConfig, randomSeed } from "./WorldSettings";
 
 /**
  * Main Game class — orchestrates world generation, rendering, input, and game loop.
@@ -50,11 +71,36 @@ export class Game {
   private input: InputManager;
   private economyManager: EconomyManager;
   private populationManager: GlobalPopulationManager;
-  private workerAssignmentSystem: WorkerAssignmentSystem;
   private tradeManager: TradeManager;
-  private housingUpgradeSystem: HousingUpgradeSystem;
   private traderRenderer: TraderRenderer;
+  private banditCampRenderer: BanditCampRenderer;
   private settlementNameRenderer: SettlementNameRenderer;
+  private saveLoadPanel: SaveLoadPanel;
+  private statisticsPanel: StatisticsPanel;
+  private tradePanel: TradePanel;
+  private combatPanel: CombatPanel;
+  private questPanel: QuestPanel;
+  private questSystem: QuestSystem;
+  private relationsPanel: RelationsPanel;
+  private propertyPanel: PropertyPanel;
+  private caravanPanel: CaravanPanel;
+  private priceLedger: PriceLedger;
+  private priceLedgerPanel: PriceLedgerPanel;
+  private newGamePanel: NewGamePanel;
+  private reputation: ReputationSystem;
+  private saveStorage: SaveStorage;
+
+  /** Renderer-free simulation core (world + turn pipeline) that this class draws. */
+  private simulation: Simulation;
+
+  /** Save waiting to be applied once the world is generated (set when loading). */
+  private pendingSave: SaveData | null;
+
+  /** Seed, preset and settings the world was generated from (kept in the URL). */
+  private worldSettings: WorldSettings;
+
+  /** Offer the new-game screen at start (no world was chosen in the URL). */
+  private showNewGameOnStart: boolean;
 
   /** Root container for the world (camera transforms this). */
   private worldContainer: Container;
@@ -71,28 +117,34 @@ export class Game {
       console.log('[Debug Mode] Enabled - Press R to toggle roads');
     }
 
-    // Get or generate seed
-    let seed = params.get('seed');
-    if (!seed) {
-      // Generate random seed if none provided
-      seed = "unwritten-" + Math.floor(Math.random() * 10000);
-    }
-    
-    // Update URL with seed parameter (as first parameter)
-    this.updateURLWithSeed(seed);
+    // A save being loaded decides the seed (the world is regenerated from it)
+    this.saveStorage = new SaveStorage();
+    this.pendingSave = this.saveStorage.takePendingLoad();
+
+    // Get the world settings (seed, preset, sizes) from the save or the URL,
+    // or generate a random seed and offer the new-game screen
+    const urlSettings = readWorldSettings(params);
+    this.worldSettings = this.pendingSave
+      ? this.getSaveWorldSettings(this.pendingSave)
+      : urlSettings ?? { seed: randomSeed(), overrides: {} };
+    this.showNewGameOnStart = !this.pendingSave && !urlSettings;
+
+    // Update URL with the world settings (seed as first parameter)
+    this.updateURLWithWorld(this.worldSettings);
     
-    console.log(`[Unwritten] World Seed: ${seed}`);
+    const preset = getWorldPreset(this.worldSettings.preset);
+    console.log(`[Unwritten] World Seed: ${this.worldSettings.seed}${preset ? ` (${preset.name})` : ""}`);
 
     // Create the world container
     this.worldContainer = new Container({ label: "world" });
     this.app.stage.addChild(this.worldContainer);
 
-    // Generate the world
-    this.worldMap = new WorldMap({
-      width: 120,
-      height: 120,
-      seed: seed,
-    });
+    // Generate the world and its simulation
+    this.simulation = new Simulation(resolveWorldConfig(this.worldSettings));
+    this.worldMap = this.simulation.worldMap;
+    this.economyManager = this.simulation.economyManager;
+    this.populationManager = this.simulation.populationManager;
+    this.tradeManager = this.simulation.tradeManager;
 
     // Set up rendering (order matters for z-index)
     // 1. Tiles (terrain base layer)
@@ -105,27 +157,31 @@ export class Game {
     // 3. Decorations layer (buildings, vegetation, fences - on top of roads)
     this.worldContainer.addChild(this.tileRenderer.decorationContainer);
 
-    // 4. Character layer (player character)
+    // 4. Bandit camps layer (tents beside the roads)
+    this.banditCampRenderer = new BanditCampRenderer();
+    this.worldContainer.addChild(this.banditCampRenderer.container);
+
+    // 5. Character layer (player character)
     this.characterRenderer = new CharacterRenderer();
     this.worldContainer.addChild(this.characterRenderer.container);
     
-    // 5. Traders layer (NPCs moving on map)
+    // 6. Traders layer (NPCs moving on map)
     this.traderRenderer = new TraderRenderer();
     this.worldContainer.addChild(this.traderRenderer.container);
 
-    // 6. Fog overlay (covers everything below - terrain, decorations, characters, traders)
+    // 7. Fog overlay (covers everything below - terrain, decorations, characters, traders)
     this.fogOverlay = new FogOfWarOverlay();
     this.worldContainer.addChild(this.fogOverlay.container);
 
-    // 7. Path overlay (shows movement path, on top of fog)
+    // 8. Path overlay (shows movement path, on top of fog)
     this.pathOverlay = new PathOverlay();
     this.worldContainer.addChild(this.pathOverlay.container);
 
-    // 8. Highlight overlay (shows tile highlights, on top of fog)
+    // 9. Highlight overlay (shows tile highlights, on top of fog)
     this.highlightOverlay = new HighlightOverlay();
     this.worldContainer.addChild(this.highlightOverlay.container);
     
-    // 9. Settlement names layer (always visible, even through fog)
+    // 10. Settlement names layer (always visible, even through fog)
     this.settlementNameRenderer = new SettlementNameRenderer();
     this.worldContainer.addChild(this.settlementNameRenderer.container);
 
@@ -161,21 +217,113 @@ export class Game {
     );
     this.app.stage.addChild(this.characterSheet.container);
 
+    // Set up save/load panel (modal overlay)
+    this.saveLoadPanel = new SaveLoadPanel(
+      this.saveStorage,
+      this.app.screen.width,
+      this.app.screen.height,
+    );
+    this.app.stage.addChild(this.saveLoadPanel.container);
+
+    // Set up statistics panel (modal overlay)
+    this.statisticsPanel = new StatisticsPanel(
+      this.simulation.statistics,
+      this.worldMap.settlements,
+      this.app.screen.width,
+      this.app.screen.height,
+    );
+    this.app.stage.addChild(this.statisticsPanel.container);
+
+    // How settlements regard the player (prices, quests, market access)
+    this.reputation = new ReputationSystem(this.worldMap);
+
+    // Set up trade panel (modal overlay)
+    const playerTrade = new PlayerTrade(this.simulation, this.reputation);
+    this.tradePanel = new TradePanel(
+      playerTrade,
+      this.character,
+      this.worldMap.settlements,
+      this.economyManager,
+      this.app.screen.width,
+      this.app.screen.height,
+    );
+    this.app.stage.addChild(this.tradePanel.container);
+
+    // Set up combat panel (modal overlay)
+    this.combatPanel = new CombatPanel(
+      this.character,
+      this.app.screen.width,
+      this.app.screen.height,
+    );
+    this.app.stage.addChild(this.combatPanel.container);
+
+    // Set up quest boards and journal (modal overlay)
+    this.questSystem = new QuestSystem(this.simulation, this.reputation);
+    this.tradeManager.playerEscort = (trader) => this.questSystem.isEscorting(trader, this.character);
+    this.questPanel = new QuestPanel(
+      this.questSystem,
+      this.character,
+      this.worldMap.settlements,
+      this.app.screen.width,
+      this.app.screen.height,
+    );
+    this.app.stage.addChild(this.questPanel.container);
+
+    // Set up relations panel (modal overlay)
+    this.relationsPanel = new RelationsPanel(
+      this.reputation,
+      this.worldMap.settlements,
+      this.app.screen.width,
+      this.app.screen.height,
+    );
+    this.app.stage.addChild(this.relationsPanel.container);
+
+    // Set up property panel (modal overlay); wages come out of the player's purse
+    this.simulation.propertySystem.payWages = (amount) => {
+      if (this.character.gold < amount) return false;
+      this.character.gold -= amount;
+      return true;
+    };
+    this.propertyPanel = new PropertyPanel(
+      new PlayerProperty(this.simulation, playerTrade),
+      this.character,
+      this.worldMap.settlements,
+      this.app.screen.width,
+      this.app.screen.height,
+    );
+    this.app.stage.addChild(this.propertyPanel.container);
+
+    // Set up caravan panel (modal overlay); caravan profits go into the player's purse
+    this.tradeManager.payPlayer = (amount, settlementId, description) => {
+      this.character.gold += amount;
+      this.simulation.propertySystem.record(this.simulation.turn, settlementId, "income", description, amount);
+    };
+    this.caravanPanel = new CaravanPanel(
+      new PlayerCaravans(this.simulation, playerTrade),
+      this.character,
+      this.worldMap.settlements,
+      this.app.screen.width,
+      this.app.screen.height,
+    );
+    this.app.stage.addChild(this.caravanPanel.container);
+
+    // Set up price ledger (modal overlay); markets are written down on each visit
+    this.priceLedger = new PriceLedger(this.simulation, playerTrade);
+    this.priceLedgerPanel = new PriceLedgerPanel(
+      this.priceLedger,
+      this.character,
+      this.worldMap.settlements,
+      this.app.screen.width,
+      this.app.screen.height,
+    );
+    this.app.stage.addChild(this.priceLedgerPanel.container);
+
+    // Set up new-game panel (modal overlay)
+    this.newGamePanel = new NewGamePanel(this.app.screen.width, this.app.screen.height);
+    this.app.stage.addChild(this.newGamePanel.container);
+
     // Set up input
     this.input = new InputManager(this.app, this.camera);
-    
-    // Initialize economy manager
-    this.economyManager = new EconomyManager();
-    
-    // Initialize population manager
-    this.populationManager = new GlobalPopulationManager();
-    this.workerAssignmentSystem = new WorkerAssignmentSystem();
-    
-    // Initialize housing upgrade system
-    this.housingUpgradeSystem = new HousingUpgradeSystem();
-    
-    // Initialize trade manager
-    this.tradeManager = new TradeManager(this.worldMap.grid, this.worldMap.settlements);
   }
 
   start(): void {
@@ -186,7 +334,15 @@ export class Game {
       `[Unwritten] World: ${this.worldMap.width}x${this.worldMap.height} hexes`,
     );
 
-    // Build tile graphics (base terrain layer)
+    // Restore a loaded save onto the regenerated world before anything is drawn
+    const loadedSave = this.pendingSave;
+    this.pendingSave = null;
+    if (loadedSave) {
+      this.applySaveData(loadedSave);
+    }
+
+    // Build tile graphics (base terrain layer, tinted for the current season)
+    this.tileRenderer.setSeason(this.simulation.date.season, this.worldMap.grid);
     this.tileRenderer.buildTiles(this.worldMap.grid);
 
     // Draw roads connecting settlements (BEFORE vegetation and buildings)
@@ -231,26 +387,55 @@ export class Game {
     // Render settlement names
     this.settlementNameRenderer.update(this.worldMap.settlements, this.worldMap.grid);
     
-    // Initialize economies for all settlements
-    this.initializeEconomies();
-    this.initializePopulations();
-    this.initializeTreasuries(); // Initialize settlement money based on population
-    
-    // Run initial economy tick for turn 1
-    console.log(`[Game] Initial economy processing for turn 1`);
-    this.economyTick();
+    // Re-render tiles that settlements build on (and new bandit camps)
+    this.simulation.onTilesChanged = (tiles) => {
+      this.tileRenderer.redrawTiles(tiles, this.worldMap.grid);
+      this.miniMap.update();
+      this.updateBanditCamps();
+    };
+
+    if (loadedSave) {
+      // Economies, populations and traders were restored from the save
+      this.updateCalendar();
+      this.updateBanditCamps();
+      this.hud.setAP(this.character.ap, this.character.maxAP);
+      this.hud.setHealth(this.character.health, MAX_HEALTH);
+      this.hud.setEmbarked(this.character.embarked);
+      this.characterRenderer.setEmbarked(this.character.embarked);
+      this.hud.showMessage(`Loaded "${loadedSave.name}"`);
+    } else {
+      // Initialize economies, populations and treasuries for all settlements
+      this.simulation.initialize();
+      this.updateBanditCamps();
+      
+      // Run initial economy tick for turn 1
+      console.log(`[Game] Initial economy processing for turn 1`);
+      this.simulation.step();
+      this.updateCalendar();
+    }
 
     // Wire up input
     this.setupInput();
 
+    // The market the character starts in is known from the outset
+    this.recordPrices();
+
     // Wire up character callbacks
     this.character.onNewTurn = (turn: number) => {
       console.log(`[Game] Turn ${turn} started - processing economy`);
       // Update HUD
-      this.hud.setTurn(turn);
-      this.hud.setAP(this.character.ap);
+      this.hud.setAP(this.character.ap, this.character.maxAP);
       // Process economy
-      this.economyTick();
+      this.simulation.step();
+      this.updateCalendar();
+      this.updateQuests();
+      if (this.statisticsPanel.isOpen()) this.statisticsPanel.refresh();
+      if (this.tradePanel.isOpen()) this.tradePanel.refresh();
+      if (this.questPanel.isOpen()) this.questPanel.refresh();
+      if (this.propertyPanel.isOpen()) this.propertyPanel.refresh();
+      if (this.caravanPanel.isOpen()) this.caravanPanel.refresh();
+      this.recordPrices();
+      if (this.priceLedgerPanel.isOpen()) this.priceLedgerPanel.refresh();
       // Refresh tooltip if a tile is selected
       this.refreshSelectedTileTooltip();
     };
@@ -268,10 +453,22 @@ export class Game {
       this.hud.hideTooltip();
       this.highlightOverlay.clearHover();
       this.pathOverlay.clearPath();
+      // Scouting quests complete as soon as their target comes into view
+      this.updateQuests();
+      this.recordPrices();
     };
 
     this.character.onAPChange = (ap) => {
-      this.hud.setAP(ap);
+      this.hud.setAP(ap, this.character.maxAP);
+    };
+
+    this.character.onHealthChange = (health) => {
+      this.hud.setHealth(health, MAX_HEALTH);
+    };
+
+    this.character.onStatsChange = () => {
+      this.hud.setAP(this.character.ap, this.character.maxAP);
+      this.updateFogOfWar();
     };
 
     this.character.onEmbark = () => {
@@ -328,7 +525,11 @@ export class Game {
         economyData,
         populationData,
         tradeData,
-        tradersAtTile
+        tradersAtTile,
+        this.getTileDangerData(tile),
+        this.getReputationData(settlementIndex),
+        tile.biome,
+        this.getRiverData(tile)
       );
     };
 
@@ -337,6 +538,83 @@ export class Game {
       this.input.setEnabled(true);
     };
 
+    // Save/Load panel
+    this.saveLoadPanel.defaultSaveName = () => `Turn ${this.character.turn}`;
+    this.saveLoadPanel.onSave = (name) => this.saveGame(name);
+    this.saveLoadPanel.onLoad = (data) => this.loadGame(data);
+    this.saveLoadPanel.onExport = () => {
+      this.saveStorage.exportToFile(this.createSaveData(`Turn ${this.character.turn}`));
+    };
+    this.saveLoadPanel.onClose = () => {
+      this.input.setEnabled(true);
+    };
+
+    // Statistics panel: Re-enable input when closed
+    this.statisticsPanel.onClose = () => {
+      this.input.setEnabled(true);
+    };
+
+    // Trade panel
+    this.tradePanel.onTrade = () => {
+      this.refreshSelectedTileTooltip();
+    };
+    this.tradePanel.onClose = () => {
+      this.input.setEnabled(true);
+    };
+
+    // Quest panel
+    this.questPanel.onChange = () => {
+      this.refreshSelectedTileTooltip();
+    };
+    this.questPanel.onClose = () => {
+      this.input.setEnabled(true);
+    };
+
+    // Relations panel: Re-enable input when closed
+    this.relationsPanel.onClose = () => {
+      this.input.setEnabled(true);
+    };
+
+    // Property panel: Re-render commissioned building sites
+    this.propertyPanel.onChange = (result) => {
+      if (result.changedTiles) {
+        this.tileRenderer.redrawTiles(result.changedTiles, this.worldMap.grid);
+        this.miniMap.update();
+      }
+      this.refreshSelectedTileTooltip();
+    };
+    this.propertyPanel.onClose = () => {
+      this.input.setEnabled(true);
+    };
+
+    // Caravan panel
+    this.caravanPanel.onChange = () => {
+      this.refreshSelectedTileTooltip();
+    };
+    this.caravanPanel.onClose = () => {
+      this.input.setEnabled(true);
+    };
+
+    // Price ledger panel
+    this.priceLedgerPanel.onClose = () => {
+      this.input.setEnabled(true);
+    };
+
+    // New-game panel: closing keeps playing the current world
+    this.newGamePanel.onStart = (settings) => this.startNewWorld(settings);
+    this.newGamePanel.onClose = () => {
+      this.input.setEnabled(true);
+    };
+
+    // Combat panel
+    this.combatPanel.onRest = () => {
+      this.character.endTurn();
+    };
+    this.combatPanel.onClose = () => {
+      this.endCombat();
+      this.input.setEnabled(true);
+    };
+
     // Start game loop
     this.app.ticker.add(this.gameLoop, this);
 
@@ -346,11 +624,27 @@ export class Game {
       this.hud.resize(this.app.screen.width, this.app.screen.height);
       this.miniMap.resize(this.app.screen.width, this.app.screen.height);
       this.characterSheet.resize(this.app.screen.width, this.app.screen.height);
+      this.saveLoadPanel.resize(this.app.screen.width, this.app.screen.height);
+      this.statisticsPanel.resize(this.app.screen.width, this.app.screen.height);
+      this.tradePanel.resize(this.app.screen.width, this.app.screen.height);
+      this.combatPanel.resize(this.app.screen.width, this.app.screen.height);
+      this.questPanel.resize(this.app.screen.width, this.app.screen.height);
+      this.relationsPanel.resize(this.app.screen.width, this.app.screen.height);
+      this.propertyPanel.resize(this.app.screen.width, this.app.screen.height);
+      this.caravanPanel.resize(this.app.screen.width, this.app.screen.height);
+      this.priceLedgerPanel.resize(this.app.screen.width, this.app.screen.height);
+      this.newGamePanel.resize(this.app.screen.width, this.app.screen.height);
     });
 
     console.log(
       `[Unwritten] Character placed at col=${this.character.currentTile.col}, row=${this.character.currentTile.row}`,
     );
+
+    // No world chosen in the URL: offer the new-game screen (closing it plays this random world)
+    if (this.showNewGameOnStart) {
+      this.newGamePanel.open(this.worldSettings, this.worldMap);
+      this.input.setEnabled(false);
+    }
   }
 
   private gameLoop(ticker: Ticker): void {
@@ -402,6 +696,44 @@ export class Game {
           this.input.setEnabled(false);
         }
       }
+      if (key === "l" || key === "L") {
+        this.saveLoadPanel.show();
+        this.input.setEnabled(false);
+      }
+      if (key === "t" || key === "T") {
+        this.openTradePanel();
+      }
+      if (key === "j" || key === "J") {
+        this.questPanel.open();
+        this.input.setEnabled(false);
+      }
+      if (key === "f" || key === "F") {
+        this.relationsPanel.show();
+        this.input.setEnabled(false);
+      }
+      if (key === "p" || key === "P") {
+        this.propertyPanel.open();
+        this.input.setEnabled(false);
+      }
+      if (key === "v" || key === "V") {
+        this.caravanPanel.open();
+        this.input.setEnabled(false);
+      }
+      if (key === "m" || key === "M") {
+        this.priceLedgerPanel.open();
+        this.input.setEnabled(false);
+      }
+      if (key === "g" || key === "G") {
+        // Open charts for the selected settlement (or the whole world)
+        const settlement = this.selectedTile ? this.worldMap.getSettlementForTile(this.selectedTile) : undefined;
+        this.statisticsPanel.showFor(settlement ? this.worldMap.settlements.indexOf(settlement) : undefined);
+        this.input.setEnabled(false);
+      }
+      if (key === "n" || key === "N") {
+        // Set up a new world (a fresh seed with the current settings)
+        this.newGamePanel.open({ ...this.worldSettings, seed: randomSeed() });
+        this.input.setEnabled(false);
+      }
       if ((key === "r" || key === "R") && this.debugMode) {
         this.toggleRoads();
       }
@@ -432,22 +764,12 @@ export class Game {
   private roadsHidden: boolean = false;
 
   /**
-   * Update the browser URL with the seed parameter (as first parameter).
+   * Update the browser URL with the world settings (seed as first parameter,
+   * then preset and chosen sizes) so the world can be shared.
    * Preserves other parameters like debug_mode.
    */
-  private updateURLWithSeed(seed: string): void {
-    const currentParams = new URLSearchParams(window.location.search);
-    const newParams = new URLSearchParams();
-    
-    // Add seed as the first parameter
-    newParams.set('seed', seed);
-    
-    // Add all other existing parameters (except seed if it already exists)
-    currentParams.forEach((value, key) => {
-      if (key !== 'seed') {
-        newParams.set(key, value);
-      }
-    });
+  private updateURLWithWorld(settings: WorldSettings): void {
+    const newParams = writeWorldSettings(settings, new URLSearchParams(window.location.search));
     
     // Update URL without reloading the page
     const newURL = `${window.location.pathname}?${newParams.toString()}`;
@@ -491,7 +813,11 @@ export class Game {
       economyData,
       populationData,
       tradeData,
-      tradersAtTile
+      tradersAtTile,
+      this.getTileDangerData(hex),
+      this.getReputationData(settlementIndex),
+      hex.biome,
+      this.getRiverData(hex)
     );
   }
 
@@ -511,7 +837,8 @@ export class Game {
       clickedHex,
       this.worldMap,
       true, // Only use explored tiles
-      this.character.embarked // Pass embarked state
+      this.character.embarked, // Pass embarked state
+      this.character.getLoadPenalty(),
     );
     
     if (!pathResult.found || pathResult.path.length === 0) {
@@ -562,7 +889,8 @@ export class Game {
         hex,
         this.worldMap,
         true,
-        this.character.embarked
+        this.character.embarked,
+        this.character.getLoadPenalty(),
       );
       
       if (pathResult.found && pathResult.path.length > 0) {
@@ -612,6 +940,9 @@ export class Game {
         this.character.currentTile.terrain,
         n.terrain,
         willBeEmbarked && toWater,
+        this.character.getLoadPenalty(),
+        getBiomeAPCost(n.biome, n.hasRoad),
+        getRiverAPCost(n),
       );
       if (cost <= this.character.ap) {
         reachable.push(n);
@@ -668,6 +999,9 @@ export class Game {
         this.character.currentTile.terrain,
         tile.terrain,
         willBeEmbarked && toWater,
+        this.character.getLoadPenalty(),
+        getBiomeAPCost(tile.biome, tile.hasRoad),
+        getRiverAPCost(tile),
       );
     }
     
@@ -677,7 +1011,8 @@ export class Game {
       tile,
       this.worldMap,
       true, // Only use explored tiles
-      this.character.embarked // Pass embarked state
+      this.character.embarked, // Pass embarked state
+      this.character.getLoadPenalty(),
     );
     
     if (!pathResult.found) return null;
@@ -736,6 +1071,9 @@ export class Game {
       this.character.currentTile.terrain,
       nextTile.terrain,
       willBeEmbarked && toWater,
+      this.character.getLoadPenalty(),
+      getBiomeAPCost(nextTile.biome, nextTile.hasRoad),
+      getRiverAPCost(nextTile),
     );
 
     // If we don't have enough AP, end the turn automatically and continue
@@ -759,6 +1097,9 @@ export class Game {
       } else {
         console.log("Destination reached!");
       }
+
+      // Wolves and bandits may be lurking on the new tile
+      this.checkForEncounter(nextTile);
     } else {
       // Movement failed (should not happen with pathfinding), clear the queue
       console.log("Failed to move along path - clearing queue");
@@ -827,7 +1168,8 @@ export class Game {
           hoveredHex,
           this.worldMap,
           true,
-          this.character.embarked
+          this.character.embarked,
+          this.character.getLoadPenalty(),
         );
         if (pathResult.found && pathResult.path.length > 0) {
           const isValid = pathResult.totalCost <= this.character.ap;
@@ -854,14 +1196,131 @@ export class Game {
         this.selectedTile.treeDensity,
         this.selectedTile.resource,
         economyData,
-        populationData
+        populationData,
+        undefined,
+        undefined,
+        this.getTileDangerData(this.selectedTile),
+        this.getReputationData(settlementIndex),
+        this.selectedTile.biome,
+        this.getRiverData(this.selectedTile)
       );
     }
   }
 
+  /**
+   * Roll for a hostile encounter on the tile just entered and start a fight if one occurs.
+   * Rolls are derived from the world seed, turn and tile, so they are reproducible
+   * without touching the simulation's random stream.
+   */
+  private checkForEncounter(tile: HexTile): void {
+    const { danger, camp } = this.getTileDangerData(tile);
+    const key = `${this.worldMap.seed}_encounter_${this.character.turn}_${tile.col}_${tile.row}`;
+    const enemy = rollEncounter(tile, danger, camp, new SeededRandom(key));
+    if (!enemy) return;
+
+    this.stopMovement();
+    console.log(`[Combat] ${enemy} encountered at (${tile.col}, ${tile.row})`);
+    this.combatPanel.open(new Combat(this.character, enemy, camp, new SeededRandom(`${key}_combat`)));
+    this.input.setEnabled(false);
+  }
+
+  /** Apply the result of the fight that just ended. */
+  private endCombat(): void {
+    const combat = this.combatPanel.getCombat();
+    if (!combat) return;
+
+    const tile = this.character.currentTile;
+    switch (combat.outcome) {
+      case "victory":
+        if (combat.atCamp && this.simulation.banditSystem.removeCamp(tile.col, tile.row)) {
+          this.reputation.recordCampDestroyed(tile);
+          this.updateBanditCamps();
+          this.hud.showMessage("The bandit camp is destroyed!");
+        } else {
+          this.reputation.recordVictory(tile);
+          this.hud.showMessage(`You defeated the ${combat.config.name.toLowerCase()}`);
+        }
+        break;
+      case "defeat": {
+        const settlementName = applyDefeat(this.character, this.worldMap);
+        const settlementId = this.character.currentTile.settlementId;
+        if (settlementId !== undefined) {
+          this.reputation.change(settlementId, REPUTATION_CHANGE.defeated, "carried in after a defeat");
+        }
+        this.hud.showMessage(settlementName ? `You wake up in ${settlementName}, robbed and bruised` : "You wake up, robbed and bruised");
+        this.character.endTurn();
+        break;
+      }
+      case "fled":
+        this.hud.showMessage("You got away");
+        break;
+    }
+    this.refreshSelectedTileTooltip();
+  }
+
+  /** Write down the prices of the market the character stands in. */
+  private recordPrices(): void {
+    const settlementId = this.character.currentTile.settlementId;
+    if (settlementId !== undefined) this.priceLedger.visit(settlementId, this.character.turn);
+  }
+
+  /** Check quests for completion or expiry and announce the results. */
+  private updateQuests(): void {
+    const messages = this.questSystem.update(this.character.turn, this.character);
+    if (messages.length > 0) {
+      this.hud.showMessage(messages.join("\n"), 3);
+    }
+  }
+
+  /**
+   * Get the player's standing with a settlement (and its group) to display in HUD
+   */
+  private getReputationData(settlementIndex: number): { standing: string; reputation: number; group?: { name: string; reputation: number } } | undefined {
+    if (settlementIndex < 0) return undefined;
+    const group = this.reputation.getGroup(settlementIndex);
+    return {
+      standing: STANDING_CONFIG[this.reputation.getStanding(settlementIndex)].name,
+      reputation: this.reputation.getReputation(settlementIndex),
+      group: group.memberIds.length > 1 ? { name: group.name, reputation: group.reputation } : undefined,
+    };
+  }
+
+  /** Draw bandit camps that appeared (or disappeared) since the last update. */
+  private updateBanditCamps(): void {
+    this.banditCampRenderer.update(this.simulation.banditSystem.getCamps(), this.worldMap.grid);
+  }
+
+  /**
+   * Get bandit danger of a tile to display in HUD
+   */
+  private getTileDangerData(tile: HexTile): { danger: number; camp: boolean } {
+    return {
+      danger: this.simulation.banditSystem.getTileDanger(this.worldMap.grid, tile),
+      camp: this.simulation.banditSystem.getCampAt(tile.col, tile.row) !== undefined,
+    };
+  }
+
+  /** River through a tile for the tooltip (undefined if there is none). */
+  private getRiverData(tile: HexTile): { navigable: boolean; ford: boolean; bridged: boolean; crossingCost: number } | undefined {
+    if (!isRiver(tile)) return undefined;
+    return {
+      navigable: isNavigable(tile),
+      ford: tile.isFord,
+      bridged: tile.hasRoad || tile.building === BuildingType.Bridge,
+      crossingCost: getRiverAPCost(tile),
+    };
+  }
+
+  /** Show the current date and weather, and tint the terrain when the season changes. */
+  private updateCalendar(): void {
+    const date = this.simulation.date;
+    this.hud.setDate(date, this.simulation.weather);
+    this.tileRenderer.setSeason(date.season, this.worldMap.grid);
+  }
+
   /** Update fog of war based on character's vision radius. */
   private updateFogOfWar(): void {
-    const visionRadius = 5.33;
+    const visionRadius = this.character.visionRadius;
     const charTile = this.character.currentTile;
 
     const visibleTiles = new Set<string>();
@@ -952,6 +1411,9 @@ export class Game {
       }))
       .sort((a, b) => b.count - a.count);
     
+    const garrison = this.simulation.garrisonSystem.getGarrison(settlementIndex);
+    const economy = this.economyManager.getEconomy(settlementIndex);
+    
     // Count housing tiles and calculate average density
     const housingTiles = settlement.tiles.filter(tilePos => {
       const tile = this.worldMap.getTile({ col: tilePos.col, row: tilePos.row });
@@ -976,6 +1438,12 @@ export class Game {
       avgHealth: population.getAverageHealth(),
       avgHunger: population.getAverageHunger(),
       jobCounts,
+      tools: economy
+        ? { stock: getToolStock(economy), workers: countToolUsers(population.getPeople()) }
+        : undefined,
+      garrison: garrison && garrison.soldiers > 0
+        ? { soldiers: garrison.soldiers, strength: garrison.strength, paid: garrison.paid }
+        : undefined,
     };
   }
 
@@ -1001,8 +1469,13 @@ export class Game {
       price: Math.round(offer.pricePerUnit)
     }));
     
+    const shipyard = this.simulation.shipyardSystem.getShipyard(settlementIndex);
+    
     return {
       activeTraders: traders.length,
+      ships: shipyard && (shipyard.ships > 0 || shipyard.hull !== null)
+        ? { fleet: shipyard.ships, docked: shipyard.docked, building: shipyard.hull !== null }
+        : undefined,
       buyOffers,
       sellOffers,
     };
@@ -1033,13 +1506,25 @@ export class Game {
         cargo = `${trader.currentContract.quantity} ${material}`;
       }
       
+      // The player's caravans follow a route instead of contracts
+      if (trader.route) {
+        const toSettlement = trader.route.destination !== null ? this.worldMap.settlements[trader.route.destination] : undefined;
+        destination = toSettlement ? toSettlement.name : "Unknown";
+        const carried = [...trader.inventory.resources, ...trader.inventory.goods]
+          .filter(([, amount]) => amount > 0)
+          .map(([material, amount]) => `${amount} ${getMaterialName(material)}`);
+        cargo = carried.length > 0 ? carried.join(", ") : "Empty";
+      }
+      
       return {
-        name: trader.name,
+        name: trader.route ? `${trader.name} (your caravan)` : trader.name,
         home: fromSettlement ? fromSettlement.name : "Unknown",
         state: this.formatTraderState(trader.state),
         destination,
         cargo,
         money: trader.money,
+        escorted: trader.escorted,
+        ship: trader.ship,
       };
     });
   }
@@ -1086,435 +1571,134 @@ export class Game {
       economyData,
       populationData,
       tradeData,
-      tradersAtTile
+      tradersAtTile,
+      this.getTileDangerData(this.selectedTile),
+      this.getReputationData(settlementIndex),
+      this.selectedTile.biome,
+      this.getRiverData(this.selectedTile)
     );
   }
 
   /**
-   * Initialize economies for all settlements
+   * Open the market of the settlement the character stands in
    */
-  private initializeEconomies(): void {
-    // Settlements don't have IDs, so we'll need to assign them indices
-    this.worldMap.settlements.forEach((settlement, index) => {
-      const economy = this.economyManager.getOrCreateEconomy(index);
-      
-      // Base stockpiles for all settlements (universal needs)
-      const baseMultiplier = settlement.type === "city" ? 1.0 : settlement.type === "village" ? 0.5 : 0.2;
-      
-      // Universal food stockpiles (scaled by settlement size)
-      economy.addGood(GoodType.Bread, Math.floor(30 * baseMultiplier));
-      economy.addGood(GoodType.Meat, Math.floor(15 * baseMultiplier));
-      
-      // Scan settlement buildings and add appropriate stockpiles
-      const buildingCounts = new Map<BuildingType, number>();
-      for (const tile of settlement.tiles) {
-        const hexTile = this.worldMap.getTile({ col: tile.col, row: tile.row });
-        if (!hexTile || hexTile.building === BuildingType.None) continue;
-        
-        buildingCounts.set(hexTile.building, (buildingCounts.get(hexTile.building) || 0) + 1);
-      }
-      
-      // For each building type, add relevant resources/goods
-      buildingCounts.forEach((count, buildingType) => {
-        const amount = count * 10; // Base amount per building
-        
-        // Extraction buildings -> add resources
-        switch (buildingType) {
-          case BuildingType.LumberCamp:
-          case BuildingType.Sawmill:
-            economy.addResource(ResourceType.Timber, amount);
-            economy.addGood(GoodType.Planks, amount / 2);
-            break;
-          case BuildingType.Quarry:
-            economy.addResource(ResourceType.Stone, amount);
-            break;
-          case BuildingType.ClayPit:
-            economy.addResource(ResourceType.Clay, amount);
-            break;
-          case BuildingType.IronMine:
-            economy.addResource(ResourceType.Iron, amount);
-            break;
-          case BuildingType.CopperMine:
-            economy.addResource(ResourceType.Copper, amount);
-            break;
-          case BuildingType.SilverMine:
-            economy.addResource(ResourceType.Silver, amount / 2);
-            break;
-          case BuildingType.GoldMine:
-            economy.addResource(ResourceType.Gold, amount / 2);
-            break;
-          case BuildingType.GemMine:
-            economy.addResource(ResourceType.Gems, amount / 2);
-            break;
-          case BuildingType.SaltWorks:
-            economy.addResource(ResourceType.Salt, amount);
-            break;
-          case BuildingType.Pasture:
-            economy.addResource(ResourceType.Livestock, amount);
-            economy.addGood(GoodType.Meat, amount / 2);
-            break;
-          case BuildingType.Field:
-            economy.addResource(ResourceType.Wheat, amount);
-            economy.addGood(GoodType.Bread, amount);
-            break;
-          case BuildingType.FishingHut:
-          case BuildingType.FishingBoat:
-            economy.addResource(ResourceType.Fish, amount);
-            economy.addGood(GoodType.PreparedFish, amount / 2);
-            break;
-          case BuildingType.HuntingLodge:
-            economy.addResource(ResourceType.WildGame, amount);
-            economy.addGood(GoodType.Meat, amount / 3);
-            break;
-            
-          // Production buildings -> add goods
-          case BuildingType.CharcoalBurner:
-            economy.addGood(GoodType.Coal, amount * 2); // Critical resource
-            break;
-          case BuildingType.Smelter:
-            economy.addGood(GoodType.Coal, amount);
-            economy.addGood(GoodType.CopperIngot, amount / 2);
-            economy.addGood(GoodType.IronIngot, amount / 2);
-            break;
-          case BuildingType.Smithy:
-            economy.addGood(GoodType.IronSword, count * 2);
-            economy.addGood(GoodType.IronTools, count * 3);
-            economy.addGood(GoodType.CopperTools, count * 2);
-            economy.addGood(GoodType.IronArmor, count);
-            break;
-          case BuildingType.Kiln:
-            economy.addGood(GoodType.Bricks, amount);
-            economy.addGood(GoodType.Pottery, amount / 2);
-            break;
-          case BuildingType.Tannery:
-            economy.addGood(GoodType.Leather, amount);
-            economy.addGood(GoodType.LeatherArmor, count);
-            break;
-          case BuildingType.Windmill:
-          case BuildingType.GrainSilo:
-            economy.addResource(ResourceType.Wheat, amount);
-            economy.addGood(GoodType.Bread, amount);
-            break;
-        }
-      });
-      
-      console.log(`[Economy] Initialized economy for settlement ${index} (${settlement.type}) with ${buildingCounts.size} building types`);
-    });
+  private openTradePanel(): void {
+    const settlement = this.worldMap.getSettlementForTile(this.character.currentTile);
+    if (!settlement) {
+      this.hud.showMessage("There is no market here");
+      return;
+    }
+    const settlementId = this.worldMap.settlements.indexOf(settlement);
+    if (!this.reputation.getStandingConfig(settlementId).market) {
+      this.hud.showMessage(`${settlement.name} refuses to trade with you`);
+      return;
+    }
+    this.tradePanel.open(settlementId);
+    this.input.setEnabled(false);
   }
 
   /**
-   * Initialize populations for all settlements
+   * Capture the complete game state as a versioned save
    */
-  private initializePopulations(): void {
-    this.worldMap.settlements.forEach((settlement, index) => {
-      const population = this.populationManager.getOrCreatePopulation(index);
-      
-      // Calculate initial population based on settlement size
-      let targetPop = 0;
-      if (settlement.type === "city") {
-        targetPop = 40 + Math.floor(Math.random() * 30); // 40-70
-      } else if (settlement.type === "village") {
-        targetPop = 15 + Math.floor(Math.random() * 15); // 15-30
-      } else {
-        targetPop = 3 + Math.floor(Math.random() * 5); // 3-8
-      }
-      
-      // Count buildings to determine initial skills distribution
-      const buildingCounts = new Map<BuildingType, number>();
-      for (const tile of settlement.tiles) {
-        const hexTile = this.worldMap.getTile({ col: tile.col, row: tile.row });
-        if (!hexTile || hexTile.building === BuildingType.None) continue;
-        buildingCounts.set(hexTile.building, (buildingCounts.get(hexTile.building) || 0) + 1);
-      }
-      
-      // Create people with appropriate skills
-      for (let i = 0; i < targetPop; i++) {
-        // Age distribution: 20% children, 65% adults, 15% elders
-        let age: number;
-        const ageRoll = Math.random();
-        if (ageRoll < 0.2) {
-          age = Math.floor(Math.random() * 14); // 0-13
-        } else if (ageRoll < 0.85) {
-          age = 14 + Math.floor(Math.random() * 46); // 14-60
-        } else {
-          age = 60 + Math.floor(Math.random() * 20); // 60-80
-        }
-        
-        // Give some people starting skills based on settlement buildings
-        const skills: Partial<Record<JobType, number>> = {};
-        
-        // Randomly assign 1-2 skills based on available buildings
-        if (buildingCounts.size > 0) {
-          const buildingTypes = Array.from(buildingCounts.keys());
-          const randomBuilding = buildingTypes[Math.floor(Math.random() * buildingTypes.length)];
-          const jobType = getJobForBuilding(randomBuilding);
-          
-          if (jobType !== JobType.None && Math.random() < 0.3) { // 30% chance to have skill
-            skills[jobType] = 10 + Math.floor(Math.random() * 40); // 10-50 skill
-          }
-        }
-        
-        // Everyone has some farming skill (universal)
-        if (Math.random() < 0.5) {
-          skills[JobType.Farmer] = 5 + Math.floor(Math.random() * 25); // 5-30 skill
-        }
-        
-        const person = createPerson(index, age, skills);
-        population.addPerson(person);
-      }
-      
-      console.log(`[Population] Initialized settlement ${index} (${settlement.type}) with ${targetPop} people`);
-    });
+  private createSaveData(name: string): SaveData {
+    return {
+      version: SAVE_VERSION,
+      name,
+      savedAt: Date.now(),
+      seed: this.worldMap.seed,
+      preset: this.worldSettings.preset ?? null,
+      worldOverrides: structuredClone(this.worldSettings.overrides),
+      width: this.worldMap.width,
+      height: this.worldMap.height,
+      tiles: serializeTiles(this.worldMap.grid),
+      settlements: structuredClone(this.worldMap.settlements),
+      economies: this.economyManager.serialize(),
+      populations: this.populationManager.serialize(),
+      trade: this.tradeManager.serialize(),
+      construction: this.simulation.constructionSystem.serialize(),
+      bandits: this.simulation.banditSystem.serialize(),
+      garrisons: this.simulation.garrisonSystem.serialize(),
+      shipyards: this.simulation.shipyardSystem.serialize(),
+      tools: this.simulation.toolSystem.serialize(),
+      prices: this.priceLedger.serialize(),
+      property: this.simulation.propertySystem.serialize(),
+      quests: this.questSystem.serialize(),
+      reputation: this.reputation.serialize(),
+      character: this.character.serialize(),
+      rng: this.simulation.rng.getState(),
+    };
   }
 
   /**
-   * Initialize settlement treasuries based on population
+   * Save the current game into a named local slot
    */
-  private initializeTreasuries(): void {
-    this.worldMap.settlements.forEach((settlement, index) => {
-      const economy = this.economyManager.getEconomy(index);
-      const population = this.populationManager.getPopulation(index);
-      
-      if (!economy || !population) return;
-      
-      const popSize = population.getTotalPopulation();
-      
-      // Calculate starting treasury based on settlement size and type
-      // Formula: 10 gold per person + settlement type bonus
-      let treasuryAmount = popSize * 10;
-      
-      // Type bonuses
-      if (settlement.type === "city") {
-        treasuryAmount += 500; // Cities start with more capital
-      } else if (settlement.type === "village") {
-        treasuryAmount += 200; // Villages have modest reserves
-      } else {
-        treasuryAmount += 50; // Hamlets have minimal reserves
-      }
-      
-      economy.setTreasury(treasuryAmount);
-      
-      console.log(`[Economy] Initialized treasury for settlement ${index} (${settlement.type}, ${popSize} people): ${treasuryAmount}g`);
-    });
+  private saveGame(name: string): void {
+    try {
+      this.saveStorage.saveToSlot(this.createSaveData(name));
+      this.saveLoadPanel.setStatus(`Saved "${name}"`);
+    } catch (err) {
+      console.error("[Save] Failed to save:", err);
+      this.saveLoadPanel.setStatus(`Save failed: ${(err as Error).message}`);
+    }
   }
 
   /**
-   * Process one economy tick - extraction and production
+   * Load a save. The world is regenerated from the save's seed,
+   * so the page reloads and the save is applied during start().
    */
-  private economyTick(): void {
-    this.worldMap.settlements.forEach((settlement, settlementIndex) => {
-      const economy = this.economyManager.getEconomy(settlementIndex);
-      const population = this.populationManager.getPopulation(settlementIndex);
-      if (!economy || !population) {
-        console.log(`[Economy] Settlement ${settlementIndex} missing economy or population`);
-        return;
-      }
-
-      console.log(`[Economy] Processing settlement ${settlementIndex} (${settlement.type})`);
-      console.log(`  - Population: ${population.getTotalPopulation()} people`);
-
-      // Phase 1: Calculate housing capacity (uses density system: 1-5 people per housing tile)
-      const housingCapacity = calculateHousingCapacity(
-        settlement.tiles,
-        (col, row) => {
-          const tile = this.worldMap.getTile({ col, row });
-          return tile ? { building: tile.building, housingDensity: tile.housingDensity } : undefined;
-        }
-      );
-      
-      // Phase 2: Worker assignment (before production)
-      const buildings = this.getSettlementBuildings(settlement);
-      console.log(`  - Buildings requiring workers: ${buildings.length}`);
-      const assignments = this.workerAssignmentSystem.assignWorkersToBuildings(
-        population,
-        buildings,
-        economy
-      );
-      console.log(`  - Workers assigned: ${assignments.length}`);
-      
-      // Phase 3: Extract resources (with workers)
-      this.executeExtraction(settlement, settlementIndex, economy, assignments);
-
-      // Phase 4: Execute production recipes (with workers)
-      this.executeProduction(settlement, settlementIndex, economy, assignments);
-      
-      // Phase 5: Experience gain for workers
-      for (const assignment of assignments) {
-        population.recordExperience(assignment.person.id, assignment.jobType, 8);
-      }
-
-      // Phase 6: Population dynamics (last - after work is done)
-      const unemployedCount = population.getUnemployed().length;
-      console.log(`  - Unemployed: ${unemployedCount}`);
-      population.processTurn(economy, settlement, housingCapacity, unemployedCount);
-      
-      // Phase 7: Housing upgrades (after population changes)
-      const newPopulation = population.getTotalPopulation();
-      const newCapacity = calculateHousingCapacity(
-        settlement.tiles,
-        (col, row) => {
-          const tile = this.worldMap.getTile({ col, row });
-          return tile ? { building: tile.building, housingDensity: tile.housingDensity } : undefined;
-        }
-      );
-      const upgradedTiles = this.housingUpgradeSystem.upgradeHousingIfNeeded(
-        this.worldMap.grid,
-        settlement,
-        newPopulation,
-        newCapacity,
-        economy
-      );
-      if (upgradedTiles > 0) {
-        console.log(`  - Upgraded ${upgradedTiles} housing tiles to accommodate growth`);
-      }
-      
-      // Phase 8: City evolution (after housing upgrades)
-      const evolved = this.housingUpgradeSystem.tryEvolveToCity(
-        this.worldMap.grid,
-        settlement,
-        newPopulation,
-        economy
-      );
-      if (evolved) {
-        console.log(`  - Settlement evolved to CITY!`);
-      }
-      
-      console.log(`  - After turn: Population ${newPopulation}, Avg Health ${population.getAverageHealth()}%, Avg Hunger ${population.getAverageHunger()}%`);
-    });
-    
-    // Phase 7: Process trade (after all settlements have produced)
-    console.log(`[Trade] Processing trade system`);
-    this.tradeManager.processTurn(this.economyManager, this.populationManager);
+  private loadGame(data: SaveData): void {
+    this.saveStorage.setPendingLoad(data);
+    this.updateURLWithWorld(this.getSaveWorldSettings(data));
+    window.location.reload();
   }
 
   /**
-   * Get building info for a settlement
+   * Start a new game in a freshly generated world. The settings go into
+   * the URL and the page reloads, like loading a save.
    */
-  private getSettlementBuildings(settlement: Settlement): BuildingInfo[] {
-    const buildings: BuildingInfo[] = [];
-    
-    for (const tile of settlement.tiles) {
-      const hexTile = this.worldMap.getTile({ col: tile.col, row: tile.row });
-      if (!hexTile || hexTile.building === BuildingType.None) continue;
-      
-      if (requiresWorkers(hexTile.building)) {
-        buildings.push({
-          type: hexTile.building,
-          location: { col: tile.col, row: tile.row },
-        });
-      }
-    }
-    
-    return buildings;
+  private startNewWorld(settings: WorldSettings): void {
+    this.updateURLWithWorld(settings);
+    window.location.reload();
   }
 
   /**
-   * Execute resource extraction for a settlement
+   * World settings a save was generated from (its map size wins)
    */
-  private executeExtraction(
-    settlement: any,
-    settlementIndex: number,
-    economy: any,
-    assignments: any[]
-  ): void {
-    // Find all extraction buildings in this settlement
-    for (const tile of settlement.tiles) {
-      const hexTile = this.worldMap.getTile({ col: tile.col, row: tile.row });
-      if (!hexTile) continue;
-
-      const building = hexTile.building;
-      if (building === BuildingType.None) continue;
-
-      // Check if this is an extraction building
-      if (isExtractionBuilding(building)) {
-        // Find workers assigned to this building
-        const buildingWorkers = assignments.filter(
-          a => a.building.col === tile.col && a.building.row === tile.row
-        );
-        
-        // Calculate total productivity
-        const totalProductivity = buildingWorkers.reduce(
-          (sum, w) => sum + w.productivity,
-          0
-        );
-        
-        // Extract resources (scaled by worker productivity)
-        const result = extractResources(
-          this.worldMap.grid,
-          hexTile,
-          building,
-          totalProductivity
-        );
-        
-        if (result) {
-          economy.addResource(result.resourceType, result.amount);
-          console.log(`[Economy] Settlement ${settlementIndex} extracted ${result.amount} ${result.resourceType} (${buildingWorkers.length} workers, ${totalProductivity.toFixed(2)} productivity)`);
-        } else if (buildingWorkers.length > 0) {
-          console.log(`[Economy] Settlement ${settlementIndex} building ${building} has ${buildingWorkers.length} workers but extracted nothing (no nearby resources?)`);
-        }
-      }
-    }
+  private getSaveWorldSettings(data: SaveData): WorldSettings {
+    return {
+      seed: data.seed,
+      preset: data.preset ?? undefined,
+      overrides: { ...data.worldOverrides, width: data.width, height: data.height },
+    };
   }
 
   /**
-   * Execute production for a settlement
+   * Apply a save onto the freshly generated world (called before rendering)
    */
-  private executeProduction(
-    settlement: any,
-    settlementIndex: number,
-    economy: any,
-    assignments: any[]
-  ): void {
-    // Process ongoing production jobs
-    for (const tile of settlement.tiles) {
-      const hexTile = this.worldMap.getTile({ col: tile.col, row: tile.row });
-      if (!hexTile) continue;
-
-      const building = hexTile.building;
-      if (building === BuildingType.None) continue;
-
-      // Check if this building is currently producing
-      const activeJob = economy.getProductionForBuilding(tile.col, tile.row);
-      if (activeJob) {
-        const recipe = getRecipeById(activeJob.recipeId);
-        if (recipe) {
-          economy.tickProduction(recipe);
-        }
-        continue; // Building is busy
-      }
-
-      // Try to start new production if building is idle
-      const recipes = getRecipesForBuilding(building);
-      for (const recipe of recipes) {
-        if (economy.canProduce(recipe)) {
-          // Find workers assigned to this building
-          const buildingWorkers = assignments.filter(
-            a => a.building.col === tile.col && a.building.row === tile.row
-          );
-          
-          // Calculate total productivity
-          const totalProductivity = buildingWorkers.reduce(
-            (sum, w) => sum + w.productivity,
-            0
-          );
-          
-          // For buildings with no worker requirement (houses), use 1.0 productivity
-          // For other buildings, they need workers to produce
-          const effectiveProductivity = totalProductivity > 0 ? totalProductivity : 1.0;
-          
-          // Start production with worker productivity
-          const started = economy.startProduction(
-            recipe,
-            { col: tile.col, row: tile.row },
-            effectiveProductivity
-          );
-          
-          if (started) {
-            console.log(`[Economy] Settlement ${settlementIndex} started ${recipe.name} (${buildingWorkers.length} workers, ${effectiveProductivity.toFixed(2)} productivity)`);
-            break; // Only start one recipe per building per tick
-          }
-        }
-      }
-    }
+  private applySaveData(data: SaveData): void {
+    console.log(`[Save] Restoring "${data.name}" (turn ${data.character.turn})`);
+
+    restoreTiles(this.worldMap.grid, data.tiles);
+
+    // Replace settlements in place (other systems hold a reference to this array)
+    this.worldMap.settlements.splice(0, this.worldMap.settlements.length, ...structuredClone(data.settlements));
+
+    this.economyManager.restore(data.economies);
+    this.populationManager.restore(data.populations);
+    this.tradeManager.restore(data.trade);
+    this.simulation.constructionSystem.restore(data.construction);
+    this.simulation.banditSystem.restore(data.bandits);
+    this.simulation.garrisonSystem.restore(data.garrisons);
+    this.simulation.shipyardSystem.restore(data.shipyards);
+    this.simulation.toolSystem.restore(data.tools);
+    this.priceLedger.restore(data.prices);
+    this.simulation.propertySystem.restore(data.property);
+    this.questSystem.restore(data.quests);
+    this.reputation.restore(data.reputation);
+    this.character.restore(data.character, this.worldMap);
+    this.simulation.rng.setState(data.rng);
+    this.simulation.turn = data.character.turn;
+    // Statistics are not saved; the charts start again from the loaded turn
+    this.simulation.statistics.clear();
   }
 }
@@ -33,6 +33,9 @@ const DRAG_THRESHOLD = 5;
  *   Mouse hover       — terrain tooltip
  *   C                 — center camera on character
  *   Space / Enter     — end turn
+ *   L                 — save / load panel
+ *   G                 — statistics charts (selected settlement or world)
+ *   T                 — trade at the settlement market you stand in
  */
 export class InputManager {
   private camera: Camera;
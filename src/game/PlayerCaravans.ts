@@ -0,0 +1,176 @@
+import { Character } from "../entity/Character";
+import { Trader } from "../world/trade/Trader";
+import {
+  CaravanRule,
+  CARAVAN_HIRE_FEE,
+  CARAVAN_CAPITAL,
+  MAX_CARAVAN_STOPS,
+  MAX_CARAVAN_RULES,
+} from "../world/trade/Caravan";
+import { getMaterialName } from "../world/ProductionRecipe";
+import { PlayerTrade } from "./PlayerTrade";
+import { Simulation } from "./Simulation";
+
+/**
+ * Outcome of a caravan action (message is shown to the player)
+ */
+export interface CaravanResult {
+  success: boolean;
+  message: string;
+}
+
+/**
+ * Player actions on caravans: hiring a merchant in a settlement, laying out
+ * their route and trading rules, and letting them go. The caravans themselves
+ * travel and trade in the trade manager like any other trader.
+ */
+export class PlayerCaravans {
+  private simulation: Simulation;
+  private trade: PlayerTrade;
+
+  constructor(simulation: Simulation, trade: PlayerTrade) {
+    this.simulation = simulation;
+    this.trade = trade;
+  }
+
+  /**
+   * The player's caravans
+   */
+  getCaravans(): Trader[] {
+    return this.simulation.tradeManager.getCaravans();
+  }
+
+  /**
+   * Gold needed to hire a caravan (the fee plus its working capital)
+   */
+  getHireCost(): number {
+    return CARAVAN_HIRE_FEE + CARAVAN_CAPITAL;
+  }
+
+  /**
+   * Hire a caravan in the settlement the character stands in
+   * (the fee goes to its treasury, the capital travels with the caravan)
+   */
+  hire(character: Character): CaravanResult {
+    const settlementId = character.currentTile.settlementId;
+    if (settlementId === undefined) return this.fail("Caravans are hired in settlements");
+    if (!this.trade.isWelcome(settlementId)) return this.fail(this.trade.getRefusal(settlementId));
+
+    const cost = this.getHireCost();
+    if (character.gold < cost) return this.fail(`Not enough gold (${cost}g)`);
+
+    const caravan = this.simulation.tradeManager.hireCaravan(
+      settlementId,
+      CARAVAN_CAPITAL,
+      this.simulation.populationManager
+    );
+    const place = this.simulation.worldMap.settlements[settlementId].name;
+    if (!caravan) return this.fail(`Nobody in ${place} is free to lead a caravan`);
+
+    character.gold -= cost;
+    this.simulation.economyManager.getEconomy(settlementId)?.addMoney(CARAVAN_HIRE_FEE);
+    this.simulation.propertySystem.record(
+      character.turn, settlementId, "expense",
+      `Hired ${caravan.name}'s caravan in ${place} (${CARAVAN_CAPITAL}g capital)`, -cost
+    );
+    return { success: true, message: `${caravan.name} leads your caravan — give it a route` };
+  }
+
+  /**
+   * Settlements that can be added to a caravan's route, nearest to its home first
+   */
+  getStopChoices(caravan: Trader): number[] {
+    const worldMap = this.simulation.worldMap;
+    const home = worldMap.getTile(worldMap.settlements[caravan.homeSettlement].center);
+    const distance = (id: number) => {
+      const center = worldMap.getTile(worldMap.settlements[id].center);
+      return home && center ? worldMap.hexDistance(home, center) : Infinity;
+    };
+    return worldMap.settlements
+      .map((_, id) => id)
+      .filter(id => !caravan.route?.stops.some(stop => stop.settlementId === id))
+      .sort((a, b) => distance(a) - distance(b));
+  }
+
+  /**
+   * Add a settlement to the end of a caravan's route
+   */
+  addStop(caravan: Trader, settlementId: number): CaravanResult {
+    const route = caravan.route;
+    const settlement = this.simulation.worldMap.settlements[settlementId];
+    if (!route || !settlement) return this.fail("That stop can't be added");
+    if (route.stops.length >= MAX_CARAVAN_STOPS) return this.fail(`A route has at most ${MAX_CARAVAN_STOPS} stops`);
+    if (route.stops.some(stop => stop.settlementId === settlementId)) {
+      return this.fail(`${settlement.name} is already on the route`);
+    }
+
+    route.stops.push({ settlementId, rules: [] });
+    return { success: true, message: `${settlement.name} added to the route` };
+  }
+
+  /**
+   * Remove a stop (a caravan already heading there still arrives, then moves on)
+   */
+  removeStop(caravan: Trader, stopIndex: number): void {
+    caravan.route?.stops.splice(stopIndex, 1);
+  }
+
+  /**
+   * Add a buy or sell rule to a stop
+   */
+  addRule(caravan: Trader, stopIndex: number, rule: CaravanRule): CaravanResult {
+    const stop = caravan.route?.stops[stopIndex];
+    if (!stop) return this.fail("Choose a stop first");
+    if (stop.rules.length >= MAX_CARAVAN_RULES) return this.fail(`A stop has at most ${MAX_CARAVAN_RULES} rules`);
+    if (rule.price <= 0 || rule.quantity <= 0) return this.fail("Price and quantity must be above zero");
+    if (stop.rules.some(r => r.material === rule.material && r.action === rule.action)) {
+      return this.fail(`There already is a rule to ${rule.action} ${getMaterialName(rule.material)} here`);
+    }
+
+    stop.rules.push({ ...rule });
+    return { success: true, message: this.describeRule(rule) };
+  }
+
+  /**
+   * Remove a rule from a stop
+   */
+  removeRule(caravan: Trader, stopIndex: number, ruleIndex: number): void {
+    caravan.route?.stops[stopIndex]?.rules.splice(ruleIndex, 1);
+  }
+
+  /**
+   * Let a caravan go; its purse comes back to the player
+   */
+  dismiss(caravan: Trader, character: Character): CaravanResult {
+    if (!caravan.route) return this.fail("That is not your caravan");
+
+    const purse = this.simulation.tradeManager.dismissCaravan(
+      caravan.id,
+      this.simulation.economyManager,
+      this.simulation.populationManager
+    );
+    character.gold += purse;
+    this.simulation.propertySystem.record(
+      character.turn, caravan.homeSettlement, "income",
+      `Dismissed ${caravan.name}'s caravan`, purse
+    );
+    return { success: true, message: `${caravan.name} returned ${purse}g` };
+  }
+
+  /**
+   * A rule in words, e.g. "Buy Iron Ore at 6g or less, up to 30"
+   */
+  describeRule(rule: CaravanRule): string {
+    const name = getMaterialName(rule.material);
+    return rule.action === "buy"
+      ? `Buy ${name} at ${rule.price}g or less, up to ${rule.quantity}`
+      : `Sell ${name} at ${rule.price}g or more, up to ${rule.quantity}`;
+  }
+
+  /**
+   * A failed action result
+   */
+  private fail(message: string): CaravanResult {
+    return { success: false, message };
+  }
+}
@@ -0,0 +1,291 @@
+import { Character } from "../entity/Character";
+import { HexTile } from "../world/HexTile";
+import { BuildingType, BUILDING_CONFIG } from "../world/Building";
+import { CONSTRUCTION_CONFIG } from "../world/Construction";
+import { Property, PropertySystem, WAREHOUSE_CAPACITY } from "../world/Property";
+import { MaterialType, ProductionRecipe, RecipeItem, getRecipesForBuilding, getMaterialName } from "../world/ProductionRecipe";
+import { getWorkerCapacity } from "../world/population/JobMapping";
+import { PlayerTrade } from "./PlayerTrade";
+import { Simulation } from "./Simulation";
+
+/** Gold per unit of builder work when a standing building is valued. */
+const LABOR_PRICE = 10;
+
+/** Settlements part with a working building for this much more than it is worth. */
+const PURCHASE_PREMIUM = 1.5;
+
+/**
+ * A building the player can buy, or have built, in a settlement
+ */
+export interface PropertyOffer {
+  kind: "purchase" | "commission";
+  building: BuildingType;
+  name: string;
+  /** Tile of the building for sale (purchases only) */
+  tile?: { col: number; row: number };
+  price: number;
+  /** Why the offer can't be taken right now */
+  unavailable?: string;
+}
+
+/**
+ * Outcome of a property action (message is shown to the player)
+ */
+export interface PropertyResult {
+  success: boolean;
+  message: string;
+  /** Tiles to re-render (a commissioned site was claimed) */
+  changedTiles?: HexTile[];
+}
+
+/**
+ * Player actions on property: buying or commissioning production buildings,
+ * choosing their recipe and staff, and moving goods between the character's
+ * cargo, a building's warehouse and the settlement market.
+ */
+export class PlayerProperty {
+  private simulation: Simulation;
+  private trade: PlayerTrade;
+
+  constructor(simulation: Simulation, trade: PlayerTrade) {
+    this.simulation = simulation;
+    this.trade = trade;
+  }
+
+  /** The player's buildings, warehouses and ledger. */
+  get properties(): PropertySystem {
+    return this.simulation.propertySystem;
+  }
+
+  /**
+   * Buildings for sale in a settlement, then the buildings that can be commissioned there
+   */
+  getOffers(settlementId: number): PropertyOffer[] {
+    const settlement = this.simulation.worldMap.settlements[settlementId];
+    const economy = this.simulation.economyManager.getEconomy(settlementId);
+    if (!settlement || !economy) return [];
+
+    const buildings = Object.keys(CONSTRUCTION_CONFIG) as BuildingType[];
+
+    const purchases: PropertyOffer[] = settlement.tiles
+      .map(pos => this.simulation.worldMap.getTile(pos))
+      .filter((tile): tile is HexTile => !!tile && buildings.includes(tile.building))
+      .filter(tile => !this.properties.isOwned(tile.col, tile.row))
+      .map(tile => ({
+        kind: "purchase" as const,
+        building: tile.building,
+        name: BUILDING_CONFIG[tile.building].name,
+        tile: { col: tile.col, row: tile.row },
+        price: this.getPurchasePrice(settlementId, tile.building),
+      }));
+
+    const commissions: PropertyOffer[] = buildings.map(building => {
+      const missing = this.getCostItems(building)
+        .filter(item => economy.getMaterialAmount(item.type) < item.quantity)
+        .map(item => `${item.quantity} ${getMaterialName(item.type)}`);
+      return {
+        kind: "commission" as const,
+        building,
+        name: BUILDING_CONFIG[building].name,
+        price: this.getCommissionPrice(settlementId, building),
+        unavailable: missing.length > 0 ? `Needs ${missing.join(", ")} in stock` : undefined,
+      };
+    });
+
+    return [...purchases, ...commissions];
+  }
+
+  /**
+   * Buy a settlement's building (the price goes to its treasury)
+   */
+  buy(settlementId: number, offer: PropertyOffer, character: Character): PropertyResult {
+    if (offer.kind !== "purchase" || !offer.tile) return this.fail("That building is not for sale");
+    if (!this.trade.isWelcome(settlementId)) return this.fail(this.trade.getRefusal(settlementId));
+
+    const tile = this.simulation.worldMap.getTile(offer.tile);
+    if (!tile || tile.building !== offer.building || this.properties.isOwned(tile.col, tile.row)) {
+      return this.fail("That building is not for sale");
+    }
+    if (character.gold < offer.price) return this.fail(`Not enough gold (${offer.price}g)`);
+
+    character.gold -= offer.price;
+    const economy = this.simulation.economyManager.getEconomy(settlementId);
+    economy?.addMoney(offer.price);
+    // The settlement's batch would never finish (owned buildings run from the player's warehouse)
+    economy?.cancelProduction(tile.col, tile.row);
+    const property = this.properties.addProperty(settlementId, offer.tile, offer.building);
+    property.recipeId = getRecipesForBuilding(offer.building)[0]?.id;
+
+    const place = this.simulation.worldMap.settlements[settlementId].name;
+    this.properties.record(character.turn, settlementId, "expense", `Bought the ${offer.name} in ${place}`, -offer.price);
+    console.log(`[Property] Player bought the ${offer.name} at ${tile.col},${tile.row} for ${offer.price}g`);
+    return { success: true, message: `You own the ${offer.name} in ${place} — hire workers to start production` };
+  }
+
+  /**
+   * Have a new building put up next to a settlement: its materials are bought
+   * from the settlement's stock, and the player pays the builders' wages
+   */
+  commission(settlementId: number, building: BuildingType, character: Character): PropertyResult {
+    const config = CONSTRUCTION_CONFIG[building];
+    const settlement = this.simulation.worldMap.settlements[settlementId];
+    const economy = this.simulation.economyManager.getEconomy(settlementId);
+    if (!config || !settlement || !economy) return this.fail("That building can't be commissioned here");
+    if (!this.trade.isWelcome(settlementId)) return this.fail(this.trade.getRefusal(settlementId));
+
+    const cost = this.getCostItems(building);
+    if (cost.some(item => economy.getMaterialAmount(item.type) < item.quantity)) {
+      return this.fail(`${settlement.name} lacks the materials`);
+    }
+    const price = this.getCommissionPrice(settlementId, building);
+    if (character.gold < price) return this.fail(`Not enough gold (${price}g)`);
+
+    const worldMap = this.simulation.worldMap;
+    const tile = this.simulation.constructionSystem.claimBuildSite(worldMap, settlement, settlementId);
+    if (!tile) return this.fail(`No free land next to ${settlement.name}`);
+
+    for (const item of cost) economy.removeMaterial(item.type, item.quantity);
+    economy.addMoney(price);
+    character.gold -= price;
+    this.properties.addProperty(settlementId, { col: tile.col, row: tile.row }, building, config.work);
+    this.refreshMarket(settlementId);
+
+    const name = BUILDING_CONFIG[building].name;
+    this.properties.record(character.turn, settlementId, "expense", `Commissioned a ${name} in ${settlement.name}`, -price);
+    console.log(`[Property] Player commissioned a ${name} at ${tile.col},${tile.row} for ${price}g`);
+    return {
+      success: true,
+      message: `Builders will put up your ${name} (${config.work} work)`,
+      changedTiles: [tile, ...worldMap.getNeighbors(tile).filter(n => n.settlementId !== undefined)],
+    };
+  }
+
+  /**
+   * Recipes a building can run
+   */
+  getRecipes(property: Property): ProductionRecipe[] {
+    return getRecipesForBuilding(property.building);
+  }
+
+  /**
+   * Choose the recipe a building runs (a job already under way is finished first)
+   */
+  setRecipe(property: Property, recipeId: string | undefined): void {
+    property.recipeId = recipeId;
+  }
+
+  /**
+   * Most workers a building employs
+   */
+  getMaxWorkers(property: Property): number {
+    return getWorkerCapacity(property.building);
+  }
+
+  /**
+   * Set how many workers a building employs (they start next turn)
+   */
+  hire(property: Property, count: number): void {
+    if (this.properties.isUnderConstruction(property)) return;
+    property.hired = Math.max(0, Math.min(this.getMaxWorkers(property), count));
+  }
+
+  /**
+   * Move goods from the character's cargo into a building's warehouse
+   */
+  store(property: Property, character: Character, material: MaterialType, quantity: number): PropertyResult {
+    if (!this.isPresent(property, character)) return this.fail("You must be in the settlement");
+
+    const name = getMaterialName(material);
+    const space = Math.floor(WAREHOUSE_CAPACITY - property.warehouse.getMaterialAmount(material));
+    const amount = Math.min(quantity, character.getCarriedAmount(material), space);
+    if (amount <= 0) {
+      return this.fail(space <= 0 ? `The warehouse is full of ${name}` : `You carry no ${name}`);
+    }
+
+    character.removeCarried(material, amount);
+    property.warehouse.addMaterial(material, amount);
+    return { success: true, message: `Stored ${amount} ${name}` };
+  }
+
+  /**
+   * Move goods from a building's warehouse into the character's cargo
+   */
+  take(property: Property, character: Character, material: MaterialType, quantity: number): PropertyResult {
+    if (!this.isPresent(property, character)) return this.fail("You must be in the settlement");
+
+    const name = getMaterialName(material);
+    let amount = Math.min(quantity, Math.floor(property.warehouse.getMaterialAmount(material)));
+    while (amount > 0 && !character.canCarry(material, amount)) amount--;
+    if (amount <= 0) {
+      return this.fail(property.warehouse.getMaterialAmount(material) < 1 ? `No ${name} in the warehouse` : `Too heavy — no room for ${name}`);
+    }
+
+    property.warehouse.removeMaterial(material, amount);
+    character.addCarried(material, amount);
+    return { success: true, message: `Took ${amount} ${name}` };
+  }
+
+  /**
+   * Sell goods from a building's warehouse to the settlement's market
+   */
+  sell(property: Property, character: Character, material: MaterialType, quantity: number): PropertyResult {
+    if (!this.isPresent(property, character)) return this.fail("You must be in the settlement");
+
+    const result = this.trade.sellFromWarehouse(property.settlementId, character, property.warehouse, material, quantity);
+    if (result.success) {
+      this.properties.record(character.turn, property.settlementId, "income", result.message, result.total);
+    }
+    return { success: result.success, message: result.message };
+  }
+
+  /**
+   * Check if the character stands in the property's settlement
+   */
+  isPresent(property: Property, character: Character): boolean {
+    return character.currentTile.settlementId === property.settlementId;
+  }
+
+  /**
+   * Price of a settlement's standing building: materials and labor, plus a premium
+   */
+  private getPurchasePrice(settlementId: number, building: BuildingType): number {
+    const work = CONSTRUCTION_CONFIG[building]?.work ?? 0;
+    return Math.ceil((this.getCommissionPrice(settlementId, building) + work * LABOR_PRICE) * PURCHASE_PREMIUM);
+  }
+
+  /**
+   * Price of a new building's materials at the settlement's prices for the player
+   */
+  private getCommissionPrice(settlementId: number, building: BuildingType): number {
+    return Math.ceil(this.getCostItems(building).reduce(
+      (sum, item) => sum + this.trade.getUnitBuyPrice(settlementId, item.type) * item.quantity,
+      0
+    ));
+  }
+
+  /**
+   * Construction materials of a building
+   */
+  private getCostItems(building: BuildingType): RecipeItem[] {
+    const config = CONSTRUCTION_CONFIG[building];
+    return config ? this.simulation.constructionSystem.getCostItems(config.cost) : [];
+  }
+
+  /**
+   * Recalculate supply/demand prices after the stockpile changed
+   */
+  private refreshMarket(settlementId: number): void {
+    this.simulation.tradeManager.refreshMarket(
+      settlementId,
+      this.simulation.economyManager,
+      this.simulation.populationManager
+    );
+  }
+
+  /**
+   * A failed action result
+   */
+  private fail(message: string): PropertyResult {
+    return { success: false, message };
+  }
+}
@@ -0,0 +1,246 @@
+import { Character } from "../entity/Character";
+import { MaterialType, getAllMaterials, getMaterialName, getMaterialWeight } from "../world/ProductionRecipe";
+import { SettlementEconomy } from "../world/SettlementEconomy";
+import { Simulation } from "./Simulation";
+import { ReputationSystem } from "./Reputation";
+
+/** Multiplier on the market price when the player buys (the settlement keeps a margin). */
+export const PLAYER_BUY_MARKUP = 1.1;
+
+/** Multiplier on the market price when the player sells. */
+export const PLAYER_SELL_RATE = 0.9;
+
+/** Buy offers at least this urgent make a sale count as helping the settlement. */
+const NEEDED_PRIORITY = 70;
+
+/**
+ * What a settlement offers for one material.
+ */
+export interface TradeQuote {
+  material: MaterialType;
+  name: string;
+  weight: number;
+  stock: number; // Units the settlement has
+  carried: number; // Units the player carries
+  marketPrice: number;
+  buyPrice: number; // Player pays per unit
+  sellPrice: number; // Player receives per unit
+}
+
+/**
+ * Outcome of a player trade (message is shown to the player).
+ */
+export interface PlayerTradeResult {
+  success: boolean;
+  quantity: number;
+  total: number;
+  message: string;
+}
+
+/**
+ * Player buying and selling against a settlement's stockpile and treasury.
+ * Prices come from the settlement's market (adjusted by the player's reputation)
+ * and are recalculated after every trade.
+ */
+export class PlayerTrade {
+  private simulation: Simulation;
+  private reputation?: ReputationSystem;
+
+  constructor(simulation: Simulation, reputation?: ReputationSystem) {
+    this.simulation = simulation;
+    this.reputation = reputation;
+  }
+
+  /**
+   * Quotes for every material the settlement stocks or the player carries
+   */
+  getQuotes(settlementId: number, character: Character): TradeQuote[] {
+    const economy = this.simulation.economyManager.getEconomy(settlementId);
+    const market = this.simulation.tradeManager.getGlobalMarket().getOrCreateMarket(settlementId);
+    if (!economy) return [];
+
+    return getAllMaterials()
+      .map(material => {
+        const marketPrice = market.getPrice(material);
+        return {
+          material,
+          name: getMaterialName(material),
+          weight: getMaterialWeight(material),
+          stock: Math.floor(economy.getMaterialAmount(material)),
+          carried: character.getCarriedAmount(material),
+          marketPrice,
+          buyPrice: this.getBuyPrice(settlementId, marketPrice),
+          sellPrice: this.getSellPrice(settlementId, marketPrice),
+        };
+      })
+      .filter(quote => quote.stock > 0 || quote.carried > 0)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Buy up to `quantity` units (limited by stock, purse and carry weight)
+   */
+  buy(settlementId: number, character: Character, material: MaterialType, quantity: number): PlayerTradeResult {
+    const economy = this.simulation.economyManager.getEconomy(settlementId);
+    const market = this.simulation.tradeManager.getGlobalMarket().getOrCreateMarket(settlementId);
+    if (!economy) return this.fail("This settlement has no market");
+    if (!this.isWelcome(settlementId)) return this.fail(this.getRefusal(settlementId));
+
+    const name = getMaterialName(material);
+    const price = this.getBuyPrice(settlementId, market.getPrice(material));
+    const weight = getMaterialWeight(material);
+
+    const stock = Math.floor(economy.getMaterialAmount(material));
+    const affordable = Math.floor(character.gold / price);
+    let amount = Math.min(quantity, stock, affordable);
+    while (amount > 0 && !character.canCarry(material, amount)) amount--;
+
+    if (amount <= 0) {
+      if (stock <= 0) return this.fail(`No ${name} for sale`);
+      if (affordable <= 0) return this.fail(`Not enough gold for ${name} (${price}g each)`);
+      return this.fail(weight > character.getFreeWeight() ? `Too heavy — no room for ${name}` : "Your backpack is full");
+    }
+
+    const total = Math.ceil(price * amount);
+    economy.removeMaterial(material, amount);
+    economy.addMoney(total);
+    character.gold -= total;
+    character.addCarried(material, amount);
+    this.reputation?.recordTrade(settlementId, total, false);
+
+    this.refreshMarket(settlementId);
+    console.log(`[Trade] Player bought ${amount} ${material} from settlement ${settlementId} for ${total}g`);
+    return { success: true, quantity: amount, total, message: `Bought ${amount} ${name} for ${total}g` };
+  }
+
+  /**
+   * Sell up to `quantity` units (limited by cargo and the settlement's treasury)
+   */
+  sell(settlementId: number, character: Character, material: MaterialType, quantity: number): PlayerTradeResult {
+    return this.sellGoods(settlementId, character, material, quantity, {
+      available: character.getCarriedAmount(material),
+      remove: amount => character.removeCarried(material, amount),
+      missing: `You carry no ${getMaterialName(material)}`,
+    });
+  }
+
+  /**
+   * Sell up to `quantity` units from one of the player's warehouses (the gold goes to the purse)
+   */
+  sellFromWarehouse(
+    settlementId: number,
+    character: Character,
+    warehouse: SettlementEconomy,
+    material: MaterialType,
+    quantity: number
+  ): PlayerTradeResult {
+    return this.sellGoods(settlementId, character, material, quantity, {
+      available: Math.floor(warehouse.getMaterialAmount(material)),
+      remove: amount => warehouse.removeMaterial(material, amount),
+      missing: `No ${getMaterialName(material)} in the warehouse`,
+    });
+  }
+
+  /**
+   * Sell goods taken from the player's cargo or a warehouse
+   */
+  private sellGoods(
+    settlementId: number,
+    character: Character,
+    material: MaterialType,
+    quantity: number,
+    source: { available: number; remove: (amount: number) => void; missing: string }
+  ): PlayerTradeResult {
+    const economy = this.simulation.economyManager.getEconomy(settlementId);
+    const market = this.simulation.tradeManager.getGlobalMarket().getOrCreateMarket(settlementId);
+    if (!economy) return this.fail("This settlement has no market");
+    if (!this.isWelcome(settlementId)) return this.fail(this.getRefusal(settlementId));
+
+    const name = getMaterialName(material);
+    const price = this.getSellPrice(settlementId, market.getPrice(material));
+
+    const payable = Math.floor(economy.getTreasury() / price);
+    const amount = Math.min(quantity, source.available, payable);
+
+    if (amount <= 0) {
+      if (source.available <= 0) return this.fail(source.missing);
+      return this.fail(`The treasury can't afford ${name}`);
+    }
+
+    // Totals are whole gold (rounded down when selling), so a sale must be worth at least 1g
+    const total = Math.floor(price * amount);
+    if (total < 1) return this.fail(`${amount} ${name} is worth less than 1g`);
+
+    const needed = market.getBuyOffers().some(offer => offer.material === material && offer.priority >= NEEDED_PRIORITY);
+    this.reputation?.recordTrade(settlementId, total, needed);
+    source.remove(amount);
+    character.gold += total;
+    economy.removeMoney(total);
+    economy.addMaterial(material, amount);
+
+    this.refreshMarket(settlementId);
+    console.log(`[Trade] Player sold ${amount} ${material} to settlement ${settlementId} for ${total}g`);
+    return { success: true, quantity: amount, total, message: `Sold ${amount} ${name} for ${total}g` };
+  }
+
+  /**
+   * Check if the settlement's market trades with the player at all
+   */
+  isWelcome(settlementId: number): boolean {
+    return this.reputation?.getStandingConfig(settlementId).market ?? true;
+  }
+
+  /**
+   * Why a settlement's market turns the player away
+   */
+  getRefusal(settlementId: number): string {
+    return `${this.simulation.worldMap.settlements[settlementId].name} refuses to trade with you`;
+  }
+
+  /**
+   * Price the player pays per unit of a material at a settlement
+   */
+  getUnitBuyPrice(settlementId: number, material: MaterialType): number {
+    const market = this.simulation.tradeManager.getGlobalMarket().getOrCreateMarket(settlementId);
+    return this.getBuyPrice(settlementId, market.getPrice(material));
+  }
+
+  /**
+   * Price the player pays per unit at a settlement's market price
+   */
+  getBuyPrice(settlementId: number, marketPrice: number): number {
+    return this.roundPrice(marketPrice * PLAYER_BUY_MARKUP * (this.reputation?.getBuyModifier(settlementId) ?? 1));
+  }
+
+  /**
+   * Price the player receives per unit at a settlement's market price
+   */
+  getSellPrice(settlementId: number, marketPrice: number): number {
+    return this.roundPrice(marketPrice * PLAYER_SELL_RATE * (this.reputation?.getSellModifier(settlementId) ?? 1));
+  }
+
+  /**
+   * Recalculate supply/demand prices after the stockpile changed
+   */
+  private refreshMarket(settlementId: number): void {
+    this.simulation.tradeManager.refreshMarket(
+      settlementId,
+      this.simulation.economyManager,
+      this.simulation.populationManager
+    );
+  }
+
+  /**
+   * Round a price to two decimals (never below 0.1g)
+   */
+  private roundPrice(price: number): number {
+    return Math.max(0.1, Math.round(price * 100) / 100);
+  }
+
+  /**
+   * A failed trade result
+   */
+  private fail(message: string): PlayerTradeResult {
+    return { success: false, quantity: 0, total: 0, message };
+  }
+}
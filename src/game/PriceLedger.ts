@@ -0,0 +1,232 @@
+import { Character } from "../entity/Character";
+import { MaterialType, getMaterialWeight } from "../world/ProductionRecipe";
+import { TradeOffer } from "../world/trade/Market";
+import { getRouteRisk, ROBBERY_LOSS } from "../world/Bandits";
+import { PlayerTrade } from "./PlayerTrade";
+import { Simulation } from "./Simulation";
+
+/** Turns of market history a price trend looks back over. */
+const TREND_TURNS = 5;
+
+/**
+ * A price the player saw on a settlement's market
+ */
+export interface SeenPrice {
+  material: MaterialType;
+  price: number;
+  /** Price change over the turns before the visit */
+  trend: number;
+  /** Units the settlement wanted to buy and had for sale */
+  buying: number;
+  selling: number;
+}
+
+/**
+ * What the player learned about a settlement's market on their last visit
+ */
+export interface PriceRecord {
+  settlementId: number;
+  /** Turn of the last visit */
+  turn: number;
+  prices: SeenPrice[];
+  buyOffers: TradeOffer[];
+  sellOffers: TradeOffer[];
+}
+
+/**
+ * A profitable trade between two known markets, at the player's prices
+ */
+export interface ArbitragePair {
+  material: MaterialType;
+  fromId: number; // Settlement to buy in
+  toId: number; // Settlement to sell in
+  buyPrice: number; // Player pays per unit
+  sellPrice: number; // Player receives per unit
+  quantity: number; // Units in one load the character can carry
+  distance: number;
+  bySea: boolean; // Only reachable by sea
+  profit: number; // For the load, after the expected bandit losses
+  /** The player carries this material already */
+  inCargo: boolean;
+}
+
+/**
+ * The best known place to sell a carried material
+ */
+export interface BestSale {
+  material: MaterialType;
+  settlementId: number;
+  price: number;
+  turn: number;
+}
+
+/**
+ * Serializable snapshot of the price ledger (used by save games)
+ */
+export interface PriceLedgerSaveState {
+  records: PriceRecord[];
+}
+
+/**
+ * The player's price ledger: the prices seen on each settlement's market at
+ * the last visit, and the trades they suggest. The player only knows the
+ * markets they have visited; explored settlements are listed without prices.
+ */
+export class PriceLedger {
+  private simulation: Simulation;
+  private trade: PlayerTrade;
+  private records: Map<number, PriceRecord> = new Map();
+
+  constructor(simulation: Simulation, trade: PlayerTrade) {
+    this.simulation = simulation;
+    this.trade = trade;
+  }
+
+  /**
+   * Write down a settlement's current prices and offers
+   */
+  visit(settlementId: number, turn: number): void {
+    const market = this.simulation.tradeManager.getGlobalMarket().getMarket(settlementId);
+    if (!market) return;
+
+    const buyOffers = market.getBuyOffers();
+    const sellOffers = market.getSellOffers();
+    const units = (offers: TradeOffer[], material: MaterialType) =>
+      offers.filter(o => o.material === material).reduce((sum, o) => sum + o.quantity, 0);
+
+    const prices = market.getAllPrices().map(({ material, currentPrice }) => {
+      const history = market.getPriceHistory(material).slice(-TREND_TURNS);
+      return {
+        material,
+        price: currentPrice,
+        trend: history.length > 0 ? currentPrice - history[0] : 0,
+        buying: units(buyOffers, material),
+        selling: units(sellOffers, material),
+      };
+    });
+
+    this.records.set(settlementId, { settlementId, turn, prices, buyOffers, sellOffers });
+  }
+
+  /**
+   * What the player knows of a settlement's market (undefined if never visited)
+   */
+  getRecord(settlementId: number): PriceRecord | undefined {
+    return this.records.get(settlementId);
+  }
+
+  /**
+   * Settlements the player has visited (most recent first), then the explored
+   * ones they have not been to yet
+   */
+  getKnownSettlements(): number[] {
+    const settlements = this.simulation.worldMap.settlements;
+    const visited = Array.from(this.records.values())
+      .sort((a, b) => b.turn - a.turn)
+      .map(record => record.settlementId);
+    const explored = settlements
+      .map((_, id) => id)
+      .filter(id => !this.records.has(id) && this.simulation.worldMap.getTile(settlements[id].center)?.explored)
+      .sort((a, b) => settlements[a].name.localeCompare(settlements[b].name));
+    return [...visited, ...explored];
+  }
+
+  /**
+   * Profitable trades between the markets the player knows, at the prices the
+   * player would pay and get there; trades in what the player carries come first
+   */
+  getBestPairs(character: Character, limit: number): ArbitragePair[] {
+    const records = Array.from(this.records.values());
+    const candidates: Omit<ArbitragePair, "distance" | "bySea" | "profit">[] = [];
+
+    for (const from of records) {
+      for (const to of records) {
+        if (from.settlementId === to.settlementId) continue;
+
+        for (const offered of from.prices) {
+          const wanted = to.prices.find(p => p.material === offered.material);
+          if (!wanted || offered.selling <= 0 || wanted.buying <= 0) continue;
+
+          const buyPrice = this.trade.getBuyPrice(from.settlementId, offered.price);
+          const sellPrice = this.trade.getSellPrice(to.settlementId, wanted.price);
+          if (sellPrice <= buyPrice) continue;
+
+          const weight = getMaterialWeight(offered.material);
+          const loadLimit = weight > 0 ? Math.floor(character.carryCapacity / weight) : Infinity;
+          const quantity = Math.min(offered.selling, wanted.buying, loadLimit);
+          if (quantity <= 0) continue;
+
+          candidates.push({
+            material: offered.material,
+            fromId: from.settlementId,
+            toId: to.settlementId,
+            buyPrice,
+            sellPrice,
+            quantity,
+            inCargo: character.getCarriedAmount(offered.material) > 0,
+          });
+        }
+      }
+    }
+
+    const margin = (pair: typeof candidates[number]) => (pair.sellPrice - pair.buyPrice) * pair.quantity;
+    const rank = (a: { inCargo: boolean }, b: { inCargo: boolean }) => Number(b.inCargo) - Number(a.inCargo);
+    candidates.sort((a, b) => rank(a, b) || margin(b) - margin(a));
+
+    // Bandit losses only lower a margin, so once the list is full the
+    // smaller margins can't beat it (and their routes needn't be looked up)
+    const pairs: ArbitragePair[] = [];
+    for (const pair of candidates) {
+      const worst = pairs.length >= limit ? pairs[pairs.length - 1] : undefined;
+      if (worst && (worst.inCargo !== pair.inCargo || margin(pair) <= worst.profit)) break;
+
+      const route = this.simulation.tradeManager.lookupRoute(pair.fromId, pair.toId);
+      if (!route) continue;
+
+      const riskCost = Math.ceil(pair.buyPrice * pair.quantity * getRouteRisk(route.danger, route.distance) * ROBBERY_LOSS);
+      const profit = margin(pair) - riskCost;
+      if (profit <= 0) continue;
+
+      pairs.push({ ...pair, distance: route.distance, bySea: route.bySea, profit });
+      pairs.sort((a, b) => rank(a, b) || b.profit - a.profit);
+      pairs.length = Math.min(pairs.length, limit);
+    }
+    return pairs;
+  }
+
+  /**
+   * Highest known price for each material the player carries
+   */
+  getBestSales(character: Character): BestSale[] {
+    const carried = character.cargo.getAll().filter(entry => entry.amount > 0).map(entry => entry.material);
+    const sales: BestSale[] = [];
+    for (const material of carried) {
+      let best: BestSale | undefined;
+      for (const record of this.records.values()) {
+        const seen = record.prices.find(p => p.material === material);
+        if (seen && (!best || seen.price > best.price)) {
+          best = { material, settlementId: record.settlementId, price: seen.price, turn: record.turn };
+        }
+      }
+      if (best) sales.push(best);
+    }
+    return sales;
+  }
+
+  /**
+   * Capture the ledger for saving
+   */
+  serialize(): PriceLedgerSaveState {
+    return { records: structuredClone(Array.from(this.records.values())) };
+  }
+
+  /**
+   * Replace the ledger with a saved snapshot
+   */
+  restore(state: PriceLedgerSaveState): void {
+    this.records.clear();
+    for (const record of structuredClone(state.records)) {
+      this.records.set(record.settlementId, record);
+    }
+  }
+}
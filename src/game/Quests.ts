@@ -0,0 +1,568 @@
+import { Character } from "../entity/Character";
+import { HexTile } from "../world/HexTile";
+import { TERRAIN_CONFIG, isWater } from "../world/Terrain";
+import { MaterialType, getMaterialName } from "../world/ProductionRecipe";
+import { Trader, TraderState } from "../world/trade/Trader";
+import { getRouteRisk, ESCORT_RISK_THRESHOLD } from "../world/Bandits";
+import { SeededRandom } from "../utils/random";
+import { Simulation } from "./Simulation";
+import { ReputationSystem, REPUTATION_CHANGE } from "./Reputation";
+
+/**
+ * Kinds of work a settlement posts on its quest board
+ */
+export enum QuestType {
+  Delivery = "delivery",
+  Scouting = "scouting",
+  Escort = "escort",
+}
+
+/**
+ * Lifecycle of a quest
+ */
+export type QuestStatus = "offered" | "active" | "completed" | "failed" | "expired";
+
+/**
+ * A task posted by a settlement. The reward is held back from the
+ * settlement's treasury while the quest is active and refunded if it fails.
+ */
+export interface Quest {
+  id: string;
+  type: QuestType;
+  settlementId: number;
+  title: string;
+  reward: number;
+  /** Turns allowed once accepted */
+  duration: number;
+  /** Last turn the board offers the quest */
+  offeredUntil: number;
+  /** Last turn to finish (set when accepted) */
+  deadline?: number;
+  status: QuestStatus;
+  /** Delivery: what and how much to bring */
+  material?: MaterialType;
+  quantity?: number;
+  /** Scouting: tile to explore */
+  target?: { col: number; row: number };
+  /** Escort: trader to protect and the settlement they are heading for */
+  traderId?: string;
+  destinationId?: number;
+}
+
+/**
+ * Outcome of a quest action (message is shown to the player)
+ */
+export interface QuestResult {
+  success: boolean;
+  message: string;
+}
+
+/**
+ * Serializable snapshot of the quest system (used by save games)
+ */
+export interface QuestSaveState {
+  quests: Quest[];
+}
+
+/** Quests offered on a board at once. */
+const MAX_BOARD_QUESTS = 4;
+
+/** Quests the player can have in progress at once. */
+export const MAX_ACTIVE_QUESTS = 5;
+
+/** Finished quests kept in the journal. */
+const JOURNAL_HISTORY = 8;
+
+/** Turns a quest stays on the board before it is withdrawn. */
+const OFFER_TURNS = 8;
+
+/** Buy offers at least this urgent become delivery quests. */
+const DELIVERY_MIN_PRIORITY = 70;
+
+/** Buy offers this urgent (famine) must be delivered quickly. */
+const URGENT_PRIORITY = 85;
+
+/** Most units a delivery asks for. */
+const MAX_DELIVERY_QUANTITY = 40;
+
+/** Fewest units worth posting a delivery for. */
+const MIN_DELIVERY_QUANTITY = 5;
+
+/** Delivery reward as a multiple of the market value of the goods. */
+const DELIVERY_PREMIUM = 1.5;
+
+/** Distance range (hexes from the settlement center) of scouting targets. */
+const SCOUT_MIN_DISTANCE = 6;
+const SCOUT_MAX_DISTANCE = 15;
+
+/** Scouting reward: base plus gold per hex, raised by the target's danger. */
+const SCOUT_BASE_REWARD = 15;
+const SCOUT_REWARD_PER_TILE = 2;
+
+/** Escort reward: base plus gold per tile of the trip, raised by its risk. */
+const ESCORT_BASE_REWARD = 10;
+const ESCORT_REWARD_PER_TILE = 1.5;
+
+/** Hexes the player may be from an escorted trader to protect them. */
+export const ESCORT_RANGE = 2;
+
+/** Tiles a trader covers in a typical turn (used to set escort deadlines). */
+const TRADER_TILES_PER_TURN = 3;
+
+/**
+ * Settlement quest boards and the player's quest journal.
+ * Delivery quests come from urgent market buy offers, scouting quests from
+ * unexplored land nearby and escort quests from the settlement's traders on
+ * dangerous routes. Rewards are paid from the settlement's treasury.
+ * Settlements only offer work to players they trust, and finished quests
+ * change the player's reputation.
+ */
+export class QuestSystem {
+  private simulation: Simulation;
+  private reputation?: ReputationSystem;
+  private quests: Quest[] = [];
+
+  constructor(simulation: Simulation, reputation?: ReputationSystem) {
+    this.simulation = simulation;
+    this.reputation = reputation;
+  }
+
+  /**
+   * Quests offered by a settlement (withdraws stale ones and posts new ones)
+   */
+  getBoard(settlementId: number, turn: number): Quest[] {
+    this.refreshBoard(settlementId, turn);
+    return this.quests.filter(quest => quest.status === "offered" && quest.settlementId === settlementId);
+  }
+
+  /**
+   * Check if a settlement trusts the player enough to offer work
+   */
+  isOffering(settlementId: number): boolean {
+    return this.reputation?.getStandingConfig(settlementId).quests ?? true;
+  }
+
+  /**
+   * Quests in progress
+   */
+  getActive(): Quest[] {
+    return this.quests.filter(quest => quest.status === "active");
+  }
+
+  /**
+   * Finished quests, most recent first
+   */
+  getHistory(): Quest[] {
+    return this.quests.filter(quest => quest.status !== "offered" && quest.status !== "active").reverse();
+  }
+
+  /**
+   * Accept a quest from a board (the settlement sets the reward aside)
+   */
+  accept(questId: string, turn: number): QuestResult {
+    const quest = this.quests.find(q => q.id === questId && q.status === "offered");
+    if (!quest) return { success: false, message: "That quest is no longer offered" };
+    if (this.getActive().length >= MAX_ACTIVE_QUESTS) {
+      return { success: false, message: `You already have ${MAX_ACTIVE_QUESTS} quests in progress` };
+    }
+
+    const economy = this.simulation.economyManager.getEconomy(quest.settlementId);
+    if (!economy || !economy.removeMoney(quest.reward)) {
+      quest.status = "expired";
+      return { success: false, message: "The treasury can no longer pay for this" };
+    }
+
+    quest.status = "active";
+    quest.deadline = turn + quest.duration;
+    this.moveToEnd(quest);
+    console.log(`[Quests] Accepted "${quest.title}" (${quest.reward}g, due turn ${quest.deadline})`);
+    return { success: true, message: `Accepted: ${quest.title}` };
+  }
+
+  /**
+   * Give up a quest (the reward goes back to the treasury)
+   */
+  abandon(questId: string): QuestResult {
+    const quest = this.quests.find(q => q.id === questId && q.status === "active");
+    if (!quest) return { success: false, message: "That quest is not in progress" };
+
+    this.finish(quest, "failed");
+    return { success: true, message: `Abandoned: ${quest.title}` };
+  }
+
+  /**
+   * Check if the character can hand over a delivery right now
+   */
+  canDeliver(quest: Quest, character: Character): boolean {
+    return (
+      quest.type === QuestType.Delivery &&
+      quest.status === "active" &&
+      character.currentTile.settlementId === quest.settlementId &&
+      character.getCarriedAmount(quest.material!) >= quest.quantity!
+    );
+  }
+
+  /**
+   * Hand over the goods of a delivery quest and collect the reward
+   */
+  deliver(questId: string, character: Character): QuestResult {
+    const quest = this.quests.find(q => q.id === questId && q.status === "active");
+    if (!quest || quest.type !== QuestType.Delivery) return { success: false, message: "That is not a delivery in progress" };
+
+    const name = getMaterialName(quest.material!);
+    if (character.currentTile.settlementId !== quest.settlementId) {
+      return { success: false, message: `Deliver the ${name} to ${this.getSettlementName(quest.settlementId)}` };
+    }
+    if (!this.canDeliver(quest, character)) {
+      return { success: false, message: `You need ${quest.quantity} ${name} (carrying ${character.getCarriedAmount(quest.material!)})` };
+    }
+
+    character.removeCarried(quest.material!, quest.quantity!);
+    this.simulation.economyManager.getEconomy(quest.settlementId)?.addMaterial(quest.material!, quest.quantity!);
+    this.simulation.tradeManager.refreshMarket(
+      quest.settlementId,
+      this.simulation.economyManager,
+      this.simulation.populationManager
+    );
+
+    this.complete(quest, character);
+    return { success: true, message: `Delivered ${quest.quantity} ${name} — earned ${quest.reward}g` };
+  }
+
+  /**
+   * Check active quests for completion, failure and expiry
+   * (call after the character moves and when a turn starts)
+   *
+   * @returns Messages about quests that finished
+   */
+  update(turn: number, character: Character): string[] {
+    const messages: string[] = [];
+
+    for (const quest of this.getActive()) {
+      if (quest.type === QuestType.Scouting) {
+        const target = this.simulation.worldMap.getTile(quest.target!);
+        if (target?.explored) {
+          this.complete(quest, character);
+          messages.push(`Quest complete: ${quest.title} (+${quest.reward}g)`);
+          continue;
+        }
+      }
+
+      if (quest.type === QuestType.Escort) {
+        const trader = this.getTrader(quest.traderId!);
+        if (!trader) {
+          this.finish(quest, "failed");
+          messages.push(`Quest failed: the trader of "${quest.title}" is gone`);
+          continue;
+        }
+        if (trader.currentSettlement === quest.destinationId) {
+          if (this.isNear(character, trader)) {
+            this.complete(quest, character);
+            messages.push(`Quest complete: ${quest.title} (+${quest.reward}g)`);
+          } else {
+            this.finish(quest, "failed");
+            messages.push(`Quest failed: ${trader.name} arrived without you`);
+          }
+          continue;
+        }
+      }
+
+      if (turn > quest.deadline!) {
+        this.finish(quest, "expired");
+        messages.push(`Quest expired: ${quest.title}`);
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Check if the player is escorting a trader right now (close enough to fight off bandits)
+   */
+  isEscorting(trader: Trader, character: Character): boolean {
+    return this.getActive().some(quest => quest.traderId === trader.id) && this.isNear(character, trader);
+  }
+
+  /**
+   * Turns left to finish an active quest
+   */
+  getTurnsLeft(quest: Quest, turn: number): number {
+    return Math.max(0, (quest.deadline ?? turn) - turn);
+  }
+
+  /**
+   * Withdraw stale offers and post new quests up to the board size
+   */
+  private refreshBoard(settlementId: number, turn: number): void {
+    const standing = this.reputation?.getStandingConfig(settlementId);
+    for (const quest of this.quests) {
+      if (quest.status === "offered" && quest.settlementId === settlementId &&
+          (turn > quest.offeredUntil || !this.isStillValid(quest) || standing?.quests === false)) {
+        quest.status = "expired";
+      }
+    }
+    this.quests = this.quests.filter(quest => quest.status !== "expired" || quest.deadline !== undefined);
+
+    const board = this.quests.filter(quest => quest.status === "offered" && quest.settlementId === settlementId);
+    if (board.length >= MAX_BOARD_QUESTS || standing?.quests === false) return;
+
+    // Board contents are reproducible from the world seed, turn and settlement
+    const rng = new SeededRandom(`${this.simulation.worldMap.seed}_quests_${turn}_${settlementId}`);
+    const taken = this.quests.filter(quest => quest.settlementId === settlementId &&
+      (quest.status === "offered" || quest.status === "active"));
+
+    const candidates: Array<Omit<Quest, "id" | "offeredUntil" | "status">> = [];
+    if (!taken.some(quest => quest.type === QuestType.Escort) && standing?.escorts !== false) {
+      const escort = this.createEscortQuest(settlementId, taken);
+      if (escort) candidates.push(escort);
+    }
+    if (!taken.some(quest => quest.type === QuestType.Scouting)) {
+      const scouting = this.createScoutingQuest(settlementId, rng);
+      if (scouting) candidates.push(scouting);
+    }
+    candidates.push(...this.createDeliveryQuests(settlementId, taken));
+
+    const treasury = this.simulation.economyManager.getEconomy(settlementId)?.getTreasury() ?? 0;
+    for (const candidate of candidates) {
+      if (board.length >= MAX_BOARD_QUESTS) break;
+      if (candidate.reward > treasury) continue; // Settlements only post what they can pay
+
+      const quest: Quest = { ...candidate, id: this.createQuestId(rng), offeredUntil: turn + OFFER_TURNS, status: "offered" };
+      this.quests.push(quest);
+      board.push(quest);
+    }
+  }
+
+  /**
+   * Quest id not used by any quest yet (a board refreshed twice in a turn
+   * replays the same random stream, so its first ids are already taken)
+   */
+  private createQuestId(rng: SeededRandom): string {
+    let id: string;
+    do {
+      id = `quest_${rng.id()}`;
+    } while (this.quests.some(quest => quest.id === id));
+    return id;
+  }
+
+  /**
+   * Delivery quests from the settlement's most urgent buy offers (one per material).
+   * Only for materials it has none of, or the player could buy them there and hand them back.
+   */
+  private createDeliveryQuests(settlementId: number, taken: Quest[]): Array<Omit<Quest, "id" | "offeredUntil" | "status">> {
+    const market = this.simulation.tradeManager.getGlobalMarket().getOrCreateMarket(settlementId);
+    const economy = this.simulation.economyManager.getEconomy(settlementId);
+    const name = this.getSettlementName(settlementId);
+    const seen = new Set<MaterialType>(taken.filter(quest => quest.material).map(quest => quest.material!));
+
+    return market.getBuyOffers()
+      .filter(offer => offer.priority >= DELIVERY_MIN_PRIORITY && (economy?.getMaterialAmount(offer.material) ?? 0) < 1)
+      .sort((a, b) => b.priority - a.priority)
+      .filter(offer => {
+        if (seen.has(offer.material)) return false;
+        seen.add(offer.material);
+        return true;
+      })
+      .map(offer => {
+        const quantity = Math.min(MAX_DELIVERY_QUANTITY, offer.quantity);
+        const duration = offer.priority >= URGENT_PRIORITY ? 6 : 10;
+        return {
+          type: QuestType.Delivery,
+          settlementId,
+          title: `Bring ${quantity} ${getMaterialName(offer.material)} to ${name} within ${duration} turns`,
+          reward: Math.ceil(quantity * offer.pricePerUnit * DELIVERY_PREMIUM),
+          duration,
+          material: offer.material,
+          quantity,
+        };
+      })
+      .filter(quest => quest.quantity >= MIN_DELIVERY_QUANTITY);
+  }
+
+  /**
+   * A scouting quest to an unexplored land tile near the settlement
+   */
+  private createScoutingQuest(settlementId: number, rng: SeededRandom): Omit<Quest, "id" | "offeredUntil" | "status"> | null {
+    const { worldMap, banditSystem } = this.simulation;
+    const center = worldMap.getTile(worldMap.settlements[settlementId].center);
+    if (!center) return null;
+
+    const candidates: HexTile[] = [];
+    worldMap.grid.forEach((hex) => {
+      if (hex.explored || isWater(hex.terrain) || hex.settlementId !== undefined) return;
+      const distance = worldMap.hexDistance(center, hex);
+      if (distance >= SCOUT_MIN_DISTANCE && distance <= SCOUT_MAX_DISTANCE) candidates.push(hex);
+    });
+    if (candidates.length === 0) return null;
+
+    const target = rng.pick(candidates.sort((a, b) => a.row - b.row || a.col - b.col));
+    const distance = worldMap.hexDistance(center, target);
+    const danger = banditSystem.getTileDanger(worldMap.grid, target);
+
+    return {
+      type: QuestType.Scouting,
+      settlementId,
+      title: `Scout the ${this.describeLand(target)} ${this.getDirection(center, target)} of ${worldMap.settlements[settlementId].name}`,
+      reward: Math.ceil((SCOUT_BASE_REWARD + distance * SCOUT_REWARD_PER_TILE) * (1 + danger)),
+      duration: 12,
+      target: { col: target.col, row: target.row },
+    };
+  }
+
+  /**
+   * An escort quest for one of the settlement's traders on a risky stretch of road
+   */
+  private createEscortQuest(settlementId: number, taken: Quest[]): Omit<Quest, "id" | "offeredUntil" | "status"> | null {
+    const { worldMap, banditSystem, tradeManager } = this.simulation;
+
+    for (const trader of tradeManager.getTradersForSettlement(settlementId)) {
+      const destinationId = this.getNextStop(trader);
+      if (destinationId === undefined || destinationId === trader.currentSettlement) continue;
+      if (taken.some(quest => quest.traderId === trader.id)) continue;
+
+      const distance = trader.path.length;
+      if (distance === 0) continue;
+      const danger = trader.path.reduce((sum, tile) => sum + banditSystem.getTileDanger(worldMap.grid, tile), 0) / distance;
+      const risk = getRouteRisk(danger, distance);
+      if (risk < ESCORT_RISK_THRESHOLD) continue;
+
+      return {
+        type: QuestType.Escort,
+        settlementId,
+        title: `Escort ${trader.name} safely to ${this.getSettlementName(destinationId)}`,
+        reward: Math.ceil((ESCORT_BASE_REWARD + distance * ESCORT_REWARD_PER_TILE) * (1 + risk)),
+        duration: Math.ceil(distance / TRADER_TILES_PER_TURN) + 3,
+        traderId: trader.id,
+        destinationId,
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Check if an offered quest still makes sense
+   */
+  private isStillValid(quest: Quest): boolean {
+    switch (quest.type) {
+      case QuestType.Scouting:
+        return !this.simulation.worldMap.getTile(quest.target!)?.explored;
+      case QuestType.Escort: {
+        const trader = this.getTrader(quest.traderId!);
+        return trader !== undefined && this.getNextStop(trader) === quest.destinationId;
+      }
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * Settlement a traveling trader is heading for
+   */
+  private getNextStop(trader: Trader): number | undefined {
+    const states: Partial<Record<TraderState, number | undefined>> = {
+      traveling_to_buy: trader.currentContract?.fromSettlement,
+      buying: trader.currentContract?.toSettlement,
+      traveling_to_sell: trader.currentContract?.toSettlement,
+      returning_home: trader.homeSettlement,
+    };
+    return states[trader.state];
+  }
+
+  /**
+   * Pay the reward set aside for a quest
+   */
+  private complete(quest: Quest, character: Character): void {
+    character.gold += quest.reward;
+    quest.status = "completed";
+    this.reputation?.change(quest.settlementId, REPUTATION_CHANGE.questCompleted, `completed "${quest.title}"`);
+    this.moveToEnd(quest);
+    this.trimHistory();
+    console.log(`[Quests] Completed "${quest.title}" (+${quest.reward}g)`);
+  }
+
+  /**
+   * Fail or expire a quest and refund its reward to the settlement
+   */
+  private finish(quest: Quest, status: "failed" | "expired"): void {
+    this.simulation.economyManager.getEconomy(quest.settlementId)?.addMoney(quest.reward);
+    quest.status = status;
+    this.reputation?.change(
+      quest.settlementId,
+      status === "failed" ? REPUTATION_CHANGE.questFailed : REPUTATION_CHANGE.questExpired,
+      `${status} "${quest.title}"`
+    );
+    this.moveToEnd(quest);
+    this.trimHistory();
+    console.log(`[Quests] "${quest.title}" ${status}`);
+  }
+
+  /**
+   * Keep the journal in the order things happened
+   */
+  private moveToEnd(quest: Quest): void {
+    this.quests = [...this.quests.filter(other => other !== quest), quest];
+  }
+
+  /**
+   * Forget the oldest finished quests
+   */
+  private trimHistory(): void {
+    const finished = this.getHistory();
+    const forgotten = new Set(finished.slice(JOURNAL_HISTORY));
+    this.quests = this.quests.filter(quest => !forgotten.has(quest));
+  }
+
+  /**
+   * Check if the character is close enough to protect a trader
+   */
+  private isNear(character: Character, trader: Trader): boolean {
+    return this.simulation.worldMap.hexDistance(character.currentTile, trader.currentTile) <= ESCORT_RANGE;
+  }
+
+  /**
+   * Trader by id (undefined once retired or dead)
+   */
+  private getTrader(traderId: string): Trader | undefined {
+    return this.simulation.tradeManager.getAllTraders().find(trader => trader.id === traderId);
+  }
+
+  /**
+   * Settlement name by index
+   */
+  private getSettlementName(settlementId: number): string {
+    return this.simulation.worldMap.settlements[settlementId]?.name ?? "the settlement";
+  }
+
+  /**
+   * What a tile looks like from afar, e.g. "forest" or "hills"
+   */
+  private describeLand(tile: HexTile): string {
+    if (tile.treeDensity >= 0.5) return "forest";
+    return TERRAIN_CONFIG[tile.terrain].name.toLowerCase();
+  }
+
+  /**
+   * Compass direction from one tile to another, e.g. "north-east"
+   */
+  private getDirection(from: HexTile, to: HexTile): string {
+    const dx = to.col - from.col;
+    const dy = to.row - from.row;
+    const vertical = Math.abs(dy) > Math.abs(dx) / 2 ? (dy < 0 ? "north" : "south") : "";
+    const horizontal = Math.abs(dx) > Math.abs(dy) / 2 ? (dx < 0 ? "west" : "east") : "";
+    return [vertical, horizontal].filter(part => part).join("-");
+  }
+
+  /**
+   * Capture boards and journal for saving
+   */
+  serialize(): QuestSaveState {
+    return { quests: structuredClone(this.quests) };
+  }
+
+  /**
+   * Replace boards and journal with a saved snapshot
+   */
+  restore(state: QuestSaveState): void {
+    this.quests = structuredClone(state.quests);
+  }
+}
@@ -0,0 +1,284 @@
+import { HexTile } from "../world/HexTile";
+import { WorldMap } from "../world/WorldMap";
+
+/**
+ * How a settlement regards the player
+ */
+export enum Standing {
+  Hostile = "hostile",
+  Unfriendly = "unfriendly",
+  Neutral = "neutral",
+  Friendly = "friendly",
+  Honored = "honored",
+}
+
+/**
+ * Configuration for each standing
+ */
+export interface StandingConfig {
+  name: string;
+  /** Lowest reputation with this standing */
+  minReputation: number;
+  color: number;
+  /** The market trades with the player */
+  market: boolean;
+  /** The quest board offers work */
+  quests: boolean;
+  /** Traders may be entrusted to the player (escort quests) */
+  escorts: boolean;
+}
+
+/**
+ * Standing configuration database (highest first)
+ */
+export const STANDING_CONFIG: Record<Standing, StandingConfig> = {
+  [Standing.Honored]: { name: "Honored", minReputation: 50, color: 0x60c0e8, market: true, quests: true, escorts: true },
+  [Standing.Friendly]: { name: "Friendly", minReputation: 15, color: 0x90c060, market: true, quests: true, escorts: true },
+  [Standing.Neutral]: { name: "Neutral", minReputation: -15, color: 0xf0e8d8, market: true, quests: true, escorts: false },
+  [Standing.Unfriendly]: { name: "Unfriendly", minReputation: -50, color: 0xe8a840, market: true, quests: false, escorts: false },
+  [Standing.Hostile]: { name: "Hostile", minReputation: -Infinity, color: 0xe85040, market: false, quests: false, escorts: false },
+};
+
+/**
+ * Reputation changes for the player's deeds
+ */
+export const REPUTATION_CHANGE = {
+  questCompleted: 8,
+  questFailed: -6,
+  questExpired: -4,
+  /** Wolves or bandits beaten near a settlement */
+  enemyDefeated: 3,
+  /** Bandit camp destroyed (every settlement it threatened) */
+  campDestroyed: 10,
+  /** Carried to a settlement after losing a fight */
+  defeated: -2,
+} as const;
+
+/** Reputation ranges from -100 to 100. */
+export const MAX_REPUTATION = 100;
+
+/** Share of a change that spreads to the other settlements of the group. */
+const GROUP_SPILLOVER = 0.5;
+
+/** Gold traded per point of reputation (doubled when selling goods the settlement needs). */
+const TRADE_GOLD_PER_POINT = 50;
+
+/** Most reputation a single trade can earn. */
+const MAX_TRADE_REPUTATION = 3;
+
+/**
+ * Price change at full reputation (cheaper buying, better selling). Smaller
+ * than the player's markup, so buying always costs more than selling brings in.
+ */
+const REPUTATION_PRICE_EFFECT = 0.05;
+
+/** Hexes around a fight whose nearest settlement hears of a victory. */
+const VICTORY_RADIUS = 10;
+
+/** Hexes around a destroyed camp whose settlements are grateful. */
+const CAMP_GRATITUDE_RADIUS = 12;
+
+/**
+ * A city and the villages and hamlets closest to it
+ */
+export interface SettlementGroup {
+  leaderId: number;
+  name: string;
+  memberIds: number[];
+  reputation: number;
+}
+
+/**
+ * Serializable snapshot of the reputation system (used by save games)
+ */
+export interface ReputationSaveState {
+  reputations: Array<[number, number]>;
+}
+
+/**
+ * How each settlement regards the player. Deeds change the reputation of one
+ * settlement and spill over to its group (a city and its satellite villages).
+ * Standing sets the player's prices and which services a settlement offers.
+ */
+export class ReputationSystem {
+  private worldMap: WorldMap;
+  private reputations: Map<number, number> = new Map();
+
+  constructor(worldMap: WorldMap) {
+    this.worldMap = worldMap;
+  }
+
+  /**
+   * Reputation with a settlement (-100 to 100, 0 = strangers)
+   */
+  getReputation(settlementId: number): number {
+    return this.reputations.get(settlementId) ?? 0;
+  }
+
+  /**
+   * Standing with a settlement
+   */
+  getStanding(settlementId: number): Standing {
+    const reputation = this.getReputation(settlementId);
+    const standings = Object.keys(STANDING_CONFIG) as Standing[];
+    return standings.find(standing => reputation >= STANDING_CONFIG[standing].minReputation) ?? Standing.Hostile;
+  }
+
+  /**
+   * Configuration of the standing with a settlement
+   */
+  getStandingConfig(settlementId: number): StandingConfig {
+    return STANDING_CONFIG[this.getStanding(settlementId)];
+  }
+
+  /**
+   * Multiplier on prices the player pays (0.95 at full reputation, 1.05 at the worst)
+   */
+  getBuyModifier(settlementId: number): number {
+    return 1 - (this.getReputation(settlementId) / MAX_REPUTATION) * REPUTATION_PRICE_EFFECT;
+  }
+
+  /**
+   * Multiplier on prices the player receives (1.05 at full reputation, 0.95 at the worst)
+   */
+  getSellModifier(settlementId: number): number {
+    return 1 + (this.getReputation(settlementId) / MAX_REPUTATION) * REPUTATION_PRICE_EFFECT;
+  }
+
+  /**
+   * Change reputation with a settlement; part of it spreads to its group
+   */
+  change(settlementId: number, amount: number, reason: string): void {
+    this.adjust(settlementId, amount);
+    for (const memberId of this.getGroup(settlementId).memberIds) {
+      if (memberId !== settlementId) this.adjust(memberId, amount * GROUP_SPILLOVER);
+    }
+    console.log(`[Reputation] ${this.getName(settlementId)} ${amount >= 0 ? "+" : ""}${amount} (${reason}) → ${Math.round(this.getReputation(settlementId))}`);
+  }
+
+  /**
+   * Reward a fair trade (selling goods the settlement needs counts double)
+   */
+  recordTrade(settlementId: number, total: number, needed: boolean): void {
+    const points = Math.min(MAX_TRADE_REPUTATION, (total / TRADE_GOLD_PER_POINT) * (needed ? 2 : 1));
+    if (points > 0) this.adjust(settlementId, points);
+  }
+
+  /**
+   * Word of a won fight reaches the nearest settlement
+   */
+  recordVictory(tile: HexTile): void {
+    const nearest = this.getSettlementsNear(tile, VICTORY_RADIUS)[0];
+    if (nearest !== undefined) this.change(nearest, REPUTATION_CHANGE.enemyDefeated, "enemies defeated nearby");
+  }
+
+  /**
+   * Every settlement a destroyed camp threatened is grateful
+   */
+  recordCampDestroyed(tile: HexTile): void {
+    for (const settlementId of this.getSettlementsNear(tile, CAMP_GRATITUDE_RADIUS)) {
+      this.adjust(settlementId, REPUTATION_CHANGE.campDestroyed);
+    }
+    console.log(`[Reputation] Bandit camp destroyed at (${tile.col}, ${tile.row})`);
+  }
+
+  /**
+   * Group of a settlement: the nearest city and every village and hamlet
+   * whose nearest city it is (settlements without cities form their own group)
+   */
+  getGroup(settlementId: number): SettlementGroup {
+    const leaderId = this.getLeader(settlementId);
+    const memberIds = this.worldMap.settlements
+      .map((_, id) => id)
+      .filter(id => this.getLeader(id) === leaderId);
+    return this.createGroup(leaderId, memberIds);
+  }
+
+  /**
+   * All settlement groups, largest reputation first
+   */
+  getGroups(): SettlementGroup[] {
+    const members = new Map<number, number[]>();
+    this.worldMap.settlements.forEach((_, id) => {
+      const leaderId = this.getLeader(id);
+      members.set(leaderId, [...(members.get(leaderId) ?? []), id]);
+    });
+    return Array.from(members, ([leaderId, memberIds]) => this.createGroup(leaderId, memberIds))
+      .sort((a, b) => b.reputation - a.reputation || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Build a group (leader first, then members by name)
+   */
+  private createGroup(leaderId: number, memberIds: number[]): SettlementGroup {
+    const sorted = [leaderId, ...memberIds.filter(id => id !== leaderId).sort((a, b) => this.getName(a).localeCompare(this.getName(b)))];
+    const reputation = sorted.reduce((sum, id) => sum + this.getReputation(id), 0) / sorted.length;
+    return { leaderId, name: this.getName(leaderId), memberIds: sorted, reputation };
+  }
+
+  /**
+   * City a settlement looks up to (itself if it is a city or no city exists)
+   */
+  private getLeader(settlementId: number): number {
+    const settlement = this.worldMap.settlements[settlementId];
+    if (settlement.type === "city") return settlementId;
+
+    const center = this.worldMap.getTile(settlement.center);
+    let leader = settlementId;
+    let best = Infinity;
+    this.worldMap.settlements.forEach((other, id) => {
+      if (other.type !== "city") return;
+      const otherCenter = this.worldMap.getTile(other.center);
+      if (!center || !otherCenter) return;
+      const distance = this.worldMap.hexDistance(center, otherCenter);
+      if (distance < best) {
+        best = distance;
+        leader = id;
+      }
+    });
+    return leader;
+  }
+
+  /**
+   * Settlements whose center lies within a radius of a tile, nearest first
+   */
+  private getSettlementsNear(tile: HexTile, radius: number): number[] {
+    return this.worldMap.settlements
+      .map((settlement, id) => {
+        const center = this.worldMap.getTile(settlement.center);
+        return { id, distance: center ? this.worldMap.hexDistance(tile, center) : Infinity };
+      })
+      .filter(({ distance }) => distance <= radius)
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ id }) => id);
+  }
+
+  /**
+   * Add to a settlement's reputation (clamped to ±100)
+   */
+  private adjust(settlementId: number, amount: number): void {
+    const reputation = Math.max(-MAX_REPUTATION, Math.min(MAX_REPUTATION, this.getReputation(settlementId) + amount));
+    this.reputations.set(settlementId, reputation);
+  }
+
+  /**
+   * Settlement name by index
+   */
+  private getName(settlementId: number): string {
+    return this.worldMap.settlements[settlementId]?.name ?? `Settlement ${settlementId}`;
+  }
+
+  /**
+   * Capture reputations for saving
+   */
+  serialize(): ReputationSaveState {
+    return { reputations: Array.from(this.reputations) };
+  }
+
+  /**
+   * Replace reputations with a saved snapshot
+   */
+  restore(state: ReputationSaveState): void {
+    this.reputations = new Map(state.reputations);
+  }
+}
@@ -0,0 +1,390 @@
+import { Grid } from "honeycomb-grid";
+import { HexTile } from "../world/HexTile";
+import { VegetationType } from "../world/Terrain";
+import { BuildingType, Settlement } from "../world/Building";
+import { ResourceDeposit } from "../world/Resource";
+import { SettlementEconomySaveState } from "../world/SettlementEconomy";
+import { PopulationSaveState } from "../world/population/PopulationManager";
+import { TradeManagerSaveState } from "../world/trade/TradeManager";
+import { ConstructionSaveState } from "../world/Construction";
+import { BanditSaveState } from "../world/Bandits";
+import { GarrisonSaveState } from "../world/Garrison";
+import { ShipyardSaveState } from "../world/Shipyard";
+import { ToolSaveState } from "../world/Tools";
+import { PropertySaveState } from "../world/Property";
+import { QuestSaveState } from "./Quests";
+import { ReputationSaveState } from "./Reputation";
+import { PriceLedgerSaveState } from "./PriceLedger";
+import { WorldSettings } from "./WorldSettings";
+import { CharacterSaveState } from "../entity/Character";
+import { RandomState } from "../utils/random";
+
+/**
+ * Current save format version.
+ * Bump this whenever SaveData changes shape and add a migration below.
+ */
+export const SAVE_VERSION = 19;
+
+/**
+ * Oldest save version that still loads. Loading regenerates the world from
+ * the seed, so bump SAVE_VERSION and raise this whenever world generation
+ * changes what a seed generates (v16: biomes, lakes and rivers); older saves
+ * would put their settlements and roads onto a different map.
+ */
+const MIN_SAVE_VERSION = 16;
+
+/** localStorage key holding the slot index. */
+const SLOT_INDEX_KEY = "unwritten-saves";
+
+/** localStorage key prefix for individual slots. */
+const SLOT_KEY_PREFIX = "unwritten-save:";
+
+/** sessionStorage key used to hand a save over a page reload. */
+const PENDING_LOAD_KEY = "unwritten-pending-load";
+
+/**
+ * Mutable state of a single tile.
+ * Everything else about a tile is regenerated from the world seed.
+ */
+export interface SavedTile {
+  col: number;
+  row: number;
+  building?: BuildingType;
+  housingDensity?: number;
+  settlementId?: number;
+  explored?: boolean;
+  hasRoad?: boolean;
+  resource?: ResourceDeposit;
+  vegetation?: VegetationType; // Only on tiles felled for timber
+  treeDensity?: number;
+}
+
+/**
+ * Complete snapshot of a game in progress.
+ */
+export interface SaveData {
+  version: number;
+  name: string;
+  savedAt: number; // Unix timestamp (ms)
+  seed: string;
+  preset: string | null; // World preset id (null = default world)
+  worldOverrides: WorldSettings["overrides"]; // New-game screen settings on top of the preset
+  width: number;
+  height: number;
+  tiles: SavedTile[];
+  settlements: Settlement[];
+  economies: SettlementEconomySaveState[];
+  populations: PopulationSaveState[];
+  trade: TradeManagerSaveState;
+  construction: ConstructionSaveState;
+  bandits: BanditSaveState;
+  garrisons: GarrisonSaveState;
+  shipyards: ShipyardSaveState;
+  tools: ToolSaveState;
+  prices: PriceLedgerSaveState;
+  property: PropertySaveState;
+  quests: QuestSaveState;
+  reputation: ReputationSaveState;
+  character: CharacterSaveState;
+  rng: RandomState; // Simulation random stream position
+}
+
+/**
+ * Summary of a stored slot (for listing without parsing every save).
+ */
+export interface SaveSlotInfo {
+  name: string;
+  seed: string;
+  turn: number;
+  savedAt: number;
+}
+
+/**
+ * Save JSON of any version, before migration (only the version is known).
+ */
+type StoredSaveData = { version: number; [field: string]: unknown };
+
+/**
+ * v16 saves: no world preset or new-game screen settings yet
+ */
+type SaveDataV16 = Omit<SaveData, "version" | "preset" | "worldOverrides"> & { version: 16 };
+
+/**
+ * v17 saves: no new-game screen settings yet
+ */
+type SaveDataV17 = Omit<SaveData, "version" | "worldOverrides"> & { version: 17 };
+
+/**
+ * v18 saves: no felled woods on tiles yet
+ */
+type SaveDataV18 = Omit<SaveData, "version"> & { version: 18 };
+
+/**
+ * Upgrades older save formats one version at a time.
+ * Key is the version being migrated FROM; each migration reads the save
+ * as that version's shape.
+ */
+const SAVE_MIGRATIONS: Record<number, (data: StoredSaveData) => StoredSaveData> = {
+  // v16 → v17: worlds can come from a preset (older saves used the default world)
+  16: (data) => {
+    const save = data as SaveDataV16;
+    return { ...save, version: 17, preset: null } satisfies SaveDataV17;
+  },
+  // v17 → v18: new-game screen settings (older worlds used the preset as is)
+  17: (data) => {
+    const save = data as SaveDataV17;
+    return { ...save, version: 18, worldOverrides: {} } satisfies SaveDataV18;
+  },
+  // v18 → v19: felled woods on tiles (older saves keep the generated woods)
+  18: (data) => {
+    const save = data as SaveDataV18;
+    return { ...save, version: 19 } satisfies SaveData;
+  },
+};
+
+/**
+ * Capture the mutable state of every tile that differs from a blank tile.
+ */
+export function serializeTiles(grid: Grid<HexTile>): SavedTile[] {
+  const tiles: SavedTile[] = [];
+
+  grid.forEach((hex) => {
+    const saved: SavedTile = { col: hex.col, row: hex.row };
+    let changed = false;
+
+    if (hex.building !== BuildingType.None) {
+      saved.building = hex.building;
+      saved.housingDensity = hex.housingDensity;
+      changed = true;
+    }
+    if (hex.settlementId !== undefined) {
+      saved.settlementId = hex.settlementId;
+      changed = true;
+    }
+    if (hex.explored) {
+      saved.explored = true;
+      changed = true;
+    }
+    if (hex.hasRoad) {
+      saved.hasRoad = true;
+      changed = true;
+    }
+    if (hex.resource) {
+      saved.resource = { ...hex.resource };
+      changed = true;
+    }
+    if (hex.felled) {
+      saved.vegetation = hex.vegetation;
+      saved.treeDensity = hex.treeDensity;
+      changed = true;
+    }
+
+    if (changed) tiles.push(saved);
+  });
+
+  return tiles;
+}
+
+/**
+ * Apply saved tile state onto a freshly generated grid of the same seed.
+ * Tiles not present in the save are reset to their blank state.
+ */
+export function restoreTiles(grid: Grid<HexTile>, tiles: SavedTile[]): void {
+  grid.forEach((hex) => {
+    hex.building = BuildingType.None;
+    hex.housingDensity = 0;
+    hex.settlementId = undefined;
+    hex.explored = false;
+    hex.visible = false;
+    hex.hasRoad = false;
+    hex.resource = undefined;
+    hex.felled = false;
+  });
+
+  for (const saved of tiles) {
+    const hex = grid.getHex({ col: saved.col, row: saved.row });
+    if (!hex) continue;
+
+    hex.building = saved.building ?? BuildingType.None;
+    hex.housingDensity = saved.housingDensity ?? 0;
+    hex.settlementId = saved.settlementId;
+    hex.explored = saved.explored ?? false;
+    hex.hasRoad = saved.hasRoad ?? false;
+    hex.resource = saved.resource ? { ...saved.resource } : undefined;
+
+    // Woods thinned for timber stay thinned
+    if (saved.vegetation !== undefined) {
+      hex.vegetation = saved.vegetation;
+      hex.treeDensity = saved.treeDensity ?? 0;
+      hex.felled = true;
+    }
+
+    // Settlement land is cleared (construction claims tiles after world generation)
+    if (hex.settlementId !== undefined) {
+      hex.vegetation = VegetationType.None;
+      hex.treeDensity = 0;
+      hex.isRough = false;
+    }
+  }
+}
+
+/**
+ * Validate raw save JSON and migrate it to the current version.
+ * Throws an Error with a player-readable message if the save is unusable.
+ */
+export function migrateSaveData(raw: unknown): SaveData {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("Save file is not a valid game save");
+  }
+
+  const { version } = raw as Partial<StoredSaveData>;
+  if (typeof version !== "number") {
+    throw new Error("Save file has no version");
+  }
+  let data: StoredSaveData = { ...raw, version };
+  if (data.version > SAVE_VERSION) {
+    throw new Error(`Save was made by a newer version of the game (v${data.version})`);
+  }
+  if (data.version < MIN_SAVE_VERSION) {
+    throw new Error(`Save v${data.version} was made by an older world generator and no longer fits its world`);
+  }
+
+  while (data.version < SAVE_VERSION) {
+    const migrate = SAVE_MIGRATIONS[data.version];
+    if (!migrate) {
+      throw new Error(`Save version v${data.version} is no longer supported`);
+    }
+    data = migrate(data);
+  }
+
+  if (!hasWorldAndCharacter(data)) {
+    throw new Error("Save file is missing world or character data");
+  }
+
+  return data;
+}
+
+/**
+ * Check that a migrated save has its seed, tiles and character
+ */
+function hasWorldAndCharacter(data: StoredSaveData): data is StoredSaveData & SaveData {
+  return typeof data.seed === "string" && Array.isArray(data.tiles) && !!data.character;
+}
+
+/**
+ * Named save slots stored in the browser's localStorage,
+ * plus export/import of saves as JSON files.
+ */
+export class SaveStorage {
+  /** List all stored slots, newest first. */
+  listSlots(): SaveSlotInfo[] {
+    const raw = localStorage.getItem(SLOT_INDEX_KEY);
+    if (!raw) return [];
+
+    try {
+      const slots = JSON.parse(raw) as SaveSlotInfo[];
+      return slots.sort((a, b) => b.savedAt - a.savedAt);
+    } catch {
+      console.warn("[Save] Slot index is corrupt - ignoring");
+      return [];
+    }
+  }
+
+  /**
+   * Store a save under its name, overwriting any slot with the same name.
+   * Throws if the browser storage quota is exceeded.
+   */
+  saveToSlot(data: SaveData): void {
+    localStorage.setItem(SLOT_KEY_PREFIX + data.name, JSON.stringify(data));
+
+    const slots = this.listSlots().filter((slot) => slot.name !== data.name);
+    slots.push({
+      name: data.name,
+      seed: data.seed,
+      turn: data.character.turn,
+      savedAt: data.savedAt,
+    });
+    localStorage.setItem(SLOT_INDEX_KEY, JSON.stringify(slots));
+
+    console.log(`[Save] Saved "${data.name}" (turn ${data.character.turn})`);
+  }
+
+  /** Read a save from a slot. Throws if the slot is missing or unusable. */
+  loadFromSlot(name: string): SaveData {
+    const raw = localStorage.getItem(SLOT_KEY_PREFIX + name);
+    if (!raw) {
+      throw new Error(`Save slot "${name}" not found`);
+    }
+    return migrateSaveData(JSON.parse(raw));
+  }
+
+  /** Delete a slot. */
+  deleteSlot(name: string): void {
+    localStorage.removeItem(SLOT_KEY_PREFIX + name);
+    const slots = this.listSlots().filter((slot) => slot.name !== name);
+    localStorage.setItem(SLOT_INDEX_KEY, JSON.stringify(slots));
+  }
+
+  /** Download a save as a .json file. */
+  exportToFile(data: SaveData): void {
+    const blob = new Blob([JSON.stringify(data)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `unwritten-${data.seed}-turn${data.character.turn}.json`;
+    link.click();
+
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Ask the player for a .json save file and parse it.
+   * Resolves to null if the player cancels the file dialog.
+   */
+  importFromFile(): Promise<SaveData | null> {
+    return new Promise((resolve, reject) => {
+      const input = document.createElement("input");
+      input.type = "file";
+      input.accept = ".json,application/json";
+
+      input.addEventListener("change", async () => {
+        const file = input.files?.[0];
+        if (!file) {
+          resolve(null);
+          return;
+        }
+        try {
+          resolve(migrateSaveData(JSON.parse(await file.text())));
+        } catch (err) {
+          reject(err);
+        }
+      });
+      input.addEventListener("cancel", () => resolve(null));
+
+      input.click();
+    });
+  }
+
+  /**
+   * Stash a save so it can be applied after the page reloads
+   * (the world must be regenerated from the save's seed first).
+   */
+  setPendingLoad(data: SaveData): void {
+    sessionStorage.setItem(PENDING_LOAD_KEY, JSON.stringify(data));
+  }
+
+  /** Take the pending save (if any) and clear it. */
+  takePendingLoad(): SaveData | null {
+    const raw = sessionStorage.getItem(PENDING_LOAD_KEY);
+    if (!raw) return null;
+    sessionStorage.removeItem(PENDING_LOAD_KEY);
+
+    try {
+      return migrateSaveData(JSON.parse(raw));
+    } catch (err) {
+      console.error("[Save] Pending save could not be loaded:", err);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,720 @@
+import { WorldMap } from "../world/WorldMap";
+import { WorldGenConfig } from "../world/WorldGenerator";
+import { EconomyManager, SettlementEconomy } from "../world/SettlementEconomy";
+import { extractResources, isExtractionBuilding, hasExtractableDeposit } from "../world/ResourceExtraction";
+import { ResourceDepletionSystem } from "../world/ResourceDepletion";
+import { getRecipesForBuilding, getRecipeById } from "../world/ProductionRecipe";
+import { BuildingType, Settlement, calculateHousingCapacity } from "../world/Building";
+import { HousingUpgradeSystem } from "../world/HousingUpgrade";
+import { ConstructionSystem } from "../world/Construction";
+import { HexTile } from "../world/HexTile";
+import { CalendarDate, Weather, getDate, getWeather } from "../world/Calendar";
+import { ResourceType } from "../world/Resource";
+import { GoodType } from "../world/Goods";
+import { GlobalPopulationManager } from "../world/population/PopulationManager";
+import { WorkerAssignmentSystem, WorkerAssignment, BuildingInfo } from "../world/population/WorkerAssignment";
+import { createPerson } from "../world/population/LifeSimulation";
+import { getFoodStock, spoilFood } from "../world/population/FoodConsumption";
+import { JobType } from "../world/population/Person";
+import { getJobForBuilding, getWorkerCapacity, requiresWorkers } from "../world/population/JobMapping";
+import { TradeManager } from "../world/trade/TradeManager";
+import { BanditSystem } from "../world/Bandits";
+import { GarrisonSystem } from "../world/Garrison";
+import { ShipyardSystem } from "../world/Shipyard";
+import { ToolSystem } from "../world/Tools";
+import { PropertySystem } from "../world/Property";
+import { SeededRandom } from "../utils/random";
+import { StatisticsRecorder } from "./Statistics";
+
+/**
+ * Statistics for one settlement after a turn.
+ */
+export interface SettlementTurnStats {
+  settlementId: number;
+  name: string;
+  type: Settlement["type"];
+  population: number;
+  housingCapacity: number;
+  workers: number;
+  unemployed: number;
+  avgHealth: number;
+  avgHunger: number;
+  treasury: number;
+  food: number; // Edible goods + resources in stock
+  spoiledFood: number;
+  soldiers: number;
+  garrisonStrength: number;
+  upgradedHousing: number;
+  evolvedToCity: boolean;
+  constructionStarted?: BuildingType;
+  constructionCompleted?: BuildingType;
+}
+
+/**
+ * Statistics for the whole world after a turn.
+ */
+export interface TurnStats {
+  turn: number;
+  date: CalendarDate;
+  storm: boolean;
+  totalPopulation: number;
+  totalTreasury: number;
+  activeTraders: number;
+  robberies: number;
+  settlements: SettlementTurnStats[];
+}
+
+/**
+ * Renderer-free simulation core — world generation plus the turn pipeline
+ * (economy, population, workers, housing, trade).
+ * Runs in the browser (driven by Game) or headless in Node.
+ */
+export class Simulation {
+  readonly worldMap: WorldMap;
+  readonly rng: SeededRandom;
+  readonly economyManager: EconomyManager;
+  readonly populationManager: GlobalPopulationManager;
+  readonly workerAssignmentSystem: WorkerAssignmentSystem;
+  readonly housingUpgradeSystem: HousingUpgradeSystem;
+  readonly constructionSystem: ConstructionSystem;
+  readonly resourceDepletionSystem: ResourceDepletionSystem;
+  readonly garrisonSystem: GarrisonSystem;
+  readonly shipyardSystem: ShipyardSystem;
+  readonly toolSystem: ToolSystem;
+  readonly propertySystem: PropertySystem;
+  readonly banditSystem: BanditSystem;
+  readonly tradeManager: TradeManager;
+  readonly statistics: StatisticsRecorder;
+
+  /** Last processed turn (0 = not started). */
+  turn: number = 0;
+
+  /** Calendar date of the current turn. */
+  get date(): CalendarDate {
+    return getDate(this.turn);
+  }
+
+  /** Season and storms of the current turn. */
+  get weather(): Weather {
+    return getWeather(this.worldMap.seed, this.turn);
+  }
+
+  /** Callback when tiles changed during a turn (e.g. a building was constructed or a deposit depleted) and need re-rendering. */
+  onTilesChanged?: (tiles: HexTile[]) => void;
+
+  constructor(config: Partial<WorldGenConfig> = {}) {
+    this.worldMap = new WorldMap(config);
+
+    // Simulation randomness is derived from the world seed so runs are reproducible
+    this.rng = new SeededRandom(this.worldMap.seed + "_simulation");
+
+    this.economyManager = new EconomyManager();
+    this.populationManager = new GlobalPopulationManager(this.rng);
+    this.workerAssignmentSystem = new WorkerAssignmentSystem();
+    this.housingUpgradeSystem = new HousingUpgradeSystem();
+    this.constructionSystem = new ConstructionSystem();
+    this.resourceDepletionSystem = new ResourceDepletionSystem();
+    this.garrisonSystem = new GarrisonSystem();
+    this.shipyardSystem = new ShipyardSystem();
+    this.toolSystem = new ToolSystem();
+    this.propertySystem = new PropertySystem();
+    this.banditSystem = new BanditSystem();
+    this.banditSystem.getPatrols = (grid) => this.garrisonSystem.getPatrolPosts(grid);
+    this.tradeManager = new TradeManager(this.worldMap.grid, this.worldMap.settlements, this.rng);
+    this.tradeManager.tileDanger = (tile) => this.banditSystem.getTileDanger(this.worldMap.grid, tile);
+    this.tradeManager.materialRequests = (settlementId) => {
+      const economy = this.economyManager.getEconomy(settlementId);
+      return economy ? [
+        ...this.constructionSystem.getMaterialShortfall(settlementId, economy),
+        ...this.shipyardSystem.getMaterialShortfall(this.worldMap.grid, this.worldMap.settlements, settlementId, economy),
+      ] : [];
+    };
+    this.tradeManager.takeShip = (settlementId) => this.shipyardSystem.takeShip(settlementId);
+    this.tradeManager.returnShip = (settlementId) => this.shipyardSystem.returnShip(settlementId);
+    this.shipyardSystem.hasSeaRoutes = (settlementId) => this.tradeManager.hasSeaRoutes(settlementId);
+    this.statistics = new StatisticsRecorder();
+  }
+
+  /**
+   * Set up starting stockpiles, people and treasuries for a new game
+   */
+  initialize(): void {
+    this.initializeEconomies();
+    this.initializePopulations();
+    this.initializeTreasuries(); // Initialize settlement money based on population
+    this.banditSystem.initialize(this.worldMap.grid, this.worldMap.settlements, this.rng);
+  }
+
+  /**
+   * Advance the simulation by one turn and return its statistics
+   * (a detailed snapshot is also kept in the statistics history)
+   */
+  step(): TurnStats {
+    this.turn++;
+    const stats = this.economyTick();
+    this.statistics.record(this);
+    return stats;
+  }
+
+  /**
+   * Run several turns in a row (headless use)
+   */
+  run(turns: number, onTurn?: (stats: TurnStats) => void): TurnStats[] {
+    const history: TurnStats[] = [];
+    for (let i = 0; i < turns; i++) {
+      const stats = this.step();
+      history.push(stats);
+      onTurn?.(stats);
+    }
+    return history;
+  }
+
+  /**
+   * Initialize economies for all settlements
+   */
+  private initializeEconomies(): void {
+    // Settlements don't have IDs, so we'll need to assign them indices
+    this.worldMap.settlements.forEach((settlement, index) => {
+      const economy = this.economyManager.getOrCreateEconomy(index);
+      
+      // Base stockpiles for all settlements (universal needs)
+      const baseMultiplier = settlement.type === "city" ? 1.0 : settlement.type === "village" ? 0.5 : 0.2;
+      
+      // Universal food stockpiles (scaled by settlement size)
+      economy.addGood(GoodType.Bread, Math.floor(30 * baseMultiplier));
+      economy.addGood(GoodType.Meat, Math.floor(15 * baseMultiplier));
+      
+      // Scan settlement buildings and add appropriate stockpiles
+      const buildingCounts = new Map<BuildingType, number>();
+      for (const tile of settlement.tiles) {
+        const hexTile = this.worldMap.getTile({ col: tile.col, row: tile.row });
+        if (!hexTile || hexTile.building === BuildingType.None) continue;
+        
+        buildingCounts.set(hexTile.building, (buildingCounts.get(hexTile.building) || 0) + 1);
+      }
+      
+      // For each building type, add relevant resources/goods
+      buildingCounts.forEach((count, buildingType) => {
+        const amount = count * 10; // Base amount per building
+        
+        // Extraction buildings -> add resources
+        switch (buildingType) {
+          case BuildingType.LumberCamp:
+          case BuildingType.Sawmill:
+            economy.addResource(ResourceType.Timber, amount);
+            economy.addGood(GoodType.Planks, amount / 2);
+            break;
+          case BuildingType.Quarry:
+            economy.addResource(ResourceType.Stone, amount);
+            break;
+          case BuildingType.ClayPit:
+            economy.addResource(ResourceType.Clay, amount);
+            break;
+          case BuildingType.IronMine:
+            economy.addResource(ResourceType.Iron, amount);
+            break;
+          case BuildingType.CopperMine:
+            economy.addResource(ResourceType.Copper, amount);
+            break;
+          case BuildingType.SilverMine:
+            economy.addResource(ResourceType.Silver, amount / 2);
+            break;
+          case BuildingType.GoldMine:
+            economy.addResource(ResourceType.Gold, amount / 2);
+            break;
+          case BuildingType.GemMine:
+            economy.addResource(ResourceType.Gems, amount / 2);
+            break;
+          case BuildingType.SaltWorks:
+            economy.addResource(ResourceType.Salt, amount);
+            break;
+          case BuildingType.Pasture:
+            economy.addResource(ResourceType.Livestock, amount);
+            economy.addGood(GoodType.Meat, amount / 2);
+            break;
+          case BuildingType.Field:
+            economy.addResource(ResourceType.Wheat, amount);
+            economy.addGood(GoodType.Bread, amount);
+            break;
+          case BuildingType.FishingHut:
+          case BuildingType.FishingBoat:
+            economy.addResource(ResourceType.Fish, amount);
+            economy.addGood(GoodType.PreparedFish, amount / 2);
+            break;
+          case BuildingType.HuntingLodge:
+            economy.addResource(ResourceType.WildGame, amount);
+            economy.addGood(GoodType.Meat, amount / 3);
+            break;
+            
+          // Production buildings -> add goods
+          case BuildingType.CharcoalBurner:
+            economy.addGood(GoodType.Coal, amount * 2); // Critical resource
+            break;
+          case BuildingType.Smelter:
+            economy.addGood(GoodType.Coal, amount);
+            economy.addGood(GoodType.CopperIngot, amount / 2);
+            economy.addGood(GoodType.IronIngot, amount / 2);
+            break;
+          case BuildingType.Smithy:
+            economy.addGood(GoodType.IronSword, count * 2);
+            economy.addGood(GoodType.IronTools, count * 3);
+            economy.addGood(GoodType.CopperTools, count * 2);
+            economy.addGood(GoodType.IronArmor, count);
+            break;
+          case BuildingType.Kiln:
+            economy.addGood(GoodType.Bricks, amount);
+            economy.addGood(GoodType.Pottery, amount / 2);
+            break;
+          case BuildingType.Tannery:
+            economy.addGood(GoodType.Leather, amount);
+            economy.addGood(GoodType.LeatherArmor, count);
+            break;
+          case BuildingType.Windmill:
+          case BuildingType.GrainSilo:
+            economy.addResource(ResourceType.Wheat, amount);
+            economy.addGood(GoodType.Bread, amount);
+            break;
+        }
+      });
+
+      // A set of new copper tools for every workplace's workers
+      let workerSlots = 0;
+      buildingCounts.forEach((count, buildingType) => {
+        if (requiresWorkers(buildingType)) workerSlots += count * getWorkerCapacity(buildingType);
+      });
+      economy.addGood(GoodType.CopperTools, workerSlots);
+      
+      console.log(`[Economy] Initialized economy for settlement ${index} (${settlement.type}) with ${buildingCounts.size} building types`);
+    });
+  }
+
+  /**
+   * Initialize populations for all settlements
+   */
+  private initializePopulations(): void {
+    this.worldMap.settlements.forEach((settlement, index) => {
+      const population = this.populationManager.getOrCreatePopulation(index);
+      
+      // Calculate initial population based on settlement size
+      let targetPop = 0;
+      if (settlement.type === "city") {
+        targetPop = 40 + this.rng.int(30); // 40-70
+      } else if (settlement.type === "village") {
+        targetPop = 15 + this.rng.int(15); // 15-30
+      } else {
+        targetPop = 3 + this.rng.int(5); // 3-8
+      }
+      
+      // Count buildings to determine initial skills distribution
+      const buildingCounts = new Map<BuildingType, number>();
+      for (const tile of settlement.tiles) {
+        const hexTile = this.worldMap.getTile({ col: tile.col, row: tile.row });
+        if (!hexTile || hexTile.building === BuildingType.None) continue;
+        buildingCounts.set(hexTile.building, (buildingCounts.get(hexTile.building) || 0) + 1);
+      }
+      
+      // Create people with appropriate skills
+      for (let i = 0; i < targetPop; i++) {
+        // Age distribution: 20% children, 65% adults, 15% elders
+        let age: number;
+        const ageRoll = this.rng.next();
+        if (ageRoll < 0.2) {
+          age = this.rng.int(14); // 0-13
+        } else if (ageRoll < 0.85) {
+          age = 14 + this.rng.int(46); // 14-60
+        } else {
+          age = 60 + this.rng.int(20); // 60-80
+        }
+        
+        // Give some people starting skills based on settlement buildings
+        const skills: Partial<Record<JobType, number>> = {};
+        
+        // Randomly assign 1-2 skills based on available buildings
+        if (buildingCounts.size > 0) {
+          const buildingTypes = Array.from(buildingCounts.keys());
+          const randomBuilding = this.rng.pick(buildingTypes);
+          const jobType = getJobForBuilding(randomBuilding);
+          
+          if (jobType !== JobType.None && this.rng.chance(0.3)) { // 30% chance to have skill
+            skills[jobType] = 10 + this.rng.int(40); // 10-50 skill
+          }
+        }
+        
+        // Everyone has some farming skill (universal)
+        if (this.rng.chance(0.5)) {
+          skills[JobType.Farmer] = 5 + this.rng.int(25); // 5-30 skill
+        }
+        
+        const person = createPerson(index, age, this.rng, skills);
+        population.addPerson(person);
+      }
+      
+      console.log(`[Population] Initialized settlement ${index} (${settlement.type}) with ${targetPop} people`);
+    });
+  }
+
+  /**
+   * Initialize settlement treasuries based on population
+   */
+  private initializeTreasuries(): void {
+    this.worldMap.settlements.forEach((settlement, index) => {
+      const economy = this.economyManager.getEconomy(index);
+      const population = this.populationManager.getPopulation(index);
+      
+      if (!economy || !population) return;
+      
+      const popSize = population.getTotalPopulation();
+      
+      // Calculate starting treasury based on settlement size and type
+      // Formula: 10 gold per person + settlement type bonus
+      let treasuryAmount = popSize * 10;
+      
+      // Type bonuses
+      if (settlement.type === "city") {
+        treasuryAmount += 500; // Cities start with more capital
+      } else if (settlement.type === "village") {
+        treasuryAmount += 200; // Villages have modest reserves
+      } else {
+        treasuryAmount += 50; // Hamlets have minimal reserves
+      }
+      
+      economy.setTreasury(treasuryAmount);
+      
+      console.log(`[Economy] Initialized treasury for settlement ${index} (${settlement.type}, ${popSize} people): ${treasuryAmount}g`);
+    });
+  }
+
+  /**
+   * Process one economy tick - extraction, production, population and trade
+   */
+  private economyTick(): TurnStats {
+    const settlementStats: SettlementTurnStats[] = [];
+    const changedTiles: HexTile[] = [];
+    const date = this.date;
+    const weather = this.weather;
+    console.log(`[Calendar] Turn ${this.turn}: day ${date.dayOfSeason} of ${date.season}, year ${date.year}${weather.storm ? " (storm)" : ""}`);
+
+    this.worldMap.settlements.forEach((settlement, settlementIndex) => {
+      const economy = this.economyManager.getEconomy(settlementIndex);
+      const population = this.populationManager.getPopulation(settlementIndex);
+      if (!economy || !population) {
+        console.log(`[Economy] Settlement ${settlementIndex} missing economy or population`);
+        return;
+      }
+
+      console.log(`[Economy] Processing settlement ${settlementIndex} (${settlement.type})`);
+      console.log(`  - Population: ${population.getTotalPopulation()} people`);
+
+      // Phase 1: Calculate housing capacity (uses density system: 1-5 people per housing tile)
+      const housingCapacity = calculateHousingCapacity(
+        settlement.tiles,
+        (col, row) => {
+          const tile = this.worldMap.getTile({ col, row });
+          return tile ? { building: tile.building, housingDensity: tile.housingDensity } : undefined;
+        }
+      );
+      
+      // Phase 2: Worker assignment (before production, construction sites and the
+      // player's buildings included, soldiers limited to the wages the treasury can pay,
+      // shipwrights only while a ship is being built)
+      const buildings = this.shipyardSystem.limitShipwrights(
+        this.garrisonSystem.limitRecruitment([
+          ...this.getSettlementBuildings(settlement),
+          ...this.constructionSystem.getConstructionSites(this.worldMap, settlement, settlementIndex, economy),
+          ...this.propertySystem.getWorkplaces(settlementIndex),
+        ], economy),
+        this.worldMap.grid,
+        this.worldMap.settlements,
+        settlementIndex,
+        economy
+      );
+      console.log(`  - Buildings requiring workers: ${buildings.length}`);
+      const assignments = this.workerAssignmentSystem.assignWorkersToBuildings(
+        population,
+        buildings,
+        economy
+      );
+      console.log(`  - Workers assigned: ${assignments.length}`);
+
+      // Phase 2b: Tools (workers take tools from the stock, tools wear out;
+      // the player's buildings are staffed without them)
+      this.toolSystem.equipWorkers(
+        settlementIndex,
+        economy,
+        assignments.filter(a => !this.propertySystem.isOwned(a.building.col, a.building.row))
+      );
+      
+      // Phase 3: Extract resources (with workers)
+      this.executeExtraction(settlement, settlementIndex, economy, assignments, weather);
+
+      // Phase 4: Execute production recipes (with workers)
+      this.executeProduction(settlement, settlementIndex, economy, assignments);
+
+      // Phase 4b: The player's buildings (wages, construction, production)
+      changedTiles.push(...this.propertySystem.processSettlement(this.worldMap, settlementIndex, economy, assignments, this.turn));
+      
+      // Phase 5: Experience gain for workers
+      for (const assignment of assignments) {
+        population.recordExperience(assignment.person.id, assignment.jobType, 8);
+      }
+
+      // Phase 5b: Construction (builders advance the site, or a new project starts)
+      const construction = this.constructionSystem.processSettlement(
+        this.worldMap,
+        settlement,
+        settlementIndex,
+        economy,
+        this.tradeManager.getGlobalMarket().getMarket(settlementIndex),
+        assignments
+      );
+      changedTiles.push(...construction.changedTiles);
+
+      // Phase 5c: Food spoilage (faster in summer, slower in winter)
+      const spoiledFood = spoilFood(economy, weather.season);
+      if (spoiledFood > 0) {
+        console.log(`  - Spoiled food: ${spoiledFood}`);
+      }
+
+      // Phase 5d: Garrison (equip soldiers, pay wages and rations)
+      const garrison = this.garrisonSystem.processSettlement(settlementIndex, economy, assignments);
+
+      // Phase 5e: Shipbuilding (shipwrights work on the hull, or a new one is laid down)
+      this.shipyardSystem.processSettlement(
+        this.worldMap.grid,
+        this.worldMap.settlements,
+        settlementIndex,
+        economy,
+        assignments
+      );
+
+      // Phase 6: Population dynamics (last - after work is done)
+      const unemployedCount = population.getUnemployed().length;
+      console.log(`  - Unemployed: ${unemployedCount}`);
+      population.processTurn(economy, settlement, housingCapacity, unemployedCount, date);
+      
+      // Phase 7: Housing upgrades (after population changes)
+      const newPopulation = population.getTotalPopulation();
+      const newCapacity = calculateHousingCapacity(
+        settlement.tiles,
+        (col, row) => {
+          const tile = this.worldMap.getTile({ col, row });
+          return tile ? { building: tile.building, housingDensity: tile.housingDensity } : undefined;
+        }
+      );
+      const upgradedTiles = this.housingUpgradeSystem.upgradeHousingIfNeeded(
+        this.worldMap.grid,
+        settlement,
+        newPopulation,
+        newCapacity,
+        economy
+      );
+      if (upgradedTiles > 0) {
+        console.log(`  - Upgraded ${upgradedTiles} housing tiles to accommodate growth`);
+      }
+      
+      // Phase 8: City evolution (after housing upgrades)
+      const evolved = this.housingUpgradeSystem.tryEvolveToCity(
+        this.worldMap.grid,
+        settlement,
+        newPopulation,
+        economy
+      );
+      if (evolved) {
+        console.log(`  - Settlement evolved to CITY!`);
+      }
+      
+      console.log(`  - After turn: Population ${newPopulation}, Avg Health ${population.getAverageHealth()}%, Avg Hunger ${population.getAverageHunger()}%`);
+
+      settlementStats.push({
+        settlementId: settlementIndex,
+        name: settlement.name,
+        type: settlement.type,
+        population: newPopulation,
+        housingCapacity: newCapacity,
+        workers: assignments.length,
+        unemployed: population.getUnemployed().length,
+        avgHealth: population.getAverageHealth(),
+        avgHunger: population.getAverageHunger(),
+        treasury: economy.getTreasury(),
+        food: getFoodStock(economy),
+        spoiledFood,
+        soldiers: garrison.soldiers,
+        garrisonStrength: garrison.strength,
+        upgradedHousing: upgradedTiles,
+        evolvedToCity: evolved,
+        constructionStarted: construction.started?.building,
+        constructionCompleted: construction.completed?.building,
+      });
+    });
+
+    // Natural regrowth of renewable deposits, removal of exhausted ones
+    changedTiles.push(...this.resourceDepletionSystem.processTurn(this.worldMap.grid));
+
+    // New bandit camps; patrol coverage follows this turn's garrisons
+    changedTiles.push(...this.banditSystem.processTurn(this.worldMap.grid, this.worldMap.settlements, this.rng));
+
+    if (changedTiles.length > 0) {
+      this.onTilesChanged?.(changedTiles);
+    }
+    
+    // Phase 7: Process trade (after all settlements have produced)
+    console.log(`[Trade] Processing trade system`);
+    this.tradeManager.processTurn(this.economyManager, this.populationManager);
+
+    return {
+      turn: this.turn,
+      date,
+      storm: weather.storm,
+      totalPopulation: this.populationManager.getTotalWorldPopulation(),
+      totalTreasury: this.economyManager.getAllEconomies().reduce((sum, e) => sum + e.getTreasury(), 0),
+      activeTraders: this.tradeManager.getAllTraders().length,
+      robberies: this.tradeManager.getRobberyCount(),
+      settlements: settlementStats,
+    };
+  }
+
+  /**
+   * Get building info for a settlement
+   */
+  private getSettlementBuildings(settlement: Settlement): BuildingInfo[] {
+    const buildings: BuildingInfo[] = [];
+    
+    for (const tile of settlement.tiles) {
+      const hexTile = this.worldMap.getTile({ col: tile.col, row: tile.row });
+      if (!hexTile || hexTile.building === BuildingType.None) continue;
+      if (this.propertySystem.isOwned(tile.col, tile.row)) continue; // Staffed by the player
+
+      if (requiresWorkers(hexTile.building)) {
+        // Pure extraction buildings with nothing left to extract stand idle (workers are released)
+        if (
+          isExtractionBuilding(hexTile.building) &&
+          getRecipesForBuilding(hexTile.building).length === 0 &&
+          !hasExtractableDeposit(this.worldMap.grid, hexTile, hexTile.building)
+        ) {
+          continue;
+        }
+
+        buildings.push({
+          type: hexTile.building,
+          location: { col: tile.col, row: tile.row },
+        });
+      }
+    }
+    
+    return buildings;
+  }
+
+  /**
+   * Execute resource extraction for a settlement
+   */
+  private executeExtraction(
+    settlement: Settlement,
+    settlementIndex: number,
+    economy: SettlementEconomy,
+    assignments: WorkerAssignment[],
+    weather: Weather
+  ): void {
+    // Find all extraction buildings in this settlement
+    for (const tile of settlement.tiles) {
+      const hexTile = this.worldMap.getTile({ col: tile.col, row: tile.row });
+      if (!hexTile) continue;
+
+      const building = hexTile.building;
+      if (building === BuildingType.None) continue;
+      if (this.propertySystem.isOwned(tile.col, tile.row)) continue;
+
+      // Check if this is an extraction building
+      if (isExtractionBuilding(building)) {
+        // Find workers assigned to this building
+        const buildingWorkers = assignments.filter(
+          a => a.building.col === tile.col && a.building.row === tile.row
+        );
+        
+        // Calculate total productivity
+        const totalProductivity = buildingWorkers.reduce(
+          (sum, w) => sum + w.productivity,
+          0
+        );
+        
+        // Extract resources (scaled by worker productivity)
+        const result = extractResources(
+          this.worldMap.grid,
+          hexTile,
+          building,
+          totalProductivity,
+          weather
+        );
+        
+        if (result) {
+          economy.addResource(result.resourceType, result.amount);
+          console.log(`[Economy] Settlement ${settlementIndex} extracted ${result.amount} ${result.resourceType} (${buildingWorkers.length} workers, ${totalProductivity.toFixed(2)} productivity)`);
+        } else if (buildingWorkers.length > 0) {
+          console.log(`[Economy] Settlement ${settlementIndex} building ${building} has ${buildingWorkers.length} workers but extracted nothing (no nearby resources, or out of season?)`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Execute production for a settlement
+   */
+  private executeProduction(
+    settlement: Settlement,
+    settlementIndex: number,
+    economy: SettlementEconomy,
+    assignments: WorkerAssignment[]
+  ): void {
+    // Process ongoing production jobs
+    for (const tile of settlement.tiles) {
+      const hexTile = this.worldMap.getTile({ col: tile.col, row: tile.row });
+      if (!hexTile) continue;
+
+      const building = hexTile.building;
+      if (building === BuildingType.None) continue;
+      if (this.propertySystem.isOwned(tile.col, tile.row)) continue; // Runs from the player's warehouse
+
+      // Check if this building is currently producing
+      const activeJob = economy.getProductionForBuilding(tile.col, tile.row);
+      if (activeJob) {
+        const recipe = getRecipeById(activeJob.recipeId);
+        if (recipe) {
+          economy.tickProduction(recipe);
+        }
+        continue; // Building is busy
+      }
+
+      // Try to start new production if building is idle
+      const recipes = getRecipesForBuilding(building);
+      for (const recipe of recipes) {
+        if (economy.canProduce(recipe)) {
+          // Find workers assigned to this building
+          const buildingWorkers = assignments.filter(
+            a => a.building.col === tile.col && a.building.row === tile.row
+          );
+          
+          // Calculate total productivity
+          const totalProductivity = buildingWorkers.reduce(
+            (sum, w) => sum + w.productivity,
+            0
+          );
+          
+          // For buildings with no worker requirement (houses), use 1.0 productivity
+          // For other buildings, they need workers to produce
+          const effectiveProductivity = totalProductivity > 0 ? totalProductivity : 1.0;
+          
+          // Start production with worker productivity
+          const started = economy.startProduction(
+            recipe,
+            { col: tile.col, row: tile.row },
+            effectiveProductivity
+          );
+          
+          if (started) {
+            console.log(`[Economy] Settlement ${settlementIndex} started ${recipe.name} (${buildingWorkers.length} workers, ${effectiveProductivity.toFixed(2)} productivity)`);
+            break; // Only start one recipe per building per tick
+          }
+        }
+      }
+    }
+  }
+}
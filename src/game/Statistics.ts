@@ -0,0 +1,209 @@
+import { getFoodStock } from "../world/population/FoodConsumption";
+import { RingBuffer } from "../utils/RingBuffer";
+import type { Simulation } from "./Simulation";
+
+/** Number of turns of history kept. */
+export const STATS_HISTORY_LENGTH = 200;
+
+/**
+ * One settlement's state at the end of a turn.
+ */
+export interface SettlementSnapshot {
+  settlementId: number;
+  population: number;
+  avgHealth: number;
+  avgHunger: number;
+  avgHappiness: number;
+  treasury: number;
+  food: number;
+  stocks: Record<string, number>; // MaterialType -> amount (non-zero stockpiles only)
+  production: Record<string, number>; // Recipe ID -> units produced this turn
+  prices: Record<string, number>; // MaterialType -> current market price
+}
+
+/**
+ * The whole world at the end of a turn.
+ */
+export interface WorldSnapshot {
+  turn: number;
+  activeTraders: number;
+  settlements: SettlementSnapshot[];
+}
+
+/**
+ * Charted statistics. Keyed metrics (stock, price, production) need a material or recipe ID.
+ */
+export type StatMetric =
+  | "population"
+  | "avgHealth"
+  | "avgHunger"
+  | "avgHappiness"
+  | "treasury"
+  | "food"
+  | "stock"
+  | "price"
+  | "production";
+
+/**
+ * Display and aggregation settings per metric.
+ * World-wide values are summed across settlements, or averaged for rates and prices.
+ */
+export const STAT_METRIC_CONFIG: Record<StatMetric, { label: string; keyed: boolean; worldAggregate: "sum" | "average" }> = {
+  population: { label: "Population", keyed: false, worldAggregate: "sum" },
+  avgHealth: { label: "Health", keyed: false, worldAggregate: "average" },
+  avgHunger: { label: "Hunger", keyed: false, worldAggregate: "average" },
+  avgHappiness: { label: "Happiness", keyed: false, worldAggregate: "average" },
+  treasury: { label: "Treasury", keyed: false, worldAggregate: "sum" },
+  food: { label: "Food", keyed: false, worldAggregate: "sum" },
+  stock: { label: "Stock", keyed: true, worldAggregate: "sum" },
+  price: { label: "Price", keyed: true, worldAggregate: "average" },
+  production: { label: "Production", keyed: true, worldAggregate: "sum" },
+};
+
+/**
+ * A charted value at one turn.
+ */
+export interface StatPoint {
+  turn: number;
+  value: number;
+}
+
+/**
+ * Records a snapshot of every settlement each turn, keeping a bounded history
+ * (ring buffer) for charts.
+ */
+export class StatisticsRecorder {
+  private history: RingBuffer<WorldSnapshot>;
+
+  constructor(capacity: number = STATS_HISTORY_LENGTH) {
+    this.history = new RingBuffer(capacity);
+  }
+
+  /**
+   * Snapshot the simulation after a turn has been processed
+   */
+  record(simulation: Simulation): WorldSnapshot {
+    const settlements: SettlementSnapshot[] = [];
+    const market = simulation.tradeManager.getGlobalMarket();
+
+    simulation.worldMap.settlements.forEach((_settlement, settlementId) => {
+      const economy = simulation.economyManager.getEconomy(settlementId);
+      const population = simulation.populationManager.getPopulation(settlementId);
+      if (!economy || !population) return;
+
+      const stocks: Record<string, number> = {};
+      for (const { type, amount } of [...economy.getAllResources(), ...economy.getAllGoods()]) {
+        if (amount > 0) stocks[type] = amount;
+      }
+
+      const prices: Record<string, number> = {};
+      for (const price of market.getMarket(settlementId)?.getAllPrices() ?? []) {
+        prices[price.material] = Math.round(price.currentPrice * 100) / 100;
+      }
+
+      settlements.push({
+        settlementId,
+        population: population.getTotalPopulation(),
+        avgHealth: population.getAverageHealth(),
+        avgHunger: population.getAverageHunger(),
+        avgHappiness: population.getAverageHappiness(),
+        treasury: economy.getTreasury(),
+        food: getFoodStock(economy),
+        stocks,
+        production: Object.fromEntries(economy.takeProductionLog()),
+        prices,
+      });
+    });
+
+    const snapshot: WorldSnapshot = {
+      turn: simulation.turn,
+      activeTraders: simulation.tradeManager.getAllTraders().length,
+      settlements,
+    };
+    this.history.push(snapshot);
+    return snapshot;
+  }
+
+  /**
+   * All recorded snapshots, oldest first
+   */
+  getHistory(): WorldSnapshot[] {
+    return this.history.toArray();
+  }
+
+  /**
+   * Most recent snapshot
+   */
+  getLatest(): WorldSnapshot | undefined {
+    return this.history.latest();
+  }
+
+  /**
+   * Forget all history (e.g. after loading a save)
+   */
+  clear(): void {
+    this.history.clear();
+  }
+
+  /**
+   * Materials or recipe IDs that appear anywhere in the history for a keyed metric
+   */
+  getKeys(metric: StatMetric): string[] {
+    const keys = new Set<string>();
+    for (const snapshot of this.history.toArray()) {
+      for (const settlement of snapshot.settlements) {
+        Object.keys(this.getKeyedValues(settlement, metric)).forEach(key => keys.add(key));
+      }
+    }
+    return Array.from(keys).sort();
+  }
+
+  /**
+   * Time series of a metric for one settlement, or world-wide if settlementId is undefined
+   */
+  getSeries(metric: StatMetric, settlementId?: number, key?: string): StatPoint[] {
+    return this.history.toArray().map(snapshot => {
+      const settlements = settlementId === undefined
+        ? snapshot.settlements
+        : snapshot.settlements.filter(s => s.settlementId === settlementId);
+
+      const values = settlements
+        .map(settlement => this.getValue(settlement, metric, key))
+        .filter((value): value is number => value !== undefined);
+
+      let value = values.reduce((sum, v) => sum + v, 0);
+      if (STAT_METRIC_CONFIG[metric].worldAggregate === "average" && values.length > 0) {
+        value /= values.length;
+      }
+
+      return { turn: snapshot.turn, value };
+    });
+  }
+
+  /**
+   * Read one metric from a settlement snapshot (undefined = not applicable, e.g. unpriced material)
+   */
+  private getValue(settlement: SettlementSnapshot, metric: StatMetric, key?: string): number | undefined {
+    if (!STAT_METRIC_CONFIG[metric].keyed) {
+      return settlement[metric as Exclude<StatMetric, "stock" | "price" | "production">];
+    }
+    if (!key) return undefined;
+
+    const value = this.getKeyedValues(settlement, metric)[key];
+    // Missing stock/production means zero; a missing price means the market doesn't trade it
+    if (value === undefined) return metric === "price" ? undefined : 0;
+    return value;
+  }
+
+  /**
+   * The keyed value table for a keyed metric
+   */
+  private getKeyedValues(settlement: SettlementSnapshot, metric: StatMetric): Record<string, number> {
+    switch (metric) {
+      case "stock": return settlement.stocks;
+      case "price": return settlement.prices;
+      case "production": return settlement.production;
+      default: return {};
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import { DEFAULT_WORLD_GEN_CONFIG, WorldGenConfig } from "../world/WorldGenerator";
+import { getWorldPreset } from "../world/WorldPresets";
+
+/**
+ * World generation fields the new-game screen can change (on top of the preset)
+ */
+export type WorldSettingKey =
+  | "width"
+  | "height"
+  | "numCities"
+  | "numVillages"
+  | "numHamlets"
+  | "terrainScale"
+  | "roughThreshold";
+
+/**
+ * Everything needed to generate the same world again: the seed, the preset
+ * and the player's own changes. Encoded in the URL so worlds can be shared.
+ */
+export interface WorldSettings {
+  seed: string;
+  /** Preset id (undefined = default world) */
+  preset?: string;
+  /** Fields chosen on the new-game screen (override the preset) */
+  overrides: Partial<Pick<WorldGenConfig, WorldSettingKey>>;
+}
+
+/** Allowed range and step of each setting. */
+export const WORLD_SETTING_RANGES: Record<WorldSettingKey, { min: number; max: number; step: number }> = {
+  width: { min: 40, max: 200, step: 20 },
+  height: { min: 40, max: 200, step: 20 },
+  numCities: { min: 1, max: 10, step: 1 },
+  numVillages: { min: 0, max: 40, step: 2 },
+  numHamlets: { min: 0, max: 60, step: 4 },
+  terrainScale: { min: 0.015, max: 0.08, step: 0.005 },
+  roughThreshold: { min: 0.5, max: 0.95, step: 0.05 },
+};
+
+/** Square map sizes offered on the new-game screen. */
+export const MAP_SIZES: Array<{ name: string; size: number }> = [
+  { name: "Small", size: 80 },
+  { name: "Medium", size: 120 },
+  { name: "Large", size: 160 },
+];
+
+/** URL parameter of each setting (seed and preset come first). */
+const URL_PARAMS: Record<WorldSettingKey, string> = {
+  width: "width",
+  height: "height",
+  numCities: "cities",
+  numVillages: "villages",
+  numHamlets: "hamlets",
+  terrainScale: "terrain",
+  roughThreshold: "rough",
+};
+
+/**
+ * A fresh random seed
+ */
+export function randomSeed(): string {
+  return "unwritten-" + Math.floor(Math.random() * 10000);
+}
+
+/**
+ * Keep a setting inside its range (whole numbers for counts and sizes)
+ */
+export function clampSetting(key: WorldSettingKey, value: number): number {
+  const { min, max, step } = WORLD_SETTING_RANGES[key];
+  // Counts stay whole; scales lose floating point noise from stepping (0.035 + 0.005 = 0.04000000000000001)
+  const rounded = step >= 1 ? Math.round(value) : Number(value.toFixed(4));
+  return Math.min(max, Math.max(min, rounded));
+}
+
+/**
+ * The world generation config the settings describe (defaults, then preset, then overrides)
+ */
+export function resolveWorldConfig(settings: WorldSettings): WorldGenConfig {
+  return {
+    ...DEFAULT_WORLD_GEN_CONFIG,
+    ...getWorldPreset(settings.preset)?.config,
+    ...settings.overrides,
+    seed: settings.seed,
+  };
+}
+
+/**
+ * Read world settings from URL parameters (no seed → null; unknown presets
+ * and invalid numbers are ignored with a warning)
+ */
+export function readWorldSettings(params: URLSearchParams): WorldSettings | null {
+  const seed = params.get("seed");
+  if (!seed) return null;
+
+  const settings: WorldSettings = { seed, overrides: {} };
+
+  const preset = params.get("preset");
+  if (preset && getWorldPreset(preset)) {
+    settings.preset = preset;
+  } else if (preset) {
+    console.warn(`[WorldSettings] Unknown world preset "${preset}", using the default world`);
+  }
+
+  for (const key of Object.keys(URL_PARAMS) as WorldSettingKey[]) {
+    const raw = params.get(URL_PARAMS[key]);
+    if (raw === null) continue;
+    const value = Number(raw);
+    if (raw.trim() === "" || !Number.isFinite(value)) {
+      console.warn(`[WorldSettings] Ignoring ${URL_PARAMS[key]}="${raw}" (not a number)`);
+      continue;
+    }
+    settings.overrides[key] = clampSetting(key, value);
+  }
+
+  return settings;
+}
+
+/**
+ * Write world settings into URL parameters: seed first, then preset and
+ * overrides. Other parameters (like debug_mode) are kept after them.
+ */
+export function writeWorldSettings(settings: WorldSettings, current: URLSearchParams): URLSearchParams {
+  const params = new URLSearchParams();
+  params.set("seed", settings.seed);
+  if (settings.preset) params.set("preset", settings.preset);
+  for (const key of Object.keys(URL_PARAMS) as WorldSettingKey[]) {
+    const value = settings.overrides[key];
+    if (value !== undefined) params.set(URL_PARAMS[key], String(value));
+  }
+
+  const worldParams = new Set(["seed", "preset", ...Object.values(URL_PARAMS)]);
+  current.forEach((value, key) => {
+    if (!worldParams.has(key)) params.set(key, value);
+  });
+  return params;
+}
@@ -1,5 +1,7 @@
 import { HexTile } from "../world/HexTile";
 import { getAPCost, isWater, isPierOrDock } from "../world/Terrain";
+import { getBiomeAPCost } from "../world/Biome";
+import { getRiverAPCost, isBargeStep, BARGE_AP } from "../world/River";
 
 /**
  * A* pathfinding for hex grids.
@@ -30,6 +32,8 @@ export interface PathResult {
  * Find the optimal path from start to goal using A*.
  * Returns the path as an array of tiles (excluding the start tile).
  * Respects water movement restrictions based on embarked state.
+ * loadPenalty is the extra AP per land step of a heavy load.
+ * byBarge lets steps along a navigable river cost BARGE_AP (traders hire barges).
  */
 export function findPath(
   start: HexTile,
@@ -37,6 +41,8 @@ export function findPath(
   map: IPathfindingMap,
   onlyExplored: boolean = true,
   isEmbarked: boolean = false,
+  loadPenalty: number = 0,
+  byBarge: boolean = false,
 ): PathResult {
   // Early exit if start and goal are the same
   if (start.col === goal.col && start.row === goal.row) {
@@ -145,8 +151,12 @@ export function findPath(
         current.tile.terrain,
         neighbor.terrain,
         embarkedAtNeighbor && neighborIsWater, // Use embarked state for water movement
+        loadPenalty,
+        getBiomeAPCost(neighbor.biome, neighbor.hasRoad),
+        getRiverAPCost(neighbor),
       );
-      const tentativeG = current.gCost + moveCost;
+      const stepCost = byBarge && isBargeStep(current.tile, neighbor) ? BARGE_AP : moveCost;
+      const tentativeG = current.gCost + stepCost;
 
       // Check if this path to neighbor is better
       const existingNode = openSet.get(neighborKey);
@@ -198,6 +208,7 @@ export function isPathValid(
   availableAP: number,
   map: IPathfindingMap,
   isEmbarked: boolean = false,
+  loadPenalty: number = 0,
 ): boolean {
   if (path.length === 0) return true;
 
@@ -236,6 +247,9 @@ export function isPathValid(
       currentTile.terrain,
       tile.terrain,
       embarked && tileIsWater,
+      loadPenalty,
+      getBiomeAPCost(tile.biome, tile.hasRoad),
+      getRiverAPCost(tile),
     );
     apCost += cost;
 
@@ -0,0 +1,103 @@
+import { Container, Graphics } from "pixi.js";
+import { Grid } from "honeycomb-grid";
+import { hexIsoCenter } from "./Isometric";
+import { HexTile } from "../world/HexTile";
+import { BanditCamp } from "../world/Bandits";
+
+/**
+ * Renders bandit camps (tents around a campfire) on the map
+ */
+export class BanditCampRenderer {
+  readonly container: Container;
+  private campGraphics: Map<string, Graphics>;
+
+  constructor() {
+    this.container = new Container({ label: "banditCamps" });
+    this.campGraphics = new Map();
+  }
+
+  /**
+   * Update renderer with current camps
+   */
+  update(camps: BanditCamp[], grid: Grid<HexTile>): void {
+    // Remove camps that no longer exist
+    const currentIds = new Set(camps.map(camp => camp.id));
+    for (const [id, graphic] of this.campGraphics) {
+      if (!currentIds.has(id)) {
+        this.container.removeChild(graphic);
+        graphic.destroy();
+        this.campGraphics.delete(id);
+      }
+    }
+
+    // Draw new camps (camps never move)
+    for (const camp of camps) {
+      if (this.campGraphics.has(camp.id)) continue;
+
+      const tile = grid.getHex({ col: camp.col, row: camp.row });
+      if (!tile) continue;
+
+      const graphic = new Graphics({ label: `camp_${camp.id}` });
+      this.drawCamp(graphic);
+
+      // Clicks pass through to the tile below (camp info is in the tile tooltip)
+      graphic.eventMode = "none";
+
+      const pos = hexIsoCenter(tile);
+      graphic.position.set(pos.x, pos.y);
+      this.container.addChild(graphic);
+      this.campGraphics.set(camp.id, graphic);
+    }
+  }
+
+  /**
+   * Draw a camp: two ragged tents and a campfire
+   */
+  private drawCamp(g: Graphics): void {
+    // Shadow
+    g.ellipse(0, 5, 14, 4);
+    g.fill({ color: 0x000000, alpha: 0.25 });
+
+    // Back tent
+    g.moveTo(-11, 2);
+    g.lineTo(-5, -9);
+    g.lineTo(1, 2);
+    g.closePath();
+    g.fill(0x5c4a3a);
+    g.stroke({ color: 0x2e241c, width: 1 });
+
+    // Front tent (dark red cloth)
+    g.moveTo(-2, 5);
+    g.lineTo(4, -6);
+    g.lineTo(10, 5);
+    g.closePath();
+    g.fill(0x7a2e2e);
+    g.stroke({ color: 0x3d1717, width: 1 });
+
+    // Tent opening
+    g.moveTo(2, 5);
+    g.lineTo(4, 0);
+    g.lineTo(6, 5);
+    g.closePath();
+    g.fill(0x1a1010);
+
+    // Campfire logs
+    g.moveTo(-6, 7);
+    g.lineTo(-1, 5);
+    g.moveTo(-6, 5);
+    g.lineTo(-1, 7);
+    g.stroke({ color: 0x4a3020, width: 1.5 });
+
+    // Flames
+    g.moveTo(-6, 6);
+    g.lineTo(-3.5, 0);
+    g.lineTo(-1, 6);
+    g.closePath();
+    g.fill(0xff8c00);
+    g.moveTo(-5, 6);
+    g.lineTo(-3.5, 2.5);
+    g.lineTo(-2, 6);
+    g.closePath();
+    g.fill(0xffd700);
+  }
+}
@@ -0,0 +1,311 @@
+import { Container, Graphics, Text } from "pixi.js";
+import { Palette } from "./Palette";
+import { ModalPanel } from "./ModalPanel";
+import { Character } from "../entity/Character";
+import { Settlement } from "../world/Building";
+import { Trader } from "../world/trade/Trader";
+import { BASE_PRICES } from "../world/trade/Market";
+import { CaravanAction, MAX_CARAVAN_STOPS } from "../world/trade/Caravan";
+import { MaterialType, getAllMaterials, getMaterialName } from "../world/ProductionRecipe";
+import { PlayerCaravans, CaravanResult } from "../game/PlayerCaravans";
+
+/** Caravans listed before the list is cut off. */
+const MAX_LIST_ROWS = 10;
+
+/** Row height in pixels. */
+const ROW_HEIGHT = 28;
+
+/** Width of the list of caravans. */
+const LIST_WIDTH = 250;
+
+/** Units added or removed by the quantity buttons. */
+const QUANTITY_STEP = 10;
+
+/**
+ * Caravan panel — the player's caravans, their routes and the buy/sell
+ * rules at each stop, and hiring a new caravan in the current settlement.
+ */
+export class CaravanPanel extends ModalPanel {
+  private caravans: PlayerCaravans;
+  private character: Character;
+  private settlements: Settlement[];
+
+  private selectedId?: string;
+  private selectedStop: number = 0;
+  private stopChoice: number = 0;
+  private draft: { material: MaterialType; action: CaravanAction; price: number; quantity: number };
+
+  private content!: Container;
+  private contentArea = { x: 0, y: 0, width: 0, height: 0 };
+  private statusMessage: string = "";
+
+  /** Callback after a successful action (e.g. to refresh the tooltip). */
+  onChange?: (result: CaravanResult) => void;
+
+  constructor(
+    caravans: PlayerCaravans,
+    character: Character,
+    settlements: Settlement[],
+    screenWidth: number,
+    screenHeight: number,
+  ) {
+    super("caravan-panel", "Caravans", 960, 660, screenWidth, screenHeight, ["v"]);
+    this.caravans = caravans;
+    this.character = character;
+    this.settlements = settlements;
+    const material = getAllMaterials()[0];
+    this.draft = { material, action: "buy", price: this.getDefaultPrice(material), quantity: 30 };
+    this.rebuild();
+  }
+
+  /** Open the panel with a clear status line. */
+  open(): void {
+    this.statusMessage = "";
+    this.show();
+  }
+
+  /** Redraw the list, the selected caravan and the status line. */
+  refresh(): void {
+    this.content.removeChildren();
+    const { x, y, width, height } = this.contentArea;
+    const caravans = this.caravans.getCaravans();
+
+    const purse = new Text({ text: `Purse ${this.character.gold}g`, style: this.textStyle(13, Palette.uiText, true) });
+    purse.anchor.set(1, 0);
+    purse.position.set(x + width, y + 5);
+    this.content.addChild(purse);
+
+    // Hiring
+    const settlementId = this.character.currentTile.settlementId;
+    const cost = this.caravans.getHireCost();
+    this.addSmallButton(`Hire a caravan (${cost}g)`, x, y, LIST_WIDTH, () => {
+      const result = this.caravans.hire(this.character);
+      if (result.success) this.select(this.caravans.getCaravans().slice(-1)[0]);
+      this.apply(result);
+    }, settlementId !== undefined && this.character.gold >= cost);
+    this.addLine(
+      settlementId !== undefined ? `Hired in ${this.settlements[settlementId].name}` : "Visit a settlement to hire",
+      x, y + 34, Palette.uiDim, 11
+    );
+
+    // List of caravans
+    const listY = y + 60;
+    if (caravans.length === 0) {
+      this.addLine("You own no caravans.", x, listY, Palette.uiDim);
+    }
+    const selected = caravans.find(c => c.id === this.selectedId) ?? caravans[0];
+    if (selected && selected.id !== this.selectedId) this.select(selected);
+
+    caravans.slice(0, MAX_LIST_ROWS).forEach((caravan, i) => {
+      const rowY = listY + i * ROW_HEIGHT;
+      const bg = new Graphics();
+      bg.roundRect(x, rowY, LIST_WIDTH, ROW_HEIGHT - 4, 4);
+      bg.fill({ color: caravan === selected ? 0x4a3a1a : 0x1f1f1f, alpha: 0.9 });
+      bg.eventMode = "static";
+      bg.cursor = "pointer";
+      bg.on("pointerdown", (e) => {
+        e.stopPropagation();
+        this.select(caravan);
+        this.statusMessage = "";
+        this.refresh();
+      });
+      this.content.addChild(bg);
+      this.addLine(`${caravan.name} — ${this.settlements[caravan.homeSettlement].name}`, x + 8, rowY + 5, Palette.uiText, 11);
+    });
+
+    if (selected) this.drawDetails(selected, x + LIST_WIDTH + 20, y, width - LIST_WIDTH - 20);
+
+    this.addLine(this.statusMessage, x, y + height - 22, Palette.uiText);
+  }
+
+  /** Reserve the content area; everything is drawn in refresh(). */
+  protected buildContent(x: number, y: number, width: number, height: number): void {
+    this.contentArea = { x, y, width, height };
+    this.content = new Container({ label: "caravan-content" });
+    this.container.addChild(this.content);
+  }
+
+  /** Status, route and rules of a caravan. */
+  private drawDetails(caravan: Trader, x: number, y: number, width: number): void {
+    const route = caravan.route;
+    if (!route) return;
+
+    this.addLine(`${caravan.name}'s caravan`, x, y + 30, Palette.uiAccent, 14, true);
+    this.addSmallButton("Dismiss", x + width - 80, y + 28, 80, () => {
+      this.apply(this.caravans.dismiss(caravan, this.character));
+    });
+    let rowY = y + 56;
+
+    const where = route.destination !== null
+      ? `Traveling to ${this.settlements[route.destination].name}`
+      : `Waiting in ${this.settlements[caravan.currentSettlement ?? caravan.homeSettlement].name}`;
+    this.addLine(where, x, rowY, 0xe8c060);
+    rowY += 20;
+    this.addLine(
+      `Purse ${Math.floor(caravan.money)}g (keeps ${route.capital}g) • Load ${Math.round(caravan.getCurrentLoad())}/${caravan.inventory.capacity} wt • Paid out ${route.earnings}g`,
+      x, rowY, Palette.uiText, 11
+    );
+    rowY += 18;
+    this.addLine(`Cargo ${this.describeCargo(caravan)}`, x, rowY, Palette.uiText, 11);
+    rowY += 18;
+    this.addLine(route.lastReport || "No trades yet", x, rowY, Palette.uiDim, 11);
+    rowY += 24;
+
+    // Route
+    this.addLine(`Route (${route.stops.length}/${MAX_CARAVAN_STOPS}, repeats)`, x, rowY, Palette.uiAccent, 13, true);
+    rowY += 24;
+    if (route.stops.length === 0) {
+      this.addLine("Add the settlements the caravan should visit.", x + 10, rowY, Palette.uiDim, 11);
+      rowY += 22;
+    }
+    this.selectedStop = Math.min(this.selectedStop, Math.max(0, route.stops.length - 1));
+    route.stops.forEach((stop, i) => {
+      const bg = new Graphics();
+      bg.roundRect(x, rowY, width, ROW_HEIGHT - 4, 4);
+      bg.fill({ color: i === this.selectedStop ? 0x4a3a1a : i % 2 === 0 ? 0x1f1f1f : 0x262626, alpha: 0.9 });
+      bg.eventMode = "static";
+      bg.cursor = "pointer";
+      bg.on("pointerdown", (e) => {
+        e.stopPropagation();
+        this.selectedStop = i;
+        this.refresh();
+      });
+      this.content.addChild(bg);
+      this.addLine(`${i + 1}. ${this.settlements[stop.settlementId].name}`, x + 10, rowY + 5, Palette.uiText, 12, true);
+      const rules = stop.rules.map(rule => `${rule.action} ${getMaterialName(rule.material)}`).join(", ");
+      this.addLine(rules || "no rules", x + 180, rowY + 5, Palette.uiDim, 11);
+      this.addSmallButton("Remove", x + width - 80, rowY - 1, 80, () => {
+        this.caravans.removeStop(caravan, i);
+        this.statusMessage = "";
+        this.refresh();
+      });
+      rowY += ROW_HEIGHT;
+    });
+
+    // Adding a stop
+    const choices = this.caravans.getStopChoices(caravan);
+    if (choices.length > 0 && route.stops.length < MAX_CARAVAN_STOPS) {
+      this.stopChoice = Math.min(this.stopChoice, choices.length - 1);
+      const choice = choices[this.stopChoice];
+      this.addSmallButton("<", x, rowY, 30, () => this.cycleStopChoice(-1, choices.length));
+      this.addLine(this.settlements[choice].name, x + 38, rowY + 5, Palette.uiText, 12, true);
+      this.addSmallButton(">", x + 200, rowY, 30, () => this.cycleStopChoice(1, choices.length));
+      this.addSmallButton("Add stop", x + 240, rowY, 90, () => {
+        const result = this.caravans.addStop(caravan, choice);
+        if (result.success) {
+          this.selectedStop = route.stops.length - 1;
+          this.stopChoice = 0;
+        }
+        this.apply(result);
+      });
+      rowY += 36;
+    }
+
+    const stop = route.stops[this.selectedStop];
+    if (!stop) return;
+
+    // Rules at the selected stop
+    this.addLine(`Rules at ${this.settlements[stop.settlementId].name}`, x, rowY, Palette.uiAccent, 13, true);
+    rowY += 24;
+    stop.rules.forEach((rule, i) => {
+      this.addLine(this.caravans.describeRule(rule), x + 10, rowY + 5, Palette.uiText, 11);
+      this.addSmallButton("Remove", x + width - 80, rowY, 80, () => {
+        this.caravans.removeRule(caravan, this.selectedStop, i);
+        this.statusMessage = "";
+        this.refresh();
+      });
+      rowY += ROW_HEIGHT;
+    });
+
+    // New rule
+    const draft = this.draft;
+    rowY += 4;
+    this.addSmallButton(draft.action === "buy" ? "Buy" : "Sell", x, rowY, 50, () => {
+      draft.action = draft.action === "buy" ? "sell" : "buy";
+      this.refresh();
+    });
+    this.addSmallButton("<", x + 56, rowY, 30, () => this.cycleMaterial(-1));
+    this.addLine(getMaterialName(draft.material), x + 92, rowY + 5, Palette.uiText, 12, true);
+    this.addSmallButton(">", x + 200, rowY, 30, () => this.cycleMaterial(1));
+    this.addLine(draft.action === "buy" ? "at most" : "at least", x + 238, rowY + 5, Palette.uiDim, 11);
+    this.addSmallButton("-", x + 286, rowY, 30, () => this.setDraftPrice(draft.price - 1));
+    this.addLine(`${draft.price}g`, x + 320, rowY + 5, Palette.uiText, 12, true);
+    this.addSmallButton("+", x + 356, rowY, 30, () => this.setDraftPrice(draft.price + 1));
+    this.addLine("up to", x + 392, rowY + 5, Palette.uiDim, 11);
+    this.addSmallButton("-", x + 426, rowY, 30, () => this.setDraftQuantity(draft.quantity - QUANTITY_STEP));
+    this.addLine(`${draft.quantity}`, x + 462, rowY + 5, Palette.uiText, 12, true);
+    this.addSmallButton("+", x + 496, rowY, 30, () => this.setDraftQuantity(draft.quantity + QUANTITY_STEP));
+    this.addSmallButton("Add rule", x + width - 80, rowY, 80, () => {
+      this.apply(this.caravans.addRule(caravan, this.selectedStop, draft));
+    });
+  }
+
+  /** Cargo in short, e.g. "30 Iron Ore, 12 Tools". */
+  private describeCargo(caravan: Trader): string {
+    const cargo = [...caravan.inventory.resources, ...caravan.inventory.goods]
+      .filter(([, amount]) => amount > 0)
+      .map(([material, amount]) => `${amount} ${getMaterialName(material)}`);
+    return cargo.length > 0 ? cargo.join(", ") : "none";
+  }
+
+  /** Select a caravan (its first stop, and a fresh list of stops to add). */
+  private select(caravan: Trader | undefined): void {
+    this.selectedId = caravan?.id;
+    this.selectedStop = 0;
+    this.stopChoice = 0;
+  }
+
+  /** Pick the previous or next settlement to add. */
+  private cycleStopChoice(step: number, count: number): void {
+    this.stopChoice = (this.stopChoice + step + count) % count;
+    this.refresh();
+  }
+
+  /** Pick the previous or next material for the new rule (resetting its price). */
+  private cycleMaterial(step: number): void {
+    const materials = getAllMaterials();
+    const index = materials.indexOf(this.draft.material);
+    this.draft.material = materials[(index + step + materials.length) % materials.length];
+    this.draft.price = this.getDefaultPrice(this.draft.material);
+    this.refresh();
+  }
+
+  /** Change the price limit of the new rule. */
+  private setDraftPrice(price: number): void {
+    this.draft.price = Math.max(1, price);
+    this.refresh();
+  }
+
+  /** Change the quantity of the new rule. */
+  private setDraftQuantity(quantity: number): void {
+    this.draft.quantity = Math.max(QUANTITY_STEP, quantity);
+    this.refresh();
+  }
+
+  /** Starting price for a rule: the material's base price. */
+  private getDefaultPrice(material: MaterialType): number {
+    return Math.max(1, Math.round(BASE_PRICES[material] ?? 1));
+  }
+
+  /** Show the outcome and redraw. */
+  private apply(result: CaravanResult): void {
+    this.statusMessage = result.message;
+    if (result.success) this.onChange?.(result);
+    this.refresh();
+  }
+
+  /** Draw a line of text. */
+  private addLine(text: string, x: number, y: number, color: number, size: number = 12, bold: boolean = false): void {
+    const line = new Text({ text, style: this.textStyle(size, color, bold) });
+    line.position.set(x, y);
+    this.content.addChild(line);
+  }
+
+  /** Add a small button (dimmed when it would do nothing). */
+  private addSmallButton(label: string, x: number, y: number, width: number, onClick: () => void, enabled: boolean = true): void {
+    const btn = this.createButton(label, width, onClick);
+    btn.position.set(x, y);
+    if (!enabled) btn.alpha = 0.4;
+    this.content.addChild(btn);
+  }
+}
@@ -1,7 +1,8 @@
 import { Container, Graphics, Text, TextStyle } from "pixi.js";
 import { Palette } from "./Palette";
-import { Character } from "../entity/Character";
+import { Character, MAX_HEALTH } from "../entity/Character";
 import { EquipmentSlot, Item } from "../entity/Item";
+import { STAT_LABELS } from "../entity/CharacterStats";
 
 /**
  * Character Sheet UI — displays character equipment and inventory.
@@ -13,6 +14,7 @@ export class CharacterSheet {
   private closeButton: Container;
   private equipmentSlots: Map<EquipmentSlot, Container> = new Map();
   private inventorySlots: Container[] = [];
+  private statsText: Text | null = null;
   private character: Character;
 
   private screenWidth: number;
@@ -132,7 +134,7 @@ export class CharacterSheet {
     this.onClose?.();
   }
 
-  /** Refresh the displayed items. */
+  /** Refresh the displayed items and stats. */
   refresh(): void {
     // Update equipment slots
     const allEquipment = this.character.inventory.getAllEquipment();
@@ -147,6 +149,19 @@ export class CharacterSheet {
       const item = items[i];
       this.updateSlot(this.inventorySlots[i], item, false);
     }
+
+    // Update derived stats
+    if (this.statsText) {
+      const stats = this.character.getStats();
+      const row = (label: string, value: string) => `${label.padEnd(9)}${value.padEnd(10)}`;
+      this.statsText.text = [
+        row(STAT_LABELS.maxAP, String(stats.maxAP)) + row(STAT_LABELS.attack, String(stats.attack)),
+        row(STAT_LABELS.visionRadius, this.formatNumber(stats.visionRadius)) + row(STAT_LABELS.defense, String(stats.defense)),
+        row("Health", `${this.character.health} / ${MAX_HEALTH}`),
+        row("Load", `${this.formatNumber(this.character.getCarriedWeight())} / ${this.formatNumber(stats.carryCapacity)} wt`) +
+          (this.character.getLoadPenalty() > 0 ? `Heavy: +${this.character.getLoadPenalty()} AP per step` : ""),
+      ].join("\n");
+    }
   }
 
   /** Handle screen resize. */
@@ -373,7 +388,7 @@ export class CharacterSheet {
     const slotSize = 64;
     const gap = 8;
     const cols = Math.floor(width / (slotSize + gap));
-    const rows = 6;
+    const rows = Math.ceil(this.character.inventory.maxItems / cols);
 
     for (let row = 0; row < rows; row++) {
       for (let col = 0; col < cols; col++) {
@@ -388,6 +403,41 @@ export class CharacterSheet {
         this.container.addChild(slotContainer);
       }
     }
+
+    this.createStatsSection(x, y + rows * (slotSize + gap) + 48, width);
+  }
+
+  /** Create the derived stats section (below the inventory). */
+  private createStatsSection(x: number, y: number, width: number): void {
+    const headerBg = new Graphics();
+    headerBg.roundRect(0, 0, width, 32, 6);
+    headerBg.fill({ color: 0x1a1a1a, alpha: 0.6 });
+    headerBg.position.set(x, y - 40);
+    this.container.addChild(headerBg);
+
+    const sectionTitle = new Text({
+      text: "Stats",
+      style: new TextStyle({
+        fontFamily: "monospace",
+        fontSize: 18,
+        fill: Palette.uiText,
+        fontWeight: "bold",
+      }),
+    });
+    sectionTitle.position.set(x + 10, y - 34);
+    this.container.addChild(sectionTitle);
+
+    this.statsText = new Text({
+      text: "",
+      style: new TextStyle({
+        fontFamily: "monospace",
+        fontSize: 13,
+        fill: Palette.uiText,
+        lineHeight: 20,
+      }),
+    });
+    this.statsText.position.set(x + 10, y);
+    this.container.addChild(this.statsText);
   }
 
   /** Create a single equipment slot UI. */
@@ -538,7 +588,7 @@ export class CharacterSheet {
     const item = this.character.inventory.getEquipped(slot);
     if (item) {
       // Unequip the item
-      const success = this.character.inventory.unequipItem(slot);
+      const success = this.character.unequip(slot);
       if (success) {
         console.log(`Unequipped ${item.name} from ${slot}`);
         this.refresh();
@@ -553,7 +603,7 @@ export class CharacterSheet {
     const item = (slotContainer as any).item as Item | null;
     if (item && item.equipmentSlot) {
       // Try to equip the item
-      const success = this.character.inventory.equipItem(item.id);
+      const success = this.character.equip(item.id);
       if (success) {
         console.log(`Equipped ${item.name} to ${item.equipmentSlot}`);
         this.refresh();
@@ -561,6 +611,11 @@ export class CharacterSheet {
     }
   }
 
+  /** Format a number with at most one decimal. */
+  private formatNumber(value: number): string {
+    return String(Math.round(value * 10) / 10);
+  }
+
   /** Get a readable label for an equipment slot. */
   private getSlotLabel(slot: EquipmentSlot): string {
     const labels: Record<EquipmentSlot, string> = {
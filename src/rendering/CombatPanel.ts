@@ -0,0 +1,156 @@
+import { Container, Graphics, Text } from "pixi.js";
+import { Palette } from "./Palette";
+import { ModalPanel } from "./ModalPanel";
+import { Character, MAX_HEALTH } from "../entity/Character";
+import { Combat, CombatAction, COMBAT_ACTION_AP } from "../game/Combat";
+
+/** Log lines shown (newest at the bottom). */
+const LOG_LINES = 9;
+
+/** Width of a health bar in pixels. */
+const BAR_WIDTH = 220;
+
+/**
+ * Combat panel — fight an encounter round by round.
+ * Cannot be closed until the fight is over.
+ */
+export class CombatPanel extends ModalPanel {
+  private character: Character;
+  private combat: Combat | null = null;
+
+  private content!: Container;
+  private contentArea = { x: 0, y: 0, width: 0, height: 0 };
+
+  /** Callback when the character is out of AP mid-fight (the turn should end). */
+  onRest?: () => void;
+
+  constructor(character: Character, screenWidth: number, screenHeight: number) {
+    super("combat-panel", "Combat", 560, 440, screenWidth, screenHeight, []);
+    this.character = character;
+    this.rebuild();
+  }
+
+  /** Start showing a fight. */
+  open(combat: Combat): void {
+    this.combat = combat;
+    this.show();
+  }
+
+  /** Fight currently shown (or last fought). */
+  getCombat(): Combat | null {
+    return this.combat;
+  }
+
+  /** Hide the panel — only once the fight is over. */
+  hide(): void {
+    if (this.combat?.outcome === "ongoing") return;
+    super.hide();
+  }
+
+  /** Redraw health bars, log and actions. */
+  refresh(): void {
+    this.content.removeChildren();
+    const combat = this.combat;
+    if (!combat) return;
+
+    const { x, y, width, height } = this.contentArea;
+
+    // Combatants
+    this.addCombatant("You", this.character.health, MAX_HEALTH, x, y);
+    this.addCombatant(
+      combat.atCamp ? `${combat.config.name} (camp)` : combat.config.name,
+      combat.enemyHealth,
+      combat.enemyMaxHealth,
+      x + width - BAR_WIDTH,
+      y
+    );
+
+    const stats = this.character.getStats();
+    const statLine = new Text({
+      text: `Attack ${stats.attack} • Defense ${stats.defense} • AP ${this.character.ap}/${this.character.maxAP}`,
+      style: this.textStyle(12, Palette.uiDim),
+    });
+    statLine.position.set(x, y + 50);
+    this.content.addChild(statLine);
+
+    // Log
+    const logBg = new Graphics();
+    logBg.roundRect(x, y + 74, width, LOG_LINES * 18 + 16, 6);
+    logBg.fill({ color: 0x1a1a1a, alpha: 0.6 });
+    this.content.addChild(logBg);
+
+    const log = new Text({
+      text: combat.log.slice(-LOG_LINES).join("\n"),
+      style: this.textStyle(12, Palette.uiText),
+    });
+    log.style.lineHeight = 18;
+    log.position.set(x + 10, y + 82);
+    this.content.addChild(log);
+
+    // Actions
+    const buttonY = y + height - 30;
+    if (combat.outcome !== "ongoing") {
+      const done = this.createButton("Continue", 120, () => this.hide(), 0x2d4a2d);
+      done.position.set(x + (width - 120) / 2, buttonY);
+      this.content.addChild(done);
+      return;
+    }
+
+    if (combat.isExhausted()) {
+      const rest = this.createButton("Catch your breath (end turn)", 260, () => {
+        this.onRest?.();
+        this.refresh();
+      });
+      rest.position.set(x + (width - 260) / 2, buttonY);
+      this.content.addChild(rest);
+      return;
+    }
+
+    const actions: Array<[CombatAction, string, number | undefined]> = [
+      ["attack", "Attack", 0x4a2d2d],
+      ["defend", "Defend", undefined],
+      ["flee", "Flee", undefined],
+    ];
+    actions.forEach(([action, label, color], i) => {
+      const text = `${label} (${COMBAT_ACTION_AP[action]} AP)`;
+      const btn = this.createButton(text, 150, () => this.act(action), color);
+      btn.position.set(x + i * ((width - 150) / 2), buttonY);
+      if (!combat.canAct(action)) {
+        btn.alpha = 0.4;
+        btn.eventMode = "none";
+      }
+      this.content.addChild(btn);
+    });
+  }
+
+  /** Reserve the content area; everything is drawn in refresh(). */
+  protected buildContent(x: number, y: number, width: number, height: number): void {
+    this.contentArea = { x, y, width, height };
+    this.content = new Container({ label: "combat-content" });
+    this.container.addChild(this.content);
+  }
+
+  /** Take an action and redraw. */
+  private act(action: CombatAction): void {
+    this.combat?.act(action);
+    this.refresh();
+  }
+
+  /** Draw a name and health bar. */
+  private addCombatant(name: string, health: number, maxHealth: number, x: number, y: number): void {
+    const label = new Text({ text: `${name}  ${health}/${maxHealth}`, style: this.textStyle(13, Palette.uiAccent, true) });
+    label.position.set(x, y);
+    this.content.addChild(label);
+
+    const bar = new Graphics();
+    bar.roundRect(x, y + 22, BAR_WIDTH, 14, 3);
+    bar.fill({ color: 0x2d2d2d });
+    if (health > 0) {
+      bar.roundRect(x, y + 22, BAR_WIDTH * (health / maxHealth), 14, 3);
+      bar.fill({ color: health <= maxHealth / 4 ? 0xe85040 : 0x5a9e3a });
+    }
+    bar.roundRect(x, y + 22, BAR_WIDTH, 14, 3);
+    bar.stroke({ color: Palette.uiAccent, width: 1 });
+    this.content.addChild(bar);
+  }
+}
@@ -1,9 +1,12 @@
 import { Container, Graphics, Text, TextStyle } from "pixi.js";
 import { Palette } from "./Palette";
-import { MAX_AP } from "../entity/Character";
+import { BASE_STATS } from "../entity/CharacterStats";
+import { MAX_HEALTH } from "../entity/Character";
 import { TERRAIN_CONFIG, TerrainType, VegetationType } from "../world/Terrain";
+import { BIOME_CONFIG, BiomeType } from "../world/Biome";
 import { BuildingType, BUILDING_CONFIG, Settlement } from "../world/Building";
-import { ResourceDeposit, RESOURCE_CONFIG } from "../world/Resource";
+import { ResourceDeposit, RESOURCE_CONFIG, getDepositLevel } from "../world/Resource";
+import { CalendarDate, Weather, formatDate } from "../world/Calendar";
 
 /**
  * Heads-Up Display — overlays AP counter, turn info, terrain tooltip,
@@ -15,6 +18,7 @@ export class HUD {
   private apContainer: Container;
   private apDiamonds: Graphics[] = [];
   private turnText: Text;
+  private healthText: Text;
   private embarkedText: Text;
   private tooltipContainer: Container;
   private tooltipBg: Graphics;
@@ -49,13 +53,7 @@ export class HUD {
     apLabel.position.set(0, 0);
     this.apContainer.addChild(apLabel);
 
-    for (let i = 0; i < MAX_AP; i++) {
-      const diamond = new Graphics();
-      this.drawDiamond(diamond, true);
-      diamond.position.set(35 + i * 22, 8);
-      this.apDiamonds.push(diamond);
-      this.apContainer.addChild(diamond);
-    }
+    this.setAP(BASE_STATS.maxAP, BASE_STATS.maxAP);
 
     this.apContainer.position.set(20, 20);
 
@@ -67,12 +65,21 @@ export class HUD {
     this.turnText.position.set(20, 50);
     this.container.addChild(this.turnText);
 
+    // -- Health --
+    this.healthText = new Text({
+      text: "",
+      style: this.labelStyle(),
+    });
+    this.healthText.position.set(20, 75);
+    this.container.addChild(this.healthText);
+    this.setHealth(MAX_HEALTH, MAX_HEALTH);
+
     // -- Embarked Status --
     this.embarkedText = new Text({
       text: "",
       style: this.labelStyle(),
     });
-    this.embarkedText.position.set(20, 75);
+    this.embarkedText.position.set(20, 100);
     this.embarkedText.visible = false;
     this.container.addChild(this.embarkedText);
 
@@ -137,17 +144,33 @@ export class HUD {
     this.layout();
   }
 
-  /** Update AP display. */
-  setAP(current: number): void {
+  /** Update AP display (one diamond per point of max AP). */
+  setAP(current: number, max: number): void {
+    while (this.apDiamonds.length < max) {
+      const diamond = new Graphics();
+      diamond.position.set(35 + this.apDiamonds.length * 22, 8);
+      this.apDiamonds.push(diamond);
+      this.apContainer.addChild(diamond);
+    }
+    while (this.apDiamonds.length > max) {
+      this.apDiamonds.pop()!.destroy();
+    }
+
     for (let i = 0; i < this.apDiamonds.length; i++) {
       this.apDiamonds[i].clear();
       this.drawDiamond(this.apDiamonds[i], i < current);
     }
   }
 
-  /** Update turn display. */
-  setTurn(turn: number): void {
-    this.turnText.text = `Turn ${turn}`;
+  /** Update turn, date and weather display. */
+  setDate(date: CalendarDate, weather: Weather): void {
+    this.turnText.text = `Turn ${date.turn} • ${formatDate(date)}${weather.storm ? " • Storm" : ""}`;
+  }
+
+  /** Update health display (turns red when badly hurt). */
+  setHealth(current: number, max: number): void {
+    this.healthText.text = `HP ${current}/${max}`;
+    this.healthText.style.fill = current <= max / 4 ? 0xe85040 : Palette.uiText;
   }
 
   /** Update embarked status display. */
@@ -181,9 +204,12 @@ export class HUD {
       avgHealth: number;
       avgHunger: number;
       jobCounts: Array<{ job: string; count: number }>;
+      tools?: { stock: number; workers: number };
+      garrison?: { soldiers: number; strength: number; paid: boolean };
     },
     tradeData?: {
       activeTraders: number;
+      ships?: { fleet: number; docked: number; building: boolean };
       buyOffers: Array<{ material: string; quantity: number; price: number }>;
       sellOffers: Array<{ material: string; quantity: number; price: number }>;
     },
@@ -194,7 +220,13 @@ export class HUD {
       destination: string;
       cargo: string;
       money: number;
+      escorted: boolean;
+      ship: boolean;
     }>,
+    dangerData?: { danger: number; camp: boolean },
+    reputationData?: { standing: string; reputation: number; group?: { name: string; reputation: number } },
+    biome?: BiomeType,
+    river?: { navigable: boolean; ford: boolean; bridged: boolean; crossingCost: number },
   ): void {
     const config = TERRAIN_CONFIG[terrain];
     const roughSuffix = isRough ? " (Rough)" : "";
@@ -207,6 +239,18 @@ export class HUD {
       text += `  [${movementCost} AP${costColor}]`;
     }
 
+    // Climate zone (and what it costs to cross off-road)
+    if (biome && biome !== BiomeType.None) {
+      const biomeConfig = BIOME_CONFIG[biome];
+      text += `\n• ${biomeConfig.name}${biomeConfig.apCost > 0 ? ` (+${biomeConfig.apCost} AP off-road)` : ""}`;
+    }
+
+    // River or stream, and how it is crossed
+    if (river) {
+      const crossing = river.bridged ? "bridged" : river.ford ? "ford" : `+${river.crossingCost} AP to cross`;
+      text += `\n• ${river.navigable ? "River (barges)" : "Stream"} (${crossing})`;
+    }
+
     // Add vegetation information if present
     if (vegetation && vegetation !== VegetationType.None) {
       if (vegetation === VegetationType.Bush) {
@@ -256,6 +300,15 @@ export class HUD {
         const landmarkConfig = BUILDING_CONFIG[settlement.landmark];
         text += `\n  Landmark: ${landmarkConfig.name}`;
       }
+
+      // Show how the settlement (and its group) regards the player
+      if (reputationData) {
+        const sign = (value: number) => `${value >= 0 ? "+" : ""}${Math.round(value)}`;
+        text += `\n  Standing: ${reputationData.standing} (${sign(reputationData.reputation)})`;
+        if (reputationData.group) {
+          text += `\n  ${reputationData.group.name} group: ${sign(reputationData.group.reputation)}`;
+        }
+      }
     }
 
     // Add resource information if present
@@ -267,7 +320,23 @@ export class HUD {
         resource.quality >= 0.6 ? "Good" :
         resource.quality >= 0.4 ? "Fair" :
         "Poor";
-      text += `\n⬥ ${resourceConfig.name} (${qualityDesc})`;
+      const remaining = resourceConfig.renewable
+        ? `${Math.round(getDepositLevel(resource) * 100)}% stocked`
+        : `${resource.quantity} left`;
+      text += `\n⬥ ${resourceConfig.name} (${qualityDesc}, ${remaining})`;
+    }
+
+    // Add bandit danger (settlements are always safe)
+    if (dangerData?.camp) {
+      text += `\n⚔ Bandit camp`;
+    }
+    if (dangerData && dangerData.danger > 0) {
+      const dangerDesc =
+        dangerData.danger >= 0.6 ? "Deadly" :
+        dangerData.danger >= 0.3 ? "Dangerous" :
+        dangerData.danger >= 0.1 ? "Risky" :
+        "Calm";
+      text += `\n• Bandits: ${dangerDesc} (${Math.round(dangerData.danger * 100)}%)`;
     }
 
     // Add population information for settlements
@@ -293,6 +362,20 @@ export class HUD {
           text += `\n• ${job.count} ${job.job}`;
         }
       }
+      
+      if (populationData.tools && populationData.tools.workers > 0) {
+        const { stock, workers } = populationData.tools;
+        text += `\n• Tools: ${stock} sets for ${workers} workers${stock < workers ? " (short)" : ""}`;
+      }
+      
+      if (populationData.garrison) {
+        const garrison = populationData.garrison;
+        text += `\n\n--- Garrison ---`;
+        text += `\n• ${garrison.soldiers} soldiers, strength ${garrison.strength}`;
+        if (!garrison.paid) {
+          text += `\n• Unpaid (no patrols)`;
+        }
+      }
     }
 
     // Add trader information
@@ -309,13 +392,23 @@ export class HUD {
           text += `\n• Carrying: ${trader.cargo}`;
         }
         text += `\n• Coins: ${trader.money}g`;
+        if (trader.escorted) {
+          text += `\n• Escorted by guards`;
+        }
+        if (trader.ship) {
+          text += `\n• Sails a merchant ship`;
+        }
       }
     }
 
     // Add trade information for settlements
-    if (tradeData && tradeData.activeTraders > 0) {
+    if (tradeData && (tradeData.activeTraders > 0 || tradeData.ships)) {
       text += `\n\n--- Trade ---`;
       text += `\n• Active Traders: ${tradeData.activeTraders}`;
+      if (tradeData.ships) {
+        const { fleet, docked, building } = tradeData.ships;
+        text += `\n• Ships: ${fleet} (${docked} in port)${building ? ", one on the slipway" : ""}`;
+      }
       
       // Show buy offers (top 2)
       if (tradeData.buyOffers.length > 0) {
@@ -146,3 +146,15 @@ export function lightenColor(color: number, factor: number): number {
   );
   return (r << 16) | (g << 8) | b;
 }
+
+/**
+ * Blend a hex color toward a target color by a factor (0 = color, 1 = target).
+ */
+export function blendColor(color: number, target: number, factor: number): number {
+  const channel = (shift: number) => {
+    const from = (color >> shift) & 0xff;
+    const to = (target >> shift) & 0xff;
+    return Math.round(from + (to - from) * factor);
+  };
+  return (channel(16) << 16) | (channel(8) << 8) | channel(0);
+}
@@ -3,11 +3,13 @@ import { WorldMap } from "../world/WorldMap";
 import { HexTile } from "../world/HexTile";
 import { Palette } from "./Palette";
 import { TerrainType } from "../world/Terrain";
+import { BiomeType } from "../world/Biome";
 import { hexIsoCenter } from "./Isometric";
 
 /**
  * MiniMap — displays a miniature view of the entire world in the top-right corner.
  * Clicking on it moves the camera to that location.
+ * In preview mode (new-game thumbnail) it shows the whole world and its settlements.
  */
 export class MiniMap {
   readonly container: Container;
@@ -23,14 +25,23 @@ export class MiniMap {
   private miniMapWidth: number = 200;
   private miniMapHeight: number = 200;
   private padding: number = 20;
+  private maxSize: number;
+  private preview: boolean;
 
   /** Callback when user clicks on the mini-map. */
   onClickLocation?: (worldX: number, worldY: number) => void;
 
-  constructor(worldMap: WorldMap, screenWidth: number, screenHeight: number) {
+  constructor(
+    worldMap: WorldMap,
+    screenWidth: number,
+    screenHeight: number,
+    options: { size?: number; preview?: boolean } = {},
+  ) {
     this.worldMap = worldMap;
     this.screenWidth = screenWidth;
     this.screenHeight = screenHeight;
+    this.maxSize = options.size ?? 200;
+    this.preview = options.preview ?? false;
 
     this.container = new Container({ label: "minimap" });
     this.container.eventMode = "static";
@@ -78,8 +89,7 @@ export class MiniMap {
     const worldHeight = maxY - minY;
     const aspectRatio = worldWidth / worldHeight;
 
-    // Set a max size for the minimap
-    const maxSize = 200;
+    const maxSize = this.maxSize;
 
     if (aspectRatio > 1) {
       // World is wider than tall
@@ -138,20 +148,38 @@ export class MiniMap {
     const scaleY = (this.miniMapHeight - mapPadding * 2) / worldHeight;
     const scale = Math.min(scaleX, scaleY);
 
+    // Small pixels for each tile (larger on big minimaps of small worlds, so tiles touch)
+    const size = Math.max(2, Math.ceil((this.miniMapWidth - mapPadding * 2) / this.worldMap.width));
+
     // Draw each hex as a small rectangle (simplified)
     this.worldMap.grid.forEach((hex) => {
-      if (!hex.explored) return; // Only show explored tiles
+      if (!hex.explored && !this.preview) return; // Only show explored tiles
 
       const center = hexIsoCenter(hex);
       const x = (center.x - minX) * scale + mapPadding;
       const y = (center.y - minY) * scale + mapPadding;
 
       const color = this.getTerrainColor(hex);
-      const size = 2; // Small pixels for each tile
 
       this.worldGraphics.rect(x - size / 2, y - size / 2, size, size);
-      this.worldGraphics.fill({ color, alpha: hex.visible ? 1.0 : 0.5 });
+      this.worldGraphics.fill({ color, alpha: hex.visible || this.preview ? 1.0 : 0.5 });
     });
+
+    // Preview: mark settlements (cities largest)
+    if (this.preview) {
+      for (const settlement of this.worldMap.settlements) {
+        const hex = this.worldMap.getTile(settlement.center);
+        if (!hex) continue;
+        const center = hexIsoCenter(hex);
+        const x = (center.x - minX) * scale + mapPadding;
+        const y = (center.y - minY) * scale + mapPadding;
+        const radius = settlement.type === "city" ? 3.5 : settlement.type === "village" ? 2.5 : 1.5;
+        this.worldGraphics.circle(x, y, radius);
+        this.worldGraphics.fill({ color: 0xffffff });
+        this.worldGraphics.circle(x, y, radius);
+        this.worldGraphics.stroke({ color: 0x000000, width: 1 });
+      }
+    }
   }
 
   /** Update the mini-map (called when fog of war changes). */
@@ -231,8 +259,15 @@ export class MiniMap {
     });
   }
 
-  /** Get a simplified color for a terrain type. */
+  /** Get a simplified color for a terrain type (land plains and hills show their biome, rivers show through). */
   private getTerrainColor(hex: HexTile): number {
+    if (hex.riverFlow > 0) return 0x3d78b4;
+
+    if (hex.terrain === TerrainType.Plains || hex.terrain === TerrainType.Hills) {
+      const biomeColor = this.getBiomeColor(hex.biome);
+      if (biomeColor !== null) return biomeColor;
+    }
+
     switch (hex.terrain) {
       case TerrainType.DeepWater:
         return 0x1a4a7a;
@@ -251,6 +286,26 @@ export class MiniMap {
     }
   }
 
+  /** Get a simplified color for a biome (null = use the terrain color). */
+  private getBiomeColor(biome: BiomeType): number | null {
+    switch (biome) {
+      case BiomeType.Steppe:
+        return 0x9a9a5a;
+      case BiomeType.Desert:
+        return 0xc8ac72;
+      case BiomeType.Tundra:
+        return 0x8a967c;
+      case BiomeType.Snow:
+        return 0xdde4e8;
+      case BiomeType.Marsh:
+        return 0x55705a;
+      case BiomeType.Jungle:
+        return 0x3a7a34;
+      default:
+        return null;
+    }
+  }
+
   /** Handle screen resize. */
   resize(width: number, height: number): void {
     this.screenWidth = width;
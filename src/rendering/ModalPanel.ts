@@ -0,0 +1,242 @@
+import { Container, Graphics, Text, TextStyle } from "pixi.js";
+import { Palette } from "./Palette";
+
+/**
+ * Base class for centered modal panels (overlay + framed panel + title + close button).
+ * Subclasses draw their content in buildContent() and update it in refresh().
+ * Call rebuild() at the end of the subclass constructor.
+ */
+export abstract class ModalPanel {
+  readonly container: Container;
+
+  protected screenWidth: number;
+  protected screenHeight: number;
+
+  private title: string;
+  private panelWidth: number;
+  private panelHeight: number;
+  private helpText: string;
+
+  /** Callback when the panel is closed. */
+  onClose?: () => void;
+
+  constructor(
+    label: string,
+    title: string,
+    panelWidth: number,
+    panelHeight: number,
+    screenWidth: number,
+    screenHeight: number,
+    closeKeys: string[],
+  ) {
+    this.title = title;
+    this.panelWidth = panelWidth;
+    this.panelHeight = panelHeight;
+    this.screenWidth = screenWidth;
+    this.screenHeight = screenHeight;
+    this.helpText = `Press ${[...closeKeys, "Escape"]
+      .filter((key, i, all) => all.indexOf(key) === i)
+      .map((key) => `[${key === "Escape" ? "ESC" : key.toUpperCase()}]`)
+      .join(" or ")} to close`;
+
+    this.container = new Container({ label });
+    this.container.visible = false;
+
+    window.addEventListener("keydown", (e: KeyboardEvent) => {
+      if (!this.container.visible) return;
+      if (e.key === "Escape" || closeKeys.includes(e.key.toLowerCase())) {
+        // Stop the game's key handler from re-opening the panel on the same key press
+        e.stopImmediatePropagation();
+        this.hide();
+      }
+    });
+  }
+
+  /** Show the panel. */
+  show(): void {
+    this.container.visible = true;
+    this.refresh();
+  }
+
+  /** Hide the panel. */
+  hide(): void {
+    if (!this.container.visible) return;
+    this.container.visible = false;
+    this.onClose?.();
+  }
+
+  /** Is the panel currently open? */
+  isOpen(): boolean {
+    return this.container.visible;
+  }
+
+  /** Handle screen resize. */
+  resize(width: number, height: number): void {
+    this.screenWidth = width;
+    this.screenHeight = height;
+    this.rebuild();
+  }
+
+  /** Update displayed data. */
+  abstract refresh(): void;
+
+  /** Draw the panel body inside the given content area. */
+  protected abstract buildContent(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+  ): void;
+
+  /** Clear and rebuild the whole panel (frame + content). */
+  protected rebuild(): void {
+    this.container.removeChildren();
+
+    // Semi-transparent overlay behind the panel
+    const overlay = new Graphics();
+    overlay.rect(0, 0, this.screenWidth, this.screenHeight);
+    overlay.fill({ color: 0x000000, alpha: 0.5 });
+    overlay.eventMode = "static"; // Block clicks to world
+    overlay.on("pointerdown", () => this.hide()); // Click outside to close
+    this.container.addChild(overlay);
+
+    const panelX = (this.screenWidth - this.panelWidth) / 2;
+    const panelY = (this.screenHeight - this.panelHeight) / 2;
+
+    const background = new Graphics();
+    background.roundRect(0, 0, this.panelWidth, this.panelHeight, 12);
+    background.fill({ color: Palette.uiBg, alpha: 0.97 });
+    background.roundRect(0, 0, this.panelWidth, this.panelHeight, 12);
+    background.stroke({ color: Palette.uiAccent, width: 3 });
+    background.position.set(panelX, panelY);
+    background.eventMode = "static"; // Stop propagation
+    background.on("pointerdown", (e) => e.stopPropagation());
+    background.on("pointerup", (e) => e.stopPropagation());
+    background.on("click", (e) => e.stopPropagation());
+    this.container.addChild(background);
+
+    // Title bar
+    const titleBar = new Graphics();
+    titleBar.roundRect(0, 0, this.panelWidth, 50, 12);
+    titleBar.fill({ color: 0x1a1a1a, alpha: 0.8 });
+    titleBar.position.set(panelX, panelY);
+    this.container.addChild(titleBar);
+
+    const title = new Text({
+      text: this.title,
+      style: new TextStyle({
+        fontFamily: "monospace",
+        fontSize: 24,
+        fill: Palette.uiAccent,
+        fontWeight: "bold",
+      }),
+    });
+    title.position.set(panelX + 24, panelY + 13);
+    this.container.addChild(title);
+
+    const closeButton = this.createCloseButton();
+    closeButton.position.set(panelX + this.panelWidth - 40, panelY + 25);
+    this.container.addChild(closeButton);
+
+    // Keyboard shortcuts help text at bottom
+    const help = new Text({
+      text: this.helpText,
+      style: new TextStyle({
+        fontFamily: "monospace",
+        fontSize: 11,
+        fill: 0x888888,
+        align: "center",
+      }),
+    });
+    help.anchor.set(0.5, 0);
+    help.position.set(panelX + this.panelWidth / 2, panelY + this.panelHeight - 26);
+    this.container.addChild(help);
+
+    this.buildContent(
+      panelX + 24,
+      panelY + 66,
+      this.panelWidth - 48,
+      this.panelHeight - 66 - 36,
+    );
+
+    this.refresh();
+  }
+
+  /** Create a labelled button. */
+  protected createButton(
+    label: string,
+    width: number,
+    onClick: () => void,
+    color: number = 0x2d2d2d,
+  ): Container {
+    const btn = new Container({ label: `btn-${label}` });
+    btn.eventMode = "static";
+    btn.cursor = "pointer";
+
+    const bg = new Graphics();
+    bg.roundRect(0, 0, width, 26, 5);
+    bg.fill({ color, alpha: 0.95 });
+    bg.roundRect(0, 0, width, 26, 5);
+    bg.stroke({ color: Palette.uiAccent, width: 1.5 });
+    btn.addChild(bg);
+
+    const text = new Text({ text: label, style: this.textStyle(12, Palette.uiText) });
+    text.anchor.set(0.5);
+    text.position.set(width / 2, 13);
+    btn.addChild(text);
+
+    btn.on("pointerdown", (e) => {
+      e.stopPropagation();
+      onClick();
+    });
+
+    return btn;
+  }
+
+  /** Monospace text style used by panel content. */
+  protected textStyle(
+    fontSize: number = 13,
+    fill: number = Palette.uiText,
+    bold: boolean = false,
+  ): TextStyle {
+    return new TextStyle({
+      fontFamily: "monospace",
+      fontSize,
+      fill,
+      fontWeight: bold ? "bold" : "normal",
+    });
+  }
+
+  /** Create the close button. */
+  private createCloseButton(): Container {
+    const btn = new Container({ label: "close-btn" });
+    btn.eventMode = "static";
+    btn.cursor = "pointer";
+
+    const bg = new Graphics();
+    bg.circle(0, 0, 14);
+    bg.fill({ color: 0x8b2020 });
+    bg.circle(0, 0, 14);
+    bg.stroke({ color: 0xe85040, width: 2 });
+    btn.addChild(bg);
+
+    const x = new Text({
+      text: "X",
+      style: new TextStyle({
+        fontFamily: "monospace",
+        fontSize: 16,
+        fill: 0xffffff,
+        fontWeight: "bold",
+      }),
+    });
+    x.anchor.set(0.5);
+    btn.addChild(x);
+
+    btn.on("pointerdown", (e) => {
+      e.stopPropagation();
+      this.hide();
+    });
+
+    return btn;
+  }
+}
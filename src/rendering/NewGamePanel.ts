@@ -0,0 +1,268 @@
+import { Container, Graphics, Text } from "pixi.js";
+import { Palette } from "./Palette";
+import { ModalPanel } from "./ModalPanel";
+import { MiniMap } from "./MiniMap";
+import { WorldMap } from "../world/WorldMap";
+import { WORLD_PRESETS, getWorldPreset } from "../world/WorldPresets";
+import { isWater } from "../world/Terrain";
+import {
+  WorldSettings,
+  WorldSettingKey,
+  WORLD_SETTING_RANGES,
+  MAP_SIZES,
+  clampSetting,
+  randomSeed,
+  resolveWorldConfig,
+} from "../game/WorldSettings";
+
+/** Size of the preview thumbnail in pixels. */
+const THUMBNAIL_SIZE = 280;
+
+/** Height of a settings row. */
+const ROW_HEIGHT = 34;
+
+/** Settings changed with [-] / [+] (label, hint). */
+const STEPPED_SETTINGS: Array<{ key: WorldSettingKey; label: string; hint?: string }> = [
+  { key: "numCities", label: "Cities" },
+  { key: "numVillages", label: "Villages" },
+  { key: "numHamlets", label: "Hamlets" },
+  { key: "terrainScale", label: "Terrain scale", hint: "lower = bigger land" },
+  { key: "roughThreshold", label: "Rough terrain", hint: "higher = less" },
+];
+
+/**
+ * New-game panel — choose a seed, preset, map size and settlement counts,
+ * preview the world as a thumbnail, then start it.
+ */
+export class NewGamePanel extends ModalPanel {
+  private settings: WorldSettings = { seed: "", overrides: {} };
+
+  /** World generated for the preview (null until Preview is pressed). */
+  private previewWorld: WorldMap | null = null;
+  private thumbnail: MiniMap | null = null;
+  /** Have the settings changed since the preview was generated? */
+  private previewStale = false;
+  private generating = false;
+
+  private content!: Container;
+  private contentArea = { x: 0, y: 0, width: 0, height: 0 };
+
+  /** Callback to start a new game with the chosen settings. */
+  onStart?: (settings: WorldSettings) => void;
+
+  constructor(screenWidth: number, screenHeight: number) {
+    super("new-game-panel", "New World", 760, 520, screenWidth, screenHeight, ["n"]);
+    this.rebuild();
+  }
+
+  /**
+   * Open with starting settings. A world already generated from them
+   * (e.g. the one just created at launch) is shown as the preview.
+   */
+  open(settings: WorldSettings, preview?: WorldMap): void {
+    this.settings = structuredClone(settings);
+    this.setPreview(preview ?? null);
+    this.show();
+  }
+
+  /** Redraw the settings, thumbnail and buttons. */
+  refresh(): void {
+    this.content.removeChildren();
+    const { x, y, width, height } = this.contentArea;
+    const config = resolveWorldConfig(this.settings);
+    const preset = getWorldPreset(this.settings.preset);
+
+    // Settings (left column)
+    let rowY = y;
+    const seed = this.settings.seed;
+    this.addRow("Seed", seed.length > 16 ? seed.slice(0, 15) + "…" : seed, x, rowY, [
+      { label: "Edit", onClick: () => this.editSeed() },
+      { label: "Random", onClick: () => this.change(() => (this.settings.seed = randomSeed())) },
+    ]);
+    rowY += ROW_HEIGHT;
+
+    this.addRow("Preset", preset?.name ?? "Default", x, rowY, [
+      { label: "<", onClick: () => this.cyclePreset(-1) },
+      { label: ">", onClick: () => this.cyclePreset(1) },
+    ]);
+    rowY += ROW_HEIGHT;
+
+    const size = MAP_SIZES.find((s) => s.size === config.width && s.size === config.height);
+    this.addRow("Map size", `${size ? size.name + " " : ""}${config.width}×${config.height}`, x, rowY, [
+      { label: "<", onClick: () => this.cycleMapSize(-1) },
+      { label: ">", onClick: () => this.cycleMapSize(1) },
+    ]);
+    rowY += ROW_HEIGHT;
+
+    for (const { key, label, hint } of STEPPED_SETTINGS) {
+      const value = config[key];
+      this.addRow(label, hint ? `${value} (${hint})` : String(value), x, rowY, [
+        { label: "-", onClick: () => this.step(key, -1) },
+        { label: "+", onClick: () => this.step(key, 1) },
+      ]);
+      rowY += ROW_HEIGHT;
+    }
+
+    if (preset) {
+      const description = this.wrappedText(preset.description, 11, Palette.uiDim, 410);
+      description.position.set(x, rowY + 4);
+      this.content.addChild(description);
+    }
+
+    // Preview (right column)
+    const previewX = x + width - THUMBNAIL_SIZE;
+    const frame = new Graphics();
+    frame.rect(previewX, y, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+    frame.fill({ color: 0x000000, alpha: 0.4 });
+    this.content.addChild(frame);
+
+    if (this.thumbnail) {
+      this.thumbnail.container.position.set(previewX, y);
+      this.thumbnail.container.alpha = this.previewStale ? 0.4 : 1;
+      this.content.addChild(this.thumbnail.container);
+    }
+
+    const status = this.wrappedText(
+      this.getPreviewStatus(),
+      11,
+      this.previewStale ? Palette.uiAccent : Palette.uiText,
+      THUMBNAIL_SIZE,
+    );
+    status.position.set(previewX, y + THUMBNAIL_SIZE + 8);
+    this.content.addChild(status);
+
+    // Actions
+    const previewBtn = this.createButton(this.generating ? "Generating..." : "Preview", 130, () => this.generatePreview());
+    previewBtn.position.set(previewX, y + height - 30);
+    this.content.addChild(previewBtn);
+
+    const startBtn = this.createButton("Start", 130, () => this.onStart?.(structuredClone(this.settings)), 0x2d4a2d);
+    startBtn.position.set(previewX + THUMBNAIL_SIZE - 130, y + height - 30);
+    this.content.addChild(startBtn);
+  }
+
+  /** Remember the content area; rows are drawn in refresh(). */
+  protected buildContent(x: number, y: number, width: number, height: number): void {
+    this.contentArea = { x, y, width, height };
+    this.content = new Container({ label: "new-game-content" });
+    this.container.addChild(this.content);
+  }
+
+  /** Draw one settings row: label, value and its buttons. */
+  private addRow(
+    label: string,
+    value: string,
+    x: number,
+    y: number,
+    buttons: Array<{ label: string; onClick: () => void }>,
+  ): void {
+    const labelText = new Text({ text: label, style: this.textStyle(13, Palette.uiAccent, true) });
+    labelText.position.set(x, y + 5);
+    this.content.addChild(labelText);
+
+    const valueText = new Text({ text: value, style: this.textStyle(13, Palette.uiText) });
+    valueText.position.set(x + 120, y + 5);
+    this.content.addChild(valueText);
+
+    let buttonX = x + 410;
+    for (const button of [...buttons].reverse()) {
+      const width = button.label.length > 1 ? 64 : 28;
+      buttonX -= width;
+      const btn = this.createButton(button.label, width, button.onClick);
+      btn.position.set(buttonX, y);
+      this.content.addChild(btn);
+      buttonX -= 6;
+    }
+  }
+
+  /** Text that wraps at the given width. */
+  private wrappedText(text: string, fontSize: number, fill: number, width: number): Text {
+    const style = this.textStyle(fontSize, fill);
+    style.wordWrap = true;
+    style.wordWrapWidth = width;
+    return new Text({ text, style });
+  }
+
+  /** Apply a settings change and mark the preview out of date. */
+  private change(apply: () => void): void {
+    apply();
+    this.previewStale = this.previewWorld !== null;
+    this.refresh();
+  }
+
+  /** Ask for a seed. */
+  private editSeed(): void {
+    const seed = window.prompt("World seed:", this.settings.seed);
+    if (!seed || !seed.trim()) return;
+    this.change(() => (this.settings.seed = seed.trim()));
+  }
+
+  /** Next or previous preset (the preset's own values replace any changes). */
+  private cyclePreset(direction: number): void {
+    const ids: Array<string | undefined> = [undefined, ...Object.keys(WORLD_PRESETS)];
+    const index = ids.indexOf(this.settings.preset);
+    const next = ids[(index + direction + ids.length) % ids.length];
+    this.change(() => {
+      this.settings.preset = next;
+      this.settings.overrides = {};
+    });
+  }
+
+  /** Next or previous map size. */
+  private cycleMapSize(direction: number): void {
+    const { width } = resolveWorldConfig(this.settings);
+    const index = MAP_SIZES.findIndex((s) => s.size === width);
+    const next = index === -1
+      ? MAP_SIZES[direction > 0 ? 0 : MAP_SIZES.length - 1]
+      : MAP_SIZES[(index + direction + MAP_SIZES.length) % MAP_SIZES.length];
+    this.change(() => {
+      this.settings.overrides.width = next.size;
+      this.settings.overrides.height = next.size;
+    });
+  }
+
+  /** Raise or lower a setting by one step. */
+  private step(key: WorldSettingKey, direction: number): void {
+    const value = resolveWorldConfig(this.settings)[key] + direction * WORLD_SETTING_RANGES[key].step;
+    this.change(() => (this.settings.overrides[key] = clampSetting(key, value)));
+  }
+
+  /** Generate the world for the current settings and show it. */
+  private generatePreview(): void {
+    if (this.generating) return;
+    this.generating = true;
+    this.refresh();
+
+    // Let the "Generating..." label draw before the (blocking) generation
+    setTimeout(() => {
+      this.setPreview(new WorldMap(resolveWorldConfig(this.settings)));
+      this.generating = false;
+      this.refresh();
+    }, 50);
+  }
+
+  /** Show a generated world as the thumbnail. */
+  private setPreview(world: WorldMap | null): void {
+    this.thumbnail?.container.destroy({ children: true });
+    this.previewWorld = world;
+    this.thumbnail = world
+      ? new MiniMap(world, this.screenWidth, this.screenHeight, { size: THUMBNAIL_SIZE, preview: true })
+      : null;
+    this.previewStale = false;
+  }
+
+  /** Summary of the previewed world (or a hint to generate one). */
+  private getPreviewStatus(): string {
+    const world = this.previewWorld;
+    if (!world) return "Press Preview to see the world.";
+    if (this.previewStale) return "Settings changed. Press Preview to see the new world.";
+
+    let land = 0;
+    world.grid.forEach((hex) => {
+      if (!isWater(hex.terrain)) land++;
+    });
+    const count = (type: string) => world.settlements.filter((s) => s.type === type).length;
+    return `${count("city")} cities, ${count("village")} villages, ${count("hamlet")} hamlets\n` +
+      `${Math.round((land / world.grid.size) * 100)}% land`;
+  }
+}
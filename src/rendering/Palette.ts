@@ -25,6 +25,25 @@ export const Palette = {
   mountainPeak: 0xc8c8c8,
   mountainSnow: 0xf0f0f0,
 
+  // Biomes
+  steppeGrass: 0xb5b85a,
+  steppeDry: 0x9a9a48,
+  desertSand: 0xe0c07a,
+  desertDune: 0xc9a45e,
+  tundraMoss: 0x9aa88a,
+  tundraLichen: 0x7f8c74,
+  snowField: 0xeef3f6,
+  snowShadow: 0xc8d4dc,
+  marshGreen: 0x5f7d4a,
+  marshWater: 0x4a6a5c,
+  jungleGreen: 0x3f9a3a,
+  jungleDark: 0x2a7028,
+
+  // Rivers
+  riverWater: 0x4a88c4,
+  riverBank: 0x5e6a44,
+  fordStone: 0xb8b0a0,
+
   // Vegetation
   bush: 0x3d7a2a,
   bushLight: 0x4e8b3b,
@@ -34,6 +53,11 @@ export const Palette = {
   forestDark: 0x1a4d1a,
   forestMedium: 0x2d6e1e,
 
+  // Seasons
+  winterSnow: 0xe8eef2,
+  winterIce: 0xc8dce8,
+  autumnLeaves: 0xc08a3e,
+
   // Character
   character: 0xe85040,
   characterOutline: 0x8b2020,
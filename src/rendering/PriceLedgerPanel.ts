@@ -0,0 +1,230 @@
+import { Container, Graphics, Text } from "pixi.js";
+import { Palette } from "./Palette";
+import { ModalPanel } from "./ModalPanel";
+import { Character } from "../entity/Character";
+import { Settlement } from "../world/Building";
+import { getMaterialName } from "../world/ProductionRecipe";
+import { PriceLedger, PriceRecord } from "../game/PriceLedger";
+
+/** Settlements listed per page. */
+const LIST_ROWS = 14;
+
+/** Row height of the settlement list in pixels. */
+const ROW_HEIGHT = 26;
+
+/** Width of the settlement list. */
+const LIST_WIDTH = 250;
+
+/** Price rows shown for the selected settlement. */
+const PRICE_ROWS = 10;
+
+/** Trade suggestions shown at the bottom. */
+const PAIR_ROWS = 6;
+
+/** Color of rising prices. */
+const RISING = 0x90c060;
+
+/** Color of falling prices. */
+const FALLING = 0xe85040;
+
+/**
+ * Price ledger panel — last-seen prices of every settlement the player knows,
+ * and the best buy/sell pairs between them for what the player carries.
+ */
+export class PriceLedgerPanel extends ModalPanel {
+  private ledger: PriceLedger;
+  private character: Character;
+  private settlements: Settlement[];
+
+  private selectedId?: number;
+  private page: number = 0;
+
+  private content!: Container;
+  private contentArea = { x: 0, y: 0, width: 0, height: 0 };
+
+  constructor(
+    ledger: PriceLedger,
+    character: Character,
+    settlements: Settlement[],
+    screenWidth: number,
+    screenHeight: number,
+  ) {
+    super("price-ledger-panel", "Price Ledger", 960, 640, screenWidth, screenHeight, ["m"]);
+    this.ledger = ledger;
+    this.character = character;
+    this.settlements = settlements;
+    this.rebuild();
+  }
+
+  /** Open the panel on the settlement the character stands in (if any). */
+  open(): void {
+    this.selectedId = this.character.currentTile.settlementId ?? this.selectedId;
+    this.page = 0;
+    this.show();
+  }
+
+  /** Redraw the settlement list, the selected market and the trade suggestions. */
+  refresh(): void {
+    this.content.removeChildren();
+    const { x, y, width, height } = this.contentArea;
+    const known = this.ledger.getKnownSettlements();
+
+    if (known.length === 0) {
+      this.addLine("You know no markets yet — visit a settlement.", x, y, Palette.uiDim);
+      return;
+    }
+    if (this.selectedId === undefined || !known.includes(this.selectedId)) this.selectedId = known[0];
+
+    // Settlement list
+    const pageCount = Math.max(1, Math.ceil(known.length / LIST_ROWS));
+    this.page = Math.min(this.page, pageCount - 1);
+    known.slice(this.page * LIST_ROWS, (this.page + 1) * LIST_ROWS).forEach((id, i) => {
+      const rowY = y + i * ROW_HEIGHT;
+      const record = this.ledger.getRecord(id);
+      const bg = new Graphics();
+      bg.roundRect(x, rowY, LIST_WIDTH, ROW_HEIGHT - 4, 4);
+      bg.fill({ color: id === this.selectedId ? 0x4a3a1a : 0x1f1f1f, alpha: 0.9 });
+      bg.eventMode = "static";
+      bg.cursor = "pointer";
+      bg.on("pointerdown", (e) => {
+        e.stopPropagation();
+        this.selectedId = id;
+        this.refresh();
+      });
+      this.content.addChild(bg);
+      this.addLine(this.settlements[id].name, x + 8, rowY + 4, record ? Palette.uiText : Palette.uiDim, 11);
+      const seen = new Text({
+        text: record ? `turn ${record.turn}` : "not visited",
+        style: this.textStyle(11, Palette.uiDim),
+      });
+      seen.anchor.set(1, 0);
+      seen.position.set(x + LIST_WIDTH - 8, rowY + 4);
+      this.content.addChild(seen);
+    });
+
+    if (pageCount > 1) {
+      const pagerY = y + LIST_ROWS * ROW_HEIGHT + 4;
+      const prev = this.createButton("<", 40, () => {
+        this.page = (this.page - 1 + pageCount) % pageCount;
+        this.refresh();
+      });
+      prev.position.set(x, pagerY);
+      this.content.addChild(prev);
+      this.addLine(`${this.page + 1}/${pageCount}`, x + 100, pagerY + 6, Palette.uiText);
+      const next = this.createButton(">", 40, () => {
+        this.page = (this.page + 1) % pageCount;
+        this.refresh();
+      });
+      next.position.set(x + LIST_WIDTH - 40, pagerY);
+      this.content.addChild(next);
+    }
+
+    this.drawMarket(this.selectedId, x + LIST_WIDTH + 20, y, width - LIST_WIDTH - 20);
+    this.drawPairs(x, y + height - 30 - (PAIR_ROWS + 2) * 20, width);
+
+    this.addLine(
+      "Prices are as you saw them on your last visit; traders' margins and route danger are counted as they would count them",
+      x, y + height - 20, Palette.uiDim, 11
+    );
+  }
+
+  /** Reserve the content area; everything is drawn in refresh(). */
+  protected buildContent(x: number, y: number, width: number, height: number): void {
+    this.contentArea = { x, y, width, height };
+    this.content = new Container({ label: "price-ledger-content" });
+    this.container.addChild(this.content);
+  }
+
+  /** Last-seen prices of a settlement. */
+  private drawMarket(settlementId: number, x: number, y: number, width: number): void {
+    const record = this.ledger.getRecord(settlementId);
+    const settlement = this.settlements[settlementId];
+    this.addLine(`${settlement.name} (${settlement.type})`, x, y, Palette.uiAccent, 14, true);
+
+    if (!record) {
+      this.addLine("You have not visited this market — its prices are unknown.", x, y + 28, Palette.uiDim);
+      return;
+    }
+
+    const ago = this.character.turn - record.turn;
+    this.addLine(
+      ago <= 0 ? `Seen this turn` : `Seen on turn ${record.turn} (${ago} turn${ago === 1 ? "" : "s"} ago)`,
+      x, y + 22, Palette.uiDim, 11
+    );
+
+    const columns = [0, 200, 290, 380];
+    ["Material", "Price", "Trend", "Market"].forEach((label, i) => {
+      this.addLine(label, x + columns[i], y + 46, Palette.uiDim, 11, true);
+    });
+
+    const rows = this.getPriceRows(record);
+    rows.slice(0, PRICE_ROWS).forEach((seen, i) => {
+      const rowY = y + 66 + i * 20;
+      const carried = this.character.getCarriedAmount(seen.material) > 0;
+      this.addLine(`${carried ? "* " : ""}${getMaterialName(seen.material)}`, x + columns[0], rowY, carried ? Palette.uiAccent : Palette.uiText);
+      this.addLine(`${seen.price.toFixed(1)}g`, x + columns[1], rowY, Palette.uiText);
+      const trend = Math.abs(seen.trend) < 0.05 ? "—" : `${seen.trend > 0 ? "▲" : "▼"} ${Math.abs(seen.trend).toFixed(1)}`;
+      this.addLine(trend, x + columns[2], rowY, seen.trend > 0.05 ? RISING : seen.trend < -0.05 ? FALLING : Palette.uiDim);
+      const market = [
+        seen.buying > 0 ? `wants ${seen.buying}` : "",
+        seen.selling > 0 ? `sells ${seen.selling}` : "",
+      ].filter(Boolean).join(", ");
+      this.addLine(market || "—", x + columns[3], rowY, Palette.uiDim, 11);
+    });
+    if (rows.length > PRICE_ROWS) {
+      this.addLine(`... and ${rows.length - PRICE_ROWS} more`, x, y + 66 + PRICE_ROWS * 20, Palette.uiDim, 11);
+    }
+  }
+
+  /** Best known trades, those in carried materials first and highlighted. */
+  private drawPairs(x: number, y: number, width: number): void {
+    const divider = new Graphics();
+    divider.moveTo(x, y - 8);
+    divider.lineTo(x + width, y - 8);
+    divider.stroke({ color: Palette.uiDim, width: 1 });
+    this.content.addChild(divider);
+
+    this.addLine("Best known trades", x, y, Palette.uiAccent, 13, true);
+
+    const pairs = this.ledger.getBestPairs(this.character, PAIR_ROWS);
+    const sales = this.ledger.getBestSales(this.character)
+      .filter(sale => !pairs.some(pair => pair.inCargo && pair.material === sale.material));
+    if (pairs.length === 0 && sales.length === 0) {
+      this.addLine("Visit more markets to find trades.", x, y + 22, Palette.uiDim);
+      return;
+    }
+
+    let rowY = y + 22;
+    for (const pair of pairs) {
+      this.addLine(
+        `${pair.inCargo ? "* " : ""}${getMaterialName(pair.material)}: buy in ${this.settlements[pair.fromId].name} at ${pair.buyPrice.toFixed(1)}g` +
+        ` → sell in ${this.settlements[pair.toId].name} at ${pair.sellPrice.toFixed(1)}g` +
+        ` · ${pair.distance} tiles${pair.bySea ? " by sea" : ""} · +${Math.round(pair.profit)}g for ${pair.quantity}`,
+        x, rowY, pair.inCargo ? Palette.uiAccent : Palette.uiText, 11
+      );
+      rowY += 20;
+    }
+    for (const sale of sales.slice(0, PAIR_ROWS + 1 - pairs.length)) {
+      this.addLine(
+        `* Your ${getMaterialName(sale.material)}: best known price ${sale.price.toFixed(1)}g in ${this.settlements[sale.settlementId].name} (turn ${sale.turn})`,
+        x, rowY, Palette.uiAccent, 11
+      );
+      rowY += 20;
+    }
+  }
+
+  /** Prices of a record, carried materials first, then the most expensive. */
+  private getPriceRows(record: PriceRecord): PriceRecord["prices"] {
+    return [...record.prices].sort((a, b) =>
+      Number(this.character.getCarriedAmount(b.material) > 0) - Number(this.character.getCarriedAmount(a.material) > 0) ||
+      b.price - a.price
+    );
+  }
+
+  /** Add a line of text. */
+  private addLine(text: string, x: number, y: number, color: number, size: number = 12, bold: boolean = false): void {
+    const line = new Text({ text, style: this.textStyle(size, color, bold) });
+    line.position.set(x, y);
+    this.content.addChild(line);
+  }
+}
@@ -0,0 +1,392 @@
+import { Container, Graphics, Text } from "pixi.js";
+import { Palette } from "./Palette";
+import { ModalPanel } from "./ModalPanel";
+import { Character } from "../entity/Character";
+import { Settlement, BUILDING_CONFIG } from "../world/Building";
+import { Property, WORKER_WAGE } from "../world/Property";
+import { MaterialType, getRecipeById, getMaterialName } from "../world/ProductionRecipe";
+import { PlayerProperty, PropertyOffer, PropertyResult } from "../game/PlayerProperty";
+
+/** Panel tabs. */
+type PropertyTab = "buildings" | "offers" | "ledger";
+
+/** Tab labels in button order. */
+const TABS: Array<[PropertyTab, string]> = [
+  ["buildings", "Buildings"],
+  ["offers", "Buy / Build"],
+  ["ledger", "Ledger"],
+];
+
+/** Rows shown per page in lists. */
+const ROWS_PER_PAGE = 12;
+
+/** Row height in pixels. */
+const ROW_HEIGHT = 28;
+
+/** Units moved by the warehouse buttons. */
+const TRANSFER_AMOUNT = 10;
+
+/** Width of the list of owned buildings. */
+const LIST_WIDTH = 250;
+
+/**
+ * Property panel — the player's buildings (recipe, staff and warehouse),
+ * buildings for sale or to commission in the current settlement, and the ledger.
+ */
+export class PropertyPanel extends ModalPanel {
+  private property: PlayerProperty;
+  private character: Character;
+  private settlements: Settlement[];
+
+  private tab: PropertyTab = "buildings";
+  private selectedId?: string;
+  private page: number = 0;
+
+  private content!: Container;
+  private contentArea = { x: 0, y: 0, width: 0, height: 0 };
+  private statusMessage: string = "";
+
+  /** Callback after a successful action (e.g. to re-render tiles). */
+  onChange?: (result: PropertyResult) => void;
+
+  constructor(
+    property: PlayerProperty,
+    character: Character,
+    settlements: Settlement[],
+    screenWidth: number,
+    screenHeight: number,
+  ) {
+    super("property-panel", "Property", 900, 620, screenWidth, screenHeight, ["p"]);
+    this.property = property;
+    this.character = character;
+    this.settlements = settlements;
+    this.rebuild();
+  }
+
+  /** Open the panel on the buildings of the current settlement (or the offers if there are none). */
+  open(): void {
+    const settlementId = this.character.currentTile.settlementId;
+    const local = settlementId !== undefined ? this.property.properties.getProperties(settlementId) : [];
+    this.tab = local.length === 0 && settlementId !== undefined ? "offers" : "buildings";
+    this.selectedId = local[0]?.id ?? this.selectedId;
+    this.page = 0;
+    this.statusMessage = "";
+    this.show();
+  }
+
+  /** Redraw tabs, the current tab and the status line. */
+  refresh(): void {
+    this.content.removeChildren();
+    const { x, y, width, height } = this.contentArea;
+
+    TABS.forEach(([tab, label], i) => {
+      const btn = this.createButton(label, 110, () => {
+        this.tab = tab;
+        this.page = 0;
+        this.refresh();
+      }, tab === this.tab ? 0x4a3a1a : 0x2d2d2d);
+      btn.position.set(x + i * 116, y);
+      this.content.addChild(btn);
+    });
+
+    const purse = new Text({ text: `Purse ${this.character.gold}g`, style: this.textStyle(13, Palette.uiText, true) });
+    purse.anchor.set(1, 0);
+    purse.position.set(x + width, y + 5);
+    this.content.addChild(purse);
+
+    const top = y + 40;
+    const bodyHeight = height - 40 - 30;
+    if (this.tab === "buildings") this.drawBuildings(x, top, bodyHeight);
+    else if (this.tab === "offers") this.drawOffers(x, top, width, bodyHeight);
+    else this.drawLedger(x, top, width, bodyHeight);
+
+    this.addLine(this.statusMessage, x, y + height - 22, Palette.uiText);
+  }
+
+  /** Reserve the content area; everything is drawn in refresh(). */
+  protected buildContent(x: number, y: number, width: number, height: number): void {
+    this.contentArea = { x, y, width, height };
+    this.content = new Container({ label: "property-content" });
+    this.container.addChild(this.content);
+  }
+
+  /** Owned buildings on the left, the selected one on the right. */
+  private drawBuildings(x: number, y: number, height: number): void {
+    const properties = this.property.properties.getProperties();
+    if (properties.length === 0) {
+      this.addLine("You own no buildings. Buy or commission one in a settlement.", x, y, Palette.uiDim);
+      return;
+    }
+
+    const selected = properties.find(p => p.id === this.selectedId) ?? properties[0];
+    this.selectedId = selected.id;
+
+    const pageCount = Math.max(1, Math.ceil(properties.length / ROWS_PER_PAGE));
+    this.page = Math.min(this.page, pageCount - 1);
+    properties.slice(this.page * ROWS_PER_PAGE, (this.page + 1) * ROWS_PER_PAGE).forEach((property, i) => {
+      const rowY = y + i * ROW_HEIGHT;
+      const bg = new Graphics();
+      bg.roundRect(x, rowY, LIST_WIDTH, ROW_HEIGHT - 4, 4);
+      bg.fill({ color: property === selected ? 0x4a3a1a : 0x1f1f1f, alpha: 0.9 });
+      bg.eventMode = "static";
+      bg.cursor = "pointer";
+      bg.on("pointerdown", (e) => {
+        e.stopPropagation();
+        this.selectedId = property.id;
+        this.statusMessage = "";
+        this.refresh();
+      });
+      this.content.addChild(bg);
+      const name = `${BUILDING_CONFIG[property.building].name} — ${this.settlements[property.settlementId].name}`;
+      this.addLine(name, x + 8, rowY + 5, Palette.uiText, 11);
+    });
+    if (pageCount > 1) this.addPaging(x, y + height - 28, LIST_WIDTH, pageCount);
+
+    this.drawDetails(selected, x + LIST_WIDTH + 20, y);
+  }
+
+  /** Status, recipe, staff and warehouse of a building. */
+  private drawDetails(property: Property, x: number, y: number): void {
+    const system = this.property.properties;
+    const settlement = this.settlements[property.settlementId];
+    this.addLine(`${BUILDING_CONFIG[property.building].name} in ${settlement.name}`, x, y, Palette.uiAccent, 14, true);
+    let rowY = y + 26;
+
+    if (system.isUnderConstruction(property)) {
+      this.addLine(`Under construction: ${property.workDone.toFixed(1)}/${property.workRequired} work`, x, rowY, 0xe8c060);
+      rowY += 22;
+      this.addLine(`${property.workers} builders last turn • ${WORKER_WAGE}g per builder per turn`, x, rowY, Palette.uiDim, 11);
+      return;
+    }
+
+    this.addLine(this.describeStatus(property), x, rowY, 0xe8c060);
+    rowY += 30;
+
+    // Recipe selector
+    const recipes = this.property.getRecipes(property);
+    const recipe = property.recipeId ? getRecipeById(property.recipeId) : undefined;
+    this.addLine("Recipe", x, rowY + 5, Palette.uiDim);
+    this.addSmallButton("<", x + 70, rowY, 30, () => this.cycleRecipe(property, -1));
+    this.addLine(recipe?.name ?? "Idle", x + 108, rowY + 5, Palette.uiText, 12, true);
+    this.addSmallButton(">", x + 300, rowY, 30, () => this.cycleRecipe(property, 1));
+    rowY += 30;
+    if (recipe) {
+      const items = (list: typeof recipe.inputs) => list.map(i => `${i.quantity} ${getMaterialName(i.type)}`).join(", ") || "nothing";
+      this.addLine(`${items(recipe.inputs)} → ${items(recipe.outputs)} (${recipe.productionTime} turns)`, x + 10, rowY, Palette.uiDim, 11);
+    } else if (recipes.length === 0) {
+      this.addLine("This building has no recipes", x + 10, rowY, Palette.uiDim, 11);
+    }
+    rowY += 26;
+
+    // Staff
+    const max = this.property.getMaxWorkers(property);
+    this.addLine("Workers", x, rowY + 5, Palette.uiDim);
+    this.addSmallButton("-", x + 70, rowY, 30, () => this.setHired(property, property.hired - 1));
+    this.addLine(`${property.hired}/${max}`, x + 112, rowY + 5, Palette.uiText, 12, true);
+    this.addSmallButton("+", x + 160, rowY, 30, () => this.setHired(property, property.hired + 1));
+    this.addLine(`${property.hired * WORKER_WAGE}g per turn`, x + 200, rowY + 5, Palette.uiDim, 11);
+    rowY += 30;
+    this.addLine(
+      `Last turn: ${property.workers} worked, productivity ${property.productivity.toFixed(2)}`,
+      x + 10, rowY, Palette.uiDim, 11
+    );
+    rowY += 30;
+
+    // Warehouse
+    this.addLine("Warehouse", x, rowY, Palette.uiAccent, 13, true);
+    this.addLine("Stored", x + 200, rowY, Palette.uiDim, 11);
+    this.addLine("Carried", x + 265, rowY, Palette.uiDim, 11);
+    rowY += 22;
+
+    const present = this.property.isPresent(property, this.character);
+    for (const material of this.getWarehouseMaterials(property)) {
+      const stored = Math.floor(property.warehouse.getMaterialAmount(material));
+      const carried = this.character.getCarriedAmount(material);
+      this.addLine(getMaterialName(material), x + 10, rowY + 5, Palette.uiText);
+      this.addLine(`${stored}`, x + 200, rowY + 5, Palette.uiText);
+      this.addLine(`${carried}`, x + 265, rowY + 5, Palette.uiText);
+      if (present) {
+        this.addSmallButton(`Store ${TRANSFER_AMOUNT}`, x + 330, rowY, 70, () => {
+          this.apply(this.property.store(property, this.character, material, TRANSFER_AMOUNT));
+        }, carried > 0);
+        this.addSmallButton(`Take ${TRANSFER_AMOUNT}`, x + 406, rowY, 70, () => {
+          this.apply(this.property.take(property, this.character, material, TRANSFER_AMOUNT));
+        }, stored > 0);
+        this.addSmallButton(`Sell ${TRANSFER_AMOUNT}`, x + 482, rowY, 70, () => {
+          this.apply(this.property.sell(property, this.character, material, TRANSFER_AMOUNT));
+        }, stored > 0);
+      }
+      rowY += ROW_HEIGHT;
+    }
+    if (!present) {
+      this.addLine(`Visit ${settlement.name} to stock the warehouse or sell its goods`, x + 10, rowY + 4, Palette.uiDim, 11);
+    }
+  }
+
+  /** Buildings for sale and to commission in the current settlement. */
+  private drawOffers(x: number, y: number, width: number, height: number): void {
+    const settlementId = this.character.currentTile.settlementId;
+    if (settlementId === undefined) {
+      this.addLine("Visit a settlement to buy or commission buildings.", x, y, Palette.uiDim);
+      return;
+    }
+
+    this.addLine(`Buildings in ${this.settlements[settlementId].name}`, x, y, Palette.uiAccent, 14, true);
+    this.addLine(
+      `Commissioned buildings need builders (${WORKER_WAGE}g each per turn) before they produce`,
+      x, y + 22, Palette.uiDim, 11
+    );
+    const offers = this.property.getOffers(settlementId);
+    const pageCount = Math.max(1, Math.ceil(offers.length / ROWS_PER_PAGE));
+    this.page = Math.min(this.page, pageCount - 1);
+
+    offers.slice(this.page * ROWS_PER_PAGE, (this.page + 1) * ROWS_PER_PAGE).forEach((offer, i) => {
+      const rowY = y + 46 + i * ROW_HEIGHT;
+      const bg = new Graphics();
+      bg.roundRect(x, rowY, width, ROW_HEIGHT - 4, 4);
+      bg.fill({ color: i % 2 === 0 ? 0x1f1f1f : 0x262626, alpha: 0.9 });
+      this.content.addChild(bg);
+
+      this.addLine(offer.kind === "purchase" ? "For sale" : "Commission", x + 10, rowY + 5, Palette.uiDim);
+      this.addLine(offer.name, x + 130, rowY + 5, Palette.uiText, 12, true);
+      this.addLine(`${offer.price}g`, x + 320, rowY + 5, 0xe8c060);
+      if (offer.unavailable) {
+        this.addLine(offer.unavailable, x + 400, rowY + 5, Palette.uiDim, 11);
+      } else {
+        this.addSmallButton(offer.kind === "purchase" ? "Buy" : "Build", x + width - 80, rowY, 70, () => {
+          this.takeOffer(settlementId, offer);
+        }, this.character.gold >= offer.price);
+      }
+    });
+
+    if (pageCount > 1) this.addPaging(x + width - 230, y + height - 28, 230, pageCount);
+  }
+
+  /** Totals and ledger entries, newest first. */
+  private drawLedger(x: number, y: number, width: number, height: number): void {
+    const { income, expenses } = this.property.properties.getTotals();
+    const net = income - expenses;
+    this.addLine(
+      `Income ${income}g • Expenses ${expenses}g • Net ${net >= 0 ? "+" : ""}${net}g`,
+      x, y, net >= 0 ? 0x90c060 : 0xc06050, 13, true
+    );
+
+    const ledger = this.property.properties.getLedger();
+    if (ledger.length === 0) {
+      this.addLine("Nothing recorded yet.", x, y + 30, Palette.uiDim);
+      return;
+    }
+
+    const pageCount = Math.max(1, Math.ceil(ledger.length / ROWS_PER_PAGE));
+    this.page = Math.min(this.page, pageCount - 1);
+    ledger.slice(this.page * ROWS_PER_PAGE, (this.page + 1) * ROWS_PER_PAGE).forEach((entry, i) => {
+      const rowY = y + 30 + i * 24;
+      const color = entry.kind === "income" ? 0x90c060 : entry.kind === "expense" ? 0xc06050 : Palette.uiText;
+      this.addLine(`T${entry.turn}`, x, rowY, Palette.uiDim, 11);
+      this.addLine(this.settlements[entry.settlementId]?.name ?? "?", x + 60, rowY, Palette.uiDim, 11);
+      this.addLine(entry.description, x + 200, rowY, color, 11);
+      if (entry.gold !== 0) {
+        const gold = new Text({ text: `${entry.gold > 0 ? "+" : ""}${entry.gold}g`, style: this.textStyle(11, color, true) });
+        gold.anchor.set(1, 0);
+        gold.position.set(x + width, rowY);
+        this.content.addChild(gold);
+      }
+    });
+    if (pageCount > 1) this.addPaging(x + width - 230, y + height - 28, 230, pageCount);
+  }
+
+  /** One-line summary of what a building is doing. */
+  private describeStatus(property: Property): string {
+    const job = property.warehouse.getProductionForBuilding(property.tile.col, property.tile.row);
+    if (job) {
+      return `Producing ${getRecipeById(job.recipeId)?.name ?? job.recipeId} (${job.ticksRemaining} turns left)`;
+    }
+    const recipe = property.recipeId ? getRecipeById(property.recipeId) : undefined;
+    if (!recipe) return "Idle — choose a recipe";
+    if (property.hired === 0) return "Idle — hire workers";
+    const missing = recipe.inputs.filter(input => property.warehouse.getMaterialAmount(input.type) < input.quantity);
+    if (missing.length > 0) {
+      return `Idle — warehouse needs ${missing.map(input => `${input.quantity} ${getMaterialName(input.type)}`).join(", ")}`;
+    }
+    return "Starts next turn";
+  }
+
+  /** Materials listed in the warehouse: stored goods and the recipe's inputs and outputs. */
+  private getWarehouseMaterials(property: Property): MaterialType[] {
+    const recipe = property.recipeId ? getRecipeById(property.recipeId) : undefined;
+    const materials: MaterialType[] = [
+      ...(recipe?.inputs.map(input => input.type) ?? []),
+      ...(recipe?.outputs.map(output => output.type) ?? []),
+      ...property.warehouse.getAllResources().map(r => r.type),
+      ...property.warehouse.getAllGoods().map(g => g.type),
+    ];
+    return materials.filter((material, i) => materials.indexOf(material) === i).slice(0, 8);
+  }
+
+  /** Pick the previous or next recipe (cycling through idle). */
+  private cycleRecipe(property: Property, step: number): void {
+    const ids: Array<string | undefined> = [undefined, ...this.property.getRecipes(property).map(r => r.id)];
+    const index = ids.indexOf(property.recipeId);
+    this.property.setRecipe(property, ids[(index + step + ids.length) % ids.length]);
+    this.statusMessage = "";
+    this.refresh();
+  }
+
+  /** Change the number of workers employed. */
+  private setHired(property: Property, count: number): void {
+    this.property.hire(property, count);
+    this.statusMessage = `${property.hired} workers will turn up next turn`;
+    this.refresh();
+  }
+
+  /** Buy or commission a building. */
+  private takeOffer(settlementId: number, offer: PropertyOffer): void {
+    const result = offer.kind === "purchase"
+      ? this.property.buy(settlementId, offer, this.character)
+      : this.property.commission(settlementId, offer.building, this.character);
+    if (result.success) {
+      this.selectedId = this.property.properties.getProperties(settlementId).slice(-1)[0]?.id;
+      this.tab = "buildings";
+      this.page = 0;
+    }
+    this.apply(result);
+  }
+
+  /** Show the outcome and redraw. */
+  private apply(result: PropertyResult): void {
+    this.statusMessage = result.message;
+    if (result.success) this.onChange?.(result);
+    this.refresh();
+  }
+
+  /** Draw a line of text. */
+  private addLine(text: string, x: number, y: number, color: number, size: number = 12, bold: boolean = false): void {
+    const line = new Text({ text, style: this.textStyle(size, color, bold) });
+    line.position.set(x, y);
+    this.content.addChild(line);
+  }
+
+  /** Add a small button (dimmed when it would do nothing). */
+  private addSmallButton(label: string, x: number, y: number, width: number, onClick: () => void, enabled: boolean = true): void {
+    const btn = this.createButton(label, width, onClick);
+    btn.position.set(x, y);
+    if (!enabled) btn.alpha = 0.4;
+    this.content.addChild(btn);
+  }
+
+  /** Previous / next page buttons. */
+  private addPaging(x: number, y: number, width: number, pageCount: number): void {
+    this.addSmallButton("< Prev", x + width - 230, y, 70, () => {
+      this.page = (this.page - 1 + pageCount) % pageCount;
+      this.refresh();
+    });
+    const pageText = new Text({ text: `${this.page + 1}/${pageCount}`, style: this.textStyle(12, Palette.uiText) });
+    pageText.anchor.set(0.5, 0);
+    pageText.position.set(x + width - 115, y + 6);
+    this.content.addChild(pageText);
+    this.addSmallButton("Next >", x + width - 70, y, 70, () => {
+      this.page = (this.page + 1) % pageCount;
+      this.refresh();
+    });
+  }
+}
@@ -0,0 +1,177 @@
+import { Container, Graphics, Text } from "pixi.js";
+import { Palette } from "./Palette";
+import { ModalPanel } from "./ModalPanel";
+import { Character } from "../entity/Character";
+import { Settlement } from "../world/Building";
+import { Quest, QuestResult, QuestSystem, MAX_ACTIVE_QUESTS } from "../game/Quests";
+
+/** Row height in pixels. */
+const ROW_HEIGHT = 28;
+
+/** Finished quests listed at the bottom of the journal. */
+const HISTORY_ROWS = 4;
+
+/** Longest quest title shown before it is cut off. */
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Quest panel — the quest board of the settlement the character stands in,
+ * and the journal of quests in progress and recently finished.
+ */
+export class QuestPanel extends ModalPanel {
+  private quests: QuestSystem;
+  private character: Character;
+  private settlements: Settlement[];
+
+  private content!: Container;
+  private contentArea = { x: 0, y: 0, width: 0, height: 0 };
+  private statusMessage: string = "";
+
+  /** Callback after a quest was accepted, delivered or abandoned. */
+  onChange?: (result: QuestResult) => void;
+
+  constructor(
+    quests: QuestSystem,
+    character: Character,
+    settlements: Settlement[],
+    screenWidth: number,
+    screenHeight: number,
+  ) {
+    super("quest-panel", "Quests", 820, 600, screenWidth, screenHeight, ["j"]);
+    this.quests = quests;
+    this.character = character;
+    this.settlements = settlements;
+    this.rebuild();
+  }
+
+  /** Open the panel with a clear status line. */
+  open(): void {
+    this.statusMessage = "";
+    this.show();
+  }
+
+  /** Redraw board, journal and status line. */
+  refresh(): void {
+    this.content.removeChildren();
+    const { x, y, width, height } = this.contentArea;
+    const turn = this.character.turn;
+    let rowY = y;
+
+    // Quest board of the current settlement
+    const settlementId = this.character.currentTile.settlementId;
+    const board = settlementId !== undefined ? this.quests.getBoard(settlementId, turn) : [];
+    this.addHeader(
+      settlementId !== undefined ? `Quest Board — ${this.settlements[settlementId].name}` : "Quest Board",
+      x,
+      rowY,
+    );
+    rowY += 26;
+
+    if (settlementId === undefined) {
+      this.addLine("Visit a settlement to see the work it offers.", x, rowY, Palette.uiDim);
+      rowY += ROW_HEIGHT;
+    } else if (!this.quests.isOffering(settlementId)) {
+      this.addLine(`${this.settlements[settlementId].name} does not trust you with work.`, x, rowY, Palette.uiDim);
+      rowY += ROW_HEIGHT;
+    } else if (board.length === 0) {
+      this.addLine("No work on offer right now.", x, rowY, Palette.uiDim);
+      rowY += ROW_HEIGHT;
+    }
+
+    board.forEach((quest, i) => {
+      this.addRow(quest, `${quest.duration} turns`, x, rowY, width, i);
+      this.addRowButton("Accept", x + width - 150, rowY, () => this.apply(this.quests.accept(quest.id, turn)), 0x2d4a2d);
+      rowY += ROW_HEIGHT;
+    });
+
+    // Journal
+    rowY += 14;
+    const active = this.quests.getActive();
+    this.addHeader(`Journal (${active.length}/${MAX_ACTIVE_QUESTS})`, x, rowY);
+    rowY += 26;
+
+    if (active.length === 0) {
+      this.addLine("No quests in progress.", x, rowY, Palette.uiDim);
+      rowY += ROW_HEIGHT;
+    }
+
+    active.forEach((quest, i) => {
+      const left = this.quests.getTurnsLeft(quest, turn);
+      this.addRow(quest, left === 0 ? "last turn" : `${left} turns left`, x, rowY, width, i);
+      if (quest.material) {
+        const deliver = this.addRowButton("Deliver", x + width - 150, rowY, () => {
+          this.apply(this.quests.deliver(quest.id, this.character));
+        }, 0x2d4a2d);
+        if (!this.quests.canDeliver(quest, this.character)) deliver.alpha = 0.4;
+      }
+      this.addRowButton("Abandon", x + width - 74, rowY, () => this.apply(this.quests.abandon(quest.id)), 0x4a2d2d);
+      rowY += ROW_HEIGHT;
+    });
+
+    // Recently finished
+    const history = this.quests.getHistory().slice(0, HISTORY_ROWS);
+    if (history.length > 0) rowY += 8;
+    for (const quest of history) {
+      const mark = quest.status === "completed" ? "✓" : "✗";
+      const color = quest.status === "completed" ? 0x90c060 : 0xc06050;
+      this.addLine(`${mark} ${this.shorten(quest.title)} (${quest.status})`, x + 10, rowY, color, 11);
+      rowY += 18;
+    }
+
+    const status = new Text({ text: this.statusMessage, style: this.textStyle(12, Palette.uiText) });
+    status.position.set(x, y + height - 22);
+    this.content.addChild(status);
+  }
+
+  /** Reserve the content area; everything is drawn in refresh(). */
+  protected buildContent(x: number, y: number, width: number, height: number): void {
+    this.contentArea = { x, y, width, height };
+    this.content = new Container({ label: "quest-content" });
+    this.container.addChild(this.content);
+  }
+
+  /** Draw a quest row: title, reward and time. */
+  private addRow(quest: Quest, time: string, x: number, rowY: number, width: number, index: number): void {
+    const bg = new Graphics();
+    bg.roundRect(x, rowY, width, ROW_HEIGHT - 4, 4);
+    bg.fill({ color: index % 2 === 0 ? 0x1f1f1f : 0x262626, alpha: 0.9 });
+    this.content.addChild(bg);
+
+    this.addLine(this.shorten(quest.title), x + 10, rowY + 5, Palette.uiText);
+    this.addLine(`${quest.reward}g`, x + 470, rowY + 5, 0xe8c060);
+    this.addLine(time, x + 530, rowY + 5, 0x999999);
+  }
+
+  /** Draw a section header. */
+  private addHeader(text: string, x: number, y: number): void {
+    this.addLine(text, x, y, Palette.uiAccent, 14, true);
+  }
+
+  /** Draw a line of text. */
+  private addLine(text: string, x: number, y: number, color: number, size: number = 12, bold: boolean = false): void {
+    const line = new Text({ text, style: this.textStyle(size, color, bold) });
+    line.position.set(x, y);
+    this.content.addChild(line);
+  }
+
+  /** Add a small row button. */
+  private addRowButton(label: string, x: number, rowY: number, onClick: () => void, color?: number): Container {
+    const btn = this.createButton(label, 70, onClick, color);
+    btn.scale.set(0.85);
+    btn.position.set(x, rowY + 1);
+    this.content.addChild(btn);
+    return btn;
+  }
+
+  /** Show the outcome and redraw. */
+  private apply(result: QuestResult): void {
+    this.statusMessage = result.message;
+    if (result.success) this.onChange?.(result);
+    this.refresh();
+  }
+
+  /** Cut off long titles. */
+  private shorten(title: string): string {
+    return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title;
+  }
+}
@@ -0,0 +1,152 @@
+import { Container, Graphics, Text } from "pixi.js";
+import { Palette } from "./Palette";
+import { ModalPanel } from "./ModalPanel";
+import { Settlement } from "../world/Building";
+import { ReputationSystem, STANDING_CONFIG, MAX_REPUTATION } from "../game/Reputation";
+
+/** Rows shown per page. */
+const ROWS_PER_PAGE = 15;
+
+/** Row height in pixels. */
+const ROW_HEIGHT = 26;
+
+/** Width of a reputation bar in pixels. */
+const BAR_WIDTH = 200;
+
+/**
+ * A row of the relations list: a settlement group or one of its members
+ */
+interface RelationsRow {
+  settlementId: number;
+  group: boolean;
+  name: string;
+  reputation: number;
+}
+
+/**
+ * Relations panel — the player's reputation with every settlement,
+ * grouped by city and its satellite villages.
+ */
+export class RelationsPanel extends ModalPanel {
+  private reputation: ReputationSystem;
+  private settlements: Settlement[];
+  private page: number = 0;
+
+  private content!: Container;
+  private contentArea = { x: 0, y: 0, width: 0, height: 0 };
+
+  constructor(
+    reputation: ReputationSystem,
+    settlements: Settlement[],
+    screenWidth: number,
+    screenHeight: number,
+  ) {
+    super("relations-panel", "Relations", 720, 560, screenWidth, screenHeight, ["f"]);
+    this.reputation = reputation;
+    this.settlements = settlements;
+    this.rebuild();
+  }
+
+  /** Redraw the list of groups and settlements. */
+  refresh(): void {
+    this.content.removeChildren();
+    const { x, y, width, height } = this.contentArea;
+
+    const rows: RelationsRow[] = this.reputation.getGroups().flatMap((group) => [
+      { settlementId: group.leaderId, group: true, name: `${group.name} group`, reputation: group.reputation },
+      ...group.memberIds.map((id) => ({
+        settlementId: id,
+        group: false,
+        name: `${this.settlements[id].name} (${this.settlements[id].type})`,
+        reputation: this.reputation.getReputation(id),
+      })),
+    ]);
+
+    const pageCount = Math.max(1, Math.ceil(rows.length / ROWS_PER_PAGE));
+    this.page = Math.min(this.page, pageCount - 1);
+
+    rows.slice(this.page * ROWS_PER_PAGE, (this.page + 1) * ROWS_PER_PAGE).forEach((row, i) => {
+      const rowY = y + i * ROW_HEIGHT;
+
+      if (row.group) {
+        const bg = new Graphics();
+        bg.roundRect(x, rowY, width, ROW_HEIGHT - 4, 4);
+        bg.fill({ color: 0x1a1a1a, alpha: 0.6 });
+        this.content.addChild(bg);
+      }
+
+      const name = new Text({
+        text: row.name,
+        style: this.textStyle(row.group ? 13 : 12, row.group ? Palette.uiAccent : Palette.uiText, row.group),
+      });
+      name.position.set(x + (row.group ? 8 : 24), rowY + 4);
+      this.content.addChild(name);
+
+      this.addBar(row.reputation, x + 330, rowY + 6);
+
+      const standing = row.group ? undefined : STANDING_CONFIG[this.reputation.getStanding(row.settlementId)];
+      const value = new Text({
+        text: `${row.reputation >= 0 ? "+" : ""}${Math.round(row.reputation)}${standing ? `  ${standing.name}` : ""}`,
+        style: this.textStyle(12, standing?.color ?? Palette.uiDim, !!standing),
+      });
+      value.position.set(x + 330 + BAR_WIDTH + 12, rowY + 4);
+      this.content.addChild(value);
+    });
+
+    // Paging
+    const footerY = y + height - 28;
+    const legend = new Text({
+      text: "Quests, fair trade and fights against bandits raise your standing",
+      style: this.textStyle(11, Palette.uiDim),
+    });
+    legend.position.set(x, footerY + 6);
+    this.content.addChild(legend);
+
+    if (pageCount > 1) {
+      const prev = this.createButton("< Prev", 70, () => {
+        this.page = (this.page - 1 + pageCount) % pageCount;
+        this.refresh();
+      });
+      prev.position.set(x + width - 230, footerY);
+      this.content.addChild(prev);
+
+      const pageText = new Text({ text: `${this.page + 1}/${pageCount}`, style: this.textStyle(12, Palette.uiText) });
+      pageText.anchor.set(0.5, 0);
+      pageText.position.set(x + width - 115, footerY + 6);
+      this.content.addChild(pageText);
+
+      const next = this.createButton("Next >", 70, () => {
+        this.page = (this.page + 1) % pageCount;
+        this.refresh();
+      });
+      next.position.set(x + width - 70, footerY);
+      this.content.addChild(next);
+    }
+  }
+
+  /** Reserve the content area; everything is drawn in refresh(). */
+  protected buildContent(x: number, y: number, width: number, height: number): void {
+    this.contentArea = { x, y, width, height };
+    this.content = new Container({ label: "relations-content" });
+    this.container.addChild(this.content);
+  }
+
+  /** Draw a reputation bar centered on 0 (red to the left, green to the right). */
+  private addBar(reputation: number, x: number, y: number): void {
+    const bar = new Graphics();
+    bar.rect(x, y, BAR_WIDTH, 10);
+    bar.fill({ color: 0x2d2d2d });
+
+    const half = BAR_WIDTH / 2;
+    const length = (Math.abs(reputation) / MAX_REPUTATION) * half;
+    if (length > 0) {
+      bar.rect(reputation >= 0 ? x + half : x + half - length, y, length, 10);
+      bar.fill({ color: reputation >= 0 ? 0x5a9e3a : 0xe85040 });
+    }
+
+    bar.moveTo(x + half, y - 2);
+    bar.lineTo(x + half, y + 12);
+    bar.stroke({ color: Palette.uiAccent, width: 1 });
+    this.content.addChild(bar);
+  }
+}
@@ -0,0 +1,138 @@
+import { Container, Graphics, Text } from "pixi.js";
+import { Palette } from "./Palette";
+import { ModalPanel } from "./ModalPanel";
+import { SaveData, SaveStorage } from "../game/SaveGame";
+
+/** Maximum number of slots listed at once. */
+const MAX_VISIBLE_SLOTS = 9;
+
+/**
+ * Save / Load panel — lists named save slots and offers export/import of save files.
+ */
+export class SaveLoadPanel extends ModalPanel {
+  private storage: SaveStorage;
+  private slotList!: Container;
+  private statusText!: Text;
+
+  /** Callback to save the current game under a slot name. */
+  onSave?: (name: string) => void;
+
+  /** Callback to load a save (from a slot or an imported file). */
+  onLoad?: (data: SaveData) => void;
+
+  /** Callback to export the current game as a file. */
+  onExport?: () => void;
+
+  /** Default name suggested for a new save. */
+  defaultSaveName: () => string = () => "Save";
+
+  constructor(storage: SaveStorage, screenWidth: number, screenHeight: number) {
+    super("save-load-panel", "Save / Load", 640, 460, screenWidth, screenHeight, ["l"]);
+    this.storage = storage;
+    this.rebuild();
+  }
+
+  /** Refresh the slot list. */
+  refresh(): void {
+    this.slotList.removeChildren();
+
+    const slots = this.storage.listSlots();
+    if (slots.length === 0) {
+      const empty = new Text({ text: "No saved games yet.", style: this.textStyle(13, Palette.uiDim) });
+      this.slotList.addChild(empty);
+      return;
+    }
+
+    slots.slice(0, MAX_VISIBLE_SLOTS).forEach((slot, i) => {
+      const row = new Container({ label: `slot-${slot.name}` });
+      row.position.set(0, i * 34);
+
+      const bg = new Graphics();
+      bg.roundRect(0, 0, 592, 30, 5);
+      bg.fill({ color: 0x1f1f1f, alpha: 0.9 });
+      row.addChild(bg);
+
+      const name = new Text({ text: slot.name, style: this.textStyle(13, Palette.uiAccent, true) });
+      name.position.set(10, 7);
+      row.addChild(name);
+
+      const date = new Date(slot.savedAt).toLocaleString();
+      const info = new Text({
+        text: `Turn ${slot.turn} • ${slot.seed} • ${date}`,
+        style: this.textStyle(10, 0x999999),
+      });
+      info.position.set(200, 9);
+      row.addChild(info);
+
+      const loadBtn = this.createButton("Load", 56, () => this.loadSlot(slot.name));
+      loadBtn.position.set(470, 2);
+      row.addChild(loadBtn);
+
+      const deleteBtn = this.createButton("Del", 56, () => {
+        this.storage.deleteSlot(slot.name);
+        this.setStatus(`Deleted "${slot.name}"`);
+        this.refresh();
+      }, 0x5a1a1a);
+      deleteBtn.position.set(532, 2);
+      row.addChild(deleteBtn);
+
+      this.slotList.addChild(row);
+    });
+  }
+
+  /** Show a status line at the bottom of the panel. */
+  setStatus(text: string): void {
+    this.statusText.text = text;
+  }
+
+  /** Draw the action buttons, slot list and status line. */
+  protected buildContent(x: number, y: number, _width: number, height: number): void {
+    const saveBtn = this.createButton("Save New", 110, () => this.saveNew(), 0x2d4a2d);
+    saveBtn.position.set(x, y);
+    this.container.addChild(saveBtn);
+
+    const exportBtn = this.createButton("Export File", 120, () => this.onExport?.());
+    exportBtn.position.set(x + 120, y);
+    this.container.addChild(exportBtn);
+
+    const importBtn = this.createButton("Import File", 120, () => this.importFile());
+    importBtn.position.set(x + 250, y);
+    this.container.addChild(importBtn);
+
+    this.slotList = new Container({ label: "slot-list" });
+    this.slotList.position.set(x, y + 40);
+    this.container.addChild(this.slotList);
+
+    this.statusText = new Text({ text: "", style: this.textStyle(12, Palette.uiText) });
+    this.statusText.position.set(x, y + height - 18);
+    this.container.addChild(this.statusText);
+  }
+
+  /** Prompt for a slot name and save. */
+  private saveNew(): void {
+    const name = window.prompt("Save name:", this.defaultSaveName());
+    if (!name || !name.trim()) return;
+    this.onSave?.(name.trim());
+    this.refresh();
+  }
+
+  /** Load a named slot. */
+  private loadSlot(name: string): void {
+    try {
+      const data = this.storage.loadFromSlot(name);
+      this.onLoad?.(data);
+    } catch (err) {
+      this.setStatus(`Load failed: ${(err as Error).message}`);
+    }
+  }
+
+  /** Pick a save file from disk and load it. */
+  private async importFile(): Promise<void> {
+    try {
+      const data = await this.storage.importFromFile();
+      if (data) this.onLoad?.(data);
+    } catch (err) {
+      this.setStatus(`Import failed: ${(err as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,227 @@
+import { Container, Graphics, Text } from "pixi.js";
+import { Palette } from "./Palette";
+import { ModalPanel } from "./ModalPanel";
+import { StatisticsRecorder, StatMetric, STAT_METRIC_CONFIG } from "../game/Statistics";
+import { Settlement } from "../world/Building";
+import { RESOURCE_CONFIG, ResourceType } from "../world/Resource";
+import { GOOD_CONFIG, GoodType } from "../world/Goods";
+import { getRecipeById } from "../world/ProductionRecipe";
+
+/** Metrics in button order. */
+const METRICS = Object.keys(STAT_METRIC_CONFIG) as StatMetric[];
+
+/** Number of horizontal grid lines in the chart. */
+const CHART_GRID_LINES = 4;
+
+/**
+ * Statistics panel — charts the recorded per-turn history for one settlement or the whole world.
+ */
+export class StatisticsPanel extends ModalPanel {
+  private statistics: StatisticsRecorder;
+  private settlements: Settlement[];
+
+  private metric: StatMetric = "population";
+  private scope: number = -1; // Settlement index, -1 = world
+  private keyIndex: number = 0; // Selected material/recipe for keyed metrics
+
+  private content!: Container;
+  private contentArea = { x: 0, y: 0, width: 0, height: 0 };
+
+  constructor(
+    statistics: StatisticsRecorder,
+    settlements: Settlement[],
+    screenWidth: number,
+    screenHeight: number,
+  ) {
+    super("statistics-panel", "Statistics", 860, 560, screenWidth, screenHeight, ["g"]);
+    this.statistics = statistics;
+    this.settlements = settlements;
+    this.rebuild();
+  }
+
+  /** Show the panel focused on a settlement (or the world if undefined). */
+  showFor(settlementIndex?: number): void {
+    this.scope = settlementIndex ?? -1;
+    this.show();
+  }
+
+  /** Redraw selectors and chart from the current history. */
+  refresh(): void {
+    this.content.removeChildren();
+    const { x, y, width, height } = this.contentArea;
+
+    // Scope selector (world / settlement)
+    const scopeName = this.scope < 0
+      ? "World"
+      : `${this.settlements[this.scope]?.name ?? "?"} (${this.settlements[this.scope]?.type ?? "?"})`;
+    this.addSelector(x, y, "Scope", scopeName, (step) => this.cycleScope(step));
+
+    // Metric buttons
+    METRICS.forEach((metric, i) => {
+      const selected = metric === this.metric;
+      const btn = this.createButton(STAT_METRIC_CONFIG[metric].label, 86, () => {
+        this.metric = metric;
+        this.keyIndex = 0;
+        this.refresh();
+      }, selected ? 0x4a3a1a : 0x2d2d2d);
+      btn.position.set(x + i * 90, y + 34);
+      this.content.addChild(btn);
+    });
+
+    // Material / recipe selector for keyed metrics
+    let chartTop = y + 72;
+    let key: string | undefined;
+    if (STAT_METRIC_CONFIG[this.metric].keyed) {
+      const keys = this.statistics.getKeys(this.metric);
+      if (keys.length > 0) {
+        this.keyIndex = Math.min(this.keyIndex, keys.length - 1);
+        key = keys[this.keyIndex];
+      }
+      const keyLabel = key ? this.formatKey(key) : "(nothing recorded)";
+      this.addSelector(x, chartTop, this.metric === "production" ? "Recipe" : "Material", keyLabel, (step) => {
+        if (keys.length === 0) return;
+        this.keyIndex = (this.keyIndex + step + keys.length) % keys.length;
+        this.refresh();
+      });
+      chartTop += 34;
+    }
+
+    const settlementId = this.scope < 0 ? undefined : this.scope;
+    const series = this.statistics.getSeries(this.metric, settlementId, key);
+    this.drawChart(series, x, chartTop + 8, width, height - (chartTop - y) - 40);
+  }
+
+  /** Reserve the content area; everything is drawn in refresh(). */
+  protected buildContent(x: number, y: number, width: number, height: number): void {
+    this.contentArea = { x, y, width, height };
+    this.content = new Container({ label: "statistics-content" });
+    this.container.addChild(this.content);
+  }
+
+  /** Draw a "Label: [<] value [>]" selector row. */
+  private addSelector(x: number, y: number, label: string, value: string, onStep: (step: number) => void): void {
+    const labelText = new Text({ text: `${label}:`, style: this.textStyle(13, Palette.uiDim, true) });
+    labelText.position.set(x, y + 5);
+    this.content.addChild(labelText);
+
+    const prev = this.createButton("<", 28, () => onStep(-1));
+    prev.position.set(x + 90, y);
+    this.content.addChild(prev);
+
+    const valueText = new Text({ text: value, style: this.textStyle(13, Palette.uiAccent, true) });
+    valueText.position.set(x + 128, y + 5);
+    this.content.addChild(valueText);
+
+    const next = this.createButton(">", 28, () => onStep(1));
+    next.position.set(x + 128 + Math.max(200, valueText.width + 10), y);
+    this.content.addChild(next);
+  }
+
+  /** Move the scope through World → each settlement → World. */
+  private cycleScope(step: number): void {
+    const count = this.settlements.length + 1; // +1 for world
+    this.scope = ((this.scope + 1 + step + count) % count) - 1;
+    this.refresh();
+  }
+
+  /** Draw a line chart with value grid lines and turn labels. */
+  private drawChart(
+    series: Array<{ turn: number; value: number }>,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+  ): void {
+    const axisWidth = 60; // Room for value labels
+    const chartX = x + axisWidth;
+    const chartWidth = width - axisWidth;
+    const chartHeight = height - 20; // Room for turn labels
+
+    const frame = new Graphics();
+    frame.rect(chartX, y, chartWidth, chartHeight);
+    frame.fill({ color: 0x111122, alpha: 0.8 });
+    frame.rect(chartX, y, chartWidth, chartHeight);
+    frame.stroke({ color: Palette.uiDim, width: 1 });
+    this.content.addChild(frame);
+
+    if (series.length === 0) {
+      const empty = new Text({ text: "No turns recorded yet.", style: this.textStyle(13, Palette.uiDim) });
+      empty.position.set(chartX + 16, y + 16);
+      this.content.addChild(empty);
+      return;
+    }
+
+    const values = series.map(p => p.value);
+    const min = Math.min(0, ...values);
+    const max = Math.max(...values);
+    const range = max - min || 1;
+
+    // Grid lines with value labels
+    const grid = new Graphics();
+    for (let i = 0; i <= CHART_GRID_LINES; i++) {
+      const value = min + (range * i) / CHART_GRID_LINES;
+      const lineY = y + chartHeight - (chartHeight * i) / CHART_GRID_LINES;
+      grid.moveTo(chartX, lineY);
+      grid.lineTo(chartX + chartWidth, lineY);
+
+      const label = new Text({ text: this.formatValue(value), style: this.textStyle(10, 0x999999) });
+      label.anchor.set(1, 0.5);
+      label.position.set(chartX - 6, lineY);
+      this.content.addChild(label);
+    }
+    grid.stroke({ color: Palette.uiDim, width: 1, alpha: 0.3 });
+    this.content.addChild(grid);
+
+    // Series line
+    const line = new Graphics();
+    const stepX = series.length > 1 ? chartWidth / (series.length - 1) : 0;
+    series.forEach((point, i) => {
+      const px = chartX + i * stepX;
+      const py = y + chartHeight - ((point.value - min) / range) * chartHeight;
+      if (i === 0) {
+        line.moveTo(px, py);
+      } else {
+        line.lineTo(px, py);
+      }
+    });
+    if (series.length === 1) {
+      line.circle(chartX, y + chartHeight - ((series[0].value - min) / range) * chartHeight, 3);
+    }
+    line.stroke({ color: Palette.uiAccent, width: 2 });
+    this.content.addChild(line);
+
+    // Turn labels
+    const first = new Text({ text: `Turn ${series[0].turn}`, style: this.textStyle(10, 0x999999) });
+    first.position.set(chartX, y + chartHeight + 4);
+    this.content.addChild(first);
+
+    const last = new Text({ text: `Turn ${series[series.length - 1].turn}`, style: this.textStyle(10, 0x999999) });
+    last.anchor.set(1, 0);
+    last.position.set(chartX + chartWidth, y + chartHeight + 4);
+    this.content.addChild(last);
+
+    // Summary
+    const latest = values[values.length - 1];
+    const summary = new Text({
+      text: `Latest ${this.formatValue(latest)}   Min ${this.formatValue(Math.min(...values))}   Max ${this.formatValue(max)}   (${series.length} turns)`,
+      style: this.textStyle(12, Palette.uiText),
+    });
+    summary.position.set(chartX, y + chartHeight + 20);
+    this.content.addChild(summary);
+  }
+
+  /** Human-readable name for a material type or recipe ID. */
+  private formatKey(key: string): string {
+    if (this.metric === "production") {
+      return getRecipeById(key)?.name ?? key;
+    }
+    return RESOURCE_CONFIG[key as ResourceType]?.name ?? GOOD_CONFIG[key as GoodType]?.name ?? key;
+  }
+
+  /** Compact number formatting for axis labels. */
+  private formatValue(value: number): string {
+    if (Math.abs(value) >= 10000) return `${Math.round(value / 1000)}k`;
+    if (Math.abs(value) >= 100) return String(Math.round(value));
+    return String(Math.round(value * 10) / 10);
+  }
+}
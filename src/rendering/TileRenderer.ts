@@ -1,8 +1,10 @@
 import { Container, Graphics } from "pixi.js";
 import { HexTile, HEX_SIZE } from "../world/HexTile";
-import { TERRAIN_CONFIG, VegetationType } from "../world/Terrain";
+import { VegetationType } from "../world/Terrain";
 import { BuildingType, Settlement } from "../world/Building";
 import { WorldMap } from "../world/WorldMap";
+import { getDepositDisplayLevel } from "../world/ResourceDepletion";
+import { Season } from "../world/Calendar";
 import {
   hexIsoPosition,
   isoCorners,
@@ -44,6 +46,9 @@ export class TileRenderer {
   private buildingRenderer = new BuildingRenderer();
   private resourceRenderer = new ResourceRenderer();
 
+  /** Season the terrain is tinted for */
+  private season: Season = Season.Spring;
+
   constructor() {
     this.container = new Container({ label: "world-tiles" });
     this.roadContainer = new Container({ label: "roads" });
@@ -61,14 +66,25 @@ export class TileRenderer {
       a.row !== b.row ? a.row - b.row : a.col - b.col
     );
 
+    const riverLinks = this.collectRiverLinks(sorted);
+
     for (const hex of sorted) {
-      const gfx = this.createTileGraphic(hex);
+      const gfx = this.createTileGraphic(hex, riverLinks.get(hex) ?? []);
       const key = `${hex.col},${hex.row}`;
       this.tileGraphics.set(key, gfx);
       this.container.addChild(gfx);
     }
   }
 
+  /** Tint terrain for a season (rebuilds the tile graphics if they were already built). */
+  setSeason(season: Season, tiles: Iterable<HexTile>): void {
+    if (season === this.season) return;
+    this.season = season;
+    if (this.tileGraphics.size > 0) {
+      this.buildTiles(tiles);
+    }
+  }
+
   getTileGraphic(col: number, row: number): Graphics | undefined {
     return this.tileGraphics.get(`${col},${row}`);
   }
@@ -80,7 +96,30 @@ export class TileRenderer {
 
   // ─── Tile Creation ────────────────────────────────────────────
 
-  private createTileGraphic(hex: HexTile): Graphics {
+  /**
+   * The tiles each river tile's river connects to: where it flows on to, and
+   * the rivers flowing into it
+   */
+  private collectRiverLinks(tiles: HexTile[]): Map<HexTile, HexTile[]> {
+    const byKey = new Map(tiles.map((hex) => [`${hex.col},${hex.row}`, hex]));
+    const links = new Map<HexTile, HexTile[]>();
+    const link = (from: HexTile, to: HexTile) => {
+      const list = links.get(from);
+      if (list) list.push(to);
+      else links.set(from, [to]);
+    };
+
+    for (const hex of tiles) {
+      if (hex.riverFlow <= 0 || !hex.riverOutlet) continue;
+      const outlet = byKey.get(`${hex.riverOutlet.col},${hex.riverOutlet.row}`);
+      if (!outlet) continue;
+      link(hex, outlet);
+      if (outlet.riverFlow > 0) link(outlet, hex);
+    }
+    return links;
+  }
+
+  private createTileGraphic(hex: HexTile, riverLinks: HexTile[]): Graphics {
     const gfx = new Graphics();
 
     // Isometric corners (relative to hex position, squished y)
@@ -90,24 +129,29 @@ export class TileRenderer {
     // Use exact position - let antialiasing handle subpixel rendering
     gfx.position.set(pos.x, pos.y);
 
-    const config = TERRAIN_CONFIG[hex.terrain];
+    const baseColor = this.terrainRenderer.getSeasonalColor(
+      this.terrainRenderer.getBaseColor(hex),
+      hex.terrain,
+      this.season,
+      hex.biome
+    );
     const sideH = getTileSideHeight(hex.terrain);
 
     // Use exact corners - no expansion
     const renderCorners = corners;
 
     // 1) Side faces (drawn first so top face covers the joint)
-    this.terrainRenderer.drawSideFaces(gfx, hex, renderCorners, sideH, config.baseColor);
+    this.terrainRenderer.drawSideFaces(gfx, hex, renderCorners, sideH, baseColor);
 
     // 2) Top face fill with elevation-based lighting
     const elevation = getTerrainElevation(hex.terrain);
     const lightFactor = Math.max(0, Math.min(0.25, elevation * 0.015));
     const shadowFactor = Math.max(0, Math.min(0.35, -elevation * 0.04));
-    let topColor = config.baseColor;
+    let topColor = baseColor;
     if (lightFactor > 0) {
-      topColor = lightenColor(config.baseColor, lightFactor);
+      topColor = lightenColor(baseColor, lightFactor);
     } else if (shadowFactor > 0) {
-      topColor = darkenColor(config.baseColor, 1 - shadowFactor);
+      topColor = darkenColor(baseColor, 1 - shadowFactor);
     }
     
     // Draw top face as a single closed polygon without stroke
@@ -117,6 +161,11 @@ export class TileRenderer {
     // 3) Terrain detail on top face
     this.terrainRenderer.drawTerrainDetail(gfx, hex, corners);
 
+    // 4) River across the top face
+    if (riverLinks.length > 0) {
+      this.terrainRenderer.drawRiver(gfx, hex, corners, riverLinks, this.season);
+    }
+
     return gfx;
   }
 
@@ -233,6 +282,21 @@ export class TileRenderer {
     }
   }
 
+  /**
+   * Redraw the decorations of tiles whose building or settlement changed
+   * (e.g. after construction). Draw order stays as built.
+   */
+  redrawTiles(tiles: Iterable<HexTile>, allTiles: Iterable<HexTile>): void {
+    for (const hex of tiles) {
+      this.decorationGraphics.get(`${hex.col},${hex.row}`)?.clear();
+      this.drawVegetation(hex);
+      this.drawRocks(hex);
+      this.drawResource(hex);
+      this.drawBuilding(hex, allTiles);
+      this.drawSettlementPerimeter(hex, allTiles);
+    }
+  }
+
   /** Draw perimeter walls/fences for settlements */
   drawSettlementPerimeter(hex: HexTile, allTiles: Iterable<HexTile>): void {
     if (hex.settlementId === undefined) return;
@@ -274,6 +338,6 @@ export class TileRenderer {
     const cx = corners.reduce((s, c) => s + c.x, 0) / corners.length;
     const cy = corners.reduce((s, c) => s + c.y, 0) / corners.length;
 
-    this.resourceRenderer.drawResource(gfx, hex.resource.type, cx, cy);
+    this.resourceRenderer.drawResource(gfx, hex.resource.type, cx, cy, getDepositDisplayLevel(hex.resource));
   }
 }
@@ -0,0 +1,210 @@
+import { Container, Graphics, Text } from "pixi.js";
+import { Palette } from "./Palette";
+import { ModalPanel } from "./ModalPanel";
+import { Character } from "../entity/Character";
+import { Settlement } from "../world/Building";
+import { EconomyManager } from "../world/SettlementEconomy";
+import { PlayerTrade, PlayerTradeResult } from "../game/PlayerTrade";
+import { MaterialType } from "../world/ProductionRecipe";
+
+/** Material rows shown per page. */
+const ROWS_PER_PAGE = 12;
+
+/** Row height in pixels. */
+const ROW_HEIGHT = 28;
+
+/**
+ * Trade panel — buy and sell materials at the market of the settlement the character stands in.
+ */
+export class TradePanel extends ModalPanel {
+  private trade: PlayerTrade;
+  private character: Character;
+  private settlements: Settlement[];
+  private economyManager: EconomyManager;
+
+  private settlementId: number = -1;
+  private page: number = 0;
+
+  private content!: Container;
+  private contentArea = { x: 0, y: 0, width: 0, height: 0 };
+  private statusMessage: string = "";
+
+  /** Callback after a successful trade (e.g. to refresh the HUD). */
+  onTrade?: (result: PlayerTradeResult) => void;
+
+  constructor(
+    trade: PlayerTrade,
+    character: Character,
+    settlements: Settlement[],
+    economyManager: EconomyManager,
+    screenWidth: number,
+    screenHeight: number,
+  ) {
+    super("trade-panel", "Market", 860, 560, screenWidth, screenHeight, ["t"]);
+    this.trade = trade;
+    this.character = character;
+    this.settlements = settlements;
+    this.economyManager = economyManager;
+    this.rebuild();
+  }
+
+  /** Open the market of a settlement. */
+  open(settlementId: number): void {
+    this.settlementId = settlementId;
+    this.page = 0;
+    this.statusMessage = "";
+    this.show();
+  }
+
+  /** Redraw the header, price list and status line. */
+  refresh(): void {
+    this.content.removeChildren();
+    if (this.settlementId < 0) return;
+
+    const { x, y, width, height } = this.contentArea;
+    const settlement = this.settlements[this.settlementId];
+    const treasury = this.economyManager.getEconomy(this.settlementId)?.getTreasury() ?? 0;
+
+    const header = new Text({
+      text: `${settlement.name} (${settlement.type}) • Treasury ${Math.floor(treasury)}g`,
+      style: this.textStyle(14, Palette.uiAccent, true),
+    });
+    header.position.set(x, y);
+    this.content.addChild(header);
+
+    const purse = new Text({
+      text: `Purse ${this.character.gold}g • Load ${this.formatNumber(this.character.getCarriedWeight())}/${this.character.carryCapacity} wt${this.character.getLoadPenalty() > 0 ? " (heavy)" : ""}`,
+      style: this.textStyle(13, Palette.uiText, true),
+    });
+    purse.anchor.set(1, 0);
+    purse.position.set(x + width, y);
+    this.content.addChild(purse);
+
+    // Column headers
+    const columns = this.getColumns(x);
+    const headerY = y + 30;
+    for (const [label, colX] of [
+      ["Material", columns.name], ["Stock", columns.stock], ["Buy", columns.buy],
+      ["Sell", columns.sell], ["Carried", columns.carried], ["Wt", columns.weight],
+    ] as Array<[string, number]>) {
+      const text = new Text({ text: label, style: this.textStyle(11, Palette.uiDim, true) });
+      text.position.set(colX, headerY);
+      this.content.addChild(text);
+    }
+
+    const quotes = this.trade.getQuotes(this.settlementId, this.character);
+    const pageCount = Math.max(1, Math.ceil(quotes.length / ROWS_PER_PAGE));
+    this.page = Math.min(this.page, pageCount - 1);
+
+    if (quotes.length === 0) {
+      const empty = new Text({ text: "Nothing for sale here.", style: this.textStyle(13, Palette.uiDim) });
+      empty.position.set(x, headerY + 24);
+      this.content.addChild(empty);
+    }
+
+    quotes.slice(this.page * ROWS_PER_PAGE, (this.page + 1) * ROWS_PER_PAGE).forEach((quote, i) => {
+      const rowY = headerY + 20 + i * ROW_HEIGHT;
+
+      const bg = new Graphics();
+      bg.roundRect(x, rowY, width, ROW_HEIGHT - 4, 4);
+      bg.fill({ color: i % 2 === 0 ? 0x1f1f1f : 0x262626, alpha: 0.9 });
+      this.content.addChild(bg);
+
+      const cells: Array<[string, number, number]> = [
+        [quote.name, columns.name, Palette.uiText],
+        [String(quote.stock), columns.stock, Palette.uiText],
+        [`${this.formatNumber(quote.buyPrice)}g`, columns.buy, 0xe8c060],
+        [`${this.formatNumber(quote.sellPrice)}g`, columns.sell, 0x90c060],
+        [String(quote.carried), columns.carried, quote.carried > 0 ? Palette.uiAccent : Palette.uiDim],
+        [this.formatNumber(quote.weight), columns.weight, 0x999999],
+      ];
+      for (const [text, colX, color] of cells) {
+        const cell = new Text({ text, style: this.textStyle(12, color) });
+        cell.position.set(colX, rowY + 5);
+        this.content.addChild(cell);
+      }
+
+      this.addTradeButton("Buy 1", columns.actions, rowY, () => this.buy(quote.material, 1));
+      this.addTradeButton("Buy 10", columns.actions + 64, rowY, () => this.buy(quote.material, 10));
+      this.addTradeButton("Sell 1", columns.actions + 136, rowY, () => this.sell(quote.material, 1), 0x2d4a2d);
+      this.addTradeButton("Sell 10", columns.actions + 200, rowY, () => this.sell(quote.material, 10), 0x2d4a2d);
+    });
+
+    // Paging
+    const footerY = y + height - 28;
+    if (pageCount > 1) {
+      const prev = this.createButton("< Prev", 70, () => {
+        this.page = (this.page - 1 + pageCount) % pageCount;
+        this.refresh();
+      });
+      prev.position.set(x + width - 230, footerY);
+      this.content.addChild(prev);
+
+      const pageText = new Text({ text: `${this.page + 1}/${pageCount}`, style: this.textStyle(12, Palette.uiText) });
+      pageText.anchor.set(0.5, 0);
+      pageText.position.set(x + width - 115, footerY + 6);
+      this.content.addChild(pageText);
+
+      const next = this.createButton("Next >", 70, () => {
+        this.page = (this.page + 1) % pageCount;
+        this.refresh();
+      });
+      next.position.set(x + width - 70, footerY);
+      this.content.addChild(next);
+    }
+
+    const status = new Text({ text: this.statusMessage, style: this.textStyle(12, Palette.uiText) });
+    status.position.set(x, footerY + 6);
+    this.content.addChild(status);
+  }
+
+  /** Reserve the content area; everything is drawn in refresh(). */
+  protected buildContent(x: number, y: number, width: number, height: number): void {
+    this.contentArea = { x, y, width, height };
+    this.content = new Container({ label: "trade-content" });
+    this.container.addChild(this.content);
+  }
+
+  /** Column x positions. */
+  private getColumns(x: number) {
+    return {
+      name: x + 10,
+      stock: x + 190,
+      buy: x + 260,
+      sell: x + 330,
+      carried: x + 400,
+      weight: x + 470,
+      actions: x + 520,
+    };
+  }
+
+  /** Add a small row button. */
+  private addTradeButton(label: string, x: number, rowY: number, onClick: () => void, color?: number): void {
+    const btn = this.createButton(label, label.length > 5 ? 66 : 58, onClick, color);
+    btn.scale.set(0.85);
+    btn.position.set(x, rowY + 1);
+    this.content.addChild(btn);
+  }
+
+  /** Buy from the settlement. */
+  private buy(material: MaterialType, quantity: number): void {
+    this.applyResult(this.trade.buy(this.settlementId, this.character, material, quantity));
+  }
+
+  /** Sell to the settlement. */
+  private sell(material: MaterialType, quantity: number): void {
+    this.applyResult(this.trade.sell(this.settlementId, this.character, material, quantity));
+  }
+
+  /** Show the outcome and redraw. */
+  private applyResult(result: PlayerTradeResult): void {
+    this.statusMessage = result.message;
+    if (result.success) this.onTrade?.(result);
+    this.refresh();
+  }
+
+  /** Format a number with at most one decimal. */
+  private formatNumber(value: number): string {
+    return String(Math.round(value * 10) / 10);
+  }
+}
@@ -2,6 +2,7 @@ import { Container, Graphics, Text } from "pixi.js";
 import { Palette } from "./Palette";
 import { hexIsoCenter } from "./Isometric";
 import { Trader } from "../world/trade/Trader";
+import { isWater } from "../world/Terrain";
 
 /**
  * Renders all traders on the map
@@ -74,6 +75,11 @@ export class TraderRenderer {
    * Draw a trader sprite
    */
   private drawTrader(g: Graphics, trader: Trader): void {
+    if (trader.ship && isWater(trader.currentTile.terrain)) {
+      this.drawShip(g, trader);
+      return;
+    }
+    
     // Shadow
     g.ellipse(0, 6, 8, 3);
     g.fill({ color: 0x000000, alpha: 0.3 });
@@ -83,9 +89,13 @@ export class TraderRenderer {
     g.roundRect(-4, -8, 8, 10, 1);
     g.fill(0x8b4513); // Brown for cargo
     
-    // Tunic (merchant colors)
+    // Tunic (merchant colors; the player's caravans wear the player's red)
     g.roundRect(-3, -6, 6, 8, 1);
-    g.fill(trader.state === "idle" ? 0x4169E1 : 0x2E8B57); // Blue idle, green traveling
+    if (trader.route) {
+      g.fill(Palette.character);
+    } else {
+      g.fill(trader.state === "idle" ? 0x4169E1 : 0x2E8B57); // Blue idle, green traveling
+    }
     
     // Head
     g.circle(0, -11, 3);
@@ -121,6 +131,58 @@ export class TraderRenderer {
     
     g.circle(-6, -10, 2);
     g.fill(stateColor);
+    
+    // Pennant over the player's caravans
+    if (trader.route) {
+      g.moveTo(-5, -8);
+      g.lineTo(-5, -20);
+      g.stroke({ color: 0x654321, width: 1 });
+      g.moveTo(-5, -20);
+      g.lineTo(1, -18);
+      g.lineTo(-5, -16);
+      g.fill(Palette.uiAccent);
+    }
+  }
+  
+  /**
+   * Draw a merchant ship under sail
+   */
+  private drawShip(g: Graphics, trader: Trader): void {
+    // Wake
+    g.ellipse(0, 6, 12, 3);
+    g.fill({ color: 0xFFFFFF, alpha: 0.25 });
+    
+    // Hull
+    g.moveTo(-11, 0);
+    g.lineTo(11, 0);
+    g.lineTo(7, 6);
+    g.lineTo(-7, 6);
+    g.fill(0x6B3E1F);
+    
+    // Mast
+    g.moveTo(0, 0);
+    g.lineTo(0, -24);
+    g.stroke({ color: 0x4A2E17, width: 1.5 });
+    
+    // Sail
+    g.moveTo(-7, -17);
+    g.lineTo(7, -17);
+    g.lineTo(6, -4);
+    g.lineTo(-6, -4);
+    g.fill(0xF5ECD7);
+    
+    // Cargo in the hold
+    if (trader.getCurrentLoad() > 0) {
+      g.rect(-5, -2, 4, 3);
+      g.rect(1, -2, 4, 3);
+      g.fill(0x8b4513);
+    }
+    
+    // Flag in the state color
+    g.moveTo(0, -24);
+    g.lineTo(5, -22);
+    g.lineTo(0, -20);
+    g.fill(trader.state === "idle" ? 0x4169E1 : 0x2E8B57);
   }
   
   /**
@@ -1,6 +1,7 @@
 import { Graphics } from "pixi.js";
 import { ResourceType, RESOURCE_CONFIG } from "../../world/Resource";
 import { HexTile } from "../../world/HexTile";
+import { DEPOSIT_DISPLAY_LEVELS } from "../../world/ResourceDepletion";
 
 /**
  * Renders resource icons on tiles.
@@ -9,8 +10,9 @@ import { HexTile } from "../../world/HexTile";
 export class ResourceRenderer {
   /**
    * Draw a resource icon at the specified position
+   * (with a depletion gauge below it when the deposit is no longer full)
    */
-  drawResource(gfx: Graphics, resource: ResourceType, cx: number, cy: number): void {
+  drawResource(gfx: Graphics, resource: ResourceType, cx: number, cy: number, level?: number): void {
     if (resource === ResourceType.None) return;
 
     const config = RESOURCE_CONFIG[resource];
@@ -53,6 +55,26 @@ export class ResourceRenderer {
         this.drawGemsIcon(gfx, cx, cy, config.color, config.accentColor);
         break;
     }
+
+    if (level !== undefined && level < DEPOSIT_DISPLAY_LEVELS) {
+      this.drawDepletionGauge(gfx, cx, cy + 10, level);
+    }
+  }
+
+  /**
+   * Depletion gauge - one pip per display level, filled pips show what is left
+   */
+  private drawDepletionGauge(gfx: Graphics, cx: number, cy: number, level: number): void {
+    const pipWidth = 3;
+    const gap = 1;
+    const totalWidth = DEPOSIT_DISPLAY_LEVELS * pipWidth + (DEPOSIT_DISPLAY_LEVELS - 1) * gap;
+    const left = cx - totalWidth / 2;
+    const color = level <= 1 ? 0xc04030 : level === 2 ? 0xd0a030 : 0x70b040;
+
+    for (let i = 0; i < DEPOSIT_DISPLAY_LEVELS; i++) {
+      gfx.rect(left + i * (pipWidth + gap), cy, pipWidth, 2);
+      gfx.fill({ color: i < level ? color : 0x303030, alpha: 0.9 });
+    }
   }
 
   /**
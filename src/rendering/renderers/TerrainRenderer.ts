@@ -1,8 +1,10 @@
 import { Graphics } from "pixi.js";
 import { HexTile, HEX_SIZE } from "../../world/HexTile";
-import { TerrainType } from "../../world/Terrain";
+import { TERRAIN_CONFIG, TerrainType } from "../../world/Terrain";
+import { BIOME_CONFIG, BiomeType } from "../../world/Biome";
 import { Palette } from "../Palette";
-import { darkenColor } from "../Isometric";
+import { darkenColor, blendColor, hexIsoCenter, getTerrainElevation } from "../Isometric";
+import { Season } from "../../world/Calendar";
 
 type Pt = { x: number; y: number };
 
@@ -10,6 +12,29 @@ type Pt = { x: number; y: number };
  * Handles rendering of terrain details (water, mountains, hills, shores, etc.)
  */
 export class TerrainRenderer {
+  /**
+   * Ground color of a tile: the terrain's color tinted by its biome
+   * (plains take the biome's color, hills and shores part of it, mountains only under snow)
+   */
+  getBaseColor(hex: HexTile): number {
+    const color = TERRAIN_CONFIG[hex.terrain].baseColor;
+    if (hex.biome === BiomeType.None || hex.biome === BiomeType.Temperate) return color;
+
+    const biomeColor = BIOME_CONFIG[hex.biome].baseColor;
+    switch (hex.terrain) {
+      case TerrainType.Plains:
+        return blendColor(color, biomeColor, 0.85);
+      case TerrainType.Hills:
+        return blendColor(color, biomeColor, 0.6);
+      case TerrainType.Shore:
+        return blendColor(color, biomeColor, 0.35);
+      case TerrainType.Mountains:
+        return blendColor(color, biomeColor, hex.biome === BiomeType.Snow ? 0.7 : 0.15);
+      default:
+        return color;
+    }
+  }
+
   /**
    * Draw terrain-specific details on the tile's top face
    */
@@ -31,9 +56,94 @@ export class TerrainRenderer {
       case TerrainType.Hills:
         this.drawHillDetail(gfx, cx, cy);
         break;
+      case TerrainType.Plains:
+        this.drawBiomeDetail(gfx, hex.biome, cx, cy);
+        break;
     }
   }
 
+  /**
+   * Draw a river across the tile's top face, from the edges its tributaries
+   * come in at to the edge it flows out at (wider downstream, stones at fords)
+   */
+  drawRiver(gfx: Graphics, hex: HexTile, corners: Pt[], links: HexTile[], season: Season): void {
+    const cx = corners.reduce((s, c) => s + c.x, 0) / corners.length;
+    const cy = corners.reduce((s, c) => s + c.y, 0) / corners.length;
+
+    // Midpoint of the edge shared with a linked tile (ignoring the tiles' elevation offsets)
+    const center = hexIsoCenter(hex);
+    const edgeToward = (link: HexTile): Pt => {
+      const other = hexIsoCenter(link);
+      const dy = other.y + getTerrainElevation(link.terrain) - center.y - getTerrainElevation(hex.terrain);
+      return { x: cx + (other.x - center.x) / 2, y: cy + dy / 2 };
+    };
+
+    const outlet = links.find((l) => l.col === hex.riverOutlet?.col && l.row === hex.riverOutlet?.row);
+    const inflows = links.filter((l) => l !== outlet).map(edgeToward);
+    const mouth = outlet ? edgeToward(outlet) : { x: cx, y: cy };
+    const width = 2 + Math.min(4, hex.riverFlow / 6);
+    const water = this.getSeasonalColor(Palette.riverWater, TerrainType.ShallowWater, season);
+
+    // Banks first, then the water on top
+    const layers = [
+      { color: Palette.riverBank, width: width + 2, alpha: 0.6 },
+      { color: water, width, alpha: 1 },
+    ];
+    for (const layer of layers) {
+      if (inflows.length === 0) {
+        // Spring: the river starts in the middle of the tile
+        gfx.moveTo(cx, cy);
+        gfx.lineTo(mouth.x, mouth.y);
+      }
+      for (const inflow of inflows) {
+        gfx.moveTo(inflow.x, inflow.y);
+        gfx.quadraticCurveTo(cx, cy, mouth.x, mouth.y);
+      }
+      gfx.stroke({ color: layer.color, width: layer.width, alpha: layer.alpha, cap: "round", join: "round" });
+    }
+
+    if (inflows.length === 0) {
+      gfx.circle(cx, cy, width * 0.6);
+      gfx.fill({ color: water });
+    }
+
+    if (hex.isFord) {
+      for (const dx of [-3, 0, 3]) {
+        gfx.circle(cx + dx, cy + dx * 0.3, 1.2);
+        gfx.fill({ color: Palette.fordStone });
+      }
+    }
+  }
+
+  /**
+   * Tint a terrain color for the season (snow in winter, brown-gold grass in autumn)
+   */
+  getSeasonalColor(color: number, terrain: TerrainType, season: Season, biome: BiomeType = BiomeType.Temperate): number {
+    // No snow or autumn in the desert and the jungle
+    if (biome === BiomeType.Desert || biome === BiomeType.Jungle) return color;
+
+    if (season === Season.Winter) {
+      switch (terrain) {
+        case TerrainType.DeepWater:
+          return color;
+        case TerrainType.ShallowWater:
+          return blendColor(color, Palette.winterIce, 0.25);
+        case TerrainType.Shore:
+          return blendColor(color, Palette.winterSnow, 0.45);
+        case TerrainType.Mountains:
+          return blendColor(color, Palette.winterSnow, 0.75);
+        default:
+          return blendColor(color, Palette.winterSnow, 0.65);
+      }
+    }
+
+    if (season === Season.Autumn && (terrain === TerrainType.Plains || terrain === TerrainType.Hills)) {
+      return blendColor(color, Palette.autumnLeaves, 0.4);
+    }
+
+    return color;
+  }
+
   /**
    * Draw the isometric side walls of a tile
    */
@@ -140,6 +250,50 @@ export class TerrainRenderer {
     gfx.fill({ color: Palette.mountainSnow, alpha: 0.85 });
   }
 
+  /** Ground marks of a plains biome (dunes, puddles, tussocks, lichen). */
+  private drawBiomeDetail(gfx: Graphics, biome: BiomeType, cx: number, cy: number): void {
+    const s = HEX_SIZE * 0.22;
+    const accent = BIOME_CONFIG[biome].accentColor;
+
+    switch (biome) {
+      case BiomeType.Desert:
+        // Dune ridges
+        gfx.moveTo(cx - s, cy + 1);
+        gfx.bezierCurveTo(cx - s / 2, cy - 3, cx, cy - 3, cx + s * 0.4, cy + 1);
+        gfx.stroke({ color: accent, width: 1.5, alpha: 0.6 });
+        gfx.moveTo(cx - s * 0.2, cy + 5);
+        gfx.bezierCurveTo(cx + s * 0.2, cy + 2, cx + s * 0.6, cy + 2, cx + s, cy + 5);
+        gfx.stroke({ color: accent, width: 1, alpha: 0.45 });
+        break;
+      case BiomeType.Marsh:
+        // Pools of standing water
+        gfx.ellipse(cx - s * 0.4, cy, s * 0.45, s * 0.18);
+        gfx.fill({ color: accent, alpha: 0.7 });
+        gfx.ellipse(cx + s * 0.5, cy + s * 0.3, s * 0.3, s * 0.12);
+        gfx.fill({ color: accent, alpha: 0.55 });
+        break;
+      case BiomeType.Steppe:
+        // Grass tussocks
+        for (const dx of [-0.6, 0, 0.55]) {
+          const x = cx + s * dx;
+          const y = cy + s * (dx === 0 ? -0.2 : 0.25);
+          gfx.moveTo(x - 2, y);
+          gfx.lineTo(x, y - 3);
+          gfx.lineTo(x + 2, y);
+          gfx.stroke({ color: accent, width: 1, alpha: 0.6 });
+        }
+        break;
+      case BiomeType.Tundra:
+      case BiomeType.Snow:
+        // Lichen patches or drifts
+        for (const d of [{ x: -0.5, y: 0 }, { x: 0.4, y: -0.25 }, { x: 0.1, y: 0.35 }]) {
+          gfx.ellipse(cx + s * d.x, cy + s * d.y, 2.5, 1.2);
+          gfx.fill({ color: accent, alpha: 0.5 });
+        }
+        break;
+    }
+  }
+
   private drawHillDetail(gfx: Graphics, cx: number, cy: number): void {
     const s = HEX_SIZE * 0.16;
     // Isometric bumps (ellipses squished in y)
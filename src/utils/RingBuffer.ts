@@ -0,0 +1,46 @@
+/**
+ * Fixed-capacity buffer that overwrites its oldest entry when full.
+ */
+export class RingBuffer<T> {
+  readonly capacity: number;
+  private items: T[];
+  private start: number; // Index of the oldest entry
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+    this.items = [];
+    this.start = 0;
+  }
+
+  /** Add an entry, dropping the oldest one if the buffer is full. */
+  push(item: T): void {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+      return;
+    }
+    this.items[this.start] = item;
+    this.start = (this.start + 1) % this.capacity;
+  }
+
+  /** Number of stored entries. */
+  get size(): number {
+    return this.items.length;
+  }
+
+  /** Most recent entry (undefined if empty). */
+  latest(): T | undefined {
+    if (this.items.length === 0) return undefined;
+    return this.items[(this.start + this.items.length - 1) % this.items.length];
+  }
+
+  /** All entries, oldest first. */
+  toArray(): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+  }
+
+  /** Remove every entry. */
+  clear(): void {
+    this.items = [];
+    this.start = 0;
+  }
+}
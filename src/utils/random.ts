@@ -0,0 +1,54 @@
+import alea from "alea";
+
+/**
+ * Internal state of the generator — four numbers, safe to JSON-serialize.
+ */
+export type RandomState = [number, number, number, number];
+
+/**
+ * Seeded, serializable random number stream for the simulation.
+ * The game owns one stream and passes it to every system that rolls dice,
+ * so the same seed plus the same player inputs always gives the same world.
+ */
+export class SeededRandom {
+  private prng: ReturnType<typeof alea>;
+
+  constructor(seed: string) {
+    this.prng = alea(seed);
+  }
+
+  /** Next value in [0, 1). Drop-in replacement for Math.random(). */
+  next(): number {
+    return this.prng();
+  }
+
+  /** Integer in [0, maxExclusive). */
+  int(maxExclusive: number): number {
+    return Math.floor(this.prng() * maxExclusive);
+  }
+
+  /** True with the given probability (0-1). */
+  chance(probability: number): boolean {
+    return this.prng() < probability;
+  }
+
+  /** Pick a random element from a non-empty array. */
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  /** Short random identifier (for entity IDs). */
+  id(): string {
+    return this.prng.uint32().toString(36) + this.prng.uint32().toString(36);
+  }
+
+  /** Capture the stream position (for save games). */
+  getState(): RandomState {
+    return this.prng.exportState();
+  }
+
+  /** Continue from a captured stream position. */
+  setState(state: RandomState): void {
+    this.prng.importState(state);
+  }
+}
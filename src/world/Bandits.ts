@@ -0,0 +1,321 @@
+import { Grid } from "honeycomb-grid";
+import { HexTile } from "./HexTile";
+import { BuildingType, Settlement } from "./Building";
+import { TerrainType, isWater } from "./Terrain";
+import { getHexNeighbors, getHexDistance } from "./HexMapUtils";
+import { SeededRandom } from "../utils/random";
+
+/**
+ * A bandit camp in the wilderness, preying on nearby roads
+ */
+export interface BanditCamp {
+  id: string;
+  col: number;
+  row: number;
+}
+
+/**
+ * A manned military building and the hexes its patrols keep safe
+ */
+export interface PatrolPost {
+  tile: HexTile;
+  radius: number;
+}
+
+/**
+ * Serializable snapshot of the bandit system (used by save games)
+ */
+export interface BanditSaveState {
+  camps: BanditCamp[];
+}
+
+/**
+ * Hexes a camp raids around itself (danger fades with distance)
+ */
+export const CAMP_REACH = 4;
+
+/**
+ * Danger of any tile outside settlements, even without camps nearby
+ */
+export const WILDERNESS_DANGER = 0.05;
+
+/**
+ * Chance per turn that a trader on a tile of danger 1.0 is attacked
+ */
+export const ATTACK_CHANCE = 0.5;
+
+/**
+ * Share of cargo (or purse) bandits take in a robbery
+ */
+export const ROBBERY_LOSS = 0.5;
+
+/**
+ * Share of attacks an escort of hired guards fends off
+ */
+export const ESCORT_PROTECTION = 0.75;
+
+/**
+ * Trip risk above which a settlement hires guards to escort its trader
+ */
+export const ESCORT_RISK_THRESHOLD = 0.1;
+
+/**
+ * Gold per tile of the trip a settlement pays for an escort
+ */
+export const ESCORT_FEE_PER_TILE = 0.5;
+
+/**
+ * Tiles a trader covers in a typical turn (used to estimate route risk)
+ */
+const TRADER_TILES_PER_TURN = 3;
+
+/**
+ * Share of danger removed inside patrol coverage
+ */
+const PATROL_COVERAGE = 0.8;
+
+/**
+ * Camps never spawn closer than this to a settlement center
+ */
+const MIN_SETTLEMENT_DISTANCE = 6;
+
+/**
+ * Camps keep at least this far apart
+ */
+const MIN_CAMP_SPACING = 8;
+
+/**
+ * One camp per this many settlements (at least one)
+ */
+const SETTLEMENTS_PER_CAMP = 4;
+
+/**
+ * Chance per turn of a new camp while below the limit
+ */
+const CAMP_SPAWN_CHANCE = 0.05;
+
+/**
+ * Chance a trader is robbed at least once on a route of `distance` tiles
+ * whose average tile danger is `danger`
+ */
+export function getRouteRisk(danger: number, distance: number): number {
+  const turns = Math.max(1, Math.ceil(distance / TRADER_TILES_PER_TURN));
+  return 1 - Math.pow(1 - danger * ATTACK_CHANCE, turns);
+}
+
+/**
+ * Spawns bandit camps in the wilderness near roads and rates how dangerous
+ * each tile is (camps, terrain and patrol coverage by watchtowers and barracks).
+ */
+export class BanditSystem {
+  private camps: BanditCamp[] = [];
+
+  /** Danger per tile ("col,row"), cleared every turn. */
+  private dangerCache: Map<string, number> = new Map();
+
+  /** Patrol posts, cleared every turn. */
+  private patrolPosts: PatrolPost[] | null = null;
+
+  /** Manned military buildings that patrol their surroundings (none if unset). */
+  getPatrols?: (grid: Grid<HexTile>) => PatrolPost[];
+
+  /**
+   * Spawn the starting camps of a new game
+   */
+  initialize(grid: Grid<HexTile>, settlements: Settlement[], rng: SeededRandom): void {
+    this.camps = [];
+    this.invalidate();
+    const maxCamps = this.getMaxCamps(settlements);
+    while (this.camps.length < maxCamps && this.spawnCamp(grid, settlements, rng)) {
+      // Keep spawning until the limit or no site is left
+    }
+    console.log(`[Bandits] ${this.camps.length} bandit camps spawned`);
+  }
+
+  /**
+   * Advance one turn: maybe spawn a new camp
+   *
+   * @returns Tiles of newly spawned camps
+   */
+  processTurn(grid: Grid<HexTile>, settlements: Settlement[], rng: SeededRandom): HexTile[] {
+    this.invalidate();
+
+    if (this.camps.length >= this.getMaxCamps(settlements) || !rng.chance(CAMP_SPAWN_CHANCE)) {
+      return [];
+    }
+
+    const camp = this.spawnCamp(grid, settlements, rng);
+    if (!camp) return [];
+
+    const tile = grid.getHex({ col: camp.col, row: camp.row });
+    return tile ? [tile] : [];
+  }
+
+  /**
+   * All bandit camps
+   */
+  getCamps(): BanditCamp[] {
+    return this.camps;
+  }
+
+  /**
+   * Camp on a tile (if any)
+   */
+  getCampAt(col: number, row: number): BanditCamp | undefined {
+    return this.camps.find(camp => camp.col === col && camp.row === row);
+  }
+
+  /**
+   * Remove a camp (e.g. destroyed by the player)
+   *
+   * @returns Whether there was a camp on the tile
+   */
+  removeCamp(col: number, row: number): boolean {
+    const camp = this.getCampAt(col, row);
+    if (!camp) return false;
+
+    this.camps = this.camps.filter(other => other !== camp);
+    this.invalidate();
+    console.log(`[Bandits] Bandit camp at (${col}, ${row}) destroyed`);
+    return true;
+  }
+
+  /**
+   * Danger of a tile (0 = safe, 1 = deadly)
+   */
+  getTileDanger(grid: Grid<HexTile>, tile: HexTile): number {
+    const key = `${tile.col},${tile.row}`;
+    const cached = this.dangerCache.get(key);
+    if (cached !== undefined) return cached;
+
+    const danger = this.calculateTileDanger(grid, tile);
+    this.dangerCache.set(key, danger);
+    return danger;
+  }
+
+  /**
+   * Danger from nearby camps, scaled by terrain and reduced by patrols
+   */
+  private calculateTileDanger(grid: Grid<HexTile>, tile: HexTile): number {
+    if (tile.settlementId !== undefined || isWater(tile.terrain)) return 0;
+
+    // Nearest camp threatens most
+    let threat = WILDERNESS_DANGER;
+    for (const camp of this.camps) {
+      const campTile = grid.getHex({ col: camp.col, row: camp.row });
+      if (!campTile) continue;
+      const distance = getHexDistance(grid, tile, campTile);
+      if (distance <= CAMP_REACH) {
+        threat = Math.max(threat, 1 - distance / (CAMP_REACH + 1));
+      }
+    }
+
+    // Ambushes are easier in forests and hills, harder on open roads
+    let terrainFactor = 1;
+    if (tile.treeDensity >= 0.5) terrainFactor = 1.3;
+    else if (tile.terrain === TerrainType.Hills || tile.isRough) terrainFactor = 1.2;
+    if (tile.hasRoad) terrainFactor *= 0.8;
+
+    // Patrols from manned watchtowers and barracks keep their surroundings safe
+    const patrolled = this.getPatrolPosts(grid).some(
+      post => getHexDistance(grid, tile, post.tile) <= post.radius
+    );
+    const coverageFactor = patrolled ? 1 - PATROL_COVERAGE : 1;
+
+    return Math.min(1, threat * terrainFactor * coverageFactor);
+  }
+
+  /**
+   * Military buildings that patrol their surroundings
+   */
+  private getPatrolPosts(grid: Grid<HexTile>): PatrolPost[] {
+    if (!this.patrolPosts) {
+      this.patrolPosts = this.getPatrols?.(grid) ?? [];
+    }
+    return this.patrolPosts;
+  }
+
+  /**
+   * Place a camp beside a road, away from settlements, patrols and other camps
+   */
+  private spawnCamp(grid: Grid<HexTile>, settlements: Settlement[], rng: SeededRandom): BanditCamp | null {
+    const centers = settlements
+      .map(s => grid.getHex(s.center))
+      .filter((tile): tile is HexTile => tile !== undefined);
+    const campTiles = this.camps
+      .map(camp => grid.getHex({ col: camp.col, row: camp.row }))
+      .filter((tile): tile is HexTile => tile !== undefined);
+
+    // Wilderness tiles next to a road (bandits watch the roads)
+    const candidates = new Map<string, HexTile>();
+    grid.forEach((hex) => {
+      if (!hex.hasRoad) return;
+      for (const neighbor of getHexNeighbors(grid, hex)) {
+        if (this.isCampSite(neighbor)) {
+          candidates.set(`${neighbor.col},${neighbor.row}`, neighbor);
+        }
+      }
+    });
+
+    const sites = Array.from(candidates.values())
+      .sort((a, b) => a.row - b.row || a.col - b.col) // Stable order for reproducible picks
+      .filter(tile =>
+        centers.every(center => getHexDistance(grid, tile, center) >= MIN_SETTLEMENT_DISTANCE) &&
+        campTiles.every(camp => getHexDistance(grid, tile, camp) >= MIN_CAMP_SPACING) &&
+        !this.getPatrolPosts(grid).some(post => getHexDistance(grid, tile, post.tile) <= post.radius)
+      );
+
+    if (sites.length === 0) return null;
+
+    const site = rng.pick(sites);
+    const camp: BanditCamp = { id: `camp_${rng.id()}`, col: site.col, row: site.row };
+    this.camps.push(camp);
+    this.invalidate();
+
+    console.log(`[Bandits] Bandit camp appeared at (${camp.col}, ${camp.row})`);
+    return camp;
+  }
+
+  /**
+   * Check if a tile is open wilderness a camp could occupy
+   */
+  private isCampSite(tile: HexTile): boolean {
+    return (
+      !isWater(tile.terrain) &&
+      tile.terrain !== TerrainType.Mountains &&
+      tile.settlementId === undefined &&
+      tile.building === BuildingType.None &&
+      !tile.hasRoad
+    );
+  }
+
+  /**
+   * Camp limit for the world
+   */
+  private getMaxCamps(settlements: Settlement[]): number {
+    return Math.max(1, Math.floor(settlements.length / SETTLEMENTS_PER_CAMP));
+  }
+
+  /**
+   * Forget cached dangers (camps or garrisons changed)
+   */
+  private invalidate(): void {
+    this.dangerCache.clear();
+    this.patrolPosts = null;
+  }
+
+  /**
+   * Capture camps for saving
+   */
+  serialize(): BanditSaveState {
+    return { camps: this.camps.map(camp => ({ ...camp })) };
+  }
+
+  /**
+   * Replace camps with a saved snapshot
+   */
+  restore(state: BanditSaveState): void {
+    this.camps = state.camps.map(camp => ({ ...camp }));
+    this.invalidate();
+  }
+}
@@ -0,0 +1,210 @@
+import { Palette } from "../rendering/Palette";
+import { ResourceType } from "./Resource";
+import { TerrainType, isWater } from "./Terrain";
+
+/** Climate zones of land tiles (water tiles have none) */
+export enum BiomeType {
+  None = "none",
+  Temperate = "temperate",
+  Steppe = "steppe",
+  Desert = "desert",
+  Tundra = "tundra",
+  Snow = "snow",
+  Marsh = "marsh",
+  Jungle = "jungle",
+}
+
+export interface BiomeConfig {
+  name: string;
+  baseColor: number;
+  accentColor: number;
+  /** Extra AP to enter a tile off-road (sand, mud, deep snow, undergrowth) */
+  apCost: number;
+  /** Shift of the vegetation threshold (positive = sparser, 1 = bare) */
+  vegetationShift: number;
+  /** Tree density multiplier (0 = bushes only) */
+  treeDensity: number;
+  /** Resource spawn weight multipliers (missing = 1, 0 = never) */
+  resourceWeights: Partial<Record<ResourceType, number>>;
+  /** Resources that spawn here on top of the terrain's own */
+  extraResources: Array<{ type: ResourceType; weight: number }>;
+  /** Yield multiplier of fields */
+  farmingYield: number;
+  /** Yield multiplier of pastures */
+  grazingYield: number;
+}
+
+/** Config-driven biome definitions */
+export const BIOME_CONFIG: Record<BiomeType, BiomeConfig> = {
+  [BiomeType.None]: {
+    name: "Open Water",
+    baseColor: Palette.waterShallow,
+    accentColor: Palette.waterHighlight,
+    apCost: 0,
+    vegetationShift: 1,
+    treeDensity: 0,
+    resourceWeights: {},
+    extraResources: [],
+    farmingYield: 0,
+    grazingYield: 0,
+  },
+  [BiomeType.Temperate]: {
+    name: "Temperate Forest",
+    baseColor: Palette.plainsLight,
+    accentColor: Palette.plainsDark,
+    apCost: 0,
+    vegetationShift: 0,
+    treeDensity: 1,
+    resourceWeights: {},
+    extraResources: [],
+    farmingYield: 1,
+    grazingYield: 1,
+  },
+  [BiomeType.Steppe]: {
+    name: "Steppe",
+    baseColor: Palette.steppeGrass,
+    accentColor: Palette.steppeDry,
+    apCost: 0,
+    vegetationShift: 0.12,
+    treeDensity: 0.4,
+    resourceWeights: {
+      [ResourceType.Livestock]: 2,
+      [ResourceType.Vegetables]: 0.5,
+      [ResourceType.Timber]: 0.5,
+    },
+    extraResources: [],
+    farmingYield: 0.8,
+    grazingYield: 1.3,
+  },
+  [BiomeType.Desert]: {
+    name: "Desert",
+    baseColor: Palette.desertSand,
+    accentColor: Palette.desertDune,
+    apCost: 1,
+    vegetationShift: 0.2,
+    treeDensity: 0,
+    resourceWeights: {
+      [ResourceType.Wheat]: 0.2,
+      [ResourceType.Vegetables]: 0.2,
+      [ResourceType.Livestock]: 0.4,
+      [ResourceType.Timber]: 0,
+      [ResourceType.WildGame]: 0.3,
+    },
+    extraResources: [
+      { type: ResourceType.Salt, weight: 1 },
+      { type: ResourceType.Stone, weight: 1 },
+    ],
+    farmingYield: 0.3,
+    grazingYield: 0.5,
+  },
+  [BiomeType.Tundra]: {
+    name: "Tundra",
+    baseColor: Palette.tundraMoss,
+    accentColor: Palette.tundraLichen,
+    apCost: 0,
+    vegetationShift: 0.1,
+    treeDensity: 0.3,
+    resourceWeights: {
+      [ResourceType.Wheat]: 0.3,
+      [ResourceType.Vegetables]: 0.3,
+      [ResourceType.Clay]: 0.5,
+    },
+    extraResources: [
+      { type: ResourceType.WildGame, weight: 2 },
+    ],
+    farmingYield: 0.4,
+    grazingYield: 0.7,
+  },
+  [BiomeType.Snow]: {
+    name: "Snowfield",
+    baseColor: Palette.snowField,
+    accentColor: Palette.snowShadow,
+    apCost: 1,
+    vegetationShift: 1,
+    treeDensity: 0,
+    resourceWeights: {
+      [ResourceType.Wheat]: 0,
+      [ResourceType.Vegetables]: 0,
+      [ResourceType.Livestock]: 0.2,
+      [ResourceType.Clay]: 0.2,
+    },
+    extraResources: [],
+    farmingYield: 0.1,
+    grazingYield: 0.2,
+  },
+  [BiomeType.Marsh]: {
+    name: "Marsh",
+    baseColor: Palette.marshGreen,
+    accentColor: Palette.marshWater,
+    apCost: 1,
+    vegetationShift: -0.05,
+    treeDensity: 0.6,
+    resourceWeights: {
+      [ResourceType.Wheat]: 0.4,
+      [ResourceType.Livestock]: 0.5,
+      [ResourceType.Clay]: 2.5,
+    },
+    extraResources: [
+      { type: ResourceType.WildGame, weight: 1 },
+    ],
+    farmingYield: 0.6,
+    grazingYield: 0.6,
+  },
+  [BiomeType.Jungle]: {
+    name: "Jungle",
+    baseColor: Palette.jungleGreen,
+    accentColor: Palette.jungleDark,
+    apCost: 1,
+    vegetationShift: -0.15,
+    treeDensity: 1.3,
+    resourceWeights: {
+      [ResourceType.Wheat]: 0.6,
+      [ResourceType.Livestock]: 0.5,
+      [ResourceType.Timber]: 1.5,
+      [ResourceType.WildGame]: 1.5,
+      [ResourceType.Vegetables]: 1.5,
+    },
+    extraResources: [],
+    farmingYield: 0.9,
+    grazingYield: 0.6,
+  },
+};
+
+/**
+ * Classify a tile by its climate.
+ * Temperature and moisture are 0–1; water tiles get no biome.
+ */
+export function classifyBiome(
+  terrain: TerrainType,
+  elevation: number,
+  temperature: number,
+  moisture: number
+): BiomeType {
+  if (isWater(terrain)) return BiomeType.None;
+
+  // Cold: snow on high or very cold ground, tundra below
+  const high = terrain === TerrainType.Hills || terrain === TerrainType.Mountains;
+  if (temperature < (high ? 0.22 : 0.14)) return BiomeType.Snow;
+  if (temperature < 0.3) return BiomeType.Tundra;
+
+  // Wet lowlands turn to marsh
+  if (moisture > 0.72 && elevation < 0.47 && !high) return BiomeType.Marsh;
+
+  // Hot: desert when dry, jungle when wet
+  if (temperature > 0.68) {
+    if (moisture < 0.42) return BiomeType.Desert;
+    if (moisture > 0.55) return BiomeType.Jungle;
+  }
+
+  // Dry: steppe
+  if (moisture < 0.38) return BiomeType.Steppe;
+
+  return BiomeType.Temperate;
+}
+
+/**
+ * Extra AP to enter a tile of a biome (roads cross every biome at the road cost)
+ */
+export function getBiomeAPCost(biome: BiomeType, hasRoad: boolean): number {
+  return hasRoad ? 0 : BIOME_CONFIG[biome].apCost;
+}
@@ -0,0 +1,144 @@
+import { SeededRandom } from "../utils/random";
+
+/**
+ * Seasons of the year, in calendar order
+ */
+export enum Season {
+  Spring = "spring",
+  Summer = "summer",
+  Autumn = "autumn",
+  Winter = "winter",
+}
+
+/**
+ * Configuration for each season
+ */
+export interface SeasonConfig {
+  name: string;
+  /** Field (wheat) yield multiplier */
+  farmingYield: number;
+  /** Pasture (livestock) yield multiplier */
+  grazingYield: number;
+  /** Fishing boat yield multiplier (before storms) */
+  fishingYield: number;
+  /** Hunting lodge yield multiplier */
+  huntingYield: number;
+  /** Food spoilage multiplier */
+  spoilage: number;
+  /** Chance of a storm on any day */
+  stormChance: number;
+}
+
+/**
+ * Season configuration database
+ */
+export const SEASON_CONFIG: Record<Season, SeasonConfig> = {
+  [Season.Spring]: {
+    name: "Spring",
+    farmingYield: 1.0,
+    grazingYield: 1.0,
+    fishingYield: 1.0,
+    huntingYield: 1.0,
+    spoilage: 1.0,
+    stormChance: 0.05,
+  },
+  [Season.Summer]: {
+    name: "Summer",
+    farmingYield: 1.25,
+    grazingYield: 1.2,
+    fishingYield: 1.1,
+    huntingYield: 1.0,
+    spoilage: 1.5, // Heat
+    stormChance: 0.02,
+  },
+  [Season.Autumn]: {
+    name: "Autumn",
+    farmingYield: 1.5, // Harvest
+    grazingYield: 1.0,
+    fishingYield: 0.9,
+    huntingYield: 1.2,
+    spoilage: 1.0,
+    stormChance: 0.15,
+  },
+  [Season.Winter]: {
+    name: "Winter",
+    farmingYield: 0, // Frozen fields
+    grazingYield: 0.6,
+    fishingYield: 0.7,
+    huntingYield: 0.7,
+    spoilage: 0.5, // Cold larders
+    stormChance: 0.25,
+  },
+};
+
+/** Seasons in calendar order. */
+export const SEASONS: Season[] = [Season.Spring, Season.Summer, Season.Autumn, Season.Winter];
+
+/** Days (turns) per season. */
+export const DAYS_PER_SEASON = 30;
+
+/** Days (turns) per year. */
+export const DAYS_PER_YEAR = DAYS_PER_SEASON * SEASONS.length;
+
+/** Fishing yield multiplier while a storm rages. */
+export const STORM_FISHING_MULTIPLIER = 0.25;
+
+/**
+ * Date of a turn (one turn = one day, turn 1 = day 1 of spring, year 1)
+ */
+export interface CalendarDate {
+  turn: number;
+  year: number;
+  season: Season;
+  dayOfSeason: number; // 1-based
+  dayOfYear: number; // 1-based
+}
+
+/**
+ * Conditions of a day that affect extraction
+ */
+export interface Weather {
+  season: Season;
+  storm: boolean;
+}
+
+/**
+ * Get the calendar date of a turn
+ */
+export function getDate(turn: number): CalendarDate {
+  const dayIndex = Math.max(0, turn - 1);
+  const dayOfYear = dayIndex % DAYS_PER_YEAR;
+  const seasonIndex = Math.floor(dayOfYear / DAYS_PER_SEASON);
+
+  return {
+    turn,
+    year: Math.floor(dayIndex / DAYS_PER_YEAR) + 1,
+    season: SEASONS[seasonIndex],
+    dayOfSeason: (dayOfYear % DAYS_PER_SEASON) + 1,
+    dayOfYear: dayOfYear + 1,
+  };
+}
+
+/**
+ * Check if a date is the first day of a new year (not the very first day of the game)
+ */
+export function isNewYear(date: CalendarDate): boolean {
+  return date.dayOfYear === 1 && date.year > 1;
+}
+
+/**
+ * Format a date, e.g. "Day 12 of Summer, Year 2"
+ */
+export function formatDate(date: CalendarDate): string {
+  return `Day ${date.dayOfSeason} of ${SEASON_CONFIG[date.season].name}, Year ${date.year}`;
+}
+
+/**
+ * Get the weather of a turn. Storms are rolled from the world seed and the turn,
+ * so they are reproducible without touching the simulation's random stream.
+ */
+export function getWeather(seed: string, turn: number): Weather {
+  const season = getDate(turn).season;
+  const storm = new SeededRandom(`${seed}_weather_${turn}`).chance(SEASON_CONFIG[season].stormChance);
+  return { season, storm };
+}
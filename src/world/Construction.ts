@@ -0,0 +1,555 @@
+import { HexTile } from "./HexTile";
+import { WorldMap } from "./WorldMap";
+import { BuildingType, BUILDING_CONFIG, Settlement } from "./Building";
+import { SettlementEconomy } from "./SettlementEconomy";
+import { SettlementMarket, BASE_PRICES } from "./trade/Market";
+import { GoodType } from "./Goods";
+import { ResourceType } from "./Resource";
+import { TerrainType, VegetationType, isWater } from "./Terrain";
+import { MaterialType, RecipeItem, getRecipesForBuilding, getMaterialName } from "./ProductionRecipe";
+import { WorkerAssignment, BuildingInfo } from "./population/WorkerAssignment";
+import { JobType } from "./population/Person";
+
+/**
+ * Materials paid before builders can start
+ */
+export interface BuildingCost {
+  timber?: number;
+  stone?: number;
+  bricks?: number;
+}
+
+/**
+ * Cost and effort to construct a building
+ */
+export interface ConstructionConfig {
+  cost: BuildingCost;
+  /** Builder productivity needed to finish (≈ builders × turns at productivity 1.0) */
+  work: number;
+}
+
+/**
+ * Buildings settlements can construct on their own
+ * (production buildings only — extraction needs deposits placed at world generation)
+ */
+export const CONSTRUCTION_CONFIG: Partial<Record<BuildingType, ConstructionConfig>> = {
+  [BuildingType.CharcoalBurner]: { cost: { timber: 15 }, work: 4 },
+  [BuildingType.Sawmill]: { cost: { timber: 25 }, work: 6 },
+  [BuildingType.Kiln]: { cost: { timber: 20 }, work: 6 }, // No bricks - it makes them
+  [BuildingType.Tannery]: { cost: { timber: 20 }, work: 6 },
+  [BuildingType.Windmill]: { cost: { timber: 30 }, work: 8 },
+  [BuildingType.Bakery]: { cost: { timber: 25 }, work: 6 },
+  [BuildingType.Butcher]: { cost: { timber: 20 }, work: 6 },
+  [BuildingType.Smelter]: { cost: { timber: 10, stone: 20, bricks: 15 }, work: 10 },
+  [BuildingType.Smithy]: { cost: { timber: 15, bricks: 15 }, work: 10 },
+};
+
+/**
+ * Turns a planned project waits for its materials before it is abandoned
+ */
+const MAX_TURNS_WAITING = 20;
+
+/**
+ * Builders that can work one construction site at once
+ */
+export const CONSTRUCTION_SITE_WORKERS = 3;
+
+/**
+ * Timber a builder fells per turn at productivity 1.0 while a project waits for it
+ */
+const TIMBER_PER_BUILDER = 3;
+
+/**
+ * Tree density a tile needs before builders fell timber on it
+ */
+const MIN_FELLING_TREE_DENSITY = 0.3;
+
+/**
+ * Tree density lost per unit of timber felled
+ */
+const TREE_DENSITY_PER_TIMBER = 0.02;
+
+/**
+ * Worker assignment priority for construction sites
+ * (after food and extraction, before production)
+ */
+const CONSTRUCTION_PRIORITY = 60;
+
+/**
+ * Batches of every recipe input in stock that count as "piling up"
+ */
+const SURPLUS_BATCHES = 5;
+
+/**
+ * Market price / base price at which an output counts as scarce
+ */
+const SCARCE_PRICE_RATIO = 1.5;
+
+/**
+ * Building materials count as scarce below this stock (settlements consume them
+ * for housing and construction, which the market does not price in)
+ */
+const SCARCE_BUILDING_MATERIAL_STOCK = 20;
+
+/**
+ * Most buildings of one type a settlement will construct up to
+ */
+const MAX_BUILDINGS_OF_TYPE: Record<Settlement["type"], number> = {
+  hamlet: 0, // Hamlets don't build
+  village: 2,
+  city: 3,
+};
+
+/**
+ * A planned or running construction project
+ */
+export interface ConstructionProject {
+  settlementId: number;
+  building: BuildingType;
+  tile?: { col: number; row: number }; // Claimed once materials are paid
+  turnsWaiting: number; // Turns spent waiting for materials
+  timberFelled?: number; // Timber the builders felled for it (counts towards the cost)
+  workDone: number;
+  workRequired: number;
+  reason: string; // Why the settlement decided to build it
+}
+
+/**
+ * Serializable snapshot of all construction projects (used by save games)
+ */
+export interface ConstructionSaveState {
+  projects: ConstructionProject[];
+}
+
+/**
+ * Result of one settlement's construction phase
+ */
+export interface ConstructionTurnResult {
+  started?: ConstructionProject;
+  completed?: ConstructionProject;
+  changedTiles: HexTile[]; // Tiles to re-render
+}
+
+/**
+ * Settlements construct new production buildings on free adjacent tiles
+ * when market demand calls for them (inputs piling up or outputs scarce).
+ * A planned project requests its materials on the market while Builder
+ * workers fell its timber in nearby woods; once the materials are in stock
+ * they are paid, a tile is claimed and the builders finish the site over
+ * several turns.
+ */
+export class ConstructionSystem {
+  /** Active projects (at most one per settlement). */
+  private projects: Map<number, ConstructionProject> = new Map();
+
+  /**
+   * Get the active project of a settlement
+   */
+  getProject(settlementId: number): ConstructionProject | undefined {
+    return this.projects.get(settlementId);
+  }
+
+  /**
+   * Get all active projects
+   */
+  getAllProjects(): ConstructionProject[] {
+    return Array.from(this.projects.values());
+  }
+
+  /**
+   * Materials a planned project still needs (posted as market buy offers)
+   */
+  getMaterialShortfall(settlementId: number, economy: SettlementEconomy): RecipeItem[] {
+    const project = this.projects.get(settlementId);
+    if (!project || project.tile) return [];
+
+    const shortfall: RecipeItem[] = [];
+    for (const { type, quantity } of this.getCostItems(this.getRemainingCost(project))) {
+      const missing = quantity - economy.getMaterialAmount(type);
+      if (missing > 0) shortfall.push({ type, quantity: Math.ceil(missing) });
+    }
+    return shortfall;
+  }
+
+  /**
+   * Construction site of a settlement as a workplace for Builders: the claimed
+   * site, or the woods where timber for a planned project is felled
+   * (empty if there is no project or nothing to fell)
+   */
+  getConstructionSites(
+    worldMap: WorldMap,
+    settlement: Settlement,
+    settlementId: number,
+    economy: SettlementEconomy
+  ): BuildingInfo[] {
+    const project = this.projects.get(settlementId);
+    if (!project) return [];
+
+    let location = project.tile;
+    if (!location) {
+      const timberNeeded = (this.getRemainingCost(project).timber ?? 0) - economy.getResourceAmount(ResourceType.Timber);
+      location = timberNeeded > 0 ? this.findWoods(worldMap, settlement) : undefined;
+    }
+    if (!location) return [];
+
+    return [{
+      type: project.building,
+      location,
+      priority: CONSTRUCTION_PRIORITY,
+      jobType: JobType.Builder,
+      capacity: CONSTRUCTION_SITE_WORKERS,
+    }];
+  }
+
+  /**
+   * Advance the settlement's construction site with its builders,
+   * or plan a new project if none is running and demand calls for one.
+   * Planned projects start as soon as their materials are in stock.
+   */
+  processSettlement(
+    worldMap: WorldMap,
+    settlement: Settlement,
+    settlementId: number,
+    economy: SettlementEconomy,
+    market: SettlementMarket | undefined,
+    assignments: WorkerAssignment[]
+  ): ConstructionTurnResult {
+    const result: ConstructionTurnResult = { changedTiles: [] };
+
+    let project = this.projects.get(settlementId);
+    if (!project) {
+      if (!market) return result;
+      project = this.planProject(worldMap, settlement, settlementId, economy, market);
+      if (!project) return result;
+    }
+
+    if (!project.tile) {
+      result.changedTiles.push(...this.fellTimber(worldMap, settlement, project, assignments));
+      if (this.tryStartProject(worldMap, settlement, economy, project)) {
+        result.started = project;
+        const tile = worldMap.getTile(project.tile!)!;
+        result.changedTiles.push(tile, ...this.getSettlementNeighbors(worldMap, tile));
+      } else if (++project.turnsWaiting > MAX_TURNS_WAITING) {
+        this.projects.delete(settlementId);
+        console.log(`  [Construction] ${settlement.name} abandoned its ${BUILDING_CONFIG[project.building].name} (materials never arrived)`);
+      }
+      return result;
+    }
+
+    // Builders advance the site
+    const tilePos = project.tile;
+    const builders = assignments.filter(
+      a => a.jobType === JobType.Builder && a.building.col === tilePos.col && a.building.row === tilePos.row
+    );
+    project.workDone += builders.reduce((sum, a) => sum + a.productivity, 0);
+
+    if (project.workDone >= project.workRequired) {
+      const tile = worldMap.getTile(tilePos);
+      if (tile) {
+        tile.building = project.building;
+        result.changedTiles.push(tile, ...this.getSettlementNeighbors(worldMap, tile));
+      }
+      this.projects.delete(settlementId);
+      result.completed = project;
+      console.log(`  [Construction] ${settlement.name} completed a ${BUILDING_CONFIG[project.building].name}`);
+    } else {
+      console.log(`  [Construction] ${settlement.name} ${BUILDING_CONFIG[project.building].name}: ${project.workDone.toFixed(1)}/${project.workRequired} work (${builders.length} builders)`);
+    }
+    return result;
+  }
+
+  /**
+   * Plan the most demanded building (materials are requested until the project can start)
+   */
+  private planProject(
+    worldMap: WorldMap,
+    settlement: Settlement,
+    settlementId: number,
+    economy: SettlementEconomy,
+    market: SettlementMarket
+  ): ConstructionProject | undefined {
+    const maxOfType = MAX_BUILDINGS_OF_TYPE[settlement.type];
+    if (maxOfType === 0) return undefined;
+
+    const buildingCounts = new Map<BuildingType, number>();
+    for (const pos of settlement.tiles) {
+      const tile = worldMap.getTile(pos);
+      if (tile) buildingCounts.set(tile.building, (buildingCounts.get(tile.building) || 0) + 1);
+    }
+
+    // Score every buildable type by demand
+    const candidates: Array<{ building: BuildingType; score: number; reason: string }> = [];
+    for (const building of Object.keys(CONSTRUCTION_CONFIG) as BuildingType[]) {
+      if ((buildingCounts.get(building) || 0) >= maxOfType) continue;
+
+      const demand = this.evaluateDemand(building, economy, market);
+      if (demand) candidates.push({ building, ...demand });
+    }
+    if (candidates.length === 0) return undefined;
+
+    if (!this.findBuildSite(worldMap, settlement)) return undefined; // Nowhere to build
+
+    candidates.sort((a, b) => b.score - a.score);
+    const choice = candidates[0];
+
+    const project: ConstructionProject = {
+      settlementId,
+      building: choice.building,
+      turnsWaiting: 0,
+      workDone: 0,
+      workRequired: CONSTRUCTION_CONFIG[choice.building]!.work,
+      reason: choice.reason,
+    };
+    this.projects.set(settlementId, project);
+
+    console.log(`  [Construction] ${settlement.name} plans a ${BUILDING_CONFIG[choice.building].name} (${choice.reason})`);
+    return project;
+  }
+
+  /**
+   * Pay for a planned project and claim a free adjacent tile for it.
+   * Returns false if materials or a site are missing.
+   */
+  private tryStartProject(
+    worldMap: WorldMap,
+    settlement: Settlement,
+    economy: SettlementEconomy,
+    project: ConstructionProject
+  ): boolean {
+    const cost = this.getRemainingCost(project);
+    if (!this.canAfford(economy, cost)) return false;
+
+    const tile = this.claimBuildSite(worldMap, settlement, project.settlementId);
+    if (!tile) return false;
+
+    this.consumeResources(economy, cost);
+    project.tile = { col: tile.col, row: tile.row };
+
+    console.log(`  [Construction] ${settlement.name} started a ${BUILDING_CONFIG[project.building].name} at ${tile.col},${tile.row}`);
+    return true;
+  }
+
+  /**
+   * Builders working the woods of a planned project fell its timber
+   * (thinning the trees there). Returns the tiles felled on.
+   */
+  private fellTimber(
+    worldMap: WorldMap,
+    settlement: Settlement,
+    project: ConstructionProject,
+    assignments: WorkerAssignment[]
+  ): HexTile[] {
+    const felledTiles: HexTile[] = [];
+    for (const assignment of assignments) {
+      if (assignment.jobType !== JobType.Builder || assignment.buildingType !== project.building) continue;
+      const tile = worldMap.getTile(assignment.building);
+      if (!tile || tile.building !== BuildingType.None) continue; // An existing workshop, not the woods
+
+      const needed = this.getRemainingCost(project).timber ?? 0;
+      const felled = Math.min(needed, assignment.productivity * TIMBER_PER_BUILDER, tile.treeDensity / TREE_DENSITY_PER_TIMBER);
+      if (felled <= 0) continue;
+
+      project.timberFelled = (project.timberFelled ?? 0) + felled;
+      tile.treeDensity = Math.max(0, tile.treeDensity - felled * TREE_DENSITY_PER_TIMBER);
+      if (tile.treeDensity === 0) tile.vegetation = VegetationType.None;
+      tile.felled = true;
+      if (!felledTiles.includes(tile)) felledTiles.push(tile);
+    }
+
+    if (felledTiles.length > 0) {
+      console.log(`  [Construction] ${settlement.name} ${BUILDING_CONFIG[project.building].name}: ${(project.timberFelled ?? 0).toFixed(1)} timber felled`);
+    }
+    return felledTiles;
+  }
+
+  /**
+   * Claim the free tile next to a settlement closest to its center for a new
+   * building (cleared and added to the settlement). Returns undefined if there is none.
+   */
+  claimBuildSite(worldMap: WorldMap, settlement: Settlement, settlementId: number): HexTile | undefined {
+    const tile = this.findBuildSite(worldMap, settlement);
+    if (!tile) return undefined;
+
+    tile.settlementId = settlementId;
+    tile.vegetation = VegetationType.None;
+    tile.treeDensity = 0;
+    tile.isRough = false;
+    settlement.tiles.push({ col: tile.col, row: tile.row });
+    return tile;
+  }
+
+  /**
+   * Does the market call for another building of this type?
+   * Either every input of a recipe is piling up, or an output is scarce
+   * while there are inputs to make it. Returns a score (higher = more urgent).
+   */
+  private evaluateDemand(
+    building: BuildingType,
+    economy: SettlementEconomy,
+    market: SettlementMarket
+  ): { score: number; reason: string } | undefined {
+    let best: { score: number; reason: string } | undefined;
+
+    for (const recipe of getRecipesForBuilding(building)) {
+      // Batches of the recipe the stockpile could feed
+      const batches = Math.min(
+        ...recipe.inputs.map(input => economy.getMaterialAmount(input.type) / input.quantity)
+      );
+
+      if (batches >= SURPLUS_BATCHES) {
+        const score = batches / SURPLUS_BATCHES;
+        const piled = recipe.inputs.map(input => getMaterialName(input.type)).join(", ");
+        if (!best || score > best.score) best = { score, reason: `${piled} piling up` };
+      }
+
+      if (batches < 1) continue; // Nothing to work with
+      for (const output of recipe.outputs) {
+        const scarcity = this.getScarcity(output.type, economy, market);
+        if (scarcity > 0 && (!best || scarcity > best.score)) {
+          best = { score: scarcity, reason: `${getMaterialName(output.type)} scarce` };
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * How scarce a material is (0 = not scarce)
+   */
+  private getScarcity(material: MaterialType, economy: SettlementEconomy, market: SettlementMarket): number {
+    const priceRatio = market.getPrice(material) / (BASE_PRICES[material] || 1);
+    if (priceRatio >= SCARCE_PRICE_RATIO) return priceRatio;
+
+    if (this.isBuildingMaterial(material)) {
+      const stock = economy.getMaterialAmount(material);
+      if (stock < SCARCE_BUILDING_MATERIAL_STOCK) return 1 + (1 - stock / SCARCE_BUILDING_MATERIAL_STOCK);
+    }
+    return 0;
+  }
+
+  /**
+   * Is this material spent on housing upgrades and construction?
+   */
+  private isBuildingMaterial(material: MaterialType): boolean {
+    return material === ResourceType.Timber || material === ResourceType.Stone || material === GoodType.Bricks;
+  }
+
+  /**
+   * Free land tile next to the settlement, closest to its center
+   * (no building, road, resource deposit or other settlement)
+   */
+  private findBuildSite(worldMap: WorldMap, settlement: Settlement): HexTile | undefined {
+    const center = worldMap.getTile(settlement.center);
+    if (!center) return undefined;
+
+    const sites = new Map<string, HexTile>();
+    for (const pos of settlement.tiles) {
+      const tile = worldMap.getTile(pos);
+      if (!tile) continue;
+
+      for (const neighbor of worldMap.getNeighbors(tile)) {
+        if (!this.isFreeLand(neighbor)) continue;
+        sites.set(`${neighbor.col},${neighbor.row}`, neighbor);
+      }
+    }
+
+    return Array.from(sites.values()).sort((a, b) =>
+      worldMap.hexDistance(center, a) - worldMap.hexDistance(center, b) || a.row - b.row || a.col - b.col
+    )[0];
+  }
+
+  /**
+   * Wooded free tile next to the settlement, closest to its center
+   */
+  private findWoods(worldMap: WorldMap, settlement: Settlement): HexTile | undefined {
+    const center = worldMap.getTile(settlement.center);
+    if (!center) return undefined;
+
+    const woods = new Map<string, HexTile>();
+    for (const pos of settlement.tiles) {
+      const tile = worldMap.getTile(pos);
+      if (!tile) continue;
+
+      for (const neighbor of worldMap.getNeighbors(tile)) {
+        if (neighbor.treeDensity < MIN_FELLING_TREE_DENSITY || !this.isFreeLand(neighbor)) continue;
+        woods.set(`${neighbor.col},${neighbor.row}`, neighbor);
+      }
+    }
+
+    return Array.from(woods.values()).sort((a, b) =>
+      worldMap.hexDistance(center, a) - worldMap.hexDistance(center, b) || a.row - b.row || a.col - b.col
+    )[0];
+  }
+
+  /**
+   * Can a building be placed on this tile?
+   */
+  private isFreeLand(tile: HexTile): boolean {
+    if (isWater(tile.terrain) || tile.terrain === TerrainType.Mountains) return false;
+    if (tile.building !== BuildingType.None || tile.settlementId !== undefined) return false;
+    if (tile.hasRoad) return false;
+    if (tile.resource && tile.resource.type !== ResourceType.None) return false;
+    return true;
+  }
+
+  /**
+   * Settlement tiles around a tile (their connections and walls change with it)
+   */
+  private getSettlementNeighbors(worldMap: WorldMap, tile: HexTile): HexTile[] {
+    return worldMap.getNeighbors(tile).filter(n => n.settlementId !== undefined);
+  }
+
+  /**
+   * Cost still to be paid from stock (less the timber felled for the project)
+   */
+  private getRemainingCost(project: ConstructionProject): BuildingCost {
+    const cost = CONSTRUCTION_CONFIG[project.building]?.cost ?? {};
+    if (!cost.timber) return cost;
+    return { ...cost, timber: Math.max(0, cost.timber - (project.timberFelled ?? 0)) };
+  }
+
+  /**
+   * Cost as material amounts
+   */
+  getCostItems(cost: BuildingCost): RecipeItem[] {
+    const items: RecipeItem[] = [];
+    if (cost.timber) items.push({ type: ResourceType.Timber, quantity: cost.timber });
+    if (cost.stone) items.push({ type: ResourceType.Stone, quantity: cost.stone });
+    if (cost.bricks) items.push({ type: GoodType.Bricks, quantity: cost.bricks });
+    return items;
+  }
+
+  /**
+   * Check if economy has enough materials for a building
+   */
+  private canAfford(economy: SettlementEconomy, cost: BuildingCost): boolean {
+    if (cost.timber && economy.getResourceAmount(ResourceType.Timber) < cost.timber) return false;
+    if (cost.stone && economy.getResourceAmount(ResourceType.Stone) < cost.stone) return false;
+    if (cost.bricks && economy.getGoodAmount(GoodType.Bricks) < cost.bricks) return false;
+    return true;
+  }
+
+  /**
+   * Consume construction materials from economy
+   */
+  private consumeResources(economy: SettlementEconomy, cost: BuildingCost): void {
+    if (cost.timber) economy.removeResource(ResourceType.Timber, cost.timber);
+    if (cost.stone) economy.removeResource(ResourceType.Stone, cost.stone);
+    if (cost.bricks) economy.removeGood(GoodType.Bricks, cost.bricks);
+  }
+
+  /**
+   * Capture active projects for saving
+   */
+  serialize(): ConstructionSaveState {
+    return { projects: this.getAllProjects().map(p => ({ ...p, tile: p.tile && { ...p.tile } })) };
+  }
+
+  /**
+   * Replace active projects with a saved snapshot
+   */
+  restore(state: ConstructionSaveState): void {
+    this.projects = new Map(state.projects.map(p => [p.settlementId, { ...p, tile: p.tile && { ...p.tile } }]));
+  }
+}
@@ -0,0 +1,296 @@
+import { Grid } from "honeycomb-grid";
+import { HexTile } from "./HexTile";
+import { BuildingType } from "./Building";
+import { GoodType } from "./Goods";
+import { SettlementEconomy } from "./SettlementEconomy";
+import { WorkerAssignment, BuildingInfo } from "./population/WorkerAssignment";
+import { JobType } from "./population/Person";
+import { getJobForBuilding, getWorkerCapacity } from "./population/JobMapping";
+import { consumeRations } from "./population/FoodConsumption";
+import { PatrolPost } from "./Bandits";
+
+/**
+ * A military building and the soldiers manning it
+ */
+export interface GarrisonPost {
+  col: number;
+  row: number;
+  building: BuildingType;
+  soldiers: number;
+}
+
+/**
+ * A settlement's soldiers, their equipment and upkeep
+ */
+export interface Garrison {
+  settlementId: number;
+  posts: GarrisonPost[];
+  soldiers: number;
+  /** Weapons issued from the settlement's stock (best first) */
+  weapons: Array<[GoodType, number]>;
+  /** Armor issued from the settlement's stock (best first) */
+  armor: Array<[GoodType, number]>;
+  /** Whether wages and rations were paid in full last turn */
+  paid: boolean;
+  strength: number;
+}
+
+/**
+ * Serializable snapshot of the garrison system (used by save games)
+ */
+export interface GarrisonSaveState {
+  garrisons: Garrison[];
+}
+
+/**
+ * Hexes around a manned military building kept safe by its patrols
+ * (watchtowers see furthest)
+ */
+export const PATROL_RADIUS: Partial<Record<BuildingType, number>> = {
+  [BuildingType.Watchtower]: 5,
+  [BuildingType.Barracks]: 4,
+  [BuildingType.Castle]: 4,
+};
+
+/**
+ * Attack bonus of each weapon, best first (same bonuses as the player's equipment)
+ */
+export const WEAPON_STRENGTH: Array<[GoodType, number]> = [
+  [GoodType.SteelSword, 8],
+  [GoodType.IronSword, 5],
+  [GoodType.CopperSword, 3],
+];
+
+/**
+ * Defense bonus of each armor, best first (same bonuses as the player's equipment)
+ */
+export const ARMOR_STRENGTH: Array<[GoodType, number]> = [
+  [GoodType.IronArmor, 5],
+  [GoodType.LeatherArmor, 2],
+];
+
+/**
+ * Strength of an unarmed, unarmored soldier
+ */
+export const SOLDIER_BASE_STRENGTH = 1;
+
+/**
+ * Gold each soldier is paid per turn from the treasury
+ */
+export const SOLDIER_WAGE = 1;
+
+/**
+ * Food (nutrition) each soldier draws per turn on top of the household diet
+ */
+export const SOLDIER_RATIONS = 1;
+
+/**
+ * Settlements only recruit soldiers whose wages they can pay for this many turns
+ */
+const WAGE_RESERVE_TURNS = 20;
+
+/**
+ * Strength multiplier of a garrison whose upkeep was not paid
+ */
+const UNPAID_STRENGTH = 0.5;
+
+/**
+ * Soldiers of each settlement: recruited through worker assignment into
+ * barracks, watchtowers and castles, equipped from the settlement's weapon
+ * and armor stock, and paid in gold and food. Manned posts patrol their
+ * surroundings against bandits.
+ */
+export class GarrisonSystem {
+  private garrisons: Map<number, Garrison> = new Map();
+
+  /**
+   * Limit the soldier places of a settlement's military buildings to the
+   * soldiers its treasury can pay (watchtowers are manned first)
+   */
+  limitRecruitment(buildings: BuildingInfo[], economy: SettlementEconomy): BuildingInfo[] {
+    let affordable = Math.floor(economy.getTreasury() / (SOLDIER_WAGE * WAGE_RESERVE_TURNS));
+
+    const military = buildings
+      .filter(building => getJobForBuilding(building.type) === JobType.Soldier)
+      .sort((a, b) => (PATROL_RADIUS[b.type] ?? 0) - (PATROL_RADIUS[a.type] ?? 0));
+
+    const capacities = new Map<BuildingInfo, number>();
+    for (const building of military) {
+      const capacity = Math.min(building.capacity ?? getWorkerCapacity(building.type), affordable);
+      capacities.set(building, capacity);
+      affordable -= capacity;
+    }
+
+    return buildings
+      .map(building => capacities.has(building) ? { ...building, capacity: capacities.get(building) } : building)
+      .filter(building => building.capacity !== 0);
+  }
+
+  /**
+   * Update a settlement's garrison after worker assignment: issue or return
+   * equipment, pay upkeep and recalculate strength
+   */
+  processSettlement(
+    settlementId: number,
+    economy: SettlementEconomy,
+    assignments: WorkerAssignment[]
+  ): Garrison {
+    const garrison = this.getOrCreateGarrison(settlementId);
+
+    // Soldiers per military building
+    const posts = new Map<string, GarrisonPost>();
+    for (const assignment of assignments) {
+      if (assignment.jobType !== JobType.Soldier) continue;
+      const key = `${assignment.building.col},${assignment.building.row}`;
+      const post = posts.get(key) ?? { ...assignment.building, building: assignment.buildingType, soldiers: 0 };
+      post.soldiers++;
+      posts.set(key, post);
+    }
+    garrison.posts = Array.from(posts.values());
+    garrison.soldiers = garrison.posts.reduce((sum, post) => sum + post.soldiers, 0);
+
+    // Arm new soldiers from stock, return gear of those who left
+    garrison.weapons = this.issueEquipment(garrison.weapons, WEAPON_STRENGTH, garrison.soldiers, economy);
+    garrison.armor = this.issueEquipment(garrison.armor, ARMOR_STRENGTH, garrison.soldiers, economy);
+
+    // Wages and rations
+    garrison.paid = this.payUpkeep(garrison, economy);
+
+    garrison.strength = this.calculateStrength(garrison);
+    if (garrison.soldiers > 0) {
+      console.log(`  - Garrison: ${garrison.soldiers} soldiers, strength ${garrison.strength}${garrison.paid ? "" : " (unpaid)"}`);
+    }
+    return garrison;
+  }
+
+  /**
+   * Bring issued equipment in line with the number of soldiers:
+   * draw the best items in stock for the unequipped, return the worst surplus
+   */
+  private issueEquipment(
+    issued: Array<[GoodType, number]>,
+    tiers: Array<[GoodType, number]>,
+    soldiers: number,
+    economy: SettlementEconomy
+  ): Array<[GoodType, number]> {
+    const held = new Map(issued);
+    let count = issued.reduce((sum, [, amount]) => sum + amount, 0);
+
+    // Draw the best items first
+    for (const [type] of tiers) {
+      if (count >= soldiers) break;
+      const amount = Math.min(soldiers - count, economy.getGoodAmount(type));
+      if (amount <= 0) continue;
+      economy.removeGood(type, amount);
+      held.set(type, (held.get(type) ?? 0) + amount);
+      count += amount;
+    }
+
+    // Return the worst items first
+    for (const [type] of [...tiers].reverse()) {
+      if (count <= soldiers) break;
+      const amount = Math.min(count - soldiers, held.get(type) ?? 0);
+      if (amount <= 0) continue;
+      economy.addGood(type, amount);
+      held.set(type, (held.get(type) ?? 0) - amount);
+      count -= amount;
+    }
+
+    return tiers
+      .map(([type]): [GoodType, number] => [type, held.get(type) ?? 0])
+      .filter(([, amount]) => amount > 0);
+  }
+
+  /**
+   * Pay wages from the treasury and rations from the food stock
+   *
+   * @returns Whether both were paid in full
+   */
+  private payUpkeep(garrison: Garrison, economy: SettlementEconomy): boolean {
+    if (garrison.soldiers === 0) return true;
+
+    const wages = garrison.soldiers * SOLDIER_WAGE;
+    const wagesPaid = economy.removeMoney(wages);
+
+    const rations = garrison.soldiers * SOLDIER_RATIONS;
+    const rationsPaid = consumeRations(economy, rations) >= rations;
+
+    return wagesPaid && rationsPaid;
+  }
+
+  /**
+   * Combined strength of a garrison's soldiers and their equipment
+   */
+  private calculateStrength(garrison: Garrison): number {
+    const bonus = (items: Array<[GoodType, number]>, tiers: Array<[GoodType, number]>) =>
+      items.reduce((sum, [type, amount]) => sum + amount * (tiers.find(([tier]) => tier === type)?.[1] ?? 0), 0);
+
+    const strength =
+      garrison.soldiers * SOLDIER_BASE_STRENGTH +
+      bonus(garrison.weapons, WEAPON_STRENGTH) +
+      bonus(garrison.armor, ARMOR_STRENGTH);
+
+    return Math.floor(garrison.paid ? strength : strength * UNPAID_STRENGTH);
+  }
+
+  /**
+   * Garrison of a settlement (if it ever had one)
+   */
+  getGarrison(settlementId: number): Garrison | undefined {
+    return this.garrisons.get(settlementId);
+  }
+
+  /**
+   * Garrison strength of a settlement (0 without soldiers)
+   */
+  getStrength(settlementId: number): number {
+    return this.garrisons.get(settlementId)?.strength ?? 0;
+  }
+
+  /**
+   * Manned, paid military buildings and the radius they patrol
+   */
+  getPatrolPosts(grid: Grid<HexTile>): PatrolPost[] {
+    const patrolPosts: PatrolPost[] = [];
+    for (const garrison of this.garrisons.values()) {
+      if (!garrison.paid) continue; // Unpaid soldiers stay in their barracks
+      for (const post of garrison.posts) {
+        const radius = PATROL_RADIUS[post.building];
+        const tile = grid.getHex({ col: post.col, row: post.row });
+        if (radius !== undefined && tile && tile.building === post.building) {
+          patrolPosts.push({ tile, radius });
+        }
+      }
+    }
+    return patrolPosts;
+  }
+
+  /**
+   * Get or create a settlement's garrison
+   */
+  private getOrCreateGarrison(settlementId: number): Garrison {
+    let garrison = this.garrisons.get(settlementId);
+    if (!garrison) {
+      garrison = { settlementId, posts: [], soldiers: 0, weapons: [], armor: [], paid: true, strength: 0 };
+      this.garrisons.set(settlementId, garrison);
+    }
+    return garrison;
+  }
+
+  /**
+   * Capture garrisons for saving
+   */
+  serialize(): GarrisonSaveState {
+    return { garrisons: structuredClone(Array.from(this.garrisons.values())) };
+  }
+
+  /**
+   * Replace garrisons with a saved snapshot
+   */
+  restore(state: GarrisonSaveState): void {
+    this.garrisons.clear();
+    for (const garrison of structuredClone(state.garrisons)) {
+      this.garrisons.set(garrison.settlementId, garrison);
+    }
+  }
+}
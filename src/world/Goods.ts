@@ -64,7 +64,7 @@ export interface GoodConfig {
   category: GoodCategory;
   /** Base trade value (relative) */
   value: number;
-  /** Weight per unit (for future transport mechanics) */
+  /** Weight per unit (for carrying and transport) */
   weight: number;
 }
 
@@ -1,5 +1,6 @@
 import { defineHex } from "honeycomb-grid";
 import { TerrainType, VegetationType } from "./Terrain";
+import { BiomeType } from "./Biome";
 import { BuildingType } from "./Building";
 import { ResourceDeposit, ResourceType } from "./Resource";
 
@@ -21,6 +22,19 @@ export class HexTile extends defineHex({
   vegetation: VegetationType = VegetationType.None;
   elevation: number = 0;
 
+  /** Climate (0 = freezing, 1 = hot; 0 = arid, 1 = wet) */
+  temperature: number = 0.5;
+  moisture: number = 0.5;
+  /** Climate zone of the tile (set by world generation; None on water) */
+  biome: BiomeType = BiomeType.Temperate;
+
+  /** River through this tile: river tiles upstream, this one included (0 = no river) */
+  riverFlow: number = 0;
+  /** Where the river flows on to (the next river tile, or the lake or sea it empties into) */
+  riverOutlet?: { col: number; row: number };
+  /** Can the river be waded here without extra AP? */
+  isFord: boolean = false;
+
   /** Has the player ever seen this tile? */
   explored: boolean = false;
   /** Is the tile currently within vision range? */
@@ -40,6 +54,8 @@ export class HexTile extends defineHex({
 
   /** Tree density for forest rendering (0.0 = none, 1.0 = dense forest) */
   treeDensity: number = 0;
+  /** Have trees been felled here since world generation? (vegetation is then saved) */
+  felled: boolean = false;
 
   /** Does this tile have a road? */
   hasRoad: boolean = false;
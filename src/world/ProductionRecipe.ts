@@ -1,5 +1,5 @@
-import { ResourceType } from "./Resource";
-import { GoodType } from "./Goods";
+import { RESOURCE_CONFIG, ResourceConfig, ResourceType } from "./Resource";
+import { GOOD_CONFIG, GoodCategory, GoodType } from "./Goods";
 import { BuildingType } from "./Building";
 
 /**
@@ -611,3 +611,52 @@ export function isResource(material: MaterialType): material is ResourceType {
 export function isGood(material: MaterialType): material is GoodType {
   return Object.values(GoodType).includes(material as GoodType);
 }
+
+/**
+ * Shared description of any material (good or resource)
+ */
+export interface MaterialInfo {
+  name: string;
+  description: string;
+  category: GoodCategory | ResourceConfig["category"];
+  value: number;
+  weight: number;
+}
+
+/**
+ * Look up name, category, value and weight of a material from GOOD_CONFIG / RESOURCE_CONFIG
+ */
+export function getMaterialInfo(material: MaterialType): MaterialInfo {
+  const config = isGood(material) ? GOOD_CONFIG[material] : RESOURCE_CONFIG[material as ResourceType];
+  return {
+    name: config.name,
+    description: config.description,
+    category: config.category,
+    value: config.value,
+    weight: config.weight,
+  };
+}
+
+/**
+ * Display name of a material
+ */
+export function getMaterialName(material: MaterialType): string {
+  return getMaterialInfo(material).name;
+}
+
+/**
+ * Weight per unit of a material (goods and resources)
+ */
+export function getMaterialWeight(material: MaterialType): number {
+  return getMaterialInfo(material).weight;
+}
+
+/**
+ * Every tradeable material (all goods and resources except None)
+ */
+export function getAllMaterials(): MaterialType[] {
+  return [
+    ...Object.values(ResourceType).filter(type => type !== ResourceType.None),
+    ...Object.values(GoodType).filter(type => type !== GoodType.None),
+  ];
+}
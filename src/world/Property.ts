@@ -0,0 +1,305 @@
+import { HexTile } from "./HexTile";
+import { WorldMap } from "./WorldMap";
+import { BuildingType, BUILDING_CONFIG } from "./Building";
+import { SettlementEconomy, SettlementEconomySaveState } from "./SettlementEconomy";
+import { getRecipeById, getMaterialName } from "./ProductionRecipe";
+import { CONSTRUCTION_SITE_WORKERS } from "./Construction";
+import { WorkerAssignment, BuildingInfo } from "./population/WorkerAssignment";
+import { JobType } from "./population/Person";
+
+/**
+ * A building owned by the player
+ */
+export interface Property {
+  id: string;
+  settlementId: number;
+  tile: { col: number; row: number };
+  building: BuildingType;
+  /** Recipe the building runs (undefined = idle) */
+  recipeId?: string;
+  /** Workers the player wants to employ */
+  hired: number;
+  /** Workers who turned up last turn */
+  workers: number;
+  /** Their combined productivity last turn */
+  productivity: number;
+  /** Builder productivity put into a commissioned building so far */
+  workDone: number;
+  /** Builder productivity needed to finish (0 = standing) */
+  workRequired: number;
+  /** Storeroom for inputs and output (its production queue runs the recipe) */
+  warehouse: SettlementEconomy;
+}
+
+/**
+ * Kinds of ledger entries
+ */
+export type LedgerKind = "income" | "expense" | "output";
+
+/**
+ * A line in the player's business ledger
+ */
+export interface LedgerEntry {
+  turn: number;
+  settlementId: number;
+  kind: LedgerKind;
+  description: string;
+  /** Gold in (positive) or out (negative); 0 for output */
+  gold: number;
+}
+
+/**
+ * Serializable snapshot of the player's property (used by save games)
+ */
+export interface PropertySaveState {
+  properties: Array<Omit<Property, "warehouse"> & { warehouse: SettlementEconomySaveState }>;
+  ledger: LedgerEntry[];
+  income: number;
+  expenses: number;
+}
+
+/**
+ * Gold the player pays each worker per turn (twice a soldier's wage)
+ */
+export const WORKER_WAGE = 2;
+
+/**
+ * Units a property's warehouse can hold
+ */
+export const WAREHOUSE_CAPACITY = 300;
+
+/**
+ * Worker assignment priority for the player's buildings
+ * (after food, extraction and construction, before the settlement's production)
+ */
+const PROPERTY_PRIORITY = 55;
+
+/**
+ * Ledger entries kept (oldest are dropped)
+ */
+const MAX_LEDGER_ENTRIES = 60;
+
+/**
+ * Buildings owned by the player. They hire workers from their settlement
+ * through the usual worker assignment, run the recipe the player picked
+ * from their own warehouse and pay wages out of the player's purse.
+ * Purchases, wages, sales and output are written to a ledger.
+ */
+export class PropertySystem {
+  private properties: Property[] = [];
+  private ledger: LedgerEntry[] = [];
+  private income: number = 0;
+  private expenses: number = 0;
+
+  /** Hook to take wages from the player's purse (returns false if the player can't pay). */
+  payWages?: (amount: number) => boolean;
+
+  /**
+   * All properties, or those in one settlement
+   */
+  getProperties(settlementId?: number): Property[] {
+    return settlementId === undefined
+      ? [...this.properties]
+      : this.properties.filter(property => property.settlementId === settlementId);
+  }
+
+  /**
+   * Property by id
+   */
+  getProperty(id: string): Property | undefined {
+    return this.properties.find(property => property.id === id);
+  }
+
+  /**
+   * Check if the player owns the building on a tile (settlements leave it alone)
+   */
+  isOwned(col: number, row: number): boolean {
+    return this.properties.some(property => property.tile.col === col && property.tile.row === row);
+  }
+
+  /**
+   * Check if a commissioned building is still being built
+   */
+  isUnderConstruction(property: Property): boolean {
+    return property.workDone < property.workRequired;
+  }
+
+  /**
+   * Take over a building (workRequired > 0 for one still to be built)
+   */
+  addProperty(settlementId: number, tile: { col: number; row: number }, building: BuildingType, workRequired: number = 0): Property {
+    const property: Property = {
+      id: `property_${tile.col}_${tile.row}`,
+      settlementId,
+      tile: { ...tile },
+      building,
+      hired: workRequired > 0 ? CONSTRUCTION_SITE_WORKERS : 0,
+      workers: 0,
+      productivity: 0,
+      workDone: 0,
+      workRequired,
+      warehouse: new SettlementEconomy(settlementId, WAREHOUSE_CAPACITY),
+    };
+    this.properties.push(property);
+    return property;
+  }
+
+  /**
+   * Player's buildings in a settlement as workplaces
+   * (builders on commissioned sites, the chosen staff otherwise)
+   */
+  getWorkplaces(settlementId: number): BuildingInfo[] {
+    return this.getProperties(settlementId)
+      .filter(property => property.hired > 0)
+      .map(property => this.isUnderConstruction(property)
+        ? {
+          type: property.building,
+          location: property.tile,
+          priority: PROPERTY_PRIORITY,
+          jobType: JobType.Builder,
+          capacity: Math.min(property.hired, CONSTRUCTION_SITE_WORKERS),
+        }
+        : {
+          type: property.building,
+          location: property.tile,
+          priority: PROPERTY_PRIORITY,
+          capacity: property.hired,
+        });
+  }
+
+  /**
+   * Run the player's buildings in a settlement after worker assignment:
+   * pay wages to the settlement, advance construction, tick and start production.
+   * Returns tiles whose building was completed.
+   */
+  processSettlement(
+    worldMap: WorldMap,
+    settlementId: number,
+    economy: SettlementEconomy,
+    assignments: WorkerAssignment[],
+    turn: number
+  ): HexTile[] {
+    const changedTiles: HexTile[] = [];
+
+    for (const property of this.getProperties(settlementId)) {
+      const { col, row } = property.tile;
+      const name = BUILDING_CONFIG[property.building].name;
+      const workers = assignments.filter(a => a.building.col === col && a.building.row === row);
+      property.workers = workers.length;
+      property.productivity = workers.reduce((sum, a) => sum + a.productivity, 0);
+
+      // Wages go to the settlement the workers live in; unpaid workers down tools
+      if (workers.length > 0) {
+        const wages = workers.length * WORKER_WAGE;
+        if (this.payWages?.(wages)) {
+          economy.addMoney(wages);
+          this.record(turn, settlementId, "expense", `Wages: ${workers.length} at the ${name}`, -wages);
+        } else {
+          property.hired = 0;
+          property.workers = 0;
+          property.productivity = 0;
+          this.record(turn, settlementId, "expense", `Workers left the ${name} (wages unpaid)`, 0);
+          continue;
+        }
+      }
+
+      if (this.isUnderConstruction(property)) {
+        property.workDone += property.productivity;
+        if (!this.isUnderConstruction(property)) {
+          const tile = worldMap.getTile(property.tile);
+          if (tile) {
+            tile.building = property.building;
+            changedTiles.push(tile, ...worldMap.getNeighbors(tile).filter(n => n.settlementId !== undefined));
+          }
+          property.hired = 0;
+          this.record(turn, settlementId, "output", `The ${name} is finished`, 0);
+          console.log(`[Property] Player's ${name} at ${col},${row} is finished`);
+        }
+        continue;
+      }
+
+      this.runProduction(property, turn);
+    }
+
+    return changedTiles;
+  }
+
+  /**
+   * Advance the running job, or start the chosen recipe if its workers
+   * are present and the warehouse holds the inputs
+   */
+  private runProduction(property: Property, turn: number): void {
+    const { col, row } = property.tile;
+    const warehouse = property.warehouse;
+
+    const activeJob = warehouse.getProductionForBuilding(col, row);
+    if (activeJob) {
+      const recipe = getRecipeById(activeJob.recipeId);
+      if (recipe) warehouse.tickProduction(recipe);
+    } else if (property.recipeId && property.productivity > 0) {
+      const recipe = getRecipeById(property.recipeId);
+      if (recipe && warehouse.startProduction(recipe, property.tile, property.productivity)) {
+        console.log(`[Property] Player's ${BUILDING_CONFIG[property.building].name} started ${recipe.name}`);
+      }
+    }
+
+    for (const [recipeId, units] of warehouse.takeProductionLog()) {
+      const outputs = getRecipeById(recipeId)?.outputs.map(output => getMaterialName(output.type)).join(", ") ?? recipeId;
+      this.record(turn, property.settlementId, "output", `${units} ${outputs} from the ${BUILDING_CONFIG[property.building].name}`, 0);
+    }
+  }
+
+  /**
+   * Write a ledger entry
+   */
+  record(turn: number, settlementId: number, kind: LedgerKind, description: string, gold: number): void {
+    this.ledger.push({ turn, settlementId, kind, description, gold });
+    if (gold > 0) this.income += gold;
+    else this.expenses -= gold;
+    if (this.ledger.length > MAX_LEDGER_ENTRIES) this.ledger.shift();
+  }
+
+  /**
+   * Ledger entries, newest first
+   */
+  getLedger(): LedgerEntry[] {
+    return [...this.ledger].reverse();
+  }
+
+  /**
+   * Gold earned and spent since the first purchase
+   */
+  getTotals(): { income: number; expenses: number } {
+    return { income: this.income, expenses: this.expenses };
+  }
+
+  /**
+   * Capture properties, warehouses and the ledger for saving
+   */
+  serialize(): PropertySaveState {
+    return {
+      properties: this.properties.map(property => ({
+        ...property,
+        tile: { ...property.tile },
+        warehouse: property.warehouse.serialize(),
+      })),
+      ledger: this.ledger.map(entry => ({ ...entry })),
+      income: this.income,
+      expenses: this.expenses,
+    };
+  }
+
+  /**
+   * Replace properties and the ledger with a saved snapshot
+   */
+  restore(state: PropertySaveState): void {
+    this.properties = state.properties.map(saved => {
+      const warehouse = new SettlementEconomy(saved.settlementId, WAREHOUSE_CAPACITY);
+      warehouse.restore(saved.warehouse);
+      return { ...saved, tile: { ...saved.tile }, warehouse };
+    });
+    this.ledger = state.ledger.map(entry => ({ ...entry }));
+    this.income = state.income;
+    this.expenses = state.expenses;
+  }
+}
@@ -44,6 +44,10 @@ export interface ResourceConfig {
   renewable: boolean;
   /** Resource category for game mechanics */
   category: "food" | "material" | "mineral" | "luxury";
+  /** Base trade value (relative) */
+  value: number;
+  /** Weight per unit (for carrying and transport) */
+  weight: number;
 }
 
 /**
@@ -58,6 +62,8 @@ export const RESOURCE_CONFIG: Record<ResourceType, ResourceConfig> = {
     baseSpawnChance: 0,
     renewable: false,
     category: "material",
+    value: 0,
+    weight: 0,
   },
   
   // === RENEWABLE RESOURCES ===
@@ -69,6 +75,8 @@ export const RESOURCE_CONFIG: Record<ResourceType, ResourceConfig> = {
     baseSpawnChance: 0.05,
     renewable: true,
     category: "food",
+    value: 3,
+    weight: 2,
   },
   
   [ResourceType.Fish]: {
@@ -79,6 +87,8 @@ export const RESOURCE_CONFIG: Record<ResourceType, ResourceConfig> = {
     baseSpawnChance: 0.025, // Increased for more coastal fishing villages
     renewable: true,
     category: "food",
+    value: 2,
+    weight: 1,
   },
   
   [ResourceType.Timber]: {
@@ -89,6 +99,8 @@ export const RESOURCE_CONFIG: Record<ResourceType, ResourceConfig> = {
     baseSpawnChance: 0.04,
     renewable: true,
     category: "material",
+    value: 1,
+    weight: 3,
   },
   
   // === AGRICULTURAL/PASTORAL ===
@@ -100,6 +112,8 @@ export const RESOURCE_CONFIG: Record<ResourceType, ResourceConfig> = {
     baseSpawnChance: 0.03,
     renewable: true,
     category: "food",
+    value: 5,
+    weight: 5,
   },
   
   [ResourceType.Wheat]: {
@@ -110,6 +124,8 @@ export const RESOURCE_CONFIG: Record<ResourceType, ResourceConfig> = {
     baseSpawnChance: 0.035,
     renewable: true,
     category: "food",
+    value: 1,
+    weight: 1,
   },
   
   [ResourceType.Vegetables]: {
@@ -120,6 +136,8 @@ export const RESOURCE_CONFIG: Record<ResourceType, ResourceConfig> = {
     baseSpawnChance: 0.03,
     renewable: true,
     category: "food",
+    value: 1,
+    weight: 1,
   },
   
   [ResourceType.Clay]: {
@@ -130,6 +148,8 @@ export const RESOURCE_CONFIG: Record<ResourceType, ResourceConfig> = {
     baseSpawnChance: 0.02,
     renewable: false,
     category: "material",
+    value: 1,
+    weight: 3,
   },
   
   // === COMMON MINERALS ===
@@ -141,6 +161,8 @@ export const RESOURCE_CONFIG: Record<ResourceType, ResourceConfig> = {
     baseSpawnChance: 0.08,
     renewable: false,
     category: "material",
+    value: 1,
+    weight: 4,
   },
   
   [ResourceType.Copper]: {
@@ -151,6 +173,8 @@ export const RESOURCE_CONFIG: Record<ResourceType, ResourceConfig> = {
     baseSpawnChance: 0.03,
     renewable: false,
     category: "mineral",
+    value: 4,
+    weight: 3,
   },
   
   [ResourceType.Salt]: {
@@ -161,6 +185,8 @@ export const RESOURCE_CONFIG: Record<ResourceType, ResourceConfig> = {
     baseSpawnChance: 0.02,
     renewable: false,
     category: "material",
+    value: 3,
+    weight: 1,
   },
   
   // === VALUABLE MINERALS ===
@@ -172,6 +198,8 @@ export const RESOURCE_CONFIG: Record<ResourceType, ResourceConfig> = {
     baseSpawnChance: 0.025,
     renewable: false,
     category: "mineral",
+    value: 6,
+    weight: 4,
   },
   
   [ResourceType.Silver]: {
@@ -182,6 +210,8 @@ export const RESOURCE_CONFIG: Record<ResourceType, ResourceConfig> = {
     baseSpawnChance: 0.008,
     renewable: false,
     category: "luxury",
+    value: 15,
+    weight: 2,
   },
   
   [ResourceType.Gold]: {
@@ -192,6 +222,8 @@ export const RESOURCE_CONFIG: Record<ResourceType, ResourceConfig> = {
     baseSpawnChance: 0.004,
     renewable: false,
     category: "luxury",
+    value: 25,
+    weight: 2,
   },
   
   [ResourceType.Gems]: {
@@ -202,6 +234,8 @@ export const RESOURCE_CONFIG: Record<ResourceType, ResourceConfig> = {
     baseSpawnChance: 0.004,
     renewable: false,
     category: "luxury",
+    value: 30,
+    weight: 0.5,
   },
 };
 
@@ -210,8 +244,26 @@ export const RESOURCE_CONFIG: Record<ResourceType, ResourceConfig> = {
  */
 export interface ResourceDeposit {
   type: ResourceType;
-  /** Remaining quantity (for non-renewable resources) */
+  /** Remaining quantity */
   quantity: number;
   /** Quality/richness of the deposit (0-1, affects yield) */
   quality: number;
+  /** Most the deposit can hold: renewable deposits regrow toward it, overharvesting lowers it */
+  capacity: number;
+}
+
+/**
+ * Starting capacity of a deposit (renewable deposits are larger, both scale with quality)
+ */
+export function getDepositCapacity(type: ResourceType, quality: number): number {
+  const baseQuantity = RESOURCE_CONFIG[type].renewable ? 1000 : 500;
+  return Math.floor(baseQuantity * quality);
+}
+
+/**
+ * Remaining share of a deposit (0 = exhausted, 1 = full)
+ */
+export function getDepositLevel(deposit: ResourceDeposit): number {
+  if (deposit.capacity <= 0) return 0;
+  return Math.max(0, Math.min(1, deposit.quantity / deposit.capacity));
 }
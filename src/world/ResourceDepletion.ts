@@ -0,0 +1,109 @@
+import { Grid } from "honeycomb-grid";
+import { HexTile } from "./HexTile";
+import { ResourceDeposit, RESOURCE_CONFIG, getDepositLevel } from "./Resource";
+
+/**
+ * Share of capacity a renewable deposit regrows each turn
+ */
+export const REGROWTH_RATE = 0.02;
+
+/**
+ * Harvesting a renewable deposit below this share of its capacity damages it
+ */
+export const OVERHARVEST_THRESHOLD = 0.25;
+
+/**
+ * Share of each overharvested unit that is permanently lost from capacity
+ */
+export const OVERHARVEST_DAMAGE = 0.1;
+
+/**
+ * Renewable deposits overharvested below this capacity collapse and disappear
+ */
+export const MIN_RENEWABLE_CAPACITY = 50;
+
+/**
+ * Number of steps the map icon shows (a deposit is redrawn when it crosses one)
+ */
+export const DEPOSIT_DISPLAY_LEVELS = 4;
+
+/**
+ * Record a harvest on a deposit: remove the units and, for renewable deposits
+ * taken below the overharvest threshold, permanently lower the capacity.
+ */
+export function harvestDeposit(deposit: ResourceDeposit, amount: number): void {
+  deposit.quantity = Math.max(0, deposit.quantity - amount);
+
+  if (!RESOURCE_CONFIG[deposit.type].renewable) return;
+  if (deposit.quantity < deposit.capacity * OVERHARVEST_THRESHOLD) {
+    deposit.capacity = Math.max(0, deposit.capacity - Math.ceil(amount * OVERHARVEST_DAMAGE));
+  }
+}
+
+/**
+ * Check if a deposit is gone for good (mined out, or overharvested into collapse)
+ */
+export function isDepositExhausted(deposit: ResourceDeposit): boolean {
+  if (RESOURCE_CONFIG[deposit.type].renewable) {
+    return deposit.capacity < MIN_RENEWABLE_CAPACITY;
+  }
+  return deposit.quantity < 1;
+}
+
+/**
+ * Quantized deposit level (0..DEPOSIT_DISPLAY_LEVELS) as shown by the map icon
+ */
+export function getDepositDisplayLevel(deposit: ResourceDeposit): number {
+  return Math.ceil(getDepositLevel(deposit) * DEPOSIT_DISPLAY_LEVELS);
+}
+
+/**
+ * Natural regrowth and exhaustion of resource deposits across the map.
+ * Renewable deposits (fish, game, timber, ...) regrow toward their capacity,
+ * exhausted deposits are removed from their tiles.
+ */
+export class ResourceDepletionSystem {
+  /** Icon level each deposit was last reported at (tile key → level, missing = full). */
+  private displayedLevels: Map<string, number> = new Map();
+
+  /**
+   * Regrow renewable deposits and remove exhausted ones
+   *
+   * @returns Tiles whose deposit changed visibly (need re-rendering)
+   */
+  processTurn(grid: Grid<HexTile>): HexTile[] {
+    const changedTiles: HexTile[] = [];
+
+    grid.forEach((hex) => {
+      const deposit = hex.resource;
+      if (!deposit) return;
+
+      const key = `${hex.col},${hex.row}`;
+
+      if (isDepositExhausted(deposit)) {
+        hex.resource = undefined;
+        this.displayedLevels.delete(key);
+        changedTiles.push(hex);
+        console.log(`[Resources] ${RESOURCE_CONFIG[deposit.type].name} deposit at (${hex.col}, ${hex.row}) is exhausted`);
+        return;
+      }
+
+      if (RESOURCE_CONFIG[deposit.type].renewable && deposit.quantity < deposit.capacity) {
+        const regrowth = Math.max(1, Math.round(deposit.capacity * REGROWTH_RATE));
+        deposit.quantity = Math.min(deposit.capacity, deposit.quantity + regrowth);
+      }
+
+      const level = getDepositDisplayLevel(deposit);
+      if (level !== (this.displayedLevels.get(key) ?? DEPOSIT_DISPLAY_LEVELS)) {
+        changedTiles.push(hex);
+      }
+      if (level === DEPOSIT_DISPLAY_LEVELS) {
+        this.displayedLevels.delete(key);
+      } else {
+        this.displayedLevels.set(key, level);
+      }
+    });
+
+    return changedTiles;
+  }
+}
@@ -3,6 +3,10 @@ import { BuildingType } from "./Building";
 import { HexTile } from "./HexTile";
 import { Grid } from "honeycomb-grid";
 import { getHexNeighbors } from "./HexMapUtils";
+import { harvestDeposit } from "./ResourceDepletion";
+import { Weather, SEASON_CONFIG, STORM_FISHING_MULTIPLIER } from "./Calendar";
+import { BIOME_CONFIG } from "./Biome";
+import { getRiverYieldMultiplier } from "./River";
 
 /**
  * Base extraction rates for buildings (units per tick)
@@ -184,12 +188,14 @@ export function findNearbyResources(
  * Returns the amount extracted
  * 
  * @param workerProductivity - Total productivity of workers (0 = no workers, 1+ = scaled by skill/health)
+ * @param weather - Season and storms of the current turn (omit for a neutral yield)
  */
 export function extractResources(
   grid: Grid<HexTile>,
   buildingTile: HexTile,
   buildingType: BuildingType,
-  workerProductivity: number = 1.0
+  workerProductivity: number = 1.0,
+  weather?: Weather
 ): { resourceType: ResourceType; amount: number } | null {
   const baseRate = BASE_EXTRACTION_RATES[buildingType] || 0;
   if (baseRate === 0) {
@@ -201,23 +207,33 @@ export function extractResources(
     return null;
   }
   
+  // Season and storms (e.g. frozen fields yield nothing in winter)
+  const seasonalMultiplier = weather ? getSeasonalExtractionMultiplier(buildingType, weather) : 1;
+  if (seasonalMultiplier === 0) {
+    return null;
+  }
+  
+  // Rivers water the fields beside them and bring fish to the boats at their mouths
+  const riverMultiplier = getRiverYieldMultiplier(grid, buildingTile, buildingType);
+
   // Scale base rate by worker productivity
-  const effectiveRate = baseRate * workerProductivity;
+  const effectiveRate = baseRate * workerProductivity * seasonalMultiplier * riverMultiplier;
   
   // Get all resources this building can extract
   const extractableResources = getResourcesForBuilding(buildingType);
   
   // SPECIAL CASE: Fields and Pastures GENERATE resources (don't need deposits)
   // They're renewable agriculture, not extraction!
+  // The climate sets their yield (poor fields in the desert, rich grazing on the steppe)
   if (buildingType === BuildingType.Field) {
     // Fields always produce wheat (as long as there are workers)
-    const amount = Math.floor(effectiveRate);
+    const amount = Math.floor(effectiveRate * BIOME_CONFIG[buildingTile.biome].farmingYield);
     return { resourceType: ResourceType.Wheat, amount };
   }
   
   if (buildingType === BuildingType.Pasture) {
     // Pastures always produce livestock (as long as there are workers)
-    const amount = Math.floor(effectiveRate);
+    const amount = Math.floor(effectiveRate * BIOME_CONFIG[buildingTile.biome].grazingYield);
     return { resourceType: ResourceType.Livestock, amount };
   }
   
@@ -234,14 +250,11 @@ export function extractResources(
         const extractionAmount = Math.floor(effectiveRate * deposit.quality);
         const actualExtraction = Math.min(extractionAmount, deposit.quantity);
         
-        // Deplete non-renewable resources
+        // Deplete the deposit (exhausted deposits are removed by ResourceDepletionSystem)
         if (actualExtraction > 0) {
-          deposit.quantity = Math.max(0, deposit.quantity - actualExtraction);
+          harvestDeposit(deposit, actualExtraction);
           totalExtracted += actualExtraction;
         }
-        
-        // If deposit is depleted, we could mark it for removal
-        // For now, we just leave it at 0 quantity
       }
       
       if (totalExtracted > 0) {
@@ -253,6 +266,45 @@ export function extractResources(
   return null; // No resources found to extract
 }
 
+/**
+ * Yield multiplier the season and weather apply to an extraction building
+ */
+export function getSeasonalExtractionMultiplier(buildingType: BuildingType, weather: Weather): number {
+  const season = SEASON_CONFIG[weather.season];
+
+  switch (buildingType) {
+    case BuildingType.Field:
+      return season.farmingYield;
+    case BuildingType.Pasture:
+      return season.grazingYield;
+    case BuildingType.FishingBoat:
+    case BuildingType.FishingHut:
+      return season.fishingYield * (weather.storm ? STORM_FISHING_MULTIPLIER : 1);
+    case BuildingType.HuntingLodge:
+      return season.huntingYield;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Check if an extraction building has anything left to extract
+ * (fields and pastures always do; other buildings need a non-empty deposit in reach)
+ */
+export function hasExtractableDeposit(
+  grid: Grid<HexTile>,
+  buildingTile: HexTile,
+  buildingType: BuildingType
+): boolean {
+  if (buildingType === BuildingType.Field || buildingType === BuildingType.Pasture) {
+    return true;
+  }
+
+  return getResourcesForBuilding(buildingType).some(resourceType =>
+    findNearbyResources(grid, buildingTile, resourceType).some(deposit => deposit.quantity >= 1)
+  );
+}
+
 /**
  * Get the extraction rate for a building
  */
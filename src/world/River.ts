@@ -0,0 +1,83 @@
+import { Grid } from "honeycomb-grid";
+import { HexTile } from "./HexTile";
+import { BuildingType } from "./Building";
+import { getHexNeighbors } from "./HexMapUtils";
+
+/** River tiles upstream (this one included) from which a river is wide enough for barges */
+export const NAVIGABLE_FLOW = 6;
+
+/** Extra AP to wade across a river (streams cost less; bridges, roads and fords nothing) */
+export const RIVER_CROSSING_AP = 2;
+export const STREAM_CROSSING_AP = 1;
+
+/** AP per step of a barge along a navigable river */
+export const BARGE_AP = 1;
+
+/** Yield multiplier of fields on or beside a river */
+export const RIVER_FARMING_YIELD = 1.25;
+
+/** Yield multiplier of fishing boats on or beside a river (river mouths and lakes fed by rivers) */
+export const RIVER_FISHING_YIELD = 1.25;
+
+/**
+ * Does a river run through the tile?
+ */
+export function isRiver(tile: HexTile): boolean {
+  return tile.riverFlow > 0;
+}
+
+/**
+ * Is the river wide enough here to carry barges?
+ */
+export function isNavigable(tile: HexTile): boolean {
+  return tile.riverFlow >= NAVIGABLE_FLOW;
+}
+
+/**
+ * Extra AP to enter a river tile (0 with a road, a bridge or a ford)
+ */
+export function getRiverAPCost(tile: HexTile): number {
+  if (!isRiver(tile) || tile.isFord || tile.hasRoad || tile.building === BuildingType.Bridge) return 0;
+  return isNavigable(tile) ? RIVER_CROSSING_AP : STREAM_CROSSING_AP;
+}
+
+/**
+ * Does a step follow a navigable river (up or downstream)? Barges make these steps cheap.
+ */
+export function isBargeStep(from: HexTile, to: HexTile): boolean {
+  if (!isNavigable(from) || !isNavigable(to)) return false;
+  const flowsInto = (a: HexTile, b: HexTile) =>
+    a.riverOutlet?.col === b.col && a.riverOutlet?.row === b.row;
+  return flowsInto(from, to) || flowsInto(to, from);
+}
+
+/**
+ * Is the tile on or beside a river?
+ */
+export function isNearRiver(grid: Grid<HexTile>, tile: HexTile): boolean {
+  return isRiver(tile) || getHexNeighbors(grid, tile).some(isRiver);
+}
+
+/**
+ * Yield multiplier a river gives a building on or beside it
+ * (fertile fields, fish at river mouths)
+ */
+export function getRiverYieldMultiplier(grid: Grid<HexTile>, tile: HexTile, buildingType: BuildingType): number {
+  switch (buildingType) {
+    case BuildingType.Field:
+      return isNearRiver(grid, tile) ? RIVER_FARMING_YIELD : 1;
+    case BuildingType.FishingBoat:
+      return isNearRiver(grid, tile) ? RIVER_FISHING_YIELD : 1;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Put a bridge where a road crosses a river (tiles with a building keep it)
+ */
+export function bridgeRiver(tile: HexTile): void {
+  if (isRiver(tile) && tile.building === BuildingType.None) {
+    tile.building = BuildingType.Bridge;
+  }
+}
@@ -2,11 +2,13 @@ import { Grid } from "honeycomb-grid";
 import { HexTile } from "./HexTile";
 import { Settlement, BuildingType } from "./Building";
 import { isWater, VegetationType } from "./Terrain";
+import { bridgeRiver } from "./River";
 import { findPath, IPathfindingMap } from "../pathfinding/Pathfinding";
 
 /**
  * Generates roads connecting settlements using A* pathfinding.
- * Roads follow optimal paths that consider terrain costs (avoiding mountains, etc.).
+ * Roads follow optimal paths that consider terrain costs (avoiding mountains, etc.)
+ * and put bridges where they cross rivers.
  */
 export class RoadGenerator {
   private seed: string;
@@ -111,8 +113,9 @@ export class RoadGenerator {
           waterSequence = [];
         }
 
-        // Mark land tile as road
+        // Mark land tile as road (bridging any river it crosses)
         hex.hasRoad = true;
+        bridgeRiver(hex);
         hex.isRough = false;
         hex.vegetation = VegetationType.None;
         hex.treeDensity = 0;
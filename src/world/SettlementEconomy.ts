@@ -1,7 +1,7 @@
 import { ResourceType } from "./Resource";
 import { GoodType } from "./Goods";
 import { BuildingType } from "./Building";
-import { ProductionRecipe, MaterialType, isResource, isGood } from "./ProductionRecipe";
+import { ProductionRecipe, MaterialType, isResource, isGood, getRecipeById } from "./ProductionRecipe";
 import { Grid } from "honeycomb-grid";
 import { HexTile } from "./HexTile";
 
@@ -16,6 +16,18 @@ export interface ProductionJob {
   productivity: number; // Worker productivity multiplier (affects output)
 }
 
+/**
+ * Serializable snapshot of a settlement economy (used by save games)
+ */
+export interface SettlementEconomySaveState {
+  settlementId: number;
+  resources: Array<[ResourceType, number]>;
+  goods: Array<[GoodType, number]>;
+  productionQueue: ProductionJob[];
+  storageCapacity: number;
+  treasury: number;
+}
+
 /**
  * Manages the economy for a single settlement
  */
@@ -26,6 +38,7 @@ export class SettlementEconomy {
   private productionQueue: ProductionJob[];
   private storageCapacity: number;
   private treasury: number; // Settlement's money for trade
+  private producedThisTurn: Map<string, number>; // Recipe ID -> units output (for statistics)
 
   constructor(settlementId: number, storageCapacity: number = 10000) {
     this.settlementId = settlementId;
@@ -34,6 +47,7 @@ export class SettlementEconomy {
     this.productionQueue = [];
     this.storageCapacity = storageCapacity;
     this.treasury = 0; // Will be initialized based on population
+    this.producedThisTurn = new Map();
     
     // Initialize all stockpiles to 0
     Object.values(ResourceType).forEach(type => {
@@ -121,6 +135,18 @@ export class SettlementEconomy {
     return false;
   }
 
+  /**
+   * Add any material (resource or good) to stockpile
+   */
+  addMaterial(type: MaterialType, amount: number): boolean {
+    if (isResource(type)) {
+      return this.addResource(type, amount);
+    } else if (isGood(type)) {
+      return this.addGood(type, amount);
+    }
+    return false;
+  }
+
   /**
    * Remove any material (resource or good) from stockpile
    */
@@ -264,10 +290,20 @@ export class SettlementEconomy {
         // Scale output by productivity (min 50%, max 150%)
         const scaledQuantity = Math.max(1, Math.floor(output.quantity * job.productivity));
         this.addGood(output.type, scaledQuantity);
+        this.producedThisTurn.set(recipe.id, (this.producedThisTurn.get(recipe.id) || 0) + scaledQuantity);
       }
     }
   }
 
+  /**
+   * Get units produced per recipe since the last call, and reset the tally
+   */
+  takeProductionLog(): Map<string, number> {
+    const log = this.producedThisTurn;
+    this.producedThisTurn = new Map();
+    return log;
+  }
+
   /**
    * Get all active production jobs
    */
@@ -284,6 +320,20 @@ export class SettlementEconomy {
     );
   }
 
+  /**
+   * Cancel a building's production job; its inputs go back to the stockpile
+   */
+  cancelProduction(col: number, row: number): ProductionJob | undefined {
+    const job = this.getProductionForBuilding(col, row);
+    if (!job) return undefined;
+
+    this.productionQueue = this.productionQueue.filter(j => j !== job);
+    for (const input of getRecipeById(job.recipeId)?.inputs ?? []) {
+      this.addMaterial(input.type, input.quantity);
+    }
+    return job;
+  }
+
   /**
    * Check if a building is currently producing
    */
@@ -347,6 +397,43 @@ export class SettlementEconomy {
   getStorageUsagePercent(): number {
     return (this.getTotalStorageUsed() / this.storageCapacity) * 100;
   }
+
+  /**
+   * Capture the full economy state for saving
+   */
+  serialize(): SettlementEconomySaveState {
+    return {
+      settlementId: this.settlementId,
+      resources: Array.from(this.resourceStockpile.entries()).filter(([, amount]) => amount > 0),
+      goods: Array.from(this.goodsStockpile.entries()).filter(([, amount]) => amount > 0),
+      productionQueue: this.productionQueue.map(job => ({
+        ...job,
+        buildingTile: { ...job.buildingTile },
+      })),
+      storageCapacity: this.storageCapacity,
+      treasury: this.treasury,
+    };
+  }
+
+  /**
+   * Replace the economy state with a saved snapshot
+   */
+  restore(state: SettlementEconomySaveState): void {
+    Object.values(ResourceType).forEach(type => this.resourceStockpile.set(type, 0));
+    Object.values(GoodType).forEach(type => this.goodsStockpile.set(type, 0));
+    for (const [type, amount] of state.resources) {
+      this.resourceStockpile.set(type, amount);
+    }
+    for (const [type, amount] of state.goods) {
+      this.goodsStockpile.set(type, amount);
+    }
+    this.productionQueue = state.productionQueue.map(job => ({
+      ...job,
+      buildingTile: { ...job.buildingTile },
+    }));
+    this.storageCapacity = state.storageCapacity;
+    this.treasury = state.treasury;
+  }
 }
 
 /**
@@ -398,4 +485,21 @@ export class EconomyManager {
   clear(): void {
     this.economies.clear();
   }
+
+  /**
+   * Capture every settlement economy for saving
+   */
+  serialize(): SettlementEconomySaveState[] {
+    return this.getAllEconomies().map(economy => economy.serialize());
+  }
+
+  /**
+   * Replace all economies with saved snapshots
+   */
+  restore(states: SettlementEconomySaveState[]): void {
+    this.economies.clear();
+    for (const state of states) {
+      this.getOrCreateEconomy(state.settlementId).restore(state);
+    }
+  }
 }
@@ -0,0 +1,234 @@
+import { Grid } from "honeycomb-grid";
+import { HexTile } from "./HexTile";
+import { BuildingType, Settlement } from "./Building";
+import { GoodType } from "./Goods";
+import { SettlementEconomy } from "./SettlementEconomy";
+import { RecipeItem } from "./ProductionRecipe";
+import { WorkerAssignment, BuildingInfo } from "./population/WorkerAssignment";
+import { JobType } from "./population/Person";
+
+/**
+ * A settlement's merchant ships and the hull on its slipway
+ */
+export interface Shipyard {
+  settlementId: number;
+  /** Ships the settlement owns (in port or at sea) */
+  ships: number;
+  /** Ships in port, waiting for a trader */
+  docked: number;
+  /** Shipwright work done on the hull under construction (null if none) */
+  hull: number | null;
+}
+
+/**
+ * Serializable snapshot of the shipyard system (used by save games)
+ */
+export interface ShipyardSaveState {
+  shipyards: Shipyard[];
+}
+
+/**
+ * Materials laid down for one ship
+ */
+export const SHIP_COST: RecipeItem[] = [
+  { type: GoodType.Planks, quantity: 30 },
+  { type: GoodType.Cloth, quantity: 15 },
+];
+
+/**
+ * Shipwright productivity needed to launch a ship (≈ shipwrights × turns at productivity 1.0)
+ */
+export const SHIP_WORK = 16;
+
+/**
+ * Worker assignment priority for a dock with a hull on the slipway
+ * (after construction sites, before production)
+ */
+const SHIPYARD_PRIORITY = 55;
+
+/**
+ * Most ships a port keeps, by settlement size
+ */
+const MAX_SHIPS: Record<Settlement["type"], number> = {
+  city: 2,
+  village: 1,
+  hamlet: 1,
+};
+
+/**
+ * The dock of a settlement (null for inland settlements)
+ */
+export function findDock(grid: Grid<HexTile>, settlement: Settlement): HexTile | null {
+  for (const pos of settlement.tiles) {
+    const tile = grid.getHex(pos);
+    if (tile?.building === BuildingType.Dock) return tile;
+  }
+  return null;
+}
+
+/**
+ * Ships of each port: Shipwrights at the dock build them from planks and
+ * cloth, and the settlement's traders take them out on sea routes.
+ * Ports only build ships while another port can be reached by sea.
+ */
+export class ShipyardSystem {
+  private shipyards: Map<number, Shipyard> = new Map();
+
+  /** Whether a port can reach another port by sea (ships are only built for sea routes). */
+  hasSeaRoutes?: (settlementId: number) => boolean;
+
+  /**
+   * Keep Shipwrights at a port's dock only while a hull is on the slipway
+   * or a new one can be laid down (docks stand idle otherwise)
+   */
+  limitShipwrights(
+    buildings: BuildingInfo[],
+    grid: Grid<HexTile>,
+    settlements: Settlement[],
+    settlementId: number,
+    economy: SettlementEconomy
+  ): BuildingInfo[] {
+    const shipyard = this.shipyards.get(settlementId);
+    if (shipyard?.hull == null && !this.canLayDown(grid, settlements, settlementId, economy)) {
+      return buildings.filter(b => b.type !== BuildingType.Dock);
+    }
+    return buildings.map(b => b.type === BuildingType.Dock ? { ...b, priority: SHIPYARD_PRIORITY } : b);
+  }
+
+  /**
+   * Materials a port is short of for its next ship (requested on its market)
+   */
+  getMaterialShortfall(
+    grid: Grid<HexTile>,
+    settlements: Settlement[],
+    settlementId: number,
+    economy: SettlementEconomy
+  ): RecipeItem[] {
+    const shipyard = this.shipyards.get(settlementId);
+    if (shipyard?.hull != null || !this.wantsShip(grid, settlements, settlementId)) return [];
+
+    const shortfall: RecipeItem[] = [];
+    for (const { type, quantity } of SHIP_COST) {
+      const missing = quantity - economy.getMaterialAmount(type);
+      if (missing > 0) shortfall.push({ type, quantity: Math.ceil(missing) });
+    }
+    return shortfall;
+  }
+
+  /**
+   * Lay down a new hull if the port wants a ship and has the materials,
+   * then let the Shipwrights work on it. Returns true when a ship was launched.
+   */
+  processSettlement(
+    grid: Grid<HexTile>,
+    settlements: Settlement[],
+    settlementId: number,
+    economy: SettlementEconomy,
+    assignments: WorkerAssignment[]
+  ): boolean {
+    const settlement = settlements[settlementId];
+    let shipyard = this.shipyards.get(settlementId);
+
+    if (shipyard?.hull == null) {
+      if (!this.canLayDown(grid, settlements, settlementId, economy)) return false;
+      for (const item of SHIP_COST) economy.removeMaterial(item.type, item.quantity);
+      shipyard = this.getOrCreateShipyard(settlementId);
+      shipyard.hull = 0;
+      console.log(`  [Shipyard] ${settlement.name} laid down a new hull`);
+    }
+
+    const shipwrights = assignments.filter(
+      a => a.jobType === JobType.Shipwright && a.buildingType === BuildingType.Dock
+    );
+    shipyard.hull += shipwrights.reduce((sum, a) => sum + a.productivity, 0);
+
+    if (shipyard.hull < SHIP_WORK) {
+      console.log(`  [Shipyard] ${settlement.name} hull: ${shipyard.hull.toFixed(1)}/${SHIP_WORK} work (${shipwrights.length} shipwrights)`);
+      return false;
+    }
+
+    shipyard.hull = null;
+    shipyard.ships++;
+    shipyard.docked++;
+    console.log(`  [Shipyard] ${settlement.name} launched a ship (${shipyard.ships} in its fleet)`);
+    return true;
+  }
+
+  /**
+   * Hand a ship in port to a trader (false if none is waiting)
+   */
+  takeShip(settlementId: number): boolean {
+    const shipyard = this.shipyards.get(settlementId);
+    if (!shipyard || shipyard.docked <= 0) return false;
+    shipyard.docked--;
+    return true;
+  }
+
+  /**
+   * A ship comes back to port (its trader died or was let go)
+   */
+  returnShip(settlementId: number): void {
+    const shipyard = this.getOrCreateShipyard(settlementId);
+    shipyard.docked = Math.min(shipyard.ships, shipyard.docked + 1);
+  }
+
+  /**
+   * Get a settlement's shipyard (undefined until it laid down its first hull)
+   */
+  getShipyard(settlementId: number): Shipyard | undefined {
+    return this.shipyards.get(settlementId);
+  }
+
+  /**
+   * Check if a port wants another ship: it has a dock, another port can be
+   * reached by sea, and its fleet is below the limit for its size
+   */
+  private wantsShip(grid: Grid<HexTile>, settlements: Settlement[], settlementId: number): boolean {
+    const settlement = settlements[settlementId];
+    if (!settlement || !findDock(grid, settlement)) return false;
+    if ((this.shipyards.get(settlementId)?.ships ?? 0) >= MAX_SHIPS[settlement.type]) return false;
+    return this.hasSeaRoutes?.(settlementId) ?? false;
+  }
+
+  /**
+   * Check if a port can lay down a new hull right now
+   */
+  private canLayDown(
+    grid: Grid<HexTile>,
+    settlements: Settlement[],
+    settlementId: number,
+    economy: SettlementEconomy
+  ): boolean {
+    return this.wantsShip(grid, settlements, settlementId) &&
+      SHIP_COST.every(item => economy.getMaterialAmount(item.type) >= item.quantity);
+  }
+
+  /**
+   * Get or create a settlement's shipyard
+   */
+  private getOrCreateShipyard(settlementId: number): Shipyard {
+    let shipyard = this.shipyards.get(settlementId);
+    if (!shipyard) {
+      shipyard = { settlementId, ships: 0, docked: 0, hull: null };
+      this.shipyards.set(settlementId, shipyard);
+    }
+    return shipyard;
+  }
+
+  /**
+   * Capture fleets and hulls for saving
+   */
+  serialize(): ShipyardSaveState {
+    return { shipyards: structuredClone(Array.from(this.shipyards.values())) };
+  }
+
+  /**
+   * Replace fleets and hulls with a saved snapshot
+   */
+  restore(state: ShipyardSaveState): void {
+    this.shipyards.clear();
+    for (const shipyard of structuredClone(state.shipyards)) {
+      this.shipyards.set(shipyard.settlementId, shipyard);
+    }
+  }
+}
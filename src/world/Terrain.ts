@@ -32,7 +32,7 @@ export interface TerrainConfig {
   isRough: boolean;
 }
 
-/** Config-driven terrain definitions — add biomes by extending this map */
+/** Config-driven terrain definitions (elevation bands; climate zones are in BIOME_CONFIG) */
 export const TERRAIN_CONFIG: Record<TerrainType, TerrainConfig> = {
   [TerrainType.DeepWater]: {
     name: "Deep Water",
@@ -78,11 +78,25 @@ export const TERRAIN_CONFIG: Record<TerrainType, TerrainConfig> = {
   },
 };
 
+/** Share of carrying capacity above which a load counts as heavy. */
+export const HEAVY_LOAD_SHARE = 0.75;
+
+/**
+ * Extra AP per step for a carried load: +1 when it weighs more than
+ * HEAVY_LOAD_SHARE of the carrier's capacity (traders, caravans and the player)
+ */
+export function getLoadPenalty(weight: number, capacity: number): number {
+  return capacity > 0 && weight > capacity * HEAVY_LOAD_SHARE ? 1 : 0;
+}
+
 /**
  * Calculate the AP cost to move to a tile.
  * Roads = 1 AP, Normal terrain = 2 AP, Rough terrain = 3 AP, Dense forest = +1 AP
  * Embarking on water or disembarking from water = +2 AP
  * When embarked, water movement = 1 AP (like roads)
+ * A heavy load adds its penalty on land (boats carry the cargo)
+ * The destination's biome adds its own cost off-road (see getBiomeAPCost),
+ * and so does wading a river without a bridge or ford (see getRiverAPCost)
  */
 export function getAPCost(
   hasRoad: boolean,
@@ -91,6 +105,9 @@ export function getAPCost(
   fromTerrain?: TerrainType,
   toTerrain?: TerrainType,
   isEmbarked: boolean = false,
+  loadPenalty: number = 0,
+  biomeCost: number = 0,
+  riverCost: number = 0,
 ): number {
   // Special case: embarked water movement costs 1 AP (like roads)
   if (isEmbarked && toTerrain && isWater(toTerrain)) {
@@ -116,7 +133,7 @@ export function getAPCost(
     }
   }
 
-  return cost;
+  return cost + loadPenalty + biomeCost + riverCost;
 }
 
 /** Get the terrain type for a given elevation value (0–1) */
@@ -0,0 +1,153 @@
+import { GoodType } from "./Goods";
+import { SettlementEconomy } from "./SettlementEconomy";
+import { WorkerAssignment } from "./population/WorkerAssignment";
+import { JobType, Person } from "./population/Person";
+
+/**
+ * Goods a worker can work with as tools
+ */
+export type ToolType = GoodType.CopperTools | GoodType.IronTools;
+
+/**
+ * Tool wear of one settlement (worker-turns used on the tool currently wearing out)
+ */
+export interface ToolWear {
+  settlementId: number;
+  wear: Partial<Record<ToolType, number>>;
+}
+
+/**
+ * Serializable snapshot of the tool system (used by save games)
+ */
+export interface ToolSaveState {
+  settlements: ToolWear[];
+}
+
+/**
+ * Tools in the order they are handed out (best first), with their productivity
+ * multiplier and the worker-turns one set lasts
+ */
+export const TOOL_CONFIG: Record<ToolType, { productivity: number; durability: number }> = {
+  [GoodType.IronTools]: { productivity: 1.3, durability: 30 },
+  [GoodType.CopperTools]: { productivity: 1.15, durability: 15 },
+};
+
+/**
+ * Productivity multiplier of a worker without tools
+ */
+export const NO_TOOLS_PRODUCTIVITY = 0.75;
+
+/**
+ * Jobs done without tools (trading, soldiering)
+ */
+const TOOLLESS_JOBS = new Set<JobType>([JobType.None, JobType.Merchant, JobType.Soldier]);
+
+/**
+ * Does a job need tools?
+ */
+export function usesTools(jobType: JobType): boolean {
+  return !TOOLLESS_JOBS.has(jobType);
+}
+
+/**
+ * Workers employed at a building in a job that needs tools
+ */
+export function countToolUsers(people: Person[]): number {
+  return people.filter(p => p.assignedBuilding && usesTools(p.currentJob)).length;
+}
+
+/**
+ * Tools a settlement has in stock (both kinds)
+ */
+export function getToolStock(economy: SettlementEconomy): number {
+  return (Object.keys(TOOL_CONFIG) as ToolType[])
+    .reduce((sum, tool) => sum + Math.floor(economy.getGoodAmount(tool)), 0);
+}
+
+/**
+ * Productivity multiplier of working with a tool (or without one)
+ */
+export function getToolMultiplier(tool: ToolType | null): number {
+  return tool ? TOOL_CONFIG[tool].productivity : NO_TOOLS_PRODUCTIVITY;
+}
+
+/**
+ * Tools of each settlement: workers take tools from the settlement's stock
+ * (iron first, then copper) and work faster with them; tools wear out after
+ * a number of worker-turns. Workers left without tools work slower.
+ */
+export class ToolSystem {
+  private settlements: Map<number, ToolWear> = new Map();
+
+  /**
+   * Hand out tools to this turn's workers and scale their productivity,
+   * then wear the tools in use (worn-out tools leave the stock).
+   * Returns the number of workers who got tools.
+   */
+  equipWorkers(settlementId: number, economy: SettlementEconomy, assignments: WorkerAssignment[]): number {
+    const workers = assignments.filter(a => usesTools(a.jobType));
+    const tools = (Object.keys(TOOL_CONFIG) as ToolType[]).map(tool => ({
+      tool,
+      free: Math.floor(economy.getGoodAmount(tool)),
+      used: 0,
+    }));
+
+    // Workers come in assignment order, so the most important buildings get tools first
+    for (const worker of workers) {
+      const kit = tools.find(t => t.free > 0);
+      if (kit) {
+        kit.free--;
+        kit.used++;
+      }
+      worker.tool = kit?.tool ?? null;
+      worker.productivity *= getToolMultiplier(worker.tool);
+    }
+
+    const state = this.getOrCreateWear(settlementId);
+    for (const { tool, used } of tools) {
+      if (used === 0) continue;
+      const wear = (state.wear[tool] ?? 0) + used;
+      const broken = Math.floor(wear / TOOL_CONFIG[tool].durability);
+      state.wear[tool] = wear - broken * TOOL_CONFIG[tool].durability;
+      if (broken > 0) {
+        economy.removeGood(tool, broken);
+        console.log(`  [Tools] ${broken} ${tool} worn out`);
+      }
+    }
+
+    const equipped = tools.reduce((sum, t) => sum + t.used, 0);
+    if (equipped < workers.length) {
+      console.log(`  [Tools] ${workers.length - equipped} of ${workers.length} workers have no tools`);
+    }
+    return equipped;
+  }
+
+  /**
+   * Get or create a settlement's wear record
+   */
+  private getOrCreateWear(settlementId: number): ToolWear {
+    let state = this.settlements.get(settlementId);
+    if (!state) {
+      state = { settlementId, wear: {} };
+      this.settlements.set(settlementId, state);
+    }
+    return state;
+  }
+
+  /**
+   * Capture tool wear for saving
+   */
+  serialize(): ToolSaveState {
+    return { settlements: structuredClone(Array.from(this.settlements.values())) };
+  }
+
+  /**
+   * Replace tool wear with a saved snapshot
+   */
+  restore(state: ToolSaveState): void {
+    this.settlements.clear();
+    for (const wear of structuredClone(state.settlements)) {
+      this.settlements.set(wear.settlementId, wear);
+    }
+  }
+}
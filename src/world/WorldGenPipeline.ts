@@ -0,0 +1,254 @@
+import { Grid } from "honeycomb-grid";
+import { HexTile } from "./HexTile";
+import { BuildingType, Settlement } from "./Building";
+import { HousingUpgradeSystem } from "./HousingUpgrade";
+import { RoadGenerator } from "./RoadGenerator";
+import { IPathfindingMap } from "../pathfinding/Pathfinding";
+import { HEX_NEIGHBOR_DIRS } from "./HexMapUtils";
+import { TerrainGenerator } from "./generators/TerrainGenerator";
+import { VegetationGenerator } from "./generators/VegetationGenerator";
+import { HydrologyGenerator } from "./generators/HydrologyGenerator";
+import { SettlementGenerator } from "./generators/SettlementGenerator";
+import { ResourceGenerator } from "./generators/ResourceGenerator";
+import { RoadsideResourcePlacer } from "./generators/RoadsideResourcePlacer";
+import { SettlementNameGenerator } from "./generators/SettlementNameGenerator";
+import { bridgeRiver } from "./River";
+import type { WorldGenConfig } from "./WorldGenerator";
+
+/**
+ * State shared by the passes of one world generation run
+ */
+export interface WorldGenContext {
+  readonly config: WorldGenConfig;
+  readonly grid: Grid<HexTile>;
+  /** Settlements placed so far (passes may add to the list) */
+  readonly settlements: Settlement[];
+  /** Seeded random number generator (0-1) */
+  readonly seededRandom: (seed: number) => number;
+  /** Settlement names, shared so no name is used twice */
+  readonly names: SettlementNameGenerator;
+  /** Neighbors and distances on the grid being generated */
+  readonly map: IPathfindingMap;
+}
+
+/**
+ * One named step of world generation. Passes run in order on a shared context.
+ */
+export interface WorldGenPass {
+  /** Unique name, used to insert, skip or reorder passes */
+  readonly name: string;
+  readonly description: string;
+  run(context: WorldGenContext): void;
+}
+
+/**
+ * The standard world: terrain, water, climate and nature first, then
+ * settlements and the roads between them
+ */
+export const DEFAULT_WORLD_GEN_PASSES: readonly WorldGenPass[] = [
+  {
+    name: "terrain",
+    description: "Elevation and base terrain",
+    run: ({ config, grid }) => new TerrainGenerator(config, config.seed).generateTerrain(grid),
+  },
+  {
+    // Before shores, so lakes get them
+    name: "hydrology",
+    description: "Lakes in basins, rivers from the hills to the water",
+    run: ({ config, grid }) => new HydrologyGenerator(config, config.seed).applyHydrology(grid),
+  },
+  {
+    name: "shores",
+    description: "Land tiles beside water become shores",
+    run: ({ config, grid }) => new TerrainGenerator(config, config.seed).applyShores(grid),
+  },
+  {
+    // Vegetation and resources depend on the biomes
+    name: "climate",
+    description: "Temperature, moisture and biomes",
+    run: ({ config, grid }) => new TerrainGenerator(config, config.seed).applyClimate(grid),
+  },
+  {
+    name: "vegetation",
+    description: "Vegetation on eligible tiles",
+    run: ({ config, grid }) => new VegetationGenerator(config, config.seed).applyVegetation(grid),
+  },
+  {
+    name: "rough-terrain",
+    description: "Rough terrain patches",
+    run: ({ config, grid }) => new VegetationGenerator(config, config.seed).applyRoughTerrain(grid),
+  },
+  {
+    // Before settlements, so they can be resource-aware
+    name: "resources",
+    description: "Natural resources",
+    run: ({ config, grid }) => new ResourceGenerator(config.seed).generateResources(grid),
+  },
+  {
+    name: "settlements",
+    description: "Cities, villages and hamlets",
+    run: (context) => {
+      const generator = new SettlementGenerator(
+        context.config,
+        context.seededRandom,
+        (a, b) => context.map.hexDistance(a, b),
+        context.names
+      );
+      context.settlements.push(...generator.generateSettlements(context.grid));
+    },
+  },
+  {
+    // Cities 3, villages 2, hamlets 1
+    name: "housing-density",
+    description: "Initial housing densities",
+    run: ({ grid, settlements }) => {
+      const housing = new HousingUpgradeSystem();
+      for (const settlement of settlements) {
+        housing.setInitialDensity(grid, settlement);
+      }
+    },
+  },
+  {
+    name: "roads",
+    description: "Roads connecting settlements",
+    run: generateRoads,
+  },
+  {
+    name: "roadside-hamlets",
+    description: "Hamlets on unexploited resources near roads",
+    run: ({ grid, settlements, names, seededRandom }) => {
+      const hamlets = new RoadsideResourcePlacer().placeRoadsideHamlets(grid, settlements, names, seededRandom);
+      settlements.push(...hamlets);
+
+      const housing = new HousingUpgradeSystem();
+      for (const hamlet of hamlets) {
+        housing.setInitialDensity(grid, hamlet);
+      }
+    },
+  },
+  {
+    name: "hamlet-roads",
+    description: "Connect hamlets to nearby roads",
+    run: ({ grid, settlements }) => connectHamletsToRoads(grid, settlements),
+  },
+];
+
+/**
+ * Generate roads connecting settlements
+ */
+function generateRoads({ config, grid, settlements, map }: WorldGenContext): void {
+  const roadGenerator = new RoadGenerator(config.seed);
+  roadGenerator.generateRoads(grid, settlements, map);
+
+  // Count how many tiles have roads
+  let roadTileCount = 0;
+  grid.forEach((hex) => {
+    if (hex.hasRoad) roadTileCount++;
+  });
+
+  console.log(
+    `Generated roads connecting ${settlements.length} settlements`,
+  );
+  console.log(`Total road tiles: ${roadTileCount}`);
+}
+
+/**
+ * Connect hamlets to nearby roads
+ */
+function connectHamletsToRoads(grid: Grid<HexTile>, settlements: Settlement[]): void {
+  let connectionsCreated = 0;
+  let hamletsChecked = 0;
+  let alreadyOnRoad = 0;
+  let noPathFound = 0;
+
+  // Only connect hamlets (not villages or cities)
+  const hamlets = settlements.filter(s => s.type === 'hamlet');
+
+  for (const hamlet of hamlets) {
+    hamletsChecked++;
+    const centerTile = grid.getHex(hamlet.center);
+    if (!centerTile) continue;
+
+    // Skip if hamlet is already on a road
+    if (centerTile.hasRoad) {
+      alreadyOnRoad++;
+      continue;
+    }
+
+    // BFS to find nearest road (within 3 tiles)
+    const path = findPathToRoad(grid, centerTile, 3);
+    if (path) {
+      let tilesMarked = 0;
+
+      // For path length 2 (hamlet adjacent to road), mark the hamlet tile itself
+      if (path.length === 2) {
+        if (!centerTile.hasRoad) {
+          centerTile.hasRoad = true;
+          tilesMarked++;
+        }
+      } else {
+        // For longer paths, mark intermediate tiles (skip first hamlet and last road tile)
+        for (let i = 1; i < path.length - 1; i++) {
+          const tile = path[i];
+          if (!tile.hasRoad && tile.building === BuildingType.None) {
+            tile.hasRoad = true;
+            bridgeRiver(tile);
+            tilesMarked++;
+          }
+        }
+        // Also mark the hamlet tile itself
+        if (!centerTile.hasRoad) {
+          centerTile.hasRoad = true;
+          tilesMarked++;
+        }
+      }
+
+      connectionsCreated++;
+      console.log(`[WorldGenerator] Connected hamlet at (${centerTile.col},${centerTile.row}), path length: ${path.length}, tiles marked: ${tilesMarked}`);
+    } else {
+      noPathFound++;
+    }
+  }
+
+  console.log(`[WorldGenerator] Hamlet road connections: ${connectionsCreated} connected, ${alreadyOnRoad} already on road, ${noPathFound} no path found (total: ${hamletsChecked})`);
+}
+
+/**
+ * Find shortest path from tile to nearest road using BFS
+ */
+function findPathToRoad(
+  grid: Grid<HexTile>,
+  start: HexTile,
+  maxDistance: number
+): HexTile[] | null {
+  const visited = new Set<string>();
+  const queue: Array<{ hex: HexTile; path: HexTile[] }> = [
+    { hex: start, path: [start] },
+  ];
+  visited.add(`${start.col},${start.row}`);
+
+  while (queue.length > 0) {
+    const { hex, path } = queue.shift()!;
+
+    // Found a road!
+    if (hex.hasRoad && hex !== start) {
+      return path;
+    }
+
+    // Continue searching (within max distance)
+    if (path.length <= maxDistance) {
+      for (const dir of HEX_NEIGHBOR_DIRS) {
+        const neighbor = grid.neighborOf(hex, dir, { allowOutside: false });
+        if (neighbor) {
+          const key = `${neighbor.col},${neighbor.row}`;
+          if (!visited.has(key)) {
+            visited.add(key);
+            queue.push({ hex: neighbor, path: [...path, neighbor] });
+          }
+        }
+      }
+    }
+  }
+
+  return null; // No road found within range
+}
@@ -1,16 +1,10 @@
 import { Grid, rectangle } from "honeycomb-grid";
 import { HexTile } from "./HexTile";
-import { BuildingType, Settlement } from "./Building";
-import { HousingUpgradeSystem } from "./HousingUpgrade";
-import { RoadGenerator } from "./RoadGenerator";
+import { Settlement } from "./Building";
 import { IPathfindingMap } from "../pathfinding/Pathfinding";
-import { getHexNeighbors, getHexDistance, HEX_NEIGHBOR_DIRS } from "./HexMapUtils";
-import { TerrainGenerator } from "./generators/TerrainGenerator";
-import { VegetationGenerator } from "./generators/VegetationGenerator";
-import { SettlementGenerator } from "./generators/SettlementGenerator";
-import { ResourceGenerator } from "./generators/ResourceGenerator";
-import { RoadsideResourcePlacer } from "./generators/RoadsideResourcePlacer";
-import { isWater } from "./Terrain";
+import { getHexNeighbors, getHexDistance } from "./HexMapUtils";
+import { SettlementNameGenerator } from "./generators/SettlementNameGenerator";
+import { DEFAULT_WORLD_GEN_PASSES, WorldGenContext, WorldGenPass } from "./WorldGenPipeline";
 
 export interface WorldGenConfig {
   width: number;
@@ -18,6 +12,8 @@ export interface WorldGenConfig {
   seed: string;
   /** Controls overall terrain scale — lower = larger land masses */
   terrainScale: number;
+  /** Added to every tile's elevation before the edges fade out (positive = more land) */
+  elevationOffset: number;
   /** Controls vegetation clustering */
   vegetationScale: number;
   /** Threshold (0–1) above which vegetation appears */
@@ -26,6 +22,16 @@ export interface WorldGenConfig {
   roughScale: number;
   /** Threshold (0–1) above which rough terrain appears */
   roughThreshold: number;
+  /** Controls the size of climate zones (temperature and moisture noise) */
+  climateScale: number;
+  /** Added to every tile's temperature (negative = colder world) */
+  temperatureOffset: number;
+  /** Added to every tile's moisture (negative = drier world) */
+  moistureOffset: number;
+  /** Number of rivers to trace from the hills to the water */
+  numRivers: number;
+  /** Number of basins that fill up into lakes */
+  numLakes: number;
   /** Number of cities to generate */
   numCities: number;
   /** Number of villages to generate */
@@ -34,15 +40,21 @@ export interface WorldGenConfig {
   numHamlets: number;
 }
 
-const DEFAULT_CONFIG: WorldGenConfig = {
+export const DEFAULT_WORLD_GEN_CONFIG: WorldGenConfig = {
   width: 120,
   height: 120,
   seed: "unwritten",
   terrainScale: 0.035,
+  elevationOffset: 0,
   vegetationScale: 0.06,
   vegetationThreshold: 0.4,
   roughScale: 0.15,
   roughThreshold: 0.75,
+  climateScale: 0.03,
+  temperatureOffset: 0,
+  moistureOffset: 0,
+  numRivers: 12,
+  numLakes: 4,
   numCities: 3,
   numVillages: 12,
   numHamlets: 20,
@@ -50,41 +62,59 @@ const DEFAULT_CONFIG: WorldGenConfig = {
 
 /**
  * Main world generation coordinator.
- * Orchestrates terrain, vegetation, and settlement generation.
+ * Runs an ordered list of named passes (terrain, vegetation, settlements, ...)
+ * on a shared context. Passes can be inserted, skipped or reordered before generate().
  */
 export class WorldGenerator implements IPathfindingMap {
   private config: WorldGenConfig;
+  private passes: WorldGenPass[];
   private settlements: Settlement[] = [];
   private grid!: Grid<HexTile>; // Set during generation
 
-  // Specialized generators
-  private terrainGenerator: TerrainGenerator;
-  private vegetationGenerator: VegetationGenerator;
-  private settlementGenerator: SettlementGenerator;
-  private resourceGenerator: ResourceGenerator;
-  private roadsideResourcePlacer: RoadsideResourcePlacer;
-  private housingUpgradeSystem: HousingUpgradeSystem;
+  constructor(config: Partial<WorldGenConfig> = {}, passes: readonly WorldGenPass[] = DEFAULT_WORLD_GEN_PASSES) {
+    this.config = { ...DEFAULT_WORLD_GEN_CONFIG, ...config };
+    this.passes = [...passes];
+  }
 
-  constructor(config: Partial<WorldGenConfig> = {}) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
-    
-    // Initialize generators
-    this.terrainGenerator = new TerrainGenerator(this.config, this.config.seed);
-    this.vegetationGenerator = new VegetationGenerator(this.config, this.config.seed);
-    this.settlementGenerator = new SettlementGenerator(
-      this.config,
-      this.seededRandom.bind(this),
-      this.hexDistance.bind(this)
-    );
-    this.resourceGenerator = new ResourceGenerator(this.config.seed);
-    this.roadsideResourcePlacer = new RoadsideResourcePlacer();
-    this.housingUpgradeSystem = new HousingUpgradeSystem();
+  getConfig(): WorldGenConfig {
+    return this.config;
   }
 
   getSettlements(): Settlement[] {
     return this.settlements;
   }
 
+  /** Get the passes in the order they will run. */
+  getPasses(): readonly WorldGenPass[] {
+    return this.passes;
+  }
+
+  /** Add a pass before or after a named pass (at the end if neither is given). */
+  insertPass(pass: WorldGenPass, position: { before?: string; after?: string } = {}): void {
+    if (this.passes.some(p => p.name === pass.name)) {
+      throw new Error(`World generation pass "${pass.name}" already exists`);
+    }
+    if (position.before !== undefined) {
+      this.passes.splice(this.indexOfPass(position.before), 0, pass);
+    } else if (position.after !== undefined) {
+      this.passes.splice(this.indexOfPass(position.after) + 1, 0, pass);
+    } else {
+      this.passes.push(pass);
+    }
+  }
+
+  /** Remove a pass so it does not run. */
+  skipPass(name: string): void {
+    this.passes.splice(this.indexOfPass(name), 1);
+  }
+
+  /** Move a pass before or after another named pass. */
+  movePass(name: string, position: { before?: string; after?: string }): void {
+    this.indexOfPass(position.before ?? position.after ?? name); // Fail before removing the pass
+    const [pass] = this.passes.splice(this.indexOfPass(name), 1);
+    this.insertPass(pass, position);
+  }
+
   /** Get all 6 neighbors of a hex (filters out undefined for edge tiles). */
   getNeighbors(hex: HexTile): HexTile[] {
     return getHexNeighbors(this.grid, hex);
@@ -103,62 +133,23 @@ export class WorldGenerator implements IPathfindingMap {
       HexTile,
       rectangle({ width: this.config.width, height: this.config.height }),
     );
+    this.settlements = [];
 
-    console.log('[WorldGenerator] Starting world generation...');
-
-    // Pass 1: Generate elevation and base terrain
-    console.log('[WorldGenerator] Pass 1: Terrain generation');
-    this.terrainGenerator.generateTerrain(this.grid);
-
-    // Pass 2: Convert land tiles adjacent to water into shores
-    console.log('[WorldGenerator] Pass 2: Shore generation');
-    this.terrainGenerator.applyShores(this.grid);
-
-    // Pass 3: Scatter vegetation on eligible tiles
-    console.log('[WorldGenerator] Pass 3: Vegetation');
-    this.vegetationGenerator.applyVegetation(this.grid);
-
-    // Pass 4: Mark rough terrain patches
-    console.log('[WorldGenerator] Pass 4: Rough terrain');
-    this.vegetationGenerator.applyRoughTerrain(this.grid);
+    const context: WorldGenContext = {
+      config: this.config,
+      grid: this.grid,
+      settlements: this.settlements,
+      seededRandom: this.seededRandom.bind(this),
+      names: new SettlementNameGenerator(this.config.seed),
+      map: this,
+    };
 
-    // Pass 5: Generate natural resources (BEFORE settlements so they can be resource-aware)
-    console.log('[WorldGenerator] Pass 5: Resources');
-    this.resourceGenerator.generateResources(this.grid);
-
-    // Pass 6: Generate settlements (cities and villages) - now resource-aware!
-    console.log('[WorldGenerator] Pass 6: Settlements');
-    this.settlements = this.settlementGenerator.generateSettlements(this.grid);
-
-    // Pass 6.5: Set initial housing densities (cities=3, villages=2, hamlets=1)
-    console.log('[WorldGenerator] Pass 6.5: Housing densities');
-    for (const settlement of this.settlements) {
-      this.housingUpgradeSystem.setInitialDensity(this.grid, settlement);
-    }
-
-    // Pass 7: Generate roads connecting settlements
-    console.log('[WorldGenerator] Pass 7: Roads');
-    this.generateRoads(this.grid);
-
-    // Pass 8: Place roadside hamlets on unexploited resources near roads
-    console.log('[WorldGenerator] Pass 8: Roadside resource hamlets');
-    const roadsideHamlets = this.roadsideResourcePlacer.placeRoadsideHamlets(
-      this.grid,
-      this.settlements,
-      this.settlementGenerator.getNameGenerator(),
-      this.seededRandom.bind(this)
-    );
-    // Add new hamlets to settlements list
-    this.settlements.push(...roadsideHamlets);
-    
-    // Set initial densities for roadside hamlets too
-    for (const hamlet of roadsideHamlets) {
-      this.housingUpgradeSystem.setInitialDensity(this.grid, hamlet);
-    }
+    console.log('[WorldGenerator] Starting world generation...');
 
-    // Pass 9: Connect any hamlets near roads
-    console.log('[WorldGenerator] Pass 9: Connect hamlets to nearby roads');
-    this.connectHamletsToRoads(this.grid, this.settlements);
+    this.passes.forEach((pass, i) => {
+      console.log(`[WorldGenerator] Pass ${i + 1}/${this.passes.length} (${pass.name}): ${pass.description}`);
+      pass.run(context);
+    });
 
     console.log('[WorldGenerator] World generation complete!');
     console.log(`[WorldGenerator] Final settlement count: ${this.settlements.length} total`);
@@ -166,123 +157,10 @@ export class WorldGenerator implements IPathfindingMap {
     return this.grid;
   }
 
-  /**
-   * Generate roads connecting settlements
-   */
-  private generateRoads(grid: Grid<HexTile>): void {
-    const roadGenerator = new RoadGenerator(this.config.seed);
-    roadGenerator.generateRoads(grid, this.settlements, this);
-
-    // Count how many tiles have roads
-    let roadTileCount = 0;
-    grid.forEach((hex) => {
-      if (hex.hasRoad) roadTileCount++;
-    });
-
-    console.log(
-      `Generated roads connecting ${this.settlements.length} settlements`,
-    );
-    console.log(`Total road tiles: ${roadTileCount}`);
-  }
-
-  /**
-   * Connect hamlets to nearby roads (Pass 9)
-   */
-  private connectHamletsToRoads(grid: Grid<HexTile>, settlements: Settlement[]): void {
-    let connectionsCreated = 0;
-    let hamletsChecked = 0;
-    let alreadyOnRoad = 0;
-    let noPathFound = 0;
-
-    // Only connect hamlets (not villages or cities)
-    const hamlets = settlements.filter(s => s.type === 'hamlet');
-
-    for (const hamlet of hamlets) {
-      hamletsChecked++;
-      const centerTile = grid.getHex(hamlet.center);
-      if (!centerTile) continue;
-
-      // Skip if hamlet is already on a road
-      if (centerTile.hasRoad) {
-        alreadyOnRoad++;
-        continue;
-      }
-
-      // BFS to find nearest road (within 3 tiles)
-      const path = this.findPathToRoad(grid, centerTile, 3);
-      if (path) {
-        let tilesMarked = 0;
-        
-        // For path length 2 (hamlet adjacent to road), mark the hamlet tile itself
-        if (path.length === 2) {
-          if (!centerTile.hasRoad) {
-            centerTile.hasRoad = true;
-            tilesMarked++;
-          }
-        } else {
-          // For longer paths, mark intermediate tiles (skip first hamlet and last road tile)
-          for (let i = 1; i < path.length - 1; i++) {
-            const tile = path[i];
-            if (!tile.hasRoad && tile.building === BuildingType.None) {
-              tile.hasRoad = true;
-              tilesMarked++;
-            }
-          }
-          // Also mark the hamlet tile itself
-          if (!centerTile.hasRoad) {
-            centerTile.hasRoad = true;
-            tilesMarked++;
-          }
-        }
-        
-        connectionsCreated++;
-        console.log(`[WorldGenerator] Connected hamlet at (${centerTile.col},${centerTile.row}), path length: ${path.length}, tiles marked: ${tilesMarked}`);
-      } else {
-        noPathFound++;
-      }
-    }
-
-    console.log(`[WorldGenerator] Hamlet road connections: ${connectionsCreated} connected, ${alreadyOnRoad} already on road, ${noPathFound} no path found (total: ${hamletsChecked})`);
-  }
-
-  /**
-   * Find shortest path from tile to nearest road using BFS
-   */
-  private findPathToRoad(
-    grid: Grid<HexTile>,
-    start: HexTile,
-    maxDistance: number
-  ): HexTile[] | null {
-    const visited = new Set<string>();
-    const queue: Array<{ hex: HexTile; path: HexTile[] }> = [
-      { hex: start, path: [start] },
-    ];
-    visited.add(`${start.col},${start.row}`);
-
-    while (queue.length > 0) {
-      const { hex, path } = queue.shift()!;
-
-      // Found a road!
-      if (hex.hasRoad && hex !== start) {
-        return path;
-      }
-
-      // Continue searching (within max distance)
-      if (path.length <= maxDistance) {
-        for (const dir of HEX_NEIGHBOR_DIRS) {
-          const neighbor = grid.neighborOf(hex, dir, { allowOutside: false });
-          if (neighbor) {
-            const key = `${neighbor.col},${neighbor.row}`;
-            if (!visited.has(key)) {
-              visited.add(key);
-              queue.push({ hex: neighbor, path: [...path, neighbor] });
-            }
-          }
-        }
-      }
-    }
-
-    return null; // No road found within range
+  private indexOfPass(name: string): number {
+    const index = this.passes.findIndex(p => p.name === name);
+    if (index === -1) throw new Error(`Unknown world generation pass "${name}"`);
+    return index;
   }
 
   /**
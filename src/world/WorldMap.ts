@@ -12,14 +12,18 @@ export class WorldMap implements IPathfindingMap {
   readonly grid: Grid<HexTile>;
   readonly width: number;
   readonly height: number;
+  readonly seed: string;
   readonly settlements: Settlement[];
 
   constructor(config: Partial<WorldGenConfig> = {}) {
     const generator = new WorldGenerator(config);
     this.grid = generator.generate();
     this.settlements = generator.getSettlements();
-    this.width = config.width ?? 120;
-    this.height = config.height ?? 120;
+    // Sizes and seed as generated (defaults and preset included)
+    const generated = generator.getConfig();
+    this.width = generated.width;
+    this.height = generated.height;
+    this.seed = generated.seed;
   }
 
   /** Get a tile by axial/offset coordinates. Returns undefined if out of bounds. */
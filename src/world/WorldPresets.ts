@@ -0,0 +1,87 @@
+import { WorldGenConfig } from "./WorldGenerator";
+
+/**
+ * A named kind of world: overrides of the default world generation config
+ */
+export interface WorldPreset {
+  id: string;
+  name: string;
+  description: string;
+  /** Never sets the seed; the same seed gives a different world under each preset */
+  config: Partial<Omit<WorldGenConfig, "seed">>;
+}
+
+export const WORLD_PRESETS: Record<string, WorldPreset> = {
+  archipelago: {
+    id: "archipelago",
+    name: "Archipelago",
+    description: "Many small islands in a wide sea, linked by boats rather than roads",
+    config: {
+      width: 140,
+      height: 140,
+      terrainScale: 0.07,
+      elevationOffset: 0.02,
+      moistureOffset: 0.05,
+      numRivers: 6,
+      numLakes: 1,
+      numCities: 4,
+      numVillages: 14,
+      numHamlets: 16,
+    },
+  },
+  continent: {
+    id: "continent",
+    name: "Continent",
+    description: "One large landmass with long rivers and far-flung kingdoms",
+    config: {
+      width: 160,
+      height: 160,
+      terrainScale: 0.022,
+      elevationOffset: 0.2,
+      climateScale: 0.02,
+      numRivers: 20,
+      numLakes: 6,
+      numCities: 5,
+      numVillages: 18,
+      numHamlets: 28,
+    },
+  },
+  highlands: {
+    id: "highlands",
+    name: "Highlands",
+    description: "Cold, rugged hills and mountains with many streams and few cities",
+    config: {
+      terrainScale: 0.045,
+      elevationOffset: 0.28,
+      roughThreshold: 0.65,
+      temperatureOffset: -0.08,
+      numRivers: 18,
+      numLakes: 6,
+      numCities: 2,
+      numVillages: 10,
+      numHamlets: 24,
+    },
+  },
+  "dense-kingdoms": {
+    id: "dense-kingdoms",
+    name: "Dense Kingdoms",
+    description: "Crowded fertile lowlands where cities and villages sit close together",
+    config: {
+      width: 130,
+      height: 130,
+      terrainScale: 0.03,
+      elevationOffset: 0.1,
+      roughThreshold: 0.82,
+      numCities: 7,
+      numVillages: 24,
+      numHamlets: 36,
+    },
+  },
+};
+
+/**
+ * Look up a preset by id (undefined for the default world or an unknown id)
+ */
+export function getWorldPreset(id: string | null | undefined): WorldPreset | undefined {
+  return id && Object.prototype.hasOwnProperty.call(WORLD_PRESETS, id) ? WORLD_PRESETS[id] : undefined;
+}
@@ -0,0 +1,238 @@
+import { Grid } from "honeycomb-grid";
+import { HexTile } from "../HexTile";
+import { TERRAIN_CONFIG, TerrainType, isWater } from "../Terrain";
+import { NAVIGABLE_FLOW } from "../River";
+import { getHexNeighbors, getHexDistance } from "../HexMapUtils";
+import { SeededRandom } from "../../utils/random";
+import { WorldGenConfig } from "../WorldGenerator";
+
+/** Depth (in elevation) a basin needs before it holds a lake */
+const LAKE_MIN_DEPTH = 0.005;
+
+/** Smallest and largest lakes in tiles */
+const LAKE_MIN_SIZE = 3;
+const LAKE_MAX_SIZE = 30;
+
+/** River tiles a new river needs before it reaches the sea or joins another river */
+const MIN_RIVER_LENGTH = 5;
+
+/** Minimum distance between two river sources */
+const SOURCE_SPACING = 6;
+
+/** Randomness in the choice of springs (in elevation; higher springs are preferred) */
+const SOURCE_JITTER = 0.15;
+
+/** Chance that a stream tile (not navigable) is a ford */
+const FORD_CHANCE = 0.3;
+
+/**
+ * How water drains over the land: for every land tile, the neighbor its water
+ * runs to, and the level it has to rise to before it can get out (pits fill up)
+ */
+interface Drainage {
+  downstream: Map<HexTile, HexTile>;
+  spillLevel: Map<HexTile, number>;
+}
+
+/**
+ * Min-heap of tiles by water level (ties in insertion order, so floods are deterministic)
+ */
+class LevelQueue {
+  private items: Array<{ tile: HexTile; level: number; order: number }> = [];
+  private pushed = 0;
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(tile: HexTile, level: number): void {
+    const items = this.items;
+    items.push({ tile, level, order: this.pushed++ });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): { tile: HexTile; level: number } {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && this.before(items[left], items[smallest])) smallest = left;
+        if (right < items.length && this.before(items[right], items[smallest])) smallest = right;
+        if (smallest === i) break;
+        [items[i], items[smallest]] = [items[smallest], items[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private before(a: { level: number; order: number }, b: { level: number; order: number }): boolean {
+    return a.level < b.level || (a.level === b.level && a.order < b.order);
+  }
+}
+
+/**
+ * Handles lakes and rivers: basins in the land fill up into lakes, and rivers
+ * run from springs in the hills and mountains down to a lake or the sea
+ */
+export class HydrologyGenerator {
+  private config: WorldGenConfig;
+  private seed: string;
+
+  constructor(config: WorldGenConfig, seed: string) {
+    this.config = config;
+    this.seed = seed;
+  }
+
+  /**
+   * Fill the largest basins with lakes, then let rivers drain to the water
+   */
+  applyHydrology(grid: Grid<HexTile>): void {
+    const lakes = this.applyLakes(grid, this.computeDrainage(grid));
+    const rivers = this.applyRivers(grid, this.computeDrainage(grid));
+    console.log(`[HydrologyGenerator] ${lakes} lakes, ${rivers} rivers`);
+  }
+
+  /**
+   * Turn the deepest basins into lakes (shallow water). Returns the number of lakes.
+   */
+  private applyLakes(grid: Grid<HexTile>, drainage: Drainage): number {
+    const inBasin = (tile: HexTile) =>
+      (tile.terrain === TerrainType.Plains || tile.terrain === TerrainType.Hills) &&
+      (drainage.spillLevel.get(tile) ?? tile.elevation) - tile.elevation > LAKE_MIN_DEPTH;
+
+    // Group basin tiles into connected basins
+    const basins: HexTile[][] = [];
+    const seen = new Set<HexTile>();
+    grid.forEach((hex) => {
+      if (seen.has(hex) || !inBasin(hex)) return;
+      const basin: HexTile[] = [];
+      const queue = [hex];
+      seen.add(hex);
+      while (queue.length > 0) {
+        const tile = queue.shift()!;
+        basin.push(tile);
+        for (const neighbor of getHexNeighbors(grid, tile)) {
+          if (!seen.has(neighbor) && inBasin(neighbor)) {
+            seen.add(neighbor);
+            queue.push(neighbor);
+          }
+        }
+      }
+      if (basin.length >= LAKE_MIN_SIZE) basins.push(basin);
+    });
+
+    // The largest basins hold lakes (their lowest tiles if they are very large)
+    basins.sort((a, b) => b.length - a.length);
+    const lakes = basins.slice(0, this.config.numLakes);
+    for (const basin of lakes) {
+      const lake = [...basin].sort((a, b) => a.elevation - b.elevation).slice(0, LAKE_MAX_SIZE);
+      for (const tile of lake) {
+        tile.terrain = TerrainType.ShallowWater;
+      }
+    }
+    return lakes.length;
+  }
+
+  /**
+   * Trace rivers from springs on high ground down to the water, marking how
+   * much river flows through each tile. Returns the number of rivers.
+   */
+  private applyRivers(grid: Grid<HexTile>, drainage: Drainage): number {
+    const random = new SeededRandom(this.seed + "_rivers");
+    const springLine = TERRAIN_CONFIG[TerrainType.Hills].minElevation;
+
+    const candidates: HexTile[] = [];
+    grid.forEach((hex) => {
+      if (!isWater(hex.terrain) && hex.elevation >= springLine) candidates.push(hex);
+    });
+    // Highest ground first (give or take), so rivers are long
+    const height = new Map(candidates.map(tile => [tile, tile.elevation + random.next() * SOURCE_JITTER]));
+    candidates.sort((a, b) => height.get(b)! - height.get(a)!);
+
+    const sources: HexTile[] = [];
+    for (const source of candidates) {
+      if (sources.length >= this.config.numRivers) break;
+      if (source.riverFlow > 0) continue;
+      if (sources.some(other => getHexDistance(grid, source, other) < SOURCE_SPACING)) continue;
+
+      // Follow the drainage to the water
+      const course: HexTile[] = [];
+      let tile: HexTile | undefined = source;
+      while (tile && !isWater(tile.terrain)) {
+        course.push(tile);
+        tile = drainage.downstream.get(tile);
+      }
+      if (!tile) continue;
+
+      // The new stretch ends where it joins an older river
+      const joined = course.findIndex(t => t.riverFlow > 0);
+      const newTiles = joined === -1 ? course.length : joined;
+      if (newTiles < MIN_RIVER_LENGTH) continue;
+
+      course.forEach((t, i) => {
+        const next = course[i + 1] ?? tile!;
+        if (i < newTiles) {
+          t.riverFlow = i + 1;
+          t.riverOutlet = { col: next.col, row: next.row };
+        } else {
+          t.riverFlow += newTiles;
+        }
+      });
+      sources.push(source);
+    }
+
+    // Streams can be waded in places
+    grid.forEach((hex) => {
+      if (hex.riverFlow > 0 && hex.riverFlow < NAVIGABLE_FLOW) {
+        hex.isFord = random.chance(FORD_CHANCE);
+      }
+    });
+
+    return sources.length;
+  }
+
+  /**
+   * Flood the land from the water, lowest tiles first: each land tile drains to
+   * the neighbor the flood reached it from, so water always finds a way out
+   */
+  private computeDrainage(grid: Grid<HexTile>): Drainage {
+    const downstream = new Map<HexTile, HexTile>();
+    const spillLevel = new Map<HexTile, number>();
+    const reached = new Set<HexTile>();
+    const queue = new LevelQueue();
+
+    grid.forEach((hex) => {
+      if (isWater(hex.terrain)) {
+        reached.add(hex);
+        queue.push(hex, hex.elevation);
+      }
+    });
+
+    while (queue.size > 0) {
+      const { tile, level } = queue.pop();
+      for (const neighbor of getHexNeighbors(grid, tile)) {
+        if (reached.has(neighbor)) continue;
+        reached.add(neighbor);
+        const neighborLevel = Math.max(neighbor.elevation, level);
+        downstream.set(neighbor, tile);
+        spillLevel.set(neighbor, neighborLevel);
+        queue.push(neighbor, neighborLevel);
+      }
+    }
+
+    return { downstream, spillLevel };
+  }
+}
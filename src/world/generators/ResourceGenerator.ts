@@ -1,7 +1,8 @@
 import { Grid } from "honeycomb-grid";
 import { HexTile } from "../HexTile";
 import { TerrainType } from "../Terrain";
-import { ResourceType, ResourceDeposit, RESOURCE_CONFIG } from "../Resource";
+import { ResourceType, ResourceDeposit, RESOURCE_CONFIG, getDepositCapacity } from "../Resource";
+import { BIOME_CONFIG } from "../Biome";
 import { LayeredNoise } from "../../utils/noise";
 import { BuildingType } from "../Building";
 
@@ -105,13 +106,13 @@ export class ResourceGenerator {
 
     // Create resource deposit
     const quality = 0.3 + qualityValue * 0.7; // Quality between 0.3 and 1.0
-    const baseQuantity = RESOURCE_CONFIG[selectedType].renewable ? 1000 : 500;
-    const quantity = Math.floor(baseQuantity * quality);
+    const capacity = getDepositCapacity(selectedType, quality);
 
     return {
       type: selectedType,
-      quantity,
+      quantity: capacity,
       quality,
+      capacity,
     };
   }
 
@@ -193,7 +194,14 @@ export class ResourceGenerator {
         break;
     }
 
-    return candidates;
+    // The biome favours or rules out resources, and adds its own (salt flats, tundra game)
+    const biome = BIOME_CONFIG[hex.biome];
+    if (candidates.length > 0 && terrain !== TerrainType.Shore) {
+      candidates.push(...biome.extraResources);
+    }
+    return candidates
+      .map(c => ({ type: c.type, weight: c.weight * (biome.resourceWeights[c.type] ?? 1) }))
+      .filter(c => c.weight > 0);
   }
 
   /**
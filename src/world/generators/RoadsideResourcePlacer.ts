@@ -3,6 +3,7 @@ import { HexTile } from "../HexTile";
 import { BuildingType, Settlement } from "../Building";
 import { ResourceType } from "../Resource";
 import { TerrainType, VegetationType, isWater } from "../Terrain";
+import { bridgeRiver } from "../River";
 import { getPrimaryExtractionBuilding } from "../ResourceExtraction";
 import { ResourceAwareSettlementPlacer } from "./ResourceAwareSettlementPlacer";
 import { SettlementNameGenerator } from "./SettlementNameGenerator";
@@ -355,6 +356,7 @@ export class RoadsideResourcePlacer {
           const tile = path[i];
           if (!tile.hasRoad && tile.building === BuildingType.None) {
             tile.hasRoad = true;
+            bridgeRiver(tile);
           }
         }
         return;
@@ -23,13 +23,14 @@ export class SettlementGenerator {
   constructor(
     config: WorldGenConfig,
     seededRandom: (seed: number) => number,
-    hexDistance: (a: HexTile, b: HexTile) => number
+    hexDistance: (a: HexTile, b: HexTile) => number,
+    nameGenerator: SettlementNameGenerator = new SettlementNameGenerator(config.seed)
   ) {
     this.config = config;
     this.seededRandom = seededRandom;
     this.hexDistance = hexDistance;
     this.placer = new ResourceAwareSettlementPlacer();
-    this.nameGenerator = new SettlementNameGenerator();
+    this.nameGenerator = nameGenerator;
   }
   
   /**
@@ -1,3 +1,5 @@
+import { SeededRandom } from "../../utils/random";
+
 /**
  * Generate unique names for settlements based on their type
  */
@@ -43,11 +45,11 @@ const LUMBER_WORDS = ["Timber", "Log", "Forest", "Grove", "Lumber", "Cedar", "Pi
 /**
  * Generate a city name
  */
-function generateCityName(usedNames: Set<string>): string {
+function generateCityName(usedNames: Set<string>, rng: SeededRandom): string {
   let attempts = 0;
   while (attempts < 100) {
-    const prefix = CITY_PREFIXES[Math.floor(Math.random() * CITY_PREFIXES.length)];
-    const root = CITY_ROOTS[Math.floor(Math.random() * CITY_ROOTS.length)];
+    const prefix = rng.pick(CITY_PREFIXES);
+    const root = rng.pick(CITY_ROOTS);
     const name = `${prefix}${root}`;
     
     if (!usedNames.has(name)) {
@@ -70,6 +72,7 @@ function generateCityName(usedNames: Set<string>): string {
  */
 function generateVillageName(
   usedNames: Set<string>,
+  rng: SeededRandom,
   specialization?: string
 ): string {
   let attempts = 0;
@@ -77,31 +80,31 @@ function generateVillageName(
     let prefix: string;
     
     // Choose prefix based on specialization
-    if (specialization && Math.random() < 0.6) {
+    if (specialization && rng.chance(0.6)) {
       switch (specialization) {
         case "mining":
-          prefix = MINING_WORDS[Math.floor(Math.random() * MINING_WORDS.length)];
+          prefix = rng.pick(MINING_WORDS);
           break;
         case "farming":
-          prefix = FARMING_WORDS[Math.floor(Math.random() * FARMING_WORDS.length)];
+          prefix = rng.pick(FARMING_WORDS);
           break;
         case "fishing":
-          prefix = FISHING_WORDS[Math.floor(Math.random() * FISHING_WORDS.length)];
+          prefix = rng.pick(FISHING_WORDS);
           break;
         case "trading":
-          prefix = TRADING_WORDS[Math.floor(Math.random() * TRADING_WORDS.length)];
+          prefix = rng.pick(TRADING_WORDS);
           break;
         case "lumber":
-          prefix = LUMBER_WORDS[Math.floor(Math.random() * LUMBER_WORDS.length)];
+          prefix = rng.pick(LUMBER_WORDS);
           break;
         default:
-          prefix = VILLAGE_PREFIXES[Math.floor(Math.random() * VILLAGE_PREFIXES.length)];
+          prefix = rng.pick(VILLAGE_PREFIXES);
       }
     } else {
-      prefix = VILLAGE_PREFIXES[Math.floor(Math.random() * VILLAGE_PREFIXES.length)];
+      prefix = rng.pick(VILLAGE_PREFIXES);
     }
     
-    const suffix = VILLAGE_SUFFIXES[Math.floor(Math.random() * VILLAGE_SUFFIXES.length)];
+    const suffix = rng.pick(VILLAGE_SUFFIXES);
     const name = `${prefix}${suffix}`;
     
     if (!usedNames.has(name)) {
@@ -124,6 +127,7 @@ function generateVillageName(
  */
 function generateHamletName(
   usedNames: Set<string>,
+  rng: SeededRandom,
   specialization?: string
 ): string {
   let attempts = 0;
@@ -131,28 +135,28 @@ function generateHamletName(
     let descriptor: string;
     
     // Choose descriptor based on specialization
-    if (specialization && Math.random() < 0.5) {
+    if (specialization && rng.chance(0.5)) {
       switch (specialization) {
         case "mining":
-          descriptor = MINING_WORDS[Math.floor(Math.random() * MINING_WORDS.length)];
+          descriptor = rng.pick(MINING_WORDS);
           break;
         case "farming":
-          descriptor = FARMING_WORDS[Math.floor(Math.random() * FARMING_WORDS.length)];
+          descriptor = rng.pick(FARMING_WORDS);
           break;
         case "fishing":
-          descriptor = FISHING_WORDS[Math.floor(Math.random() * FISHING_WORDS.length)];
+          descriptor = rng.pick(FISHING_WORDS);
           break;
         case "lumber":
-          descriptor = LUMBER_WORDS[Math.floor(Math.random() * LUMBER_WORDS.length)];
+          descriptor = rng.pick(LUMBER_WORDS);
           break;
         default:
-          descriptor = HAMLET_PREFIXES[Math.floor(Math.random() * HAMLET_PREFIXES.length)];
+          descriptor = rng.pick(HAMLET_PREFIXES);
       }
     } else {
-      descriptor = HAMLET_PREFIXES[Math.floor(Math.random() * HAMLET_PREFIXES.length)];
+      descriptor = rng.pick(HAMLET_PREFIXES);
     }
     
-    const base = HAMLET_NAMES[Math.floor(Math.random() * HAMLET_NAMES.length)];
+    const base = rng.pick(HAMLET_NAMES);
     const name = `${descriptor} ${base}`;
     
     if (!usedNames.has(name)) {
@@ -175,9 +179,11 @@ function generateHamletName(
  */
 export class SettlementNameGenerator {
   private usedNames: Set<string>;
+  private rng: SeededRandom;
   
-  constructor() {
+  constructor(seed: string) {
     this.usedNames = new Set();
+    this.rng = new SeededRandom(seed + "_names");
   }
   
   /**
@@ -189,11 +195,11 @@ export class SettlementNameGenerator {
   ): string {
     switch (type) {
       case "city":
-        return generateCityName(this.usedNames);
+        return generateCityName(this.usedNames, this.rng);
       case "village":
-        return generateVillageName(this.usedNames, specialization);
+        return generateVillageName(this.usedNames, this.rng, specialization);
       case "hamlet":
-        return generateHamletName(this.usedNames, specialization);
+        return generateHamletName(this.usedNames, this.rng, specialization);
       default:
         return "Unknown";
     }
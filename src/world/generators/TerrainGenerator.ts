@@ -1,21 +1,31 @@
 import { Direction, Grid } from "honeycomb-grid";
 import { HexTile } from "../HexTile";
-import { TerrainType, terrainFromElevation, isWater } from "../Terrain";
+import { TERRAIN_CONFIG, TerrainType, terrainFromElevation, isWater } from "../Terrain";
+import { BiomeType, classifyBiome } from "../Biome";
 import { LayeredNoise } from "../../utils/noise";
 import { WorldGenConfig } from "../WorldGenerator";
 
 /**
- * Handles terrain elevation and shore generation
+ * Temperature lost per unit of elevation above the lowlands
+ */
+const LAPSE_RATE = 1.4;
+
+/**
+ * Handles terrain elevation, shore generation and climate
  */
 export class TerrainGenerator {
   private elevationNoise: LayeredNoise;
   private detailNoise: LayeredNoise;
+  private temperatureNoise: LayeredNoise;
+  private moistureNoise: LayeredNoise;
   private config: WorldGenConfig;
 
   constructor(config: WorldGenConfig, seed: string) {
     this.config = config;
     this.elevationNoise = new LayeredNoise(seed + "_elev");
     this.detailNoise = new LayeredNoise(seed + "_detail");
+    this.temperatureNoise = new LayeredNoise(seed + "_temp");
+    this.moistureNoise = new LayeredNoise(seed + "_moist");
   }
 
   /**
@@ -69,11 +79,60 @@ export class TerrainGenerator {
     }
   }
 
+  /**
+   * Give every tile a temperature (latitude, elevation and noise) and a
+   * moisture (noise, wetter by the sea and rivers), then classify land tiles into biomes
+   */
+  applyClimate(grid: Grid<HexTile>): void {
+    const counts = new Map<BiomeType, number>();
+
+    grid.forEach((hex) => {
+      hex.temperature = this.sampleTemperature(hex.col, hex.row, hex.elevation);
+      hex.moisture = this.sampleMoisture(hex.col, hex.row, hex.terrain, hex.riverFlow > 0);
+      hex.biome = classifyBiome(hex.terrain, hex.elevation, hex.temperature, hex.moisture);
+      counts.set(hex.biome, (counts.get(hex.biome) ?? 0) + 1);
+    });
+
+    counts.delete(BiomeType.None);
+    console.log(`[TerrainGenerator] Biomes: ${Array.from(counts, ([biome, count]) => `${biome} ${count}`).join(", ")}`);
+  }
+
+  /**
+   * Temperature of a tile: cold in the north, hot in the south, colder uphill
+   */
+  private sampleTemperature(col: number, row: number, elevation: number): number {
+    const latitude = row / Math.max(1, this.config.height - 1);
+    const noise = this.temperatureNoise.sample(col, row, {
+      scale: this.config.climateScale,
+      octaves: 3,
+      persistence: 0.5,
+    });
+    const lapse = Math.max(0, elevation - TERRAIN_CONFIG[TerrainType.Hills].minElevation * 0.9) * LAPSE_RATE;
+    const temperature = latitude * 1.1 - 0.05 + (noise - 0.5) * 0.4 - lapse + this.config.temperatureOffset;
+    return Math.max(0, Math.min(1, temperature));
+  }
+
+  /**
+   * Moisture of a tile (shores catch the sea air, rivers water their banks)
+   */
+  private sampleMoisture(col: number, row: number, terrain: TerrainType, onRiver: boolean): number {
+    const noise = this.moistureNoise.sample(col, row, {
+      scale: this.config.climateScale * 1.5,
+      octaves: 4,
+      persistence: 0.5,
+    });
+    // Spread the noise (it clusters around 0.5) before adding the shore bonus
+    let moisture = 0.5 + (noise - 0.5) * 1.6;
+    if (terrain === TerrainType.Shore || onRiver) moisture += 0.08;
+    moisture += this.config.moistureOffset;
+    return Math.max(0, Math.min(1, moisture));
+  }
+
   /**
    * Sample elevation for a specific hex coordinate
    */
   private sampleElevation(col: number, row: number): number {
-    const { terrainScale, width, height } = this.config;
+    const { terrainScale, elevationOffset, width, height } = this.config;
 
     let elevation = this.elevationNoise.sample(col, row, {
       scale: terrainScale,
@@ -88,7 +147,7 @@ export class TerrainGenerator {
       octaves: 2,
       persistence: 0.3,
     });
-    elevation = elevation * 0.85 + detail * 0.15;
+    elevation = elevation * 0.85 + detail * 0.15 + elevationOffset;
 
     // Fade edges toward water to create island-like feel
     const cx = width / 2;
@@ -1,6 +1,7 @@
 import { Grid } from "honeycomb-grid";
 import { HexTile } from "../HexTile";
 import { VegetationType, supportsVegetation, isWater, TerrainType } from "../Terrain";
+import { BIOME_CONFIG } from "../Biome";
 import { LayeredNoise } from "../../utils/noise";
 import { WorldGenConfig } from "../WorldGenerator";
 
@@ -20,22 +21,25 @@ export class VegetationGenerator {
 
   /**
    * Scatter vegetation on eligible tiles
+   * (the biome shifts the threshold and caps tree density: bare snow, scrub deserts, dense jungle)
    */
   applyVegetation(grid: Grid<HexTile>): void {
     grid.forEach((hex) => {
       if (!supportsVegetation(hex.terrain)) return;
 
+      const biome = BIOME_CONFIG[hex.biome];
       const vegValue = this.vegetationNoise.sample(hex.col, hex.row, {
         scale: this.config.vegetationScale,
         octaves: 3,
         persistence: 0.6,
       });
+      const threshold = this.config.vegetationThreshold + biome.vegetationShift;
 
-      if (vegValue > this.config.vegetationThreshold) {
+      if (vegValue > threshold) {
         // Higher values = trees (denser vegetation), lower = bushes
-        const treeThreshold = this.config.vegetationThreshold + 0.08;
+        const treeThreshold = threshold + 0.08;
 
-        if (vegValue > treeThreshold) {
+        if (vegValue > treeThreshold && biome.treeDensity > 0) {
           // Trees with varying density based on noise value
           hex.vegetation = VegetationType.Tree;
           // Map vegValue to density: normalize from treeThreshold-1.0 to 0.0-1.0
@@ -43,7 +47,7 @@ export class VegetationGenerator {
           const densityRange = 1.0 - treeThreshold;
           const normalizedValue = (vegValue - treeThreshold) / densityRange;
           // Square root curve makes dense forests appear at lower thresholds
-          hex.treeDensity = Math.max(0, Math.min(1, Math.pow(normalizedValue, 0.6)));
+          hex.treeDensity = Math.max(0, Math.min(1, Math.pow(normalizedValue, 0.6) * biome.treeDensity));
         } else {
           hex.vegetation = VegetationType.Bush;
           hex.treeDensity = 0;
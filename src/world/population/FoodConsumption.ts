@@ -2,6 +2,7 @@ import { Person } from "./Person";
 import { GoodType } from "../Goods";
 import { ResourceType } from "../Resource";
 import { SettlementEconomy } from "../SettlementEconomy";
+import { Season, SEASON_CONFIG } from "../Calendar";
 
 /**
  * Food required per person per turn
@@ -45,6 +46,19 @@ const FOOD_SOURCES: FoodItem[] = [
   { type: ResourceType.Vegetables, category: FoodCategory.Vegetables, nutritionValue: 0.8, isProcessed: false },
 ];
 
+/**
+ * Share of a perishable food stock that spoils per turn (before the season multiplier)
+ */
+const SPOILAGE_RATES: Array<{ type: GoodType | ResourceType; rate: number }> = [
+  { type: GoodType.Bread, rate: 0.01 },
+  { type: GoodType.Meat, rate: 0.02 },
+  { type: GoodType.PreparedFish, rate: 0.02 },
+  { type: GoodType.CookedVegetables, rate: 0.03 },
+  { type: ResourceType.Fish, rate: 0.04 },
+  { type: ResourceType.WildGame, rate: 0.03 },
+  { type: ResourceType.Vegetables, rate: 0.02 },
+];
+
 /**
  * Result of food consumption for a settlement
  */
@@ -281,6 +295,15 @@ function consumeAnyAvailableFood(
   return { nutrition, processed, raw };
 }
 
+/**
+ * Take rations worth `needed` nutrition from a settlement's stock (processed food first)
+ *
+ * @returns Nutrition actually taken
+ */
+export function consumeRations(economy: SettlementEconomy, needed: number): number {
+  return consumeAnyAvailableFood(economy, needed, new Map()).nutrition;
+}
+
 /**
  * Calculate diet quality based on balance and food types
  */
@@ -465,6 +488,13 @@ export function calculateFoodConsumptionRate(populationSize: number): number {
   return populationSize * FOOD_PER_PERSON_PER_TURN;
 }
 
+/**
+ * Total edible food (processed and raw) in a settlement's stockpile
+ */
+export function getFoodStock(economy: SettlementEconomy): number {
+  return FOOD_SOURCES.reduce((sum, food) => sum + getAvailableAmount(economy, food.type), 0);
+}
+
 /**
  * Get available amount of a food item from economy
  */
@@ -490,3 +520,21 @@ function removeFromEconomy(economy: SettlementEconomy, type: GoodType | Resource
     economy.removeResource(type as ResourceType, amount);
   }
 }
+
+/**
+ * Spoil part of a settlement's perishable food (faster in summer, slower in winter)
+ * Returns the number of units lost
+ */
+export function spoilFood(economy: SettlementEconomy, season: Season): number {
+  const multiplier = SEASON_CONFIG[season].spoilage;
+  let spoiled = 0;
+
+  for (const { type, rate } of SPOILAGE_RATES) {
+    const amount = Math.floor(economy.getMaterialAmount(type) * rate * multiplier);
+    if (amount > 0 && economy.removeMaterial(type, amount)) {
+      spoiled += amount;
+    }
+  }
+
+  return spoiled;
+}
@@ -53,13 +53,13 @@ export const BUILDING_JOB_MAPPING: Record<BuildingType, JobType> = {
   [BuildingType.Warehouse]: JobType.Merchant,
   [BuildingType.Windmill]: JobType.Farmer,
   [BuildingType.GrainSilo]: JobType.Farmer,
-  [BuildingType.Barracks]: JobType.None, // Military (future)
-  [BuildingType.Watchtower]: JobType.None, // Military (future)
+  [BuildingType.Barracks]: JobType.Soldier,
+  [BuildingType.Watchtower]: JobType.Soldier,
   
   // City structures
   [BuildingType.Church]: JobType.None,
   [BuildingType.Tower]: JobType.None,
-  [BuildingType.Castle]: JobType.None,
+  [BuildingType.Castle]: JobType.Soldier, // Garrisoned keep
   
   // Infrastructure
   [BuildingType.Pier]: JobType.None,
@@ -111,20 +111,20 @@ export const BUILDING_WORKER_CAPACITY: Record<BuildingType, number> = {
   [BuildingType.Tannery]: 2,
   
   // Other structures
-  [BuildingType.Dock]: 0, // Shipbuilding not yet implemented
+  [BuildingType.Dock]: 2, // Shipwrights (only while a ship is being built)
   [BuildingType.Monastery]: 0,
   [BuildingType.Chapel]: 0,
   [BuildingType.TradingPost]: 2,
   [BuildingType.Warehouse]: 2,
   [BuildingType.Windmill]: 2,
   [BuildingType.GrainSilo]: 1,
-  [BuildingType.Barracks]: 0,
-  [BuildingType.Watchtower]: 0,
+  [BuildingType.Barracks]: 6,
+  [BuildingType.Watchtower]: 2,
   
   // City structures
   [BuildingType.Church]: 0,
   [BuildingType.Tower]: 0,
-  [BuildingType.Castle]: 0,
+  [BuildingType.Castle]: 4,
   
   // Infrastructure
   [BuildingType.Pier]: 0,
@@ -3,9 +3,12 @@ import { generateName, generatePersonId } from "./NameGenerator";
 import { SettlementEconomy } from "../SettlementEconomy";
 import { GoodType } from "../Goods";
 import { Settlement } from "../Building";
+import { SeededRandom } from "../../utils/random";
+import { CalendarDate, isNewYear } from "../Calendar";
 
 /**
  * Birth, death, aging, and immigration simulation
+ * All rolls come from the simulation's SeededRandom stream (never Math.random)
  */
 
 /**
@@ -25,20 +28,21 @@ export const DEFAULT_IMMIGRATION_RATE = 0.05; // 5% per turn
 export function createPerson(
   settlementId: number,
   age: number,
+  rng: SeededRandom,
   skills?: Partial<Record<JobType, number>>
 ): Person {
-  const gender: "male" | "female" = Math.random() > 0.5 ? "male" : "female";
+  const gender: "male" | "female" = rng.next() > 0.5 ? "male" : "female";
   
   const person: Person = {
-    id: generatePersonId(settlementId),
-    name: generateName(gender),
+    id: generatePersonId(settlementId, rng),
+    name: generateName(gender, rng),
     age,
     settlementId,
     currentJob: JobType.None,
     skills: createEmptySkills(),
-    health: 80 + Math.floor(Math.random() * 20), // 80-100
-    hunger: 0 + Math.floor(Math.random() * 30), // 0-30 (REVERSED: 0 = not hungry, 100 = starving)
-    happiness: 60 + Math.floor(Math.random() * 40), // 60-100
+    health: 80 + rng.int(20), // 80-100
+    hunger: 0 + rng.int(30), // 0-30 (REVERSED: 0 = not hungry, 100 = starving)
+    happiness: 60 + rng.int(40), // 60-100
     gender,
     experienceToday: {},
   };
@@ -55,11 +59,10 @@ export function createPerson(
 
 /**
  * Process aging for all people
- * Ages by 1 year every 365 turns
+ * Everyone ages by 1 year on the first day of each new calendar year
  */
-export function processAging(people: Person[], dayCounter: number): void {
-  // Every 365 turns = 1 year
-  if (dayCounter % 365 === 0) {
+export function processAging(people: Person[], date: CalendarDate): void {
+  if (isNewYear(date)) {
     for (const person of people) {
       person.age++;
     }
@@ -73,6 +76,7 @@ export function processBirths(
   people: Person[],
   economy: SettlementEconomy,
   housingCapacity: number,
+  rng: SeededRandom,
   birthRate: number = DEFAULT_BIRTH_RATE
 ): Person[] {
   const newborns: Person[] = [];
@@ -93,10 +97,10 @@ export function processBirths(
   
   // Each couple has birthRate chance per turn
   for (let i = 0; i < couples; i++) {
-    if (Math.random() < birthRate) {
+    if (rng.chance(birthRate)) {
       // Get settlement ID from first person (all should have same ID)
       const settlementId = people[0]?.settlementId ?? 0;
-      const baby = createPerson(settlementId, 0);
+      const baby = createPerson(settlementId, 0, rng);
       newborns.push(baby);
     }
   }
@@ -114,6 +118,7 @@ export function processBirths(
  */
 export function processDeaths(
   people: Person[],
+  rng: SeededRandom,
   deathRate: number = DEFAULT_DEATH_RATE
 ): Person[] {
   const deceased: Person[] = [];
@@ -142,7 +147,7 @@ export function processDeaths(
     }
     
     // Check for death
-    if (Math.random() < currentDeathChance) {
+    if (rng.chance(currentDeathChance)) {
       deceased.push(person);
     }
   }
@@ -159,6 +164,7 @@ export function processImmigration(
   settlement: Settlement,
   housingCapacity: number,
   unemployedCount: number,
+  rng: SeededRandom,
   immigrationRate: number = DEFAULT_IMMIGRATION_RATE
 ): Person[] {
   const immigrants: Person[] = [];
@@ -182,22 +188,22 @@ export function processImmigration(
   
   // Roll for immigration
   const immigrationChance = immigrationRate * attractiveness;
-  if (Math.random() < immigrationChance) {
+  if (rng.chance(immigrationChance)) {
     // Create 1-3 immigrants
-    const count = 1 + Math.floor(Math.random() * 3);
+    const count = 1 + rng.int(3);
     const settlementId = people[0]?.settlementId ?? 0;
     
     for (let i = 0; i < count; i++) {
       // Immigrants are working-age adults
-      const age = 18 + Math.floor(Math.random() * 30); // 18-48
+      const age = 18 + rng.int(30); // 18-48
       
       // Give them random low skills (5-25)
       const randomSkills: Partial<Record<JobType, number>> = {};
       const skillTypes = [JobType.Farmer, JobType.Lumberjack, JobType.Miner, JobType.Smith];
-      const primarySkill = skillTypes[Math.floor(Math.random() * skillTypes.length)];
-      randomSkills[primarySkill] = 5 + Math.floor(Math.random() * 20);
+      const primarySkill = rng.pick(skillTypes);
+      randomSkills[primarySkill] = 5 + rng.int(20);
       
-      const immigrant = createPerson(settlementId, age, randomSkills);
+      const immigrant = createPerson(settlementId, age, rng, randomSkills);
       immigrants.push(immigrant);
     }
   }
@@ -210,7 +216,8 @@ export function processImmigration(
  */
 export function processEmigration(
   people: Person[],
-  economy: SettlementEconomy
+  economy: SettlementEconomy,
+  rng: SeededRandom
 ): Person[] {
   const emigrants: Person[] = [];
   
@@ -226,7 +233,7 @@ export function processEmigration(
   for (const person of people) {
     // Young healthy adults are more likely to emigrate
     if (person.age >= 18 && person.age <= 40 && person.health > 50) {
-      if (Math.random() < emigrationRate) {
+      if (rng.chance(emigrationRate)) {
         emigrants.push(person);
       }
     }
@@ -1,3 +1,5 @@
+import { SeededRandom } from "../../utils/random";
+
 /**
  * Medieval-themed name generator for creating people
  */
@@ -27,39 +29,18 @@ const SURNAMES = [
 /**
  * Generate a random name
  */
-export function generateName(gender: "male" | "female", seed?: number): string {
+export function generateName(gender: "male" | "female", rng: SeededRandom): string {
   const firstNames = gender === "male" ? FIRST_NAMES_MALE : FIRST_NAMES_FEMALE;
   
-  let firstIdx: number;
-  let surnameIdx: number;
-  
-  if (seed !== undefined) {
-    // Use seed for deterministic names
-    firstIdx = seed % firstNames.length;
-    surnameIdx = Math.floor(seed / firstNames.length) % SURNAMES.length;
-  } else {
-    firstIdx = Math.floor(Math.random() * firstNames.length);
-    surnameIdx = Math.floor(Math.random() * SURNAMES.length);
-  }
-  
-  const firstName = firstNames[firstIdx];
-  const surname = SURNAMES[surnameIdx];
+  const firstName = rng.pick(firstNames);
+  const surname = rng.pick(SURNAMES);
   
   return `${firstName} ${surname}`;
 }
 
 /**
- * Generate a unique person ID
- */
-let personIdCounter = 0;
-export function generatePersonId(settlementId: number): string {
-  personIdCounter++;
-  return `person_${settlementId}_${personIdCounter}_${Date.now()}`;
-}
-
-/**
- * Reset the person ID counter (for testing)
+ * Generate a unique person ID (drawn from the simulation stream so runs are reproducible)
  */
-export function resetPersonIdCounter(): void {
-  personIdCounter = 0;
+export function generatePersonId(settlementId: number, rng: SeededRandom): string {
+  return `person_${settlementId}_${rng.id()}`;
 }
@@ -15,6 +15,7 @@ export enum JobType {
   Quarryman = "quarryman",     // Quarries
   Merchant = "merchant",       // Trading posts
   Shipwright = "shipwright",   // Docks (shipbuilding)
+  Soldier = "soldier",         // Barracks, watchtowers, castles
 }
 
 /**
@@ -90,6 +91,7 @@ export function createEmptySkills(): PersonSkills {
     [JobType.Quarryman]: 0,
     [JobType.Merchant]: 0,
     [JobType.Shipwright]: 0,
+    [JobType.Soldier]: 0,
   };
 }
 
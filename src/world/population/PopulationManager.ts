@@ -18,6 +18,20 @@ import {
   DEFAULT_IMMIGRATION_RATE,
 } from "./LifeSimulation";
 import { gainExperience, resetDailyExperience } from "./SkillSystem";
+import { SeededRandom } from "../../utils/random";
+import { CalendarDate } from "../Calendar";
+
+/**
+ * Serializable snapshot of a settlement population (used by save games)
+ */
+export interface PopulationSaveState {
+  settlementId: number;
+  people: Person[];
+  lastDietQuality: number;
+  birthRate: number;
+  deathRate: number;
+  immigrationRate: number;
+}
 
 /**
  * Manages all people in a settlement
@@ -25,7 +39,7 @@ import { gainExperience, resetDailyExperience } from "./SkillSystem";
 export class PopulationManager {
   private settlementId: number;
   private people: Map<string, Person>;
-  private dayCounter: number = 0;
+  private rng: SeededRandom; // Shared simulation stream
   private lastDietQuality: number = 1.0; // Track diet quality for happiness updates
   
   // Population dynamics rates
@@ -33,9 +47,10 @@ export class PopulationManager {
   public deathRate: number = DEFAULT_DEATH_RATE;
   public immigrationRate: number = DEFAULT_IMMIGRATION_RATE;
   
-  constructor(settlementId: number) {
+  constructor(settlementId: number, rng: SeededRandom) {
     this.settlementId = settlementId;
     this.people = new Map();
+    this.rng = rng;
   }
   
   /**
@@ -45,7 +60,8 @@ export class PopulationManager {
     economy: SettlementEconomy,
     settlement: Settlement,
     housingCapacity: number,
-    unemployedCount: number
+    unemployedCount: number,
+    date: CalendarDate
   ): void {
     // Reset daily XP tracking
     for (const person of this.people.values()) {
@@ -53,7 +69,7 @@ export class PopulationManager {
     }
     
     // 1. Age everyone (once per year)
-    this.processAging();
+    this.processAging(date);
     
     // 2. Consume food
     const foodResult = this.consumeFood(economy);
@@ -72,10 +88,9 @@ export class PopulationManager {
   /**
    * Age the population (called internally)
    */
-  private processAging(): void {
+  private processAging(date: CalendarDate): void {
     const peopleArray = Array.from(this.people.values());
-    processAging(peopleArray, this.dayCounter);
-    this.dayCounter++;
+    processAging(peopleArray, date);
   }
   
   /**
@@ -103,7 +118,7 @@ export class PopulationManager {
    */
   private processBirths(economy: SettlementEconomy, housingCapacity: number): void {
     const peopleArray = Array.from(this.people.values());
-    const newborns = processBirths(peopleArray, economy, housingCapacity, this.birthRate);
+    const newborns = processBirths(peopleArray, economy, housingCapacity, this.rng, this.birthRate);
     
     for (const baby of newborns) {
       this.people.set(baby.id, baby);
@@ -115,7 +130,7 @@ export class PopulationManager {
    */
   private processDeaths(): void {
     const peopleArray = Array.from(this.people.values());
-    const deceased = processDeaths(peopleArray, this.deathRate);
+    const deceased = processDeaths(peopleArray, this.rng, this.deathRate);
     
     for (const person of deceased) {
       this.people.delete(person.id);
@@ -138,6 +153,7 @@ export class PopulationManager {
       settlement,
       housingCapacity,
       unemployedCount,
+      this.rng,
       this.immigrationRate
     );
     
@@ -151,7 +167,7 @@ export class PopulationManager {
    */
   private processEmigration(economy: SettlementEconomy): void {
     const peopleArray = Array.from(this.people.values());
-    const emigrants = processEmigration(peopleArray, economy);
+    const emigrants = processEmigration(peopleArray, economy, this.rng);
     
     for (const person of emigrants) {
       this.people.delete(person.id);
@@ -315,6 +331,36 @@ export class PopulationManager {
     const total = Array.from(this.people.values()).reduce((sum, p) => sum + p.happiness, 0);
     return Math.round(total / this.people.size);
   }
+  
+  // === Save games ===
+  
+  /**
+   * Capture the full population state for saving
+   */
+  serialize(): PopulationSaveState {
+    return {
+      settlementId: this.settlementId,
+      people: this.getPeople().map(person => structuredClone(person)),
+      lastDietQuality: this.lastDietQuality,
+      birthRate: this.birthRate,
+      deathRate: this.deathRate,
+      immigrationRate: this.immigrationRate,
+    };
+  }
+  
+  /**
+   * Replace the population with a saved snapshot
+   */
+  restore(state: PopulationSaveState): void {
+    this.people.clear();
+    for (const person of state.people) {
+      this.people.set(person.id, structuredClone(person));
+    }
+    this.lastDietQuality = state.lastDietQuality;
+    this.birthRate = state.birthRate;
+    this.deathRate = state.deathRate;
+    this.immigrationRate = state.immigrationRate;
+  }
 }
 
 /**
@@ -322,9 +368,11 @@ export class PopulationManager {
  */
 export class GlobalPopulationManager {
   private populations: Map<number, PopulationManager>;
+  private rng: SeededRandom;
   
-  constructor() {
+  constructor(rng: SeededRandom) {
     this.populations = new Map();
+    this.rng = rng;
   }
   
   /**
@@ -333,7 +381,7 @@ export class GlobalPopulationManager {
   getOrCreatePopulation(settlementId: number): PopulationManager {
     let population = this.populations.get(settlementId);
     if (!population) {
-      population = new PopulationManager(settlementId);
+      population = new PopulationManager(settlementId, this.rng);
       this.populations.set(settlementId, population);
     }
     return population;
@@ -363,4 +411,21 @@ export class GlobalPopulationManager {
     }
     return total;
   }
+  
+  /**
+   * Capture every settlement population for saving
+   */
+  serialize(): PopulationSaveState[] {
+    return Array.from(this.populations.values()).map(population => population.serialize());
+  }
+  
+  /**
+   * Replace all populations with saved snapshots
+   */
+  restore(states: PopulationSaveState[]): void {
+    this.populations.clear();
+    for (const state of states) {
+      this.getOrCreatePopulation(state.settlementId).restore(state);
+    }
+  }
 }
@@ -4,6 +4,7 @@ import { PopulationManager } from "./PopulationManager";
 import { SettlementEconomy } from "../SettlementEconomy";
 import { getJobForBuilding, getWorkerCapacity } from "./JobMapping";
 import { getProductivity } from "./SkillSystem";
+import type { ToolType } from "../Tools";
 
 /**
  * Represents a worker assigned to a building
@@ -13,7 +14,8 @@ export interface WorkerAssignment {
   building: { col: number; row: number };
   buildingType: BuildingType;
   jobType: JobType;
-  productivity: number; // 0.5-2.0 based on skill, health, happiness
+  productivity: number; // 0.5-2.0 based on skill, health, happiness (and tools)
+  tool?: ToolType | null; // Tools the worker took from the stock this turn (null = none)
 }
 
 /**
@@ -23,6 +25,8 @@ export interface BuildingInfo {
   type: BuildingType;
   location: { col: number; row: number };
   priority?: number; // Optional priority for assignment (higher = assign first)
+  jobType?: JobType; // Overrides the building's job (e.g. Builders on a construction site)
+  capacity?: number; // Overrides the building's worker capacity
 }
 
 /**
@@ -39,6 +43,9 @@ const BUILDING_PRIORITY: Record<string, number> = {
   // Standard: Production buildings
   production: 50,
   
+  // Garrisons (after production, before trade)
+  military: 40,
+  
   // Low: Luxury and trade
   luxury: 30,
 };
@@ -86,6 +93,15 @@ function getBuildingPriority(buildingType: BuildingType): number {
     return BUILDING_PRIORITY.production;
   }
   
+  // Military (garrisons)
+  if ([
+    BuildingType.Barracks,
+    BuildingType.Watchtower,
+    BuildingType.Castle,
+  ].includes(buildingType)) {
+    return BUILDING_PRIORITY.military;
+  }
+  
   // Trade and luxury (low)
   return BUILDING_PRIORITY.luxury;
 }
@@ -101,6 +117,7 @@ export class WorkerAssignmentSystem {
    * 2. Fuel production (charcoal burners)
    * 3. Material extraction (mines, quarries, lumber)
    * 4. Production buildings (smithies, smelters)
+   * 5. Garrisons (barracks, watchtowers)
    * 
    * Workers prefer jobs they have experience in
    */
@@ -129,10 +146,10 @@ export class WorkerAssignmentSystem {
     
     // Assign workers to buildings in priority order
     for (const building of sortedBuildings) {
-      const jobType = getJobForBuilding(building.type);
+      const jobType = building.jobType ?? getJobForBuilding(building.type);
       if (jobType === JobType.None) continue;
       
-      const capacity = getWorkerCapacity(building.type);
+      const capacity = building.capacity ?? getWorkerCapacity(building.type);
       if (capacity === 0) continue;
       
       // Find best workers for this job
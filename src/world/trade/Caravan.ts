@@ -0,0 +1,79 @@
+import { MaterialType } from "./Trader";
+
+/**
+ * What a caravan does with a material at a stop
+ */
+export type CaravanAction = "buy" | "sell";
+
+/**
+ * A trading rule at a stop, e.g. "buy iron ore at 6g or less, up to 30 units"
+ */
+export interface CaravanRule {
+  material: MaterialType;
+  action: CaravanAction;
+  /** Highest price paid (buy) or lowest price accepted (sell), per unit */
+  price: number;
+  /** Units to carry away (buy) or to sell (sell) per visit */
+  quantity: number;
+}
+
+/**
+ * A settlement on a caravan's route and what to trade there
+ */
+export interface CaravanStop {
+  settlementId: number;
+  rules: CaravanRule[];
+}
+
+/**
+ * The route of a player-owned caravan. Stops are visited in order and
+ * the route repeats; a trader with a route belongs to the player.
+ */
+export interface CaravanRoute {
+  stops: CaravanStop[];
+  /** Settlement the caravan is heading to (null while it waits) */
+  destination: number | null;
+  /** Gold the caravan keeps for buying; anything above is paid to the player */
+  capital: number;
+  /** Gold paid to the player so far */
+  earnings: number;
+  /** What happened at the last stop */
+  lastReport: string;
+}
+
+/**
+ * Gold a settlement asks for hiring out a merchant and their pack animals
+ */
+export const CARAVAN_HIRE_FEE = 40;
+
+/**
+ * Working capital the player hands a new caravan
+ */
+export const CARAVAN_CAPITAL = 100;
+
+/**
+ * Most stops on one route
+ */
+export const MAX_CARAVAN_STOPS = 6;
+
+/**
+ * Most rules at one stop
+ */
+export const MAX_CARAVAN_RULES = 4;
+
+/**
+ * Create an empty route
+ */
+export function createCaravanRoute(capital: number): CaravanRoute {
+  return { stops: [], destination: null, capital, earnings: 0, lastReport: "" };
+}
+
+/**
+ * Deep copy of a route (for saving and restoring)
+ */
+export function copyCaravanRoute(route: CaravanRoute): CaravanRoute {
+  return {
+    ...route,
+    stops: route.stops.map(stop => ({ ...stop, rules: stop.rules.map(rule => ({ ...rule })) })),
+  };
+}
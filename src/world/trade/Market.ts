@@ -3,8 +3,9 @@ import { ResourceType } from "../Resource";
 import { GoodType } from "../Goods";
 import { SettlementEconomy } from "../SettlementEconomy";
 import { PopulationManager } from "../population/PopulationManager";
-import { getRecipesForBuilding, PRODUCTION_RECIPES } from "../ProductionRecipe";
+import { getRecipesForBuilding, PRODUCTION_RECIPES, RecipeItem } from "../ProductionRecipe";
 import { BuildingType } from "../Building";
+import { countToolUsers, getToolStock } from "../Tools";
 
 /**
  * Base prices for materials (in gold)
@@ -88,6 +89,27 @@ export interface TradeOffer {
   priority: number; // 0-100, higher = more urgent
 }
 
+/**
+ * Serializable snapshot of a settlement market (used by save games)
+ */
+export interface SettlementMarketSaveState {
+  settlementId: number;
+  prices: MarketPrice[];
+  sellOffers: TradeOffer[];
+  buyOffers: TradeOffer[];
+  history?: Array<[MaterialType, number[]]>;
+}
+
+/**
+ * Tools a settlement wants in stock per worker (the rest replace worn-out sets)
+ */
+const TOOLS_PER_WORKER = 1.2;
+
+/**
+ * Turns of price history each market keeps per material
+ */
+export const PRICE_HISTORY_LENGTH = 20;
+
 /**
  * Market for a single settlement
  */
@@ -96,19 +118,22 @@ export class SettlementMarket {
   private prices: Map<MaterialType, MarketPrice>;
   private sellOffers: TradeOffer[];
   private buyOffers: TradeOffer[];
+  private history: Map<MaterialType, number[]>; // Price at the end of each turn, oldest first
   
   constructor(settlementId: number) {
     this.settlementId = settlementId;
     this.prices = new Map();
     this.sellOffers = [];
     this.buyOffers = [];
+    this.history = new Map();
   }
   
   /**
    * Update market based on economy and population
+   * (requests are extra materials the settlement wants, e.g. for construction)
    */
-  update(economy: SettlementEconomy, population: PopulationManager, buildings?: BuildingType[]): void {
-    this.calculateDemand(economy, population, buildings);
+  update(economy: SettlementEconomy, population: PopulationManager, buildings?: BuildingType[], requests?: RecipeItem[]): void {
+    this.calculateDemand(economy, population, buildings, requests);
     this.calculateSupply(economy, population);
     this.updatePrices();
   }
@@ -116,7 +141,7 @@ export class SettlementMarket {
   /**
    * Calculate what settlement needs (buy orders)
    */
-  private calculateDemand(economy: SettlementEconomy, population: PopulationManager, buildings?: BuildingType[]): void {
+  private calculateDemand(economy: SettlementEconomy, population: PopulationManager, buildings?: BuildingType[], requests?: RecipeItem[]): void {
     this.buyOffers = [];
     const popSize = population.getTotalPopulation();
     
@@ -125,6 +150,37 @@ export class SettlementMarket {
       this.calculateBuildingDemands(economy, buildings);
     }
     
+    // Requested materials (construction projects waiting for timber/stone/bricks)
+    for (const request of requests ?? []) {
+      this.buyOffers.push({
+        settlementId: this.settlementId,
+        material: request.type,
+        quantity: request.quantity,
+        pricePerUnit: this.getPrice(request.type),
+        offerType: "buy",
+        priority: 55,
+      });
+    }
+    
+    // TOOLS: every employed worker wants a set (half asked for in iron, half in copper)
+    const toolShortfall = Math.ceil(countToolUsers(population.getPeople()) * TOOLS_PER_WORKER) - getToolStock(economy);
+    if (toolShortfall > 0) {
+      for (const [tool, quantity] of [
+        [GoodType.IronTools, Math.ceil(toolShortfall / 2)],
+        [GoodType.CopperTools, Math.floor(toolShortfall / 2)],
+      ] as const) {
+        if (quantity <= 0) continue;
+        this.buyOffers.push({
+          settlementId: this.settlementId,
+          material: tool,
+          quantity,
+          pricePerUnit: this.getPrice(tool),
+          offerType: "buy",
+          priority: 50,
+        });
+      }
+    }
+    
     // Calculate IDEAL food needs (what people WANT for healthy balanced diet)
     // Target: 33% grain, 33% protein, 33% vegetables
     const foodNeededPerTurn = popSize * 2;
@@ -334,6 +390,9 @@ export class SettlementMarket {
     const idealProteinReserve = (foodNeededPerTurn / 3) * 3;
     const idealVegetableReserve = (foodNeededPerTurn / 3) * 3;
     
+    // Tools beyond what the workers need
+    const spareTools = getToolStock(economy) - Math.ceil(countToolUsers(population.getPeople()) * TOOLS_PER_WORKER);
+    
     // Check all processed goods first
     const goods = economy.getAllGoods();
     
@@ -384,6 +443,20 @@ export class SettlementMarket {
           });
         }
       }
+      // TOOLS: Only sell sets no worker needs
+      else if (type === GoodType.IronTools || type === GoodType.CopperTools) {
+        const surplus = Math.min(amount, spareTools);
+        if (surplus > 10) {
+          this.sellOffers.push({
+            settlementId: this.settlementId,
+            material: type,
+            quantity: Math.floor(surplus * 0.4),
+            pricePerUnit: this.getPrice(type),
+            offerType: "sell",
+            priority: 30,
+          });
+        }
+      }
       // Non-food goods: sell if > 20
       else if (!this.isFood(type) && amount > 20) {
         this.sellOffers.push({
@@ -522,6 +595,32 @@ export class SettlementMarket {
     return priceInfo ? priceInfo.currentPrice : (BASE_PRICES[material] || 1);
   }
   
+  /**
+   * Get price info for every material the market has priced
+   */
+  getAllPrices(): MarketPrice[] {
+    return Array.from(this.prices.values());
+  }
+  
+  /**
+   * Add this turn's prices to the history (once per turn, after the update)
+   */
+  recordPrices(): void {
+    for (const price of this.prices.values()) {
+      const series = this.history.get(price.material) ?? [];
+      series.push(price.currentPrice);
+      if (series.length > PRICE_HISTORY_LENGTH) series.shift();
+      this.history.set(price.material, series);
+    }
+  }
+  
+  /**
+   * Recent prices of a material, oldest first (empty if never priced)
+   */
+  getPriceHistory(material: MaterialType): number[] {
+    return [...(this.history.get(material) ?? [])];
+  }
+  
   /**
    * Get all buy offers
    */
@@ -545,6 +644,29 @@ export class SettlementMarket {
            material === GoodType.PreparedFish ||
            material === GoodType.CookedVegetables;
   }
+  
+  /**
+   * Capture prices and offers for saving
+   */
+  serialize(): SettlementMarketSaveState {
+    return {
+      settlementId: this.settlementId,
+      prices: Array.from(this.prices.values()).map(price => ({ ...price })),
+      sellOffers: this.sellOffers.map(offer => ({ ...offer })),
+      buyOffers: this.buyOffers.map(offer => ({ ...offer })),
+      history: Array.from(this.history.entries()).map(([material, series]) => [material, [...series]]),
+    };
+  }
+  
+  /**
+   * Replace prices and offers with a saved snapshot
+   */
+  restore(state: SettlementMarketSaveState): void {
+    this.prices = new Map(state.prices.map(price => [price.material, { ...price }]));
+    this.sellOffers = state.sellOffers.map(offer => ({ ...offer }));
+    this.buyOffers = state.buyOffers.map(offer => ({ ...offer }));
+    this.history = new Map((state.history ?? []).map(([material, series]) => [material, [...series]]));
+  }
 }
 
 /**
@@ -582,4 +704,30 @@ export class GlobalMarket {
   getAllMarkets(): Map<number, SettlementMarket> {
     return this.markets;
   }
+  
+  /**
+   * Add this turn's prices to every market's history
+   */
+  recordPrices(): void {
+    for (const market of this.markets.values()) {
+      market.recordPrices();
+    }
+  }
+  
+  /**
+   * Capture all settlement markets for saving
+   */
+  serialize(): SettlementMarketSaveState[] {
+    return Array.from(this.markets.values()).map(market => market.serialize());
+  }
+  
+  /**
+   * Replace all settlement markets with saved snapshots
+   */
+  restore(states: SettlementMarketSaveState[]): void {
+    this.markets.clear();
+    for (const state of states) {
+      this.getOrCreateMarket(state.settlementId).restore(state);
+    }
+  }
 }
@@ -1,4 +1,4 @@
-import { Trader, TradeContract, generateTraderId } from "./Trader";
+import { Trader, TradeContract, BASE_CARRY_CAPACITY, generateTraderId } from "./Trader";
 import { GlobalMarket, TradeOffer } from "./Market";
 import { TradeRouteManager } from "./TradeRoutes";
 import { HexTile } from "../HexTile";
@@ -6,6 +6,9 @@ import { Grid } from "honeycomb-grid";
 import { SettlementEconomy } from "../SettlementEconomy";
 import { GoodType } from "../Goods";
 import { ResourceType } from "../Resource";
+import { SeededRandom } from "../../utils/random";
+import { getRouteRisk, ROBBERY_LOSS } from "../Bandits";
+import { getMaterialWeight } from "../ProductionRecipe";
 
 /**
  * Trade opportunity analysis
@@ -15,7 +18,11 @@ interface TradeOpportunity {
   sellOffer: TradeOffer;
   distance: number;
   grossProfit: number;
-  netProfit: number; // After transport costs
+  riskRate: number; // Expected share of the cargo's cost lost to bandits
+  quantity: number; // Units in one load (limited by weight)
+  available: number; // Units both markets would trade (what a ship's hold takes)
+  bySea: boolean; // Only reachable by sea (needs a ship)
+  netProfit: number; // After transport costs and bandit risk
   profitPerTile: number;
   priority: number;
 }
@@ -25,9 +32,11 @@ interface TradeOpportunity {
  */
 export class TradeAI {
   private routeManager: TradeRouteManager;
+  private rng: SeededRandom;
   
-  constructor(routeManager: TradeRouteManager) {
+  constructor(routeManager: TradeRouteManager, rng: SeededRandom) {
     this.routeManager = routeManager;
+    this.rng = rng;
   }
   
   /**
@@ -96,16 +105,19 @@ export class TradeAI {
     buyOffer: TradeOffer,
     sellOffer: TradeOffer
   ): TradeOpportunity | null {
-    // Get distance
-    const distance = this.routeManager.getDistance(
-      sellOffer.settlementId,
-      buyOffer.settlementId
-    );
+    // Get route (distance and bandit danger); overland if possible, otherwise by sea
+    const route = this.routeManager.getRoute(sellOffer.settlementId, buyOffer.settlementId)
+      ?? this.routeManager.getRoute(sellOffer.settlementId, buyOffer.settlementId, true);
     
-    if (distance === Infinity) return null;
+    if (!route) return null;
+    const distance = route.distance;
     
-    // Calculate quantity (limited by sell offer and buy demand)
-    const quantity = Math.min(sellOffer.quantity, buyOffer.quantity);
+    // Calculate quantity (limited by sell offer, buy demand and what fits in a load)
+    const weight = getMaterialWeight(sellOffer.material);
+    const loadLimit = weight > 0 ? Math.floor(BASE_CARRY_CAPACITY / weight) : Infinity;
+    const available = Math.min(sellOffer.quantity, buyOffer.quantity);
+    const quantity = Math.min(available, loadLimit);
+    if (quantity <= 0) return null;
     
     // Calculate gross profit
     const revenue = buyOffer.pricePerUnit * quantity;
@@ -114,7 +126,13 @@ export class TradeAI {
     
     // Transport cost: 1 gold per 10 tiles
     const transportCost = Math.ceil(distance / 10);
-    const netProfit = grossProfit - transportCost;
+    
+    // Bandit risk: expected share of the cargo lost on the way
+    const riskRate = getRouteRisk(route.danger, distance) * ROBBERY_LOSS;
+    const riskCost = Math.ceil(cost * riskRate);
+    
+    const netProfit = grossProfit - transportCost - riskCost;
+    // Profit of one load, and loads are bounded by weight: light, valuable goods rank above bulk
     const profitPerTile = netProfit / distance;
     
     // Priority is average of buy and sell priorities
@@ -125,6 +143,10 @@ export class TradeAI {
       sellOffer,
       distance,
       grossProfit,
+      riskRate,
+      quantity,
+      available,
+      bySea: route.bySea,
       netProfit,
       profitPerTile,
       priority,
@@ -139,53 +161,42 @@ export class TradeAI {
     opportunities: TradeOpportunity[]
   ): TradeContract | null {
     for (const opp of opportunities) {
+      // Traders on foot can't reach settlements only connected by sea
+      if (opp.bySea && !trader.ship) continue;
+      
+      // Ships fill their hold as far as the markets allow; others take one load
+      const maxUnits = trader.getRoomFor(opp.sellOffer.material);
+      const quantity = Math.min(trader.ship ? opp.available : opp.quantity, maxUnits);
+      if (quantity <= 0) continue;
+      
       // Check if trader can afford it
-      const totalCost = opp.sellOffer.pricePerUnit * opp.sellOffer.quantity;
+      const totalCost = opp.sellOffer.pricePerUnit * quantity;
       if (totalCost > trader.money) continue;
       
       // For CRITICAL trades (priority >= 85), accept even if unprofitable
       // This ensures food gets to starving settlements
       const isCritical = opp.priority >= 85;
       
-      // Check if trader can carry it
-      if (opp.sellOffer.quantity > trader.inventory.capacity) {
-        // Reduce quantity to fit
-        const quantity = trader.inventory.capacity;
+      // Profit of the load this trader actually carries (by weight)
+      let profit = opp.netProfit;
+      if (quantity !== opp.quantity) {
         const adjustedRevenue = opp.buyOffer.pricePerUnit * quantity;
-        const adjustedCost = opp.sellOffer.pricePerUnit * quantity;
-        const adjustedProfit = adjustedRevenue - adjustedCost - Math.ceil(opp.distance / 10);
-        
-        // Accept critical trades even if unprofitable (but not at huge loss)
-        if (!isCritical && adjustedProfit <= 0) continue;
-        if (isCritical && adjustedProfit < -10) continue; // Small loss acceptable for critical
-        
-        return {
-          id: this.generateContractId(),
-          fromSettlement: opp.sellOffer.settlementId,
-          toSettlement: opp.buyOffer.settlementId,
-          material: opp.buyOffer.material,
-          quantity,
-          buyPrice: opp.sellOffer.pricePerUnit,
-          sellPrice: opp.buyOffer.pricePerUnit,
-          profit: adjustedProfit,
-          priority: opp.priority,
-        };
+        profit = adjustedRevenue - totalCost - Math.ceil(opp.distance / 10) - Math.ceil(totalCost * opp.riskRate);
       }
       
-      // Accept critical trades even if slightly unprofitable
-      if (!isCritical && opp.netProfit <= 0) continue;
-      if (isCritical && opp.netProfit < -10) continue;
+      // Accept critical trades even if slightly unprofitable (but not at huge loss)
+      if (!isCritical && profit <= 0) continue;
+      if (isCritical && profit < -10) continue;
       
-      // Good trade, create contract
       return {
         id: this.generateContractId(),
         fromSettlement: opp.sellOffer.settlementId,
         toSettlement: opp.buyOffer.settlementId,
         material: opp.buyOffer.material,
-        quantity: Math.min(opp.sellOffer.quantity, opp.buyOffer.quantity),
+        quantity,
         buyPrice: opp.sellOffer.pricePerUnit,
         sellPrice: opp.buyOffer.pricePerUnit,
-        profit: opp.netProfit,
+        profit,
         priority: opp.priority,
       };
     }
@@ -322,9 +333,7 @@ export class TradeAI {
   /**
    * Generate unique contract ID
    */
-  private contractIdCounter = 0;
   private generateContractId(): string {
-    this.contractIdCounter++;
-    return `contract_${this.contractIdCounter}_${Date.now()}`;
+    return `contract_${this.rng.id()}`;
   }
 }
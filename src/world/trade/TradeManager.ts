@@ -1,5 +1,5 @@
-import { Trader, generateTraderId } from "./Trader";
-import { GlobalMarket } from "./Market";
+import { Trader, TraderSaveState, TradeContract, MaterialType, generateTraderId } from "./Trader";
+import { GlobalMarket, SettlementMarketSaveState } from "./Market";
 import { TradeRouteManager, TradeRoute } from "./TradeRoutes";
 import { TradeAI } from "./TradeAI";
 import { HexTile } from "../HexTile";
@@ -7,9 +7,30 @@ import { Grid } from "honeycomb-grid";
 import { Settlement, BuildingType } from "../Building";
 import { SettlementEconomy, EconomyManager } from "../SettlementEconomy";
 import { GlobalPopulationManager } from "../population/PopulationManager";
-import { Person, JobType } from "../population/Person";
+import { Person, JobType, isWorkingAge } from "../population/Person";
 import { createPerson } from "../population/LifeSimulation";
-import { getAPCost } from "../Terrain";
+import { getAPCost, getLoadPenalty, isWater } from "../Terrain";
+import { getBiomeAPCost } from "../Biome";
+import { getRiverAPCost, isBargeStep, BARGE_AP } from "../River";
+import { SeededRandom } from "../../utils/random";
+import { RecipeItem, getMaterialName } from "../ProductionRecipe";
+import { CaravanRoute, createCaravanRoute } from "./Caravan";
+import {
+  ATTACK_CHANCE,
+  ROBBERY_LOSS,
+  ESCORT_PROTECTION,
+  ESCORT_RISK_THRESHOLD,
+  ESCORT_FEE_PER_TILE,
+  getRouteRisk,
+} from "../Bandits";
+
+/**
+ * Serializable snapshot of the trade system (used by save games)
+ */
+export interface TradeManagerSaveState {
+  traders: TraderSaveState[];
+  markets: SettlementMarketSaveState[];
+}
 
 /**
  * Manages all traders and coordinates trade system
@@ -21,14 +42,37 @@ export class TradeManager {
   private tradeAI: TradeAI;
   private grid: Grid<HexTile>;
   private settlements: Settlement[];
+  private rng: SeededRandom;
+  
+  /** Extra materials a settlement wants on its market (e.g. construction materials). */
+  materialRequests?: (settlementId: number) => RecipeItem[];
+  
+  /** Bandit danger of a tile (0 = safe, 1 = deadly). */
+  tileDanger?: (tile: HexTile) => number;
+  
+  /** Whether the player is traveling with a trader (protects them like hired guards). */
+  playerEscort?: (trader: Trader) => boolean;
   
-  constructor(grid: Grid<HexTile>, settlements: Settlement[]) {
+  /** Hook to hand a player caravan's earnings to the player's purse. */
+  payPlayer?: (amount: number, settlementId: number, description: string) => void;
+  
+  /** Take a ship waiting in a settlement's port (false if none). */
+  takeShip?: (settlementId: number) => boolean;
+  
+  /** Send a ship back to its home port (its trader is gone). */
+  returnShip?: (settlementId: number) => void;
+  
+  /** Robberies during the last processed turn. */
+  private robberies = 0;
+  
+  constructor(grid: Grid<HexTile>, settlements: Settlement[], rng: SeededRandom) {
     this.traders = new Map();
     this.globalMarket = new GlobalMarket();
-    this.routeManager = new TradeRouteManager(grid, settlements);
-    this.tradeAI = new TradeAI(this.routeManager);
+    this.routeManager = new TradeRouteManager(grid, settlements, (tile) => this.tileDanger?.(tile) ?? 0);
+    this.tradeAI = new TradeAI(this.routeManager, rng);
     this.grid = grid;
     this.settlements = settlements;
+    this.rng = rng;
   }
   
   /**
@@ -38,8 +82,14 @@ export class TradeManager {
     economyManager: EconomyManager,
     populationManager: GlobalPopulationManager
   ): void {
-    // 1. Update all markets
+    this.robberies = 0;
+    
+    // Camps and patrols may have changed since last turn
+    this.routeManager.refreshDanger();
+    
+    // 1. Update all markets (and remember this turn's prices)
     this.updateMarkets(economyManager, populationManager);
+    this.globalMarket.recordPrices();
     
     // 2. Find trade opportunities
     const opportunities = this.tradeAI.findTradeOpportunities(this.globalMarket);
@@ -64,24 +114,35 @@ export class TradeManager {
     populationManager: GlobalPopulationManager
   ): void {
     for (let i = 0; i < this.settlements.length; i++) {
-      const economy = economyManager.getEconomy(i);
-      const population = populationManager.getPopulation(i);
-      
-      if (economy && population) {
-        // Get buildings for this settlement
-        const settlement = this.settlements[i];
-        const buildings: BuildingType[] = [];
-        for (const tile of settlement.tiles) {
-          const hexTile = this.grid.getHex(tile);
-          if (hexTile && hexTile.building !== BuildingType.None) {
-            buildings.push(hexTile.building);
-          }
-        }
-        
-        const market = this.globalMarket.getOrCreateMarket(i);
-        market.update(economy, population, buildings);
+      this.refreshMarket(i, economyManager, populationManager);
+    }
+  }
+  
+  /**
+   * Recalculate one settlement's offers and prices from its current stock
+   * (used every turn, and right after the player trades)
+   */
+  refreshMarket(
+    settlementId: number,
+    economyManager: EconomyManager,
+    populationManager: GlobalPopulationManager
+  ): void {
+    const economy = economyManager.getEconomy(settlementId);
+    const population = populationManager.getPopulation(settlementId);
+    if (!economy || !population) return;
+    
+    // Get buildings for this settlement
+    const settlement = this.settlements[settlementId];
+    const buildings: BuildingType[] = [];
+    for (const tile of settlement.tiles) {
+      const hexTile = this.grid.getHex(tile);
+      if (hexTile && hexTile.building !== BuildingType.None) {
+        buildings.push(hexTile.building);
       }
     }
+    
+    const market = this.globalMarket.getOrCreateMarket(settlementId);
+    market.update(economy, population, buildings, this.materialRequests?.(settlementId));
   }
   
   /**
@@ -104,7 +165,7 @@ export class TradeManager {
       
       // Count existing traders from this settlement
       const existingTraders = Array.from(this.traders.values())
-        .filter(t => t.homeSettlement === i);
+        .filter(t => t.homeSettlement === i && !t.route);
       
       // Determine if settlement needs traders based on economic health
       const market = this.globalMarket.getMarket(i);
@@ -160,7 +221,7 @@ export class TradeManager {
       
       // Create trader with money from treasury
       const trader = new Trader(
-        generateTraderId(),
+        generateTraderId(this.rng),
         person.name,
         i,
         startTile,
@@ -226,45 +287,131 @@ export class TradeManager {
     // Reset AP at start of turn (like player character)
     trader.resetAP();
     
-    switch (trader.state) {
-      case "idle":
-        this.handleIdleTrader(trader, opportunities);
-        break;
+    if (trader.route) {
+      this.processCaravan(trader, trader.route, economyManager);
+    } else {
+      switch (trader.state) {
+        case "idle":
+          this.handleIdleTrader(trader, opportunities, economyManager);
+          break;
         
-      case "traveling_to_buy":
-        this.handleTravelingToBuy(trader);
-        break;
+        case "traveling_to_buy":
+          this.handleTravelingToBuy(trader);
+          break;
         
-      case "buying":
-        this.handleBuying(trader, economyManager);
-        break;
+        case "buying":
+          this.handleBuying(trader, economyManager);
+          break;
         
-      case "traveling_to_sell":
-        this.handleTravelingToSell(trader);
-        break;
+        case "traveling_to_sell":
+          this.handleTravelingToSell(trader);
+          break;
         
-      case "selling":
-        this.handleSelling(trader, economyManager);
-        break;
+        case "selling":
+          this.handleSelling(trader, economyManager);
+          break;
         
-      case "returning_home":
-        this.handleReturningHome(trader, economyManager);
-        break;
+        case "returning_home":
+          this.handleReturningHome(trader, economyManager);
+          break;
+      }
     }
+    
+    // Bandits strike on the road
+    if (trader.state === "traveling_to_buy" || trader.state === "traveling_to_sell" || trader.state === "returning_home") {
+      this.checkForBandits(trader);
+    }
+  }
+  
+  /**
+   * Roll for a bandit attack on a traveling trader
+   * Robbers take part of the cargo, or part of the purse if nothing is carried
+   */
+  private checkForBandits(trader: Trader): void {
+    if (isWater(trader.currentTile.terrain)) return; // Bandits don't sail
+    
+    const danger = this.tileDanger?.(trader.currentTile) ?? 0;
+    if (danger <= 0 || !this.rng.chance(danger * ATTACK_CHANCE)) return;
+    
+    if (trader.escorted && this.rng.chance(ESCORT_PROTECTION)) {
+      console.log(`[Bandits] ${trader.name}'s guards fought off bandits at (${trader.currentTile.col}, ${trader.currentTile.row})`);
+      return;
+    }
+    
+    if (this.playerEscort?.(trader) && this.rng.chance(ESCORT_PROTECTION)) {
+      console.log(`[Bandits] The player fought off bandits attacking ${trader.name} at (${trader.currentTile.col}, ${trader.currentTile.row})`);
+      return;
+    }
+    
+    this.robberies++;
+    
+    const lostUnits = trader.loseCargo(ROBBERY_LOSS);
+    if (lostUnits > 0) {
+      // Whatever is left of the contract is still worth delivering
+      const contract = trader.currentContract;
+      if (contract && trader.state === "traveling_to_sell") {
+        const remaining = trader.getMaterialAmount(contract.material);
+        contract.profit = Math.floor(contract.profit * remaining / Math.max(1, contract.quantity));
+        contract.quantity = remaining;
+      }
+      console.log(`[Bandits] ${trader.name} was robbed of ${lostUnits} units of cargo at (${trader.currentTile.col}, ${trader.currentTile.row})`);
+      return;
+    }
+    
+    const stolen = Math.floor(trader.money * ROBBERY_LOSS);
+    trader.money -= stolen;
+    console.log(`[Bandits] ${trader.name} was robbed of ${stolen}g at (${trader.currentTile.col}, ${trader.currentTile.row})`);
+  }
+  
+  /**
+   * Hire guards for a dangerous trip, paid from the home treasury
+   */
+  private hireEscort(trader: Trader, economyManager: EconomyManager): void {
+    const contract = trader.currentContract;
+    if (!contract) return;
+    
+    const legs = [
+      this.findRoute(trader, trader.homeSettlement, contract.fromSettlement),
+      this.findRoute(trader, contract.fromSettlement, contract.toSettlement),
+      this.findRoute(trader, contract.toSettlement, trader.homeSettlement),
+    ].filter((route): route is TradeRoute => route !== null);
+    
+    const distance = legs.reduce((sum, route) => sum + route.distance, 0);
+    if (distance === 0) return;
+    const danger = legs.reduce((sum, route) => sum + route.danger * route.distance, 0) / distance;
+    if (getRouteRisk(danger, distance) < ESCORT_RISK_THRESHOLD) return;
+    
+    const economy = economyManager.getEconomy(trader.homeSettlement);
+    const fee = Math.max(5, Math.ceil(distance * ESCORT_FEE_PER_TILE));
+    if (!economy || !economy.hasMoney(fee)) return;
+    
+    economy.removeMoney(fee);
+    trader.escorted = true;
+    console.log(`[Bandits] Settlement ${trader.homeSettlement} hired guards for ${trader.name} (${fee}g)`);
   }
   
   /**
    * Handle idle trader - find new contract
    */
-  private handleIdleTrader(trader: Trader, opportunities: any[]): void {
+  private handleIdleTrader(trader: Trader, opportunities: any[], economyManager: EconomyManager): void {
+    // Guards are hired per trip
+    trader.escorted = false;
+    
+    // A ship waiting in the home port is taken out on the next trip
+    if (!trader.ship && !trader.route && trader.currentSettlement === trader.homeSettlement && this.takeShip?.(trader.homeSettlement)) {
+      trader.boardShip();
+      console.log(`[Trade] ${trader.name} took command of a ship in settlement ${trader.homeSettlement}`);
+    }
+    
     const contract = this.tradeAI.selectBestTrade(trader, opportunities);
     
     if (contract) {
       trader.currentContract = contract;
       trader.state = "traveling_to_buy";
+      this.hireEscort(trader, economyManager);
       
       // Get route to source settlement
-      const route = this.routeManager.getRoute(trader.homeSettlement, contract.fromSettlement);
+      const route = this.findRoute(trader, trader.homeSettlement, contract.fromSettlement);
       if (route) {
         trader.path = [...route.path];
       }
@@ -282,18 +429,44 @@ export class TradeManager {
       return;
     }
     
-    // Move along path using AP (like player character)
+    this.moveAlongPath(trader);
+    
+    // Arrived?
+    if (trader.path.length === 0) {
+      trader.currentSettlement = trader.currentContract.fromSettlement;
+      trader.state = "buying";
+    }
+  }
+  
+  /**
+   * The better of the land and sea routes for a trader (sea only with a ship)
+   */
+  private findRoute(trader: Trader, from: number, to: number): TradeRoute | null {
+    return this.routeManager.getBestRoute(from, to, trader.ship);
+  }
+  
+  /**
+   * Move along the path as far as this turn's AP allows (like player character);
+   * a heavy load costs extra AP per tile on land, ships sail at the embarked cost
+   * and barges carry the load along navigable rivers
+   */
+  private moveAlongPath(trader: Trader): void {
+    const loadPenalty = getLoadPenalty(trader.getCurrentLoad(), trader.inventory.capacity);
     while (trader.path.length > 0 && trader.ap > 0) {
       const nextTile = trader.path[0];
       
-      // Calculate AP cost for this move
-      const cost = getAPCost(
+      // Calculate AP cost for this move (a ship is boarded at the dock, a barge on the river)
+      const afloat = trader.ship && isWater(nextTile.terrain);
+      const cost = isBargeStep(trader.currentTile, nextTile) ? BARGE_AP : getAPCost(
         nextTile.hasRoad,
         nextTile.isRough,
         nextTile.treeDensity,
         trader.currentTile.terrain,
         nextTile.terrain,
-        false // Traders don't embark on water (yet)
+        afloat,
+        loadPenalty,
+        getBiomeAPCost(nextTile.biome, nextTile.hasRoad),
+        getRiverAPCost(nextTile)
       );
       
       // Check if we have enough AP
@@ -305,12 +478,6 @@ export class TradeManager {
       trader.spendAP(cost);
       trader.currentTile = trader.path.shift()!;
     }
-    
-    // Arrived?
-    if (trader.path.length === 0) {
-      trader.currentSettlement = trader.currentContract.fromSettlement;
-      trader.state = "buying";
-    }
   }
   
   /**
@@ -336,7 +503,8 @@ export class TradeManager {
       trader.state = "traveling_to_sell";
       
       // Get route to destination
-      const route = this.routeManager.getRoute(
+      const route = this.findRoute(
+        trader,
         trader.currentContract.fromSettlement,
         trader.currentContract.toSettlement
       );
@@ -361,29 +529,7 @@ export class TradeManager {
       return;
     }
     
-    // Move along path using AP (like player character)
-    while (trader.path.length > 0 && trader.ap > 0) {
-      const nextTile = trader.path[0];
-      
-      // Calculate AP cost for this move
-      const cost = getAPCost(
-        nextTile.hasRoad,
-        nextTile.isRough,
-        nextTile.treeDensity,
-        trader.currentTile.terrain,
-        nextTile.terrain,
-        false // Traders don't embark on water (yet)
-      );
-      
-      // Check if we have enough AP
-      if (cost > trader.ap) {
-        break; // Out of AP, continue next turn
-      }
-      
-      // Move to next tile
-      trader.spendAP(cost);
-      trader.currentTile = trader.path.shift()!;
-    }
+    this.moveAlongPath(trader);
     
     // Arrived?
     if (trader.path.length === 0) {
@@ -419,7 +565,7 @@ export class TradeManager {
       trader.state = "idle";
     } else {
       trader.state = "returning_home";
-      const route = this.routeManager.getRoute(trader.currentSettlement!, trader.homeSettlement);
+      const route = this.findRoute(trader, trader.currentSettlement!, trader.homeSettlement);
       if (route) {
         trader.path = [...route.path];
       }
@@ -436,29 +582,7 @@ export class TradeManager {
       return;
     }
     
-    // Move along path using AP (like player character)
-    while (trader.path.length > 0 && trader.ap > 0) {
-      const nextTile = trader.path[0];
-      
-      // Calculate AP cost for this move
-      const cost = getAPCost(
-        nextTile.hasRoad,
-        nextTile.isRough,
-        nextTile.treeDensity,
-        trader.currentTile.terrain,
-        nextTile.terrain,
-        false // Traders don't embark on water (yet)
-      );
-      
-      // Check if we have enough AP
-      if (cost > trader.ap) {
-        break; // Out of AP, continue next turn
-      }
-      
-      // Move to next tile
-      trader.spendAP(cost);
-      trader.currentTile = trader.path.shift()!;
-    }
+    this.moveAlongPath(trader);
     
     // Arrived home?
     if (trader.path.length === 0) {
@@ -480,6 +604,191 @@ export class TradeManager {
     }
   }
   
+  /**
+   * Run a player caravan for one turn: travel towards the next stop, and on
+   * arrival trade by the stop's rules, pay out profits and set off again
+   */
+  private processCaravan(trader: Trader, route: CaravanRoute, economyManager: EconomyManager): void {
+    if (trader.currentSettlement === null) {
+      this.moveAlongPath(trader);
+      if (trader.path.length > 0) return;
+      trader.currentSettlement = route.destination ?? trader.homeSettlement;
+      route.destination = null;
+    }
+    
+    const here = trader.currentSettlement;
+    const index = route.stops.findIndex(stop => stop.settlementId === here);
+    if (index >= 0) {
+      trader.state = "selling";
+      this.tradeAtStop(trader, route, index, economyManager);
+    }
+    
+    // Next stop (the first one if this settlement is not on the route)
+    const next = route.stops[(index + 1) % route.stops.length];
+    const road = next && next.settlementId !== here ? this.findRoute(trader, here, next.settlementId) : null;
+    if (!next || !road) {
+      trader.state = "idle";
+      return;
+    }
+    
+    trader.path = [...road.path];
+    trader.currentSettlement = null;
+    route.destination = next.settlementId;
+    trader.state = trader.getCurrentLoad() > 0 ? "traveling_to_sell" : "traveling_to_buy";
+    this.moveAlongPath(trader);
+  }
+  
+  /**
+   * Trade at a caravan stop through the market: sell first (so the gold
+   * and room go into purchases), then buy, then pay out gold above the capital
+   */
+  private tradeAtStop(trader: Trader, route: CaravanRoute, index: number, economyManager: EconomyManager): void {
+    const stop = route.stops[index];
+    const economy = economyManager.getEconomy(stop.settlementId);
+    const market = this.globalMarket.getMarket(stop.settlementId);
+    if (!economy || !market) return;
+    
+    const deals: string[] = [];
+    for (const rule of stop.rules.filter(r => r.action === "sell")) {
+      const price = market.getPrice(rule.material);
+      if (price < rule.price) continue;
+      
+      const quantity = Math.min(
+        rule.quantity,
+        trader.getMaterialAmount(rule.material),
+        Math.floor(economy.getTreasury() / price)
+      );
+      if (quantity <= 0) continue;
+      
+      const contract = this.createCaravanContract(trader, stop.settlementId, rule.material, quantity, price);
+      if (this.tradeAI.sellGoods(trader, economy, contract)) {
+        deals.push(`sold ${quantity} ${getMaterialName(rule.material)} at ${price.toFixed(1)}g`);
+      }
+    }
+    
+    for (const rule of stop.rules.filter(r => r.action === "buy")) {
+      const price = market.getPrice(rule.material);
+      if (price > rule.price) continue;
+      
+      const quantity = Math.min(
+        rule.quantity - trader.getMaterialAmount(rule.material),
+        Math.floor(economy.getMaterialAmount(rule.material)),
+        Math.floor(trader.money / price),
+        trader.getRoomFor(rule.material)
+      );
+      if (quantity <= 0) continue;
+      
+      const contract = this.createCaravanContract(trader, stop.settlementId, rule.material, quantity, price);
+      if (this.tradeAI.buyGoods(trader, economy, contract)) {
+        deals.push(`bought ${quantity} ${getMaterialName(rule.material)} at ${price.toFixed(1)}g`);
+      }
+    }
+    
+    const name = this.settlements[stop.settlementId].name;
+    route.lastReport = `${name}: ${deals.length > 0 ? deals.join(", ") : "no deals"}`;
+    
+    // Profits go to the player's purse
+    const surplus = Math.floor(trader.money - route.capital);
+    if (surplus > 0 && this.payPlayer) {
+      trader.money -= surplus;
+      route.earnings += surplus;
+      this.payPlayer(surplus, stop.settlementId, `${trader.name}'s caravan paid out in ${name}`);
+    }
+  }
+  
+  /**
+   * A one-off contract for a caravan's deal at a stop (executed on the spot)
+   */
+  private createCaravanContract(
+    trader: Trader,
+    settlementId: number,
+    material: MaterialType,
+    quantity: number,
+    price: number
+  ): TradeContract {
+    return {
+      id: `${trader.id}_${settlementId}`,
+      fromSettlement: settlementId,
+      toSettlement: settlementId,
+      material,
+      quantity,
+      buyPrice: price,
+      sellPrice: price,
+      profit: 0,
+      priority: 0,
+    };
+  }
+  
+  /**
+   * Hire someone from a settlement to lead a caravan for the player
+   * (the capital comes from the player; the route starts out empty)
+   */
+  hireCaravan(
+    settlementId: number,
+    capital: number,
+    populationManager: GlobalPopulationManager
+  ): Trader | null {
+    const settlement = this.settlements[settlementId];
+    const population = populationManager.getPopulation(settlementId);
+    const startTile = settlement ? this.grid.getHex(settlement.center) : undefined;
+    if (!population || !startTile) return null;
+    
+    // Anyone of working age not tied to a workplace (field hands count)
+    const person = population.getPeople()
+      .filter(p => isWorkingAge(p.age) && !p.assignedBuilding && !this.isTrading(p.id))
+      .sort((a, b) => (b.skills[JobType.Merchant] || 0) - (a.skills[JobType.Merchant] || 0))[0];
+    if (!person) return null;
+    
+    const trader = new Trader(
+      generateTraderId(this.rng),
+      person.name,
+      settlementId,
+      startTile,
+      person.id,
+      person.skills[JobType.Merchant] || 0,
+      capital
+    );
+    trader.route = createCaravanRoute(capital);
+    person.currentJob = JobType.Merchant;
+    this.traders.set(trader.id, trader);
+    
+    console.log(`[Trade] ${trader.name} hired to lead the player's caravan from settlement ${settlementId} with ${capital}g`);
+    return trader;
+  }
+  
+  /**
+   * Check if a person already leads a caravan or trades for their settlement
+   */
+  private isTrading(personId: string): boolean {
+    return Array.from(this.traders.values()).some(t => t.personId === personId);
+  }
+  
+  /**
+   * Let a player caravan go. Unsold cargo stays in the settlement it stands in
+   * (or is lost on the road). Returns the purse, which goes back to the player.
+   */
+  dismissCaravan(
+    id: string,
+    economyManager: EconomyManager,
+    populationManager: GlobalPopulationManager
+  ): number {
+    const trader = this.traders.get(id);
+    if (!trader || !trader.route) return 0;
+    
+    const economy = trader.currentSettlement !== null ? economyManager.getEconomy(trader.currentSettlement) : undefined;
+    if (economy) {
+      for (const [good, amount] of trader.inventory.goods) economy.addGood(good, amount);
+      for (const [resource, amount] of trader.inventory.resources) economy.addResource(resource, amount);
+    }
+    
+    const person = populationManager.getPopulation(trader.homeSettlement)?.getPerson(trader.personId);
+    if (person) person.currentJob = JobType.None;
+    
+    this.traders.delete(id);
+    console.log(`[Trade] Player dismissed the caravan of ${trader.name}`);
+    return Math.floor(trader.money);
+  }
+  
   /**
    * Clean up traders whose person died or retired
    */
@@ -495,14 +804,19 @@ export class TradeManager {
       
       const person = population.getPerson(trader.personId);
       if (!person) {
-        // Person died - return their money to settlement treasury
+        // Person died - return their money to the player (caravans) or the settlement treasury
         const economy = economyManager.getEconomy(trader.homeSettlement);
-        if (economy && trader.money > 0) {
+        if (trader.route && this.payPlayer) {
+          const purse = Math.floor(trader.money);
+          if (purse > 0) this.payPlayer(purse, trader.homeSettlement, `${trader.name} died — the caravan's purse came back`);
+          console.log(`[Trade] Player's caravan leader ${trader.name} died - ${purse}g returned to the player`);
+        } else if (economy && trader.money > 0) {
           economy.addMoney(trader.money);
           console.log(`[Trade] Trader ${trader.name} died - ${trader.money}g returned to settlement ${trader.homeSettlement} treasury`);
         } else {
           console.log(`[Trade] Trader ${trader.name} died`);
         }
+        if (trader.ship) this.returnShip?.(trader.homeSettlement);
         tradersToRemove.push(id);
       }
     }
@@ -512,6 +826,21 @@ export class TradeManager {
     }
   }
   
+  /**
+   * Route between two settlements, overland if possible, otherwise by sea
+   * (looked up without caching it)
+   */
+  lookupRoute(from: number, to: number): TradeRoute | null {
+    return this.routeManager.lookupRoute(from, to) ?? this.routeManager.lookupRoute(from, to, true);
+  }
+  
+  /**
+   * Check if a settlement can reach any other settlement by sea
+   */
+  hasSeaRoutes(settlementId: number): boolean {
+    return this.settlements.some((_, other) => other !== settlementId && this.routeManager.getRoute(settlementId, other, true) !== null);
+  }
+  
   /**
    * Get all traders
    */
@@ -519,6 +848,13 @@ export class TradeManager {
     return Array.from(this.traders.values());
   }
   
+  /**
+   * Get the caravans owned by the player
+   */
+  getCaravans(): Trader[] {
+    return Array.from(this.traders.values()).filter(t => t.route !== null);
+  }
+  
   /**
    * Get traders for a settlement
    */
@@ -527,10 +863,44 @@ export class TradeManager {
       .filter(t => t.homeSettlement === settlementId);
   }
   
+  /**
+   * Number of robberies during the last processed turn
+   */
+  getRobberyCount(): number {
+    return this.robberies;
+  }
+  
   /**
    * Get global market
    */
   getGlobalMarket(): GlobalMarket {
     return this.globalMarket;
   }
+  
+  /**
+   * Capture traders, contracts and markets for saving
+   */
+  serialize(): TradeManagerSaveState {
+    return {
+      traders: this.getAllTraders().map(trader => trader.serialize()),
+      markets: this.globalMarket.serialize(),
+    };
+  }
+  
+  /**
+   * Replace traders and markets with a saved snapshot
+   */
+  restore(state: TradeManagerSaveState): void {
+    this.traders.clear();
+    for (const traderState of state.traders) {
+      const trader = Trader.deserialize(traderState, (coords) => this.grid.getHex(coords));
+      if (!trader) {
+        console.warn(`[Trade] Could not restore trader ${traderState.name} - tile not found`);
+        continue;
+      }
+      this.traders.set(trader.id, trader);
+    }
+    this.globalMarket.restore(state.markets);
+    this.routeManager.clearCache();
+  }
 }
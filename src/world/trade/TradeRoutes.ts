@@ -1,7 +1,9 @@
 import { HexTile } from "../HexTile";
 import { Grid } from "honeycomb-grid";
-import { findPath } from "../../pathfinding/Pathfinding";
+import { findPath, IPathfindingMap, PathResult } from "../../pathfinding/Pathfinding";
 import { Settlement } from "../Building";
+import { isWater } from "../Terrain";
+import { findDock } from "../Shipyard";
 
 /**
  * A cached trade route between two settlements
@@ -12,8 +14,10 @@ export interface TradeRoute {
   to: number;
   path: HexTile[]; // Cached path
   distance: number; // In tiles
+  cost: number; // AP to travel it unladen
+  bySea: boolean; // Sailed between docks (needs a ship)
   onRoad: boolean; // Does it mostly use roads?
-  danger: number; // 0-1, for future bandit system
+  danger: number; // 0-1, average bandit danger along the path
 }
 
 /**
@@ -21,37 +25,76 @@ export interface TradeRoute {
  */
 export class TradeRouteManager {
   private routes: Map<string, TradeRoute>;
+  /** Routes already searched for and not found (ids as in routes) */
+  private failedRoutes: Set<string> = new Set();
+  /** Body of water of each water tile (terrain never changes, so labelled once per world) */
+  private waterBodies: Map<HexTile, number> | null = null;
   private grid: Grid<HexTile>;
   private settlements: Settlement[];
+  private getTileDanger: (tile: HexTile) => number;
   
-  constructor(grid: Grid<HexTile>, settlements: Settlement[]) {
+  constructor(grid: Grid<HexTile>, settlements: Settlement[], getTileDanger: (tile: HexTile) => number = () => 0) {
     this.routes = new Map();
     this.grid = grid;
     this.settlements = settlements;
+    this.getTileDanger = getTileDanger;
   }
   
   /**
    * Get or create a trade route between settlements
+   * (over land, or by sea between two ports)
    */
-  getRoute(from: number, to: number): TradeRoute | null {
-    const routeId = this.getRouteId(from, to);
+  getRoute(from: number, to: number, bySea: boolean = false): TradeRoute | null {
+    const routeId = this.getRouteId(from, to, bySea);
     
-    // Return cached route if exists
-    if (this.routes.has(routeId)) {
-      return this.routes.get(routeId)!;
-    }
+    // Return cached route (or cached failure) if exists
+    const cached = this.routes.get(routeId);
+    if (cached) return cached;
+    if (this.failedRoutes.has(routeId)) return null;
+    
+    // A port without a dock yet may build one later, so that failure isn't cached
+    if (bySea && !this.hasDocks(from, to)) return null;
     
     // Create new route
-    const route = this.createRoute(from, to);
+    const route = bySea ? this.createSeaRoute(from, to) : this.createRoute(from, to);
     if (route) {
       this.routes.set(routeId, route);
+    } else {
+      this.failedRoutes.add(routeId);
     }
     
     return route;
   }
   
   /**
-   * Create a new trade route
+   * Find a route like getRoute() without adding it to the cache
+   * (for UI queries between markets the traders may never use)
+   */
+  lookupRoute(from: number, to: number, bySea: boolean = false): TradeRoute | null {
+    const routeId = this.getRouteId(from, to, bySea);
+    const cached = this.routes.get(routeId);
+    if (cached) return cached;
+    if (this.failedRoutes.has(routeId)) return null;
+    if (bySea && !this.hasDocks(from, to)) return null;
+    
+    return bySea ? this.createSeaRoute(from, to) : this.createRoute(from, to);
+  }
+  
+  /**
+   * Pick the better of the land and sea routes for a trader
+   * (sea routes need a ship; danger makes a route count as longer)
+   */
+  getBestRoute(from: number, to: number, hasShip: boolean): TradeRoute | null {
+    const land = this.getRoute(from, to);
+    const sea = hasShip ? this.getRoute(from, to, true) : null;
+    if (!land || !sea) return land ?? sea;
+    
+    const effort = (route: TradeRoute) => route.cost * (1 + route.danger);
+    return effort(sea) < effort(land) ? sea : land;
+  }
+  
+  /**
+   * Create a new land route (traders on foot never cross water)
    */
   private createRoute(from: number, to: number): TradeRoute | null {
     const fromSettlement = this.settlements[from];
@@ -65,62 +108,197 @@ export class TradeRouteManager {
     
     if (!startTile || !endTile) return null;
     
-    // Find path using pathfinding
-    // Note: findPath signature is (start, goal, map, onlyExplored, isEmbarked)
-    const pathResult = findPath(
-      startTile,
-      endTile,
-      { 
-        getNeighbors: (hex) => {
-          const neighbors: HexTile[] = [];
-          const directions = [
-            { dcol: 1, drow: 0 },
-            { dcol: -1, drow: 0 },
-            { dcol: 0, drow: 1 },
-            { dcol: 0, drow: -1 },
-            { dcol: 1, drow: -1 },
-            { dcol: -1, drow: 1 },
-          ];
-          for (const dir of directions) {
-            const neighbor = this.grid.getHex({ col: hex.col + dir.dcol, row: hex.row + dir.drow });
-            if (neighbor) neighbors.push(neighbor);
-          }
-          return neighbors;
-        },
-        hexDistance: (a, b) => {
-          const dc = Math.abs(a.col - b.col);
-          const dr = Math.abs(a.row - b.row);
-          return Math.max(dc, dr, Math.abs(dc - dr));
-        }
-      },
+    const leg = this.findLandPath(startTile, endTile);
+    if (!leg) return null;
+    
+    return this.buildRoute(from, to, leg.path, leg.totalCost, false);
+  }
+  
+  /**
+   * Create a new sea route: overland to the port's dock, by ship to the
+   * other port's dock, and overland again to the settlement
+   */
+  private createSeaRoute(from: number, to: number): TradeRoute | null {
+    const fromSettlement = this.settlements[from];
+    const toSettlement = this.settlements[to];
+    
+    if (!fromSettlement || !toSettlement) return null;
+    
+    const startTile = this.grid.getHex(fromSettlement.center);
+    const endTile = this.grid.getHex(toSettlement.center);
+    const fromDock = findDock(this.grid, fromSettlement);
+    const toDock = findDock(this.grid, toSettlement);
+    
+    if (!startTile || !endTile || !fromDock || !toDock) return null;
+    if (!this.shareWater(fromDock, toDock)) return null;
+    
+    const toPort = this.findLandPath(startTile, fromDock);
+    const voyage = this.findSeaPath(fromDock, toDock);
+    const fromPort = this.findLandPath(toDock, endTile);
+    if (!toPort || !voyage || !fromPort) return null;
+    
+    return this.buildRoute(
+      from,
+      to,
+      [...toPort.path, ...voyage.path, ...fromPort.path],
+      toPort.totalCost + voyage.totalCost + fromPort.totalCost,
+      true
+    );
+  }
+  
+  /**
+   * Cheapest path between two tiles over land (barges along navigable rivers)
+   */
+  private findLandPath(start: HexTile, goal: HexTile): PathResult | null {
+    const result = findPath(
+      start,
+      goal,
+      this.createPathfindingMap(tile => !isWater(tile.terrain)),
       false, // Don't require explored (traders can go anywhere)
-      false // Not embarked
+      false, // Not embarked
+      0, // Routes are costed unladen
+      true // Barges on rivers
     );
+    return result.found ? result : null;
+  }
+  
+  /**
+   * Check if both settlements have a dock
+   */
+  private hasDocks(from: number, to: number): boolean {
+    const fromSettlement = this.settlements[from];
+    const toSettlement = this.settlements[to];
+    return !!fromSettlement && !!toSettlement &&
+      findDock(this.grid, fromSettlement) !== null && findDock(this.grid, toSettlement) !== null;
+  }
+  
+  /**
+   * Check if two docks lie on the same body of water (a voyage between
+   * ports on different seas or lakes would search all the water in vain)
+   */
+  private shareWater(fromDock: HexTile, toDock: HexTile): boolean {
+    const bodies = this.getWaterBodies();
+    const water = this.createPathfindingMap(tile => isWater(tile.terrain));
+    const fromBodies = new Set(water.getNeighbors(fromDock).map(tile => bodies.get(tile)));
+    return water.getNeighbors(toDock).some(tile => fromBodies.has(bodies.get(tile)));
+  }
+  
+  /**
+   * Label every water tile with its body of water (flood fill)
+   */
+  private getWaterBodies(): Map<HexTile, number> {
+    if (this.waterBodies) return this.waterBodies;
     
-    if (!pathResult.found || pathResult.path.length === 0) {
-      return null;
-    }
+    const bodies = new Map<HexTile, number>();
+    const water = this.createPathfindingMap(tile => isWater(tile.terrain));
+    let body = 0;
+    this.grid.forEach(tile => {
+      if (!isWater(tile.terrain) || bodies.has(tile)) return;
+      bodies.set(tile, body);
+      const queue = [tile];
+      while (queue.length > 0) {
+        for (const neighbor of water.getNeighbors(queue.pop()!)) {
+          if (bodies.has(neighbor)) continue;
+          bodies.set(neighbor, body);
+          queue.push(neighbor);
+        }
+      }
+      body++;
+    });
+    
+    this.waterBodies = bodies;
+    return bodies;
+  }
+  
+  /**
+   * Cheapest voyage between two docks (water steps at the embarked AP cost)
+   */
+  private findSeaPath(fromDock: HexTile, toDock: HexTile): PathResult | null {
+    const result = findPath(
+      fromDock,
+      toDock,
+      this.createPathfindingMap(tile => isWater(tile.terrain) || tile === toDock),
+      false, // Don't require explored (traders can go anywhere)
+      true // Aboard the ship
+    );
+    return result.found ? result : null;
+  }
+  
+  /**
+   * Pathfinding over the grid, limited to the tiles a leg may use
+   */
+  private createPathfindingMap(canEnter: (tile: HexTile) => boolean): IPathfindingMap {
+    const directions = [
+      { dcol: 1, drow: 0 },
+      { dcol: -1, drow: 0 },
+      { dcol: 0, drow: 1 },
+      { dcol: 0, drow: -1 },
+      { dcol: 1, drow: -1 },
+      { dcol: -1, drow: 1 },
+    ];
+    return {
+      getNeighbors: (hex) => {
+        const neighbors: HexTile[] = [];
+        for (const dir of directions) {
+          const neighbor = this.grid.getHex({ col: hex.col + dir.dcol, row: hex.row + dir.drow });
+          if (neighbor && canEnter(neighbor)) neighbors.push(neighbor);
+        }
+        return neighbors;
+      },
+      hexDistance: (a, b) => {
+        const dc = Math.abs(a.col - b.col);
+        const dr = Math.abs(a.row - b.row);
+        return Math.max(dc, dr, Math.abs(dc - dr));
+      }
+    };
+  }
+  
+  /**
+   * Assemble a route from its path
+   */
+  private buildRoute(from: number, to: number, path: HexTile[], cost: number, bySea: boolean): TradeRoute | null {
+    if (path.length === 0) return null;
     
     // Check how much of the path is on roads
-    const roadTiles = pathResult.path.filter(tile => tile.hasRoad).length;
-    const onRoad = roadTiles > pathResult.path.length * 0.5; // >50% on roads
+    const roadTiles = path.filter(tile => tile.hasRoad).length;
+    const onRoad = roadTiles > path.length * 0.5; // >50% on roads
     
     return {
-      id: this.getRouteId(from, to),
+      id: this.getRouteId(from, to, bySea),
       from,
       to,
-      path: pathResult.path,
-      distance: pathResult.path.length,
+      path,
+      distance: path.length,
+      cost,
+      bySea,
       onRoad,
-      danger: 0, // Future: calculate based on terrain, distance from settlements
+      danger: this.calculateDanger(path),
     };
   }
   
+  /**
+   * Average bandit danger of the tiles along a path (bandits don't sail)
+   */
+  private calculateDanger(path: HexTile[]): number {
+    if (path.length === 0) return 0;
+    const total = path.reduce((sum, tile) => sum + (isWater(tile.terrain) ? 0 : this.getTileDanger(tile)), 0);
+    return total / path.length;
+  }
+  
+  /**
+   * Recalculate the danger of cached routes (call when camps or patrols change)
+   */
+  refreshDanger(): void {
+    for (const route of this.routes.values()) {
+      route.danger = this.calculateDanger(route.path);
+    }
+  }
+  
   /**
    * Generate unique route ID
    */
-  private getRouteId(from: number, to: number): string {
-    return `${from}_to_${to}`;
+  private getRouteId(from: number, to: number, bySea: boolean = false): string {
+    return bySea ? `${from}_to_${to}_by_sea` : `${from}_to_${to}`;
   }
   
   /**
@@ -128,6 +306,7 @@ export class TradeRouteManager {
    */
   clearCache(): void {
     this.routes.clear();
+    this.failedRoutes.clear();
   }
   
   /**
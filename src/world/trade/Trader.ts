@@ -1,6 +1,9 @@
 import { HexTile } from "../HexTile";
 import { ResourceType } from "../Resource";
 import { GoodType } from "../Goods";
+import { SeededRandom } from "../../utils/random";
+import { CaravanRoute, copyCaravanRoute } from "./Caravan";
+import { getMaterialWeight } from "../ProductionRecipe";
 
 /**
  * Material type can be either a Resource or a Good
@@ -13,7 +16,7 @@ export type MaterialType = ResourceType | GoodType;
 export interface TraderInventory {
   goods: Map<GoodType, number>;
   resources: Map<ResourceType, number>;
-  capacity: number; // Max carrying capacity
+  capacity: number; // Max carried weight
 }
 
 /**
@@ -42,6 +45,45 @@ export type TraderState =
   | "selling"
   | "returning_home";
 
+/**
+ * Serializable snapshot of a trader (used by save games).
+ * Tiles are stored as grid coordinates and resolved again on load.
+ */
+export interface TraderSaveState {
+  id: string;
+  name: string;
+  homeSettlement: number;
+  currentTile: { col: number; row: number };
+  currentSettlement: number | null;
+  path: Array<{ col: number; row: number }>;
+  ap: number;
+  maxAP: number;
+  inventory: {
+    goods: Array<[GoodType, number]>;
+    resources: Array<[ResourceType, number]>;
+    capacity: number;
+  };
+  currentContract: TradeContract | null;
+  money: number;
+  totalProfitEarned: number;
+  state: TraderState;
+  personId: string;
+  tradingSkill: number;
+  escorted?: boolean;
+  ship?: boolean;
+  route?: CaravanRoute;
+}
+
+/**
+ * Weight an unskilled trader can carry (skill adds up to as much again)
+ */
+export const BASE_CARRY_CAPACITY = 150;
+
+/**
+ * Weight a merchant ship's hold carries
+ */
+export const SHIP_CARRY_CAPACITY = 600;
+
 /**
  * A trader that moves goods between settlements
  */
@@ -64,6 +106,9 @@ export class Trader {
   currentContract: TradeContract | null;
   money: number; // Gold for buying goods
   totalProfitEarned: number; // Lifetime profit
+  escorted: boolean; // Guards hired by the home settlement travel along
+  ship: boolean; // Sails a ship from the home port (sea routes, bigger hold)
+  route: CaravanRoute | null; // Set for caravans owned by the player
   
   // State
   state: TraderState;
@@ -99,17 +144,28 @@ export class Trader {
     this.currentContract = null;
     this.money = startingCapital; // Starting capital from settlement treasury
     this.totalProfitEarned = 0;
+    this.escorted = false;
+    this.ship = false;
+    this.route = null;
     this.state = "idle";
     this.personId = personId;
     this.tradingSkill = tradingSkill;
   }
   
   /**
-   * Calculate carrying capacity based on skill
+   * Calculate carrying capacity (weight) based on skill
    */
   private calculateCapacity(skill: number): number {
     // Base 150, up to 300 at max skill (100 skill = +150)
-    return 150 + Math.floor(skill * 1.5);
+    return BASE_CARRY_CAPACITY + Math.floor(skill * 1.5);
+  }
+  
+  /**
+   * Take command of a ship: sea routes open up and the hold replaces the pack animals
+   */
+  boardShip(): void {
+    this.ship = true;
+    this.inventory.capacity = Math.max(this.inventory.capacity, SHIP_CARRY_CAPACITY);
   }
   
   /**
@@ -117,27 +173,36 @@ export class Trader {
    */
   getCurrentLoad(): number {
     let total = 0;
-    for (const amount of this.inventory.goods.values()) {
-      total += amount;
+    for (const [goodType, amount] of this.inventory.goods) {
+      total += amount * getMaterialWeight(goodType);
     }
-    for (const amount of this.inventory.resources.values()) {
-      total += amount;
+    for (const [resourceType, amount] of this.inventory.resources) {
+      total += amount * getMaterialWeight(resourceType);
     }
     return total;
   }
   
   /**
-   * Check if can carry more
+   * Check if this many units of a material fit in the remaining capacity
    */
-  canCarry(amount: number): boolean {
-    return this.getCurrentLoad() + amount <= this.inventory.capacity;
+  canCarry(material: MaterialType, amount: number): boolean {
+    return this.getCurrentLoad() + amount * getMaterialWeight(material) <= this.inventory.capacity;
+  }
+  
+  /**
+   * Most units of a material that still fit
+   */
+  getRoomFor(material: MaterialType): number {
+    const weight = getMaterialWeight(material);
+    const free = Math.max(0, this.inventory.capacity - this.getCurrentLoad());
+    return weight > 0 ? Math.floor(free / weight) : Infinity;
   }
   
   /**
    * Add material to inventory
    */
   addMaterial(material: MaterialType, amount: number): boolean {
-    if (!this.canCarry(amount)) return false;
+    if (!this.canCarry(material, amount)) return false;
     
     // Check if it's a Good or Resource
     if (Object.values(GoodType).includes(material as GoodType)) {
@@ -172,6 +237,35 @@ export class Trader {
     return true;
   }
   
+  /**
+   * Lose a share of every carried material (e.g. to bandits)
+   * Returns the number of units lost
+   */
+  loseCargo(share: number): number {
+    let lost = 0;
+    for (const [goodType, amount] of this.inventory.goods) {
+      const loss = Math.ceil(amount * share);
+      this.inventory.goods.set(goodType, amount - loss);
+      lost += loss;
+    }
+    for (const [resourceType, amount] of this.inventory.resources) {
+      const loss = Math.ceil(amount * share);
+      this.inventory.resources.set(resourceType, amount - loss);
+      lost += loss;
+    }
+    return lost;
+  }
+  
+  /**
+   * Get carried amount of a material
+   */
+  getMaterialAmount(material: MaterialType): number {
+    if (Object.values(GoodType).includes(material as GoodType)) {
+      return this.inventory.goods.get(material as GoodType) || 0;
+    }
+    return this.inventory.resources.get(material as ResourceType) || 0;
+  }
+  
   /**
    * Reset AP at the start of a new turn
    */
@@ -195,13 +289,81 @@ export class Trader {
     this.inventory.goods.clear();
     this.inventory.resources.clear();
   }
+  
+  /**
+   * Capture the trader's state for saving
+   */
+  serialize(): TraderSaveState {
+    return {
+      id: this.id,
+      name: this.name,
+      homeSettlement: this.homeSettlement,
+      currentTile: { col: this.currentTile.col, row: this.currentTile.row },
+      currentSettlement: this.currentSettlement,
+      path: this.path.map(tile => ({ col: tile.col, row: tile.row })),
+      ap: this.ap,
+      maxAP: this.maxAP,
+      inventory: {
+        goods: Array.from(this.inventory.goods.entries()),
+        resources: Array.from(this.inventory.resources.entries()),
+        capacity: this.inventory.capacity,
+      },
+      currentContract: this.currentContract ? { ...this.currentContract } : null,
+      money: this.money,
+      totalProfitEarned: this.totalProfitEarned,
+      state: this.state,
+      personId: this.personId,
+      tradingSkill: this.tradingSkill,
+      escorted: this.escorted,
+      ship: this.ship,
+      route: this.route ? copyCaravanRoute(this.route) : undefined,
+    };
+  }
+  
+  /**
+   * Rebuild a trader from a saved snapshot
+   * @param getTile - Resolves saved coordinates back to grid tiles
+   */
+  static deserialize(
+    state: TraderSaveState,
+    getTile: (coords: { col: number; row: number }) => HexTile | undefined
+  ): Trader | null {
+    const currentTile = getTile(state.currentTile);
+    if (!currentTile) return null;
+    
+    const trader = new Trader(
+      state.id,
+      state.name,
+      state.homeSettlement,
+      currentTile,
+      state.personId,
+      state.tradingSkill,
+      state.money
+    );
+    trader.currentSettlement = state.currentSettlement;
+    trader.path = state.path
+      .map(coords => getTile(coords))
+      .filter((tile): tile is HexTile => tile !== undefined);
+    trader.ap = state.ap;
+    trader.maxAP = state.maxAP;
+    trader.inventory = {
+      goods: new Map(state.inventory.goods),
+      resources: new Map(state.inventory.resources),
+      capacity: state.inventory.capacity,
+    };
+    trader.currentContract = state.currentContract ? { ...state.currentContract } : null;
+    trader.totalProfitEarned = state.totalProfitEarned;
+    trader.escorted = state.escorted ?? false;
+    trader.ship = state.ship ?? false;
+    trader.route = state.route ? copyCaravanRoute(state.route) : null;
+    trader.state = state.state;
+    return trader;
+  }
 }
 
 /**
- * Generate a unique trader ID
+ * Generate a unique trader ID (drawn from the simulation stream so runs are reproducible)
  */
-let traderIdCounter = 0;
-export function generateTraderId(): string {
-  traderIdCounter++;
-  return `trader_${traderIdCounter}_${Date.now()}`;
+export function generateTraderId(rng: SeededRandom): string {
+  return `trader_${rng.id()}`;
 }